@@ -35,7 +35,7 @@ describe('Fix 2e: Type Safety - Remove Hardcoded `any` Types', () => {
   describe('TS-002: Metrics update type safety', () => {
     it('should validate connection as valid metrics type', () => {
       const metricsType = 'connection';
-      const validTypes = ['connection', 'session', 'duration'];
+      const validTypes = ['connection', 'duration'];
       expect(validTypes).toContain(metricsType);
     });
 
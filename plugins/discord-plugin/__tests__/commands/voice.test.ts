@@ -1,12 +1,26 @@
 /**
  * Voice command tests
- * Tests for /voice ask, /voice start, /voice stop commands
+ * Tests for /voice ask, /voice start, /voice stop, /voice talk, /voice history, /voice actions, /voice transcript,
+ * /voice config, /voice prefs commands
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { CommandHandler } from '../../src/handlers/CommandHandler.js';
 import { GuildStateManager } from '../../src/state/GuildStateManager.js';
-import { VoiceAskPayload, VoiceStartPayload, VoiceStopPayload, VoiceMode, CommandResult } from '../../src/types.js';
+import { PipelineAdapter } from '../../src/integration/PipelineAdapter.js';
+import { UserPreferenceManager } from '../../src/state/UserPreferenceManager.js';
+import {
+  VoiceAskPayload,
+  VoiceStartPayload,
+  VoiceStopPayload,
+  VoiceMode,
+  PipelineStatus,
+  CommandResult,
+  TALK_BUTTON_ID,
+  DEFAULT_ALLOWED_ACTIONS,
+  DiscordPluginError,
+  DiscordPluginErrorType,
+} from '../../src/types.js';
 
 describe('Voice Commands', () => {
   let commandHandler: CommandHandler;
@@ -346,4 +360,556 @@ describe('Voice Commands', () => {
       results.forEach((r) => expect(r).toBeDefined());
     });
   });
+
+  // ============================================
+  // /voice actions tests
+  // ============================================
+
+  describe('/voice actions command', () => {
+    it('should show the default allow-list', async () => {
+      const result = await commandHandler.handle('voice-actions', { userId: 'user123', guildId: 'guild123' });
+
+      expect(result.success).toBe(true);
+      expect(result.data.allowedActions).toEqual(DEFAULT_ALLOWED_ACTIONS);
+      expect(result.data.allowedActions).not.toContain('post-message');
+    });
+
+    it('should replace the allow-list', async () => {
+      const result = await commandHandler.handle('voice-actions', {
+        userId: 'user123',
+        guildId: 'guild123',
+        allow: ['post-message', 'set-volume', 'post-message'],
+        canManageGuild: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(stateManager.getGuildState('guild123')?.allowedActions).toEqual(['post-message', 'set-volume']);
+    });
+
+    it('should reject unknown action types', async () => {
+      const result = await commandHandler.handle('voice-actions', {
+        userId: 'user123',
+        guildId: 'guild123',
+        allow: ['set-volume', 'ban-user'],
+        canManageGuild: true,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('ban-user');
+      expect(stateManager.getGuildState('guild123')?.allowedActions).toBeUndefined();
+    });
+
+    it('should reject allow-list changes without the Manage Server permission', async () => {
+      const result = await commandHandler.handle('voice-actions', {
+        userId: 'user123',
+        guildId: 'guild123',
+        allow: ['post-message'],
+      });
+
+      expect(result.success).toBe(false);
+      expect((result.error as DiscordPluginError).type).toBe(DiscordPluginErrorType.NoPermission);
+      expect(stateManager.getGuildState('guild123')?.allowedActions).toBeUndefined();
+    });
+  });
+
+  // ============================================
+  // /voice transcript tests (3 test cases)
+  // ============================================
+
+  describe('/voice transcript command', () => {
+    const base = { userId: 'user123', guildId: 'guild123' };
+    const manager = { ...base, canManageGuild: true };
+
+    it('should enable the transcript in a text channel', async () => {
+      const off = await commandHandler.handle('voice-transcript', base);
+      const result = await commandHandler.handle('voice-transcript', { ...manager, channelId: 'text123' });
+
+      expect(off.message).toBe('Voice transcripts are off');
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('<#text123>');
+      expect(stateManager.getGuildState('guild123')?.transcriptChannelId).toBe('text123');
+    });
+
+    it('should turn the transcript off', async () => {
+      stateManager.getOrCreateGuildState('guild123').transcriptChannelId = 'text123';
+
+      const result = await commandHandler.handle('voice-transcript-off', manager);
+      const again = await commandHandler.handle('voice-transcript-off', manager);
+
+      expect(result.success).toBe(true);
+      expect(stateManager.getGuildState('guild123')?.transcriptChannelId).toBeUndefined();
+      expect(again.success).toBe(false);
+    });
+
+    it('should reject changes without the Manage Server permission', async () => {
+      const enable = await commandHandler.handle('voice-transcript', { ...base, channelId: 'text123' });
+      stateManager.getOrCreateGuildState('guild123').transcriptChannelId = 'text456';
+      const off = await commandHandler.handle('voice-transcript-off', base);
+
+      expect(enable.success).toBe(false);
+      expect((enable.error as DiscordPluginError).type).toBe(DiscordPluginErrorType.NoPermission);
+      expect(off.success).toBe(false);
+      expect(stateManager.getGuildState('guild123')?.transcriptChannelId).toBe('text456');
+    });
+  });
+
+  // ============================================
+  // /voice wake tests (3 test cases)
+  // ============================================
+
+  describe('/voice wake command', () => {
+    const base = { userId: 'user123', guildId: 'guild123' };
+
+    it('should set the wake phrase for members who can manage the server', async () => {
+      const none = await commandHandler.handle('voice-wake', base);
+      const result = await commandHandler.handle('voice-wake', {
+        ...base,
+        phrase: '  hey   Rue ',
+        canManageGuild: true,
+      });
+
+      expect(none.data.wakePhrase).toBeNull();
+      expect(result.success).toBe(true);
+      expect(stateManager.getGuildState('guild123')?.wakePhrase).toBe('hey Rue');
+    });
+
+    it('should remove the wake phrase', async () => {
+      stateManager.getOrCreateGuildState('guild123').wakePhrase = 'hey Rue';
+
+      const result = await commandHandler.handle('voice-wake-off', { ...base, canManageGuild: true });
+      const again = await commandHandler.handle('voice-wake-off', { ...base, canManageGuild: true });
+
+      expect(result.success).toBe(true);
+      expect(stateManager.getGuildState('guild123')?.wakePhrase).toBeUndefined();
+      expect(again.success).toBe(false);
+    });
+
+    it('should reject changes without the Manage Server permission', async () => {
+      stateManager.getOrCreateGuildState('guild123').wakePhrase = 'hey Rue';
+
+      const set = await commandHandler.handle('voice-wake', { ...base, phrase: 'ok bot' });
+      const off = await commandHandler.handle('voice-wake-off', base);
+
+      expect(set.success).toBe(false);
+      expect((set.error as DiscordPluginError).type).toBe(DiscordPluginErrorType.NoPermission);
+      expect(off.success).toBe(false);
+      expect(stateManager.getGuildState('guild123')?.wakePhrase).toBe('hey Rue');
+    });
+  });
+
+  // ============================================
+  // /voice config tests (5 test cases)
+  // ============================================
+
+  describe('/voice config command', () => {
+    const base = { userId: 'user123', guildId: 'guild123' };
+    const manager = { ...base, canManageGuild: true };
+
+    it('should show defaults for unset settings', async () => {
+      const result = await commandHandler.handle('voice-config', base);
+
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('**voice**: default');
+      expect(result.data.persona).toEqual({});
+    });
+
+    it('should store validated settings on the guild state', async () => {
+      await commandHandler.handle('voice-config-set', { ...manager, setting: 'voice', value: 'shimmer' });
+      await commandHandler.handle('voice-config-set', { ...manager, setting: 'rate', value: '1.25' });
+      await commandHandler.handle('voice-config-set', { ...manager, setting: 'language', value: 'DE' });
+      const result = await commandHandler.handle('voice-config-set', {
+        ...manager,
+        setting: 'prompt',
+        value: 'You are a cheerful pirate.',
+      });
+
+      expect(result.success).toBe(true);
+      expect(stateManager.getGuildState('guild123')?.persona).toEqual({
+        voiceId: 'shimmer',
+        speakingRate: 1.25,
+        language: 'de',
+        systemPrompt: 'You are a cheerful pirate.',
+      });
+      const shown = await commandHandler.handle('voice-config', base);
+      expect(shown.message).toContain('**rate**: 1.25');
+    });
+
+    it('should reject unknown settings and invalid values', async () => {
+      const results = await Promise.all([
+        commandHandler.handle('voice-config-set', { ...manager, setting: 'pitch', value: '2' }),
+        commandHandler.handle('voice-config-set', { ...manager, setting: 'stability', value: '1.5' }),
+        commandHandler.handle('voice-config-set', { ...manager, setting: 'voice', value: '../etc/passwd' }),
+        commandHandler.handle('voice-config-set', { ...manager, setting: 'language', value: 'english' }),
+        commandHandler.handle('voice-config-set', { ...manager, setting: 'rate' }),
+      ]);
+
+      expect(results.map((result) => result.success)).toEqual([false, false, false, false, false]);
+      expect(results[0].message).toContain('Unknown voice setting: pitch');
+      expect(results[1].message).toBe('stability must be a number between 0 and 1');
+      expect(stateManager.getGuildState('guild123')?.persona).toBeUndefined();
+    });
+
+    it('should reset one setting or all of them', async () => {
+      stateManager.getOrCreateGuildState('guild123').persona = { voiceId: 'shimmer', stability: 0.3 };
+
+      await commandHandler.handle('voice-config-reset', { ...manager, setting: 'voice' });
+      expect(stateManager.getGuildState('guild123')?.persona).toEqual({ stability: 0.3 });
+
+      const result = await commandHandler.handle('voice-config-reset', manager);
+      expect(result.success).toBe(true);
+      expect(stateManager.getGuildState('guild123')?.persona).toBeUndefined();
+    });
+
+    it('should reject changes without the Manage Server permission', async () => {
+      stateManager.getOrCreateGuildState('guild123').persona = { systemPrompt: 'Be concise.' };
+
+      const set = await commandHandler.handle('voice-config-set', {
+        ...base,
+        setting: 'prompt',
+        value: 'Insult everyone.',
+      });
+      const reset = await commandHandler.handle('voice-config-reset', base);
+
+      expect(set.success).toBe(false);
+      expect((set.error as DiscordPluginError).type).toBe(DiscordPluginErrorType.NoPermission);
+      expect(reset.success).toBe(false);
+      expect(stateManager.getGuildState('guild123')?.persona).toEqual({ systemPrompt: 'Be concise.' });
+    });
+  });
+
+  // ============================================
+  // /voice prefs tests (3 test cases)
+  // ============================================
+
+  describe('/voice prefs command', () => {
+    const base = { userId: 'user123', guildId: 'guild123' };
+    let preferences: UserPreferenceManager;
+    let adapter: { setUserPreferences: ReturnType<typeof vi.fn> };
+
+    beforeEach(() => {
+      preferences = new UserPreferenceManager();
+      vi.spyOn(preferences, 'saveState').mockResolvedValue();
+      adapter = { setUserPreferences: vi.fn() };
+      commandHandler = new CommandHandler(stateManager, {}, adapter as unknown as PipelineAdapter, preferences);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should store the caller's preferences and apply them to the pipeline", async () => {
+      await commandHandler.handle('voice-prefs-set', { ...base, setting: 'language', value: 'FR' });
+      const result = await commandHandler.handle('voice-prefs-set', { ...base, setting: 'voice', value: 'amelie' });
+
+      expect(result.success).toBe(true);
+      expect(preferences.getPreferences('user123')).toEqual({ language: 'fr', voiceId: 'amelie' });
+      expect(preferences.saveState).toHaveBeenCalledTimes(2);
+      expect(adapter.setUserPreferences).toHaveBeenLastCalledWith('user123', { language: 'fr', voiceId: 'amelie' });
+
+      const shown = await commandHandler.handle('voice-prefs', base);
+      expect(shown.message).toContain('**language**: fr');
+    });
+
+    it('should reject unknown preferences and invalid values', async () => {
+      const unknown = await commandHandler.handle('voice-prefs-set', { ...base, setting: 'rate', value: '2' });
+      const invalid = await commandHandler.handle('voice-prefs-set', { ...base, setting: 'language', value: 'french' });
+
+      expect(unknown.success).toBe(false);
+      expect(unknown.message).toContain('Unknown preference: rate');
+      expect(invalid.success).toBe(false);
+      expect(preferences.getPreferences('user123')).toBeNull();
+    });
+
+    it('should reset preferences back to the server defaults', async () => {
+      preferences.setPreferences('user123', { language: 'fr', voiceId: 'amelie' });
+
+      await commandHandler.handle('voice-prefs-reset', { ...base, setting: 'voice' });
+      expect(preferences.getPreferences('user123')).toEqual({ language: 'fr' });
+
+      await commandHandler.handle('voice-prefs-reset', base);
+      expect(preferences.getPreferences('user123')).toBeNull();
+      expect(adapter.setUserPreferences).toHaveBeenLastCalledWith('user123', undefined);
+    });
+  });
+
+  // ============================================
+  // Pipeline adapter routing (4 test cases)
+  // ============================================
+
+  describe('With pipeline adapter', () => {
+    let adapter: {
+      startListening: ReturnType<typeof vi.fn>;
+      stopListening: ReturnType<typeof vi.fn>;
+      askQuestion: ReturnType<typeof vi.fn>;
+      isPipelineReady: ReturnType<typeof vi.fn>;
+      toggleTalk: ReturnType<typeof vi.fn>;
+      getConversationHistory: ReturnType<typeof vi.fn>;
+      clearConversationHistory: ReturnType<typeof vi.fn>;
+      setPersona: ReturnType<typeof vi.fn>;
+      setWakePhrase: ReturnType<typeof vi.fn>;
+    };
+
+    beforeEach(() => {
+      adapter = {
+        startListening: vi.fn(async () => {}),
+        stopListening: vi.fn(async () => {}),
+        askQuestion: vi.fn(async (_guildId: string, question: string) => `Answer to ${question}`),
+        isPipelineReady: vi.fn(() => false),
+        toggleTalk: vi.fn(async () => true),
+        getConversationHistory: vi.fn(() => []),
+        clearConversationHistory: vi.fn(() => 4),
+        setPersona: vi.fn(),
+        setWakePhrase: vi.fn(),
+      };
+      commandHandler = new CommandHandler(stateManager, {}, adapter as unknown as PipelineAdapter);
+    });
+
+    it('should start a pipeline session on /voice start', async () => {
+      const result = await commandHandler.handle('voice-start', {
+        userId: 'user123',
+        guildId: 'guild123',
+        channelId: 'channel123',
+      });
+
+      expect(result.success).toBe(true);
+      expect(adapter.startListening).toHaveBeenCalledWith('guild123', 'channel123', {
+        userId: 'user123',
+        pushToTalk: false,
+      });
+    });
+
+    it("should pass the guild's wake phrase to the pipeline", async () => {
+      const state = stateManager.getOrCreateGuildState('guild123');
+      state.wakePhrase = 'hey Rue';
+      state.wakeFollowUpMs = 20000;
+
+      await commandHandler.handle('voice-start', { userId: 'user123', guildId: 'guild123', channelId: 'channel123' });
+
+      expect(adapter.startListening).toHaveBeenCalledWith('guild123', 'channel123', {
+        userId: 'user123',
+        wakePhrase: 'hey Rue',
+        wakeFollowUpMs: 20000,
+        pushToTalk: false,
+      });
+    });
+
+    it("should apply wake phrase changes to the guild's session", async () => {
+      const state = stateManager.getOrCreateGuildState('guild123');
+      state.wakeFollowUpMs = 20000;
+      const base = { userId: 'user123', guildId: 'guild123', canManageGuild: true };
+
+      await commandHandler.handle('voice-wake', { ...base, phrase: 'hey Rue' });
+      await commandHandler.handle('voice-wake-off', base);
+
+      expect(adapter.setWakePhrase).toHaveBeenNthCalledWith(1, 'guild123', 'hey Rue', 20000);
+      expect(adapter.setWakePhrase).toHaveBeenNthCalledWith(2, 'guild123', undefined, 20000);
+    });
+
+    it("should start sessions with the guild's persona and update it live", async () => {
+      stateManager.getOrCreateGuildState('guild123').persona = { voiceId: 'shimmer' };
+
+      await commandHandler.handle('voice-start', { userId: 'user123', guildId: 'guild123', channelId: 'channel123' });
+      await commandHandler.handle('voice-config-set', {
+        userId: 'user123',
+        guildId: 'guild123',
+        setting: 'similarity',
+        value: '0.9',
+        canManageGuild: true,
+      });
+
+      expect(adapter.startListening).toHaveBeenCalledWith('guild123', 'channel123', {
+        userId: 'user123',
+        pushToTalk: false,
+        persona: { voiceId: 'shimmer' },
+      });
+      expect(adapter.setPersona).toHaveBeenCalledWith('guild123', { voiceId: 'shimmer', similarity: 0.9 });
+    });
+
+    it('should start push-to-talk with a Talk button', async () => {
+      const result = await commandHandler.handle('voice-start', {
+        userId: 'user123',
+        guildId: 'guild123',
+        channelId: 'channel123',
+        mode: VoiceMode.PushToTalk,
+      });
+
+      expect(result.success).toBe(true);
+      expect(adapter.startListening).toHaveBeenCalledWith('guild123', 'channel123', {
+        userId: 'user123',
+        pushToTalk: true,
+      });
+      expect(result.data.components[0].components[0].custom_id).toBe(TALK_BUTTON_ID);
+      expect(stateManager.getGuildState('guild123')?.voiceMode).toBe(VoiceMode.PushToTalk);
+    });
+
+    it('should switch modes without leaving the channel', async () => {
+      const state = stateManager.getOrCreateGuildState('guild123');
+      state.channelId = 'channel123';
+      state.voiceMode = VoiceMode.Listening;
+
+      const result = await commandHandler.handle('voice-start', {
+        userId: 'user123',
+        guildId: 'guild123',
+        channelId: 'channel123',
+        mode: VoiceMode.PushToTalk,
+      });
+
+      expect(result.success).toBe(true);
+      expect(adapter.startListening).toHaveBeenCalledTimes(1);
+      expect(state.voiceMode).toBe(VoiceMode.PushToTalk);
+    });
+
+    it('should toggle push-to-talk capture on /voice talk', async () => {
+      const state = stateManager.getOrCreateGuildState('guild123');
+      state.channelId = 'channel123';
+      state.voiceMode = VoiceMode.PushToTalk;
+      state.activeUsers.add('user123');
+
+      const first = await commandHandler.handle(TALK_BUTTON_ID, { userId: 'user123', guildId: 'guild123' });
+      adapter.toggleTalk.mockResolvedValueOnce(false);
+      const second = await commandHandler.handle('voice-talk', { userId: 'user123', guildId: 'guild123' });
+
+      expect(first.data.capturing).toBe(true);
+      expect(second.success).toBe(true);
+      expect(second.data.capturing).toBe(false);
+      expect(adapter.toggleTalk).toHaveBeenCalledWith('guild123', 'user123');
+    });
+
+    it('should reject /voice talk outside push-to-talk mode', async () => {
+      const state = stateManager.getOrCreateGuildState('guild123');
+      state.channelId = 'channel123';
+      state.voiceMode = VoiceMode.Listening;
+      state.activeUsers.add('user123');
+
+      const result = await commandHandler.handle('voice-talk', { userId: 'user123', guildId: 'guild123' });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Push-to-talk is not enabled');
+      expect(adapter.toggleTalk).not.toHaveBeenCalled();
+    });
+
+    it('should return to push-to-talk after /voice ask', async () => {
+      const state = stateManager.getOrCreateGuildState('guild123');
+      state.voiceMode = VoiceMode.PushToTalk;
+      state.activeUsers.add('user123');
+
+      await commandHandler.handle('voice-ask', {
+        question: 'Hello?',
+        userId: 'user123',
+        guildId: 'guild123',
+        channelId: 'channel123',
+      });
+
+      expect(state.voiceMode).toBe(VoiceMode.PushToTalk);
+      expect(adapter.startListening).toHaveBeenCalledWith('guild123', 'channel123', {
+        userId: 'user123',
+        pushToTalk: true,
+      });
+    });
+
+    it('should end the pipeline session on /voice stop', async () => {
+      const state = stateManager.getOrCreateGuildState('guild123');
+      state.channelId = 'channel123';
+      state.voiceMode = VoiceMode.Listening;
+
+      await commandHandler.handle('voice-stop', { userId: 'user123', guildId: 'guild123' });
+
+      expect(adapter.stopListening).toHaveBeenCalledWith('guild123');
+    });
+
+    it('should return the pipeline answer on /voice ask', async () => {
+      const state = stateManager.getOrCreateGuildState('guild123');
+      state.activeUsers.add('user123');
+
+      const result = await commandHandler.handle('voice-ask', {
+        question: 'What time is it?',
+        userId: 'user123',
+        guildId: 'guild123',
+        channelId: 'channel123',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.response).toBe('Answer to What time is it?');
+      expect(adapter.startListening).toHaveBeenCalledWith('guild123', 'channel123', {
+        userId: 'user123',
+        pushToTalk: false,
+      });
+    });
+
+    it("should keep the guild's wake phrase on sessions opened by /voice ask", async () => {
+      const state = stateManager.getOrCreateGuildState('guild123');
+      state.wakePhrase = 'hey Rue';
+      state.wakeFollowUpMs = 20000;
+      state.activeUsers.add('user123');
+
+      await commandHandler.handle('voice-ask', {
+        question: 'Hello?',
+        userId: 'user123',
+        guildId: 'guild123',
+        channelId: 'channel123',
+      });
+
+      expect(adapter.startListening).toHaveBeenCalledWith('guild123', 'channel123', {
+        userId: 'user123',
+        wakePhrase: 'hey Rue',
+        wakeFollowUpMs: 20000,
+        pushToTalk: false,
+      });
+    });
+
+    it('should show the conversation history on /voice history', async () => {
+      const state = stateManager.getOrCreateGuildState('guild123');
+      state.channelId = 'channel123';
+      adapter.getConversationHistory.mockReturnValueOnce([
+        { role: 'user', text: "what's the weather", userId: 'user123', timestamp: 1 },
+        { role: 'assistant', text: 'x'.repeat(500), timestamp: 1 },
+      ]);
+
+      const result = await commandHandler.handle('voice-history', { userId: 'user123', guildId: 'guild123' });
+
+      expect(result.success).toBe(true);
+      expect(adapter.getConversationHistory).toHaveBeenCalledWith('guild123', 'channel123');
+      expect(result.message).toContain("**<@user123>**: what's the weather");
+      expect(result.message).toContain(`**Rue**: ${'x'.repeat(199)}…`);
+      expect(result.data.turns).toHaveLength(2);
+    });
+
+    it('should clear the conversation history on /voice history clear', async () => {
+      const result = await commandHandler.handle('voice-history-clear', {
+        userId: 'user123',
+        guildId: 'guild123',
+        channelId: 'channel456',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.cleared).toBe(4);
+      expect(adapter.clearConversationHistory).toHaveBeenCalledWith('guild123', 'channel456');
+    });
+
+    it('should reject /voice history when voice mode is off', async () => {
+      const result = await commandHandler.handle('voice-history', { userId: 'user123', guildId: 'guild123' });
+
+      expect(result.success).toBe(false);
+      expect(adapter.getConversationHistory).not.toHaveBeenCalled();
+    });
+
+    it('should record pipeline failures on the guild state', async () => {
+      adapter.askQuestion.mockRejectedValueOnce(new Error('Agent unavailable'));
+      const state = stateManager.getOrCreateGuildState('guild123');
+      state.activeUsers.add('user123');
+
+      const result = await commandHandler.handle('voice-ask', {
+        question: 'Hello?',
+        userId: 'user123',
+        guildId: 'guild123',
+        channelId: 'channel123',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Agent unavailable');
+      expect(state.pipelineStatus).toBe(PipelineStatus.Error);
+      expect(state.errorCount).toBe(1);
+      expect(state.lastError).toBe('Agent unavailable');
+    });
+  });
 });
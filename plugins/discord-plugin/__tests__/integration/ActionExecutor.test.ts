@@ -0,0 +1,118 @@
+/**
+ * Action Executor Tests
+ * Allow-list enforcement and execution of agent actions
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ActionExecutor } from '../../src/integration/ActionExecutor.js';
+import { GuildStateManager } from '../../src/state/GuildStateManager.js';
+import { PipelineAdapter } from '../../src/integration/PipelineAdapter.js';
+import { IGuildControls, VoiceMode } from '../../src/types.js';
+
+describe('ActionExecutor', () => {
+  let stateManager: GuildStateManager;
+  let adapter: {
+    stopListening: ReturnType<typeof vi.fn>;
+    setVoice: ReturnType<typeof vi.fn>;
+  };
+  let controls: {
+    leaveVoiceChannel: ReturnType<typeof vi.fn>;
+    setVolume: ReturnType<typeof vi.fn>;
+    postMessage: ReturnType<typeof vi.fn>;
+  };
+  let executor: ActionExecutor;
+
+  beforeEach(() => {
+    stateManager = new GuildStateManager();
+    adapter = {
+      stopListening: vi.fn(async () => {}),
+      setVoice: vi.fn(),
+    };
+    controls = {
+      leaveVoiceChannel: vi.fn(async () => {}),
+      setVolume: vi.fn(async () => {}),
+      postMessage: vi.fn(async () => {}),
+    };
+    executor = new ActionExecutor(
+      stateManager,
+      adapter as unknown as PipelineAdapter,
+      controls as unknown as IGuildControls,
+    );
+
+    const state = stateManager.getOrCreateGuildState('guild1');
+    state.voiceMode = VoiceMode.Listening;
+    state.channelId = 'channel1';
+  });
+
+  afterEach(() => {
+    stateManager.clear();
+  });
+
+  it('executes allowed actions', async () => {
+    const results = await executor.execute('guild1', [
+      { type: 'change-voice', voiceId: 'shimmer' },
+      { type: 'set-volume', volume: 0.5 },
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['executed', 'executed']);
+    expect(adapter.setVoice).toHaveBeenCalledWith('guild1', 'shimmer');
+    expect(controls.setVolume).toHaveBeenCalledWith('guild1', 0.5);
+  });
+
+  it("denies actions outside the guild's allow-list", async () => {
+    stateManager.getGuildState('guild1')!.allowedActions = ['set-volume'];
+
+    const results = await executor.execute('guild1', [
+      { type: 'post-message', content: 'hello' },
+      { type: 'set-volume', volume: 1.5 },
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['denied', 'executed']);
+    expect(controls.postMessage).not.toHaveBeenCalled();
+  });
+
+  it('does not post messages unless the guild enables it', async () => {
+    const [result] = await executor.execute('guild1', [{ type: 'post-message', content: 'hello' }]);
+
+    expect(result.status).toBe('denied');
+  });
+
+  it('leaves the channel and still posts to it afterwards', async () => {
+    stateManager.getGuildState('guild1')!.allowedActions = ['leave-channel', 'post-message'];
+
+    const results = await executor.execute('guild1', [
+      { type: 'leave-channel' },
+      { type: 'post-message', content: 'Bye for now!' },
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['executed', 'executed']);
+    expect(adapter.stopListening).toHaveBeenCalledWith('guild1');
+    expect(controls.leaveVoiceChannel).toHaveBeenCalledWith('guild1');
+    expect(controls.postMessage).toHaveBeenCalledWith('guild1', 'channel1', 'Bye for now!');
+    const state = stateManager.getGuildState('guild1')!;
+    expect(state.voiceMode).toBe(VoiceMode.Off);
+    expect(state.channelId).toBeNull();
+  });
+
+  it('reports unsupported and failed actions without stopping', async () => {
+    adapter.setVoice.mockImplementationOnce(() => {
+      throw new Error('Voice mode is not active in this guild');
+    });
+
+    const results = await executor.execute('guild1', [
+      { type: 'play-sound', clip: 'airhorn' },
+      { type: 'change-voice', voiceId: 'nova' },
+      { type: 'set-volume', volume: 1 },
+    ]);
+
+    expect(results).toEqual([
+      { action: { type: 'play-sound', clip: 'airhorn' }, status: 'unsupported' },
+      {
+        action: { type: 'change-voice', voiceId: 'nova' },
+        status: 'failed',
+        error: 'Voice mode is not active in this guild',
+      },
+      { action: { type: 'set-volume', volume: 1 }, status: 'executed' },
+    ]);
+  });
+});
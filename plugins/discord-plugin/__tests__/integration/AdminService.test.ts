@@ -0,0 +1,129 @@
+/**
+ * Admin Service Tests
+ * Guild and session listings and operator actions
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AdminService } from '../../src/integration/AdminService.js';
+import { GuildStateManager } from '../../src/state/GuildStateManager.js';
+import { PipelineAdapter } from '../../src/integration/PipelineAdapter.js';
+import { DiscordPluginErrorType, PipelineStatus, VoiceMode } from '../../src/types.js';
+import type { VoiceConnectionManager } from '../../../voice-extension/src/VoiceConnectionManager.js';
+import type { VoiceSession } from '../../../voice-extension/src/VoiceCommandPipeline.js';
+
+function createSession(sessionId: string, guildId: string): VoiceSession {
+  return {
+    sessionId,
+    userId: 'owner1',
+    guildId,
+    channelId: 'channel1',
+    startTime: 1000,
+    lastActivity: 2000,
+    status: 'active',
+    inputMode: 'continuous',
+    persona: {},
+    metrics: {
+      totalRequests: 3,
+      successfulRequests: 2,
+      failedRequests: 1,
+      avgTranscriptionLatency: 100,
+      avgAgentLatency: 400,
+      avgTtsLatency: 200,
+      avgTotalLatency: 800,
+      avgTimeToFirstAudio: 600,
+      audioFramesProcessed: 50,
+      bytesProcessed: 96000,
+    },
+  };
+}
+
+describe('AdminService', () => {
+  let stateManager: GuildStateManager;
+  let sessions: VoiceSession[];
+  let pipeline: { getActiveSessions: () => VoiceSession[]; getSession: (id: string) => any; endSession: any };
+  let adapter: { getPipeline: () => typeof pipeline; getSessionId: any; stopListening: ReturnType<typeof vi.fn> };
+  let connections: { isConnected: ReturnType<typeof vi.fn>; disconnect: ReturnType<typeof vi.fn> };
+  let admin: AdminService;
+
+  beforeEach(() => {
+    stateManager = new GuildStateManager();
+    vi.spyOn(stateManager, 'saveState').mockResolvedValue();
+
+    sessions = [createSession('session1', 'guild1'), createSession('session2', 'guild2')];
+    pipeline = {
+      getActiveSessions: () => sessions,
+      getSession: (id) => sessions.find((session) => session.sessionId === id),
+      endSession: vi.fn(async () => {}),
+    };
+    adapter = {
+      getPipeline: () => pipeline,
+      getSessionId: vi.fn((guildId: string) => (guildId === 'guild1' ? 'session1' : undefined)),
+      stopListening: vi.fn(async () => {}),
+    };
+    connections = { isConnected: vi.fn((guildId: string) => guildId === 'guild1'), disconnect: vi.fn(async () => {}) };
+    admin = new AdminService(
+      stateManager,
+      adapter as unknown as PipelineAdapter,
+      connections as unknown as VoiceConnectionManager,
+    );
+
+    const state = stateManager.getOrCreateGuildState('guild1');
+    state.voiceMode = VoiceMode.Listening;
+    state.channelId = 'channel1';
+    state.activeUsers.add('user1');
+    state.pipelineStatus = PipelineStatus.Error;
+    state.errorCount = 4;
+    state.lastError = 'Agent request failed';
+  });
+
+  afterEach(() => {
+    stateManager.clear();
+    vi.restoreAllMocks();
+  });
+
+  it('lists guild states and active sessions with their metrics', () => {
+    const [guild] = admin.listGuilds();
+    expect(guild).toMatchObject({ guildId: 'guild1', channelId: 'channel1', activeUsers: ['user1'], errorCount: 4 });
+
+    const listed = admin.listSessions();
+    expect(listed.map((session) => session.sessionId)).toEqual(['session1', 'session2']);
+    expect(listed[0]).not.toHaveProperty('persona');
+    expect(listed[0].metrics.failedRequests).toBe(1);
+
+    expect(new AdminService(stateManager).listSessions()).toEqual([]);
+  });
+
+  it("ends sessions through the adapter when it owns the guild's session", async () => {
+    await admin.endSession('session1');
+    expect(adapter.stopListening).toHaveBeenCalledWith('guild1', 'admin');
+
+    await admin.endSession('session2');
+    expect(pipeline.endSession).toHaveBeenCalledWith('session2', 'admin');
+
+    await expect(admin.endSession('missing')).rejects.toMatchObject({
+      type: DiscordPluginErrorType.SessionNotFound,
+    });
+  });
+
+  it('disconnects a guild and turns its voice mode off', async () => {
+    await admin.disconnectGuild('guild1');
+
+    expect(connections.disconnect).toHaveBeenCalledWith('guild1');
+    expect(adapter.stopListening).toHaveBeenCalledWith('guild1', 'admin');
+    const state = stateManager.getGuildState('guild1')!;
+    expect(state.voiceMode).toBe(VoiceMode.Off);
+    expect(state.channelId).toBeNull();
+    expect(state.activeUsers.size).toBe(0);
+    expect(stateManager.saveState).toHaveBeenCalled();
+
+    await expect(admin.disconnectGuild('guild9')).rejects.toMatchObject({ type: DiscordPluginErrorType.InvalidGuild });
+  });
+
+  it("resets a guild's error count", async () => {
+    const guild = await admin.resetErrors('guild1');
+
+    expect(guild).toMatchObject({ errorCount: 0, lastError: undefined, pipelineStatus: PipelineStatus.Ready });
+    expect(stateManager.getGuildState('guild1')!.errorCount).toBe(0);
+    await expect(admin.resetErrors('guild9')).rejects.toMatchObject({ type: DiscordPluginErrorType.InvalidGuild });
+  });
+});
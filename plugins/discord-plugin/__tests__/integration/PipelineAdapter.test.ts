@@ -4,8 +4,17 @@
  * (These tests verify the adapter interface, but Phase 6 must be merged for full integration)
  */
 
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { IPipelineAdapter } from '../../src/types.js';
+import { IPipelineAdapter, DiscordPluginError, DiscordPluginErrorType, VoiceMode } from '../../src/types.js';
+import { PipelineAdapter } from '../../src/integration/PipelineAdapter.js';
+import { DiscordPlugin } from '../../src/index.js';
+import { GuildStateManager } from '../../src/state/GuildStateManager.js';
+import { HealthRegistry } from '../../../voice-extension/src/HealthRegistry.js';
+import { VoiceCommandPipeline, VoiceCommandPipelineConfig } from '../../../voice-extension/src/VoiceCommandPipeline.js';
+import { AgentAction } from '../../../voice-extension/src/AgentActions.js';
 
 describe('PipelineAdapter Integration', () => {
   let adapter: IPipelineAdapter;
@@ -264,3 +273,281 @@ describe('PipelineAdapter Integration', () => {
     });
   });
 });
+
+describe('PipelineAdapter with VoiceCommandPipeline', () => {
+  let pipeline: VoiceCommandPipeline;
+  let adapter: PipelineAdapter;
+
+  const pipelineConfig: VoiceCommandPipelineConfig = {
+    audioConfig: {
+      sampleRate: 48000,
+      channels: 2,
+      frameSize: 960,
+      bitRate: 128000,
+      jitterBufferSize: 10,
+      circularBufferCapacity: 100,
+      targetBufferLatency: 40,
+      opusComplexity: 5,
+      useFEC: false,
+      useDTX: false,
+      maxPlaybackRate: 48000,
+      maxRetries: 3,
+      timeoutMs: 5000,
+      enableMetrics: true,
+    },
+    sttConfig: { apiKey: 'test-key' },
+    ttsConfig: { apiKey: 'test-tts-key', voiceId: 'nova', sampleRate: 48000, format: 'wav' },
+    maxConcurrentConnections: 10,
+    sessionTimeoutMs: 300000,
+    enableFallbackResponses: true,
+    enableMetrics: true,
+    enableErrorRecovery: true,
+    maxRecoveryAttempts: 3,
+  };
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    pipeline = new VoiceCommandPipeline(pipelineConfig);
+    await pipeline.initialize();
+    adapter = new PipelineAdapter(pipeline);
+  });
+
+  afterEach(async () => {
+    await pipeline.shutdown();
+    vi.restoreAllMocks();
+  });
+
+  it('should start one session per guild', async () => {
+    await adapter.startListening('guild1', 'channel1', { userId: 'user1' });
+    await adapter.startListening('guild1', 'channel1', { userId: 'user1' });
+
+    const sessionId = adapter.getSessionId('guild1');
+    expect(sessionId).toBeDefined();
+    expect(pipeline.getActiveSessions()).toHaveLength(1);
+
+    const session = pipeline.getSession(sessionId!);
+    expect(session?.guildId).toBe('guild1');
+    expect(session?.channelId).toBe('channel1');
+    expect(session?.userId).toBe('user1');
+  });
+
+  it('should restart the session when the channel changes', async () => {
+    await adapter.startListening('guild1', 'channel1');
+    const first = adapter.getSessionId('guild1');
+
+    await adapter.startListening('guild1', 'channel2');
+    const second = adapter.getSessionId('guild1');
+
+    expect(second).not.toBe(first);
+    expect(pipeline.getSession(first!)).toBeUndefined();
+    expect(pipeline.getSession(second!)?.channelId).toBe('channel2');
+  });
+
+  it('should drop a removed wake phrase when voice mode restarts in the same channel', async () => {
+    const statuses: string[] = [];
+    pipeline.on('requestIgnored', (request) => statuses.push(request.status));
+    pipeline.on('requestCompleted', (request) => statuses.push(request.status));
+    const frames = [
+      { timestamp: 0, sequenceNumber: 0, ssrc: 1, data: new Float32Array(960 * 2), sampleCount: 960, duration: 20 },
+    ];
+
+    await adapter.startListening('guild1', 'channel1', { userId: 'user1', wakePhrase: 'hey Rue' });
+    const sessionId = adapter.getSessionId('guild1')!;
+    await pipeline.processVoiceCommand(sessionId, frames);
+
+    await adapter.startListening('guild1', 'channel1', { userId: 'user1' });
+    await pipeline.processVoiceCommand(sessionId, frames);
+
+    expect(adapter.getSessionId('guild1')).toBe(sessionId);
+    expect(statuses).toEqual(['ignored', 'completed']);
+  });
+
+  it('should end the session on stopListening', async () => {
+    await adapter.startListening('guild1', 'channel1');
+    const sessionId = adapter.getSessionId('guild1')!;
+
+    await adapter.stopListening('guild1');
+
+    expect(pipeline.getSession(sessionId)).toBeUndefined();
+    expect(adapter.getSessionId('guild1')).toBeUndefined();
+    expect(adapter.getPipelineStatus('guild1')).toBe('ended');
+  });
+
+  it('should report the real session status', async () => {
+    expect(adapter.isPipelineReady('guild1')).toBe(false);
+
+    await adapter.startListening('guild1', 'channel1');
+
+    expect(adapter.getPipelineStatus('guild1')).toBe('active');
+    expect(adapter.isPipelineReady('guild1')).toBe(true);
+  });
+
+  it('should answer questions through the agent and TTS stages', async () => {
+    await adapter.startListening('guild1', 'channel1');
+
+    const response = await adapter.askQuestion('guild1', 'hello there');
+
+    expect(response).toBe('Hello! How can I help you today?');
+    expect(pipeline.getSession(adapter.getSessionId('guild1')!)?.metrics.avgTtsLatency).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should keep the conversation history across questions', async () => {
+    await adapter.startListening('guild1', 'channel1', { userId: 'user1' });
+
+    await adapter.askQuestion('guild1', 'hello there');
+
+    expect(adapter.getConversationHistory('guild1', 'channel1').map((turn) => turn.role)).toEqual([
+      'user',
+      'assistant',
+    ]);
+    expect(adapter.clearConversationHistory('guild1', 'channel1')).toBe(2);
+    expect(adapter.getConversationHistory('guild1', 'channel1')).toEqual([]);
+  });
+
+  it('should reject questions when the guild has no session', async () => {
+    const error = await adapter.askQuestion('guild1', 'hello').catch((e) => e);
+
+    expect(error).toBeInstanceOf(DiscordPluginError);
+    expect(error.type).toBe(DiscordPluginErrorType.BotNotInVoice);
+  });
+
+  it('should forget sessions ended by the pipeline', async () => {
+    await adapter.startListening('guild1', 'channel1');
+    const sessionId = adapter.getSessionId('guild1')!;
+
+    await pipeline.endSession(sessionId, 'timeout');
+
+    expect(adapter.getSessionId('guild1')).toBeUndefined();
+  });
+
+  it('should turn received voice packets into per-speaker requests', async () => {
+    const listening = new VoiceCommandPipeline({
+      ...pipelineConfig,
+      audioConfig: { ...pipelineConfig.audioConfig, targetBufferLatency: 0 },
+    });
+    await listening.initialize();
+    const listeningAdapter = new PipelineAdapter(listening);
+    const speakers: string[] = [];
+    listening.on('requestCompleted', (request) => speakers.push(request.userId));
+
+    await listeningAdapter.startListening('guild1', 'channel1', { userId: 'owner' });
+    await listeningAdapter.handleSpeakingUpdate('guild1', { userId: 'alice', ssrc: 42, speaking: 1 });
+    for (let sequence = 0; sequence < 22; sequence++) {
+      await listeningAdapter.handleAudioPacket('guild1', {
+        timestamp: sequence * 960,
+        sequenceNumber: sequence,
+        ssrc: 42,
+        data: new Float32Array(960 * 2).fill(sequence < 10 ? 0.9 : 0),
+        sampleCount: 960,
+        duration: 20,
+      });
+    }
+
+    await vi.waitFor(() => expect(speakers).toEqual(['alice']));
+    await listening.shutdown();
+  });
+
+  it('should toggle push-to-talk captures in push-to-talk sessions', async () => {
+    await adapter.startListening('guild1', 'channel1', { userId: 'owner', pushToTalk: true });
+    const sessionId = adapter.getSessionId('guild1')!;
+
+    expect(pipeline.getSession(sessionId)?.inputMode).toBe('push-to-talk');
+    expect(await adapter.toggleTalk('guild1', 'alice')).toBe(true);
+    expect(pipeline.isCapturing(sessionId, 'alice')).toBe(true);
+    expect(await adapter.toggleTalk('guild1', 'alice')).toBe(false);
+
+    // Restarting in Listening mode keeps the session but drops push-to-talk
+    await adapter.startListening('guild1', 'channel1', { userId: 'owner' });
+    expect(adapter.getSessionId('guild1')).toBe(sessionId);
+    const error = await adapter.toggleTalk('guild1', 'alice').catch((e) => e);
+    expect(error).toBeInstanceOf(DiscordPluginError);
+    expect(error.type).toBe(DiscordPluginErrorType.PipelineError);
+  });
+
+  it('should drop voice packets while voice mode is off', async () => {
+    await adapter.handleSpeakingUpdate('guild1', { userId: 'alice', ssrc: 42 });
+    await adapter.handleAudioPacket('guild1', {
+      timestamp: 0,
+      sequenceNumber: 0,
+      ssrc: 42,
+      data: new Float32Array(960 * 2).fill(0.9),
+      sampleCount: 960,
+      duration: 20,
+    });
+
+    expect(pipeline.getActiveSessions()).toHaveLength(0);
+  });
+
+  it("should hand the agent's actions to the action handler", async () => {
+    const acting = new VoiceCommandPipeline({
+      ...pipelineConfig,
+      agentClients: {
+        default: { type: 'function', handler: () => ({ text: 'Goodbye!', actions: [{ type: 'leave-channel' }] }) },
+      },
+    });
+    await acting.initialize();
+    const actingAdapter = new PipelineAdapter(acting);
+    const handled: [string, AgentAction[]][] = [];
+    actingAdapter.onAgentActions(async (guildId, actions) => handled.push([guildId, actions]));
+
+    await actingAdapter.startListening('guild1', 'channel1');
+    const response = await actingAdapter.askQuestion('guild1', 'please leave');
+
+    expect(response).toBe('Goodbye!');
+    await vi.waitFor(() => expect(handled).toEqual([['guild1', [{ type: 'leave-channel' }]]]));
+
+    await acting.shutdown();
+  });
+
+  it('should report completed requests with their guild', async () => {
+    const completed: [string, string | undefined][] = [];
+    adapter.onRequestCompleted((guildId, request) => completed.push([guildId, request.agentResponse]));
+
+    await adapter.startListening('guild1', 'channel1');
+    await adapter.askQuestion('guild1', 'hello there');
+
+    expect(completed).toEqual([['guild1', 'Hello! How can I help you today?']]);
+  });
+
+  it('should register guild state, voice connection and pipeline health probes', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'plugin-health-'));
+    const stateManager = new GuildStateManager(join(directory, 'state.json'));
+    const plugin = new DiscordPlugin(stateManager, {}, pipeline);
+    const registry = new HealthRegistry();
+    plugin.registerHealthChecks(registry);
+
+    try {
+      const state = stateManager.getOrCreateGuildState('guild1');
+      state.channelId = 'channel1';
+      state.voiceMode = VoiceMode.Listening;
+
+      const before = await registry.run();
+      expect(Object.keys(before.checks)).toEqual(['guild_state', 'voice_connections', 'pipeline', 'stt', 'tts']);
+      expect(before.status).toBe('degraded');
+      expect(before.ready).toBe(true);
+      expect(before.checks.voice_connections.error).toBe('Unhealthy voice connections: guild1 (session ended)');
+
+      await plugin.getPipelineAdapter()!.startListening('guild1', 'channel1');
+      const after = await registry.run();
+      expect(after.status).toBe('healthy');
+      expect(after.checks.voice_connections.lastError).toContain('guild1');
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should map pipeline errors to plugin errors', async () => {
+    const limited = new VoiceCommandPipeline({ ...pipelineConfig, maxConcurrentConnections: 1 });
+    await limited.initialize();
+    const limitedAdapter = new PipelineAdapter(limited);
+
+    await limitedAdapter.startListening('guild1', 'channel1');
+    const error = await limitedAdapter.startListening('guild2', 'channel2').catch((e) => e);
+
+    expect(error).toBeInstanceOf(DiscordPluginError);
+    expect(error.type).toBe(DiscordPluginErrorType.PipelineError);
+
+    await limited.shutdown();
+  });
+});
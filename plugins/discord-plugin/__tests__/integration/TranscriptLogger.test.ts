@@ -0,0 +1,103 @@
+/**
+ * Transcript Logger Tests
+ * Formatting, batching and rate limiting of voice transcripts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TranscriptLogger } from '../../src/integration/TranscriptLogger.js';
+import { GuildStateManager } from '../../src/state/GuildStateManager.js';
+import { IGuildControls } from '../../src/types.js';
+import { VoiceRequest } from '../../../voice-extension/src/VoiceCommandPipeline.js';
+
+function completedRequest(userId: string, said: string, reply: string): VoiceRequest {
+  return {
+    requestId: `req-${said}`,
+    sessionId: 'session1',
+    userId,
+    audioFrames: [],
+    transcription: { text: said, language: 'en', confidence: 0.9, duration: 1000, timestamp: Date.UTC(2026, 0, 1) },
+    agentResponse: reply,
+    startTime: Date.UTC(2026, 0, 1),
+    status: 'completed',
+    timings: {},
+  };
+}
+
+describe('TranscriptLogger', () => {
+  let stateManager: GuildStateManager;
+  let controls: { leaveVoiceChannel: ReturnType<typeof vi.fn>; postTranscript: ReturnType<typeof vi.fn> };
+  let logger: TranscriptLogger;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    stateManager = new GuildStateManager();
+    controls = {
+      leaveVoiceChannel: vi.fn(async () => {}),
+      postTranscript: vi.fn(async () => {}),
+    };
+    logger = new TranscriptLogger(stateManager, controls as unknown as IGuildControls, {
+      transcriptFlushMs: 1000,
+      transcriptMaxPending: 12,
+    });
+
+    stateManager.getOrCreateGuildState('guild1').transcriptChannelId = 'text1';
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    stateManager.clear();
+  });
+
+  it('posts who spoke, what they said and the reply in one batch', async () => {
+    logger.log('guild1', completedRequest('alice', 'what time is it', 'It is noon.'));
+    logger.log('guild1', completedRequest('bob', 'thanks', "You're welcome!"));
+
+    expect(controls.postTranscript).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(controls.postTranscript).toHaveBeenCalledTimes(1);
+    const [guildId, channelId, message] = controls.postTranscript.mock.calls[0];
+    expect([guildId, channelId]).toEqual(['guild1', 'text1']);
+    expect(message.embeds).toHaveLength(2);
+    expect(message.embeds[0].description).toBe('🗣️ <@alice>: what time is it\n🤖 It is noon.');
+    expect(message.embeds[0].timestamp).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('rate limits busy channels and drops the oldest entries', async () => {
+    for (let i = 0; i < 15; i += 1) {
+      logger.log('guild1', completedRequest('alice', `line ${i}`, 'ok'));
+    }
+    expect(logger.getPendingCount('guild1')).toBe(12);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(controls.postTranscript).toHaveBeenCalledTimes(1);
+    const first = controls.postTranscript.mock.calls[0][2];
+    expect(first.content).toBe('_3 earlier transcript entries were skipped_');
+    expect(first.embeds).toHaveLength(10);
+    expect(first.embeds[0].description).toContain('line 3');
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(controls.postTranscript).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(controls.postTranscript).toHaveBeenCalledTimes(2);
+    expect(controls.postTranscript.mock.calls[1][2].embeds).toHaveLength(2);
+    expect(logger.getPendingCount('guild1')).toBe(0);
+  });
+
+  it('ignores guilds without a transcript channel and unanswered requests', async () => {
+    logger.log('guild2', completedRequest('alice', 'hello', 'Hi!'));
+    logger.log('guild1', { ...completedRequest('alice', 'hello', 'Hi!'), agentResponse: undefined });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(controls.postTranscript).not.toHaveBeenCalled();
+  });
+
+  it('posts pending entries on shutdown', async () => {
+    logger.log('guild1', completedRequest('alice', 'goodbye', 'Bye!'));
+
+    await logger.shutdown();
+
+    expect(controls.postTranscript).toHaveBeenCalledTimes(1);
+    expect(logger.getPendingCount('guild1')).toBe(0);
+  });
+});
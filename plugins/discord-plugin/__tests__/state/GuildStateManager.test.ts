@@ -3,6 +3,9 @@
  * Tests for state creation, updates, deletion, and persistence
  */
 
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { GuildStateManager } from '../../src/state/GuildStateManager.js';
 import { VoiceMode, PipelineStatus, GuildVoiceState } from '../../src/types.js';
@@ -213,11 +216,75 @@ describe('GuildStateManager', () => {
       expect(loaded?.channelId).toBe('channel123');
     });
 
+    it('should persist the wake phrase settings', async () => {
+      const state = manager.getOrCreateGuildState('guild123');
+      state.wakePhrase = 'hey Rue';
+      state.wakeFollowUpMs = 20000;
+
+      await manager.saveState();
+      manager.clear();
+      await manager.loadState();
+
+      const loaded = manager.getGuildState('guild123');
+      expect(loaded?.wakePhrase).toBe('hey Rue');
+      expect(loaded?.wakeFollowUpMs).toBe(20000);
+    });
+
+    it('should persist the agent action allow-list', async () => {
+      manager.getOrCreateGuildState('guild123').allowedActions = ['set-volume', 'post-message'];
+
+      await manager.saveState();
+      manager.clear();
+      await manager.loadState();
+
+      expect(manager.getGuildState('guild123')?.allowedActions).toEqual(['set-volume', 'post-message']);
+    });
+
+    it('should persist the guild persona', async () => {
+      manager.getOrCreateGuildState('guild123').persona = { voiceId: 'shimmer', speakingRate: 1.1, language: 'fr' };
+
+      await manager.saveState();
+      manager.clear();
+      await manager.loadState();
+
+      expect(manager.getGuildState('guild123')?.persona).toEqual({
+        voiceId: 'shimmer',
+        speakingRate: 1.1,
+        language: 'fr',
+      });
+    });
+
+    it('should persist the transcript channel', async () => {
+      manager.getOrCreateGuildState('guild123').transcriptChannelId = 'text123';
+
+      await manager.saveState();
+      manager.clear();
+      await manager.loadState();
+
+      expect(manager.getGuildState('guild123')?.transcriptChannelId).toBe('text123');
+    });
+
     it('should recover from missing state file', async () => {
       // Load from non-existent file should not crash
       await expect(manager.loadState()).resolves.not.toThrow();
     });
 
+    it('should report whether the state file can be written', async () => {
+      const directory = mkdtempSync(join(tmpdir(), 'guild-state-'));
+      writeFileSync(join(directory, 'file.txt'), '');
+
+      try {
+        await expect(new GuildStateManager(join(directory, 'data', 'state.json')).checkWritable()).resolves.toBe(
+          undefined,
+        );
+        await expect(new GuildStateManager(join(directory, 'file.txt', 'state.json')).checkWritable()).rejects.toThrow(
+          'not writable',
+        );
+      } finally {
+        rmSync(directory, { recursive: true, force: true });
+      }
+    });
+
     it('should handle state file corruption gracefully', async () => {
       // Simulate corruption by trying to load invalid data
       // Should not crash and should allow fresh state
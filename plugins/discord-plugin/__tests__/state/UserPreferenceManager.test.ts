@@ -0,0 +1,57 @@
+/**
+ * User preference manager tests
+ * Tests for preference updates and persistence
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { UserPreferenceManager } from '../../src/state/UserPreferenceManager.js';
+
+describe('UserPreferenceManager', () => {
+  let dir: string;
+  let file: string;
+  let manager: UserPreferenceManager;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'voice-prefs-'));
+    file = join(dir, 'data', 'user-voice-preferences.json');
+    manager = new UserPreferenceManager(file);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should store preferences and drop empty ones', () => {
+    manager.setPreferences('user1', { language: 'de', voiceId: undefined });
+    expect(manager.getPreferences('user1')).toEqual({ language: 'de' });
+
+    manager.setPreferences('user1', {});
+    expect(manager.getPreferences('user1')).toBeNull();
+    expect(manager.getAllUsers()).toEqual([]);
+  });
+
+  it('should persist preferences across restarts', async () => {
+    manager.setPreferences('user1', { language: 'fr', voiceId: 'amelie' });
+    manager.setPreferences('user2', { voiceId: 'onyx' });
+    await manager.saveState();
+
+    const restarted = new UserPreferenceManager(file);
+    await restarted.loadState();
+
+    expect(restarted.getAllUsers()).toEqual(['user1', 'user2']);
+    expect(restarted.getPreferences('user1')).toEqual({ language: 'fr', voiceId: 'amelie' });
+  });
+
+  it('should survive a corrupted preferences file', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await manager.saveState();
+    writeFileSync(file, '{not json', 'utf-8');
+
+    await expect(manager.loadState()).resolves.toBeUndefined();
+    expect(manager.getAllUsers()).toEqual([]);
+    vi.restoreAllMocks();
+  });
+});
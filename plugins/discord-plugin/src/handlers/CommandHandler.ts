@@ -8,14 +8,47 @@ import {
   VoiceAskPayload,
   VoiceStartPayload,
   VoiceStopPayload,
+  VoiceTalkPayload,
+  VoiceHistoryPayload,
+  VoiceActionsPayload,
+  VoiceConfigPayload,
+  VoiceConfigSetting,
+  VOICE_CONFIG_SETTINGS,
+  VoicePrefsPayload,
+  VoiceTranscriptPayload,
+  VoiceWakePayload,
+  VoicePreferenceSetting,
+  VOICE_PREFERENCE_SETTINGS,
+  DEFAULT_ALLOWED_ACTIONS,
   VoiceMode,
+  TALK_BUTTON_ID,
   PipelineStatus,
   DiscordPluginError,
   DiscordPluginErrorType,
   ICommandHandler,
   DiscordPluginConfig,
+  GuildVoiceState,
 } from '../types.js';
+import { AgentActionType, isAgentActionType } from '../../../voice-extension/src/AgentActions.js';
+import { UserVoicePreferences, VoicePersona } from '../../../voice-extension/src/VoiceCommandPipeline.js';
 import { GuildStateManager } from '../state/GuildStateManager.js';
+import { UserPreferenceManager } from '../state/UserPreferenceManager.js';
+import { PipelineAdapter } from '../integration/PipelineAdapter.js';
+
+// /voice history shows the most recent turns, shortened to fit in one message
+const HISTORY_PREVIEW_TURNS = 8;
+const HISTORY_PREVIEW_CHARS = 200;
+
+// /voice config limits
+const VOICE_ID_PATTERN = /^[\w-]{1,64}$/;
+const LANGUAGE_PATTERN = /^[a-z]{2}$/;
+const SYSTEM_PROMPT_MAX_CHARS = 1500;
+const WAKE_PHRASE_MAX_CHARS = 50;
+const NUMERIC_SETTING_RANGES: Partial<Record<VoiceConfigSetting, [number, number]>> = {
+  stability: [0, 1],
+  similarity: [0, 1],
+  rate: [0.5, 2],
+};
 
 /**
  * Handles voice commands
@@ -25,12 +58,23 @@ export class CommandHandler implements ICommandHandler {
 
   private config: DiscordPluginConfig;
 
-  constructor(stateManager: GuildStateManager, config: DiscordPluginConfig = {}) {
+  private pipelineAdapter?: PipelineAdapter;
+
+  private preferences?: UserPreferenceManager;
+
+  constructor(
+    stateManager: GuildStateManager,
+    config: DiscordPluginConfig = {},
+    pipelineAdapter?: PipelineAdapter,
+    preferences?: UserPreferenceManager,
+  ) {
     this.stateManager = stateManager;
     this.config = {
       debug: false,
       ...config,
     };
+    this.pipelineAdapter = pipelineAdapter;
+    this.preferences = preferences;
   }
 
   /**
@@ -45,6 +89,34 @@ export class CommandHandler implements ICommandHandler {
           return await this.handleVoiceStart(payload as VoiceStartPayload);
         case 'voice-stop':
           return await this.handleVoiceStop(payload as VoiceStopPayload);
+        case 'voice-talk':
+          return await this.handleVoiceTalk(payload as VoiceTalkPayload);
+        case 'voice-history':
+          return this.handleVoiceHistory(payload as VoiceHistoryPayload);
+        case 'voice-history-clear':
+          return this.handleVoiceHistoryClear(payload as VoiceHistoryPayload);
+        case 'voice-actions':
+          return await this.handleVoiceActions(payload as VoiceActionsPayload);
+        case 'voice-transcript':
+          return await this.handleVoiceTranscript(payload as VoiceTranscriptPayload);
+        case 'voice-transcript-off':
+          return await this.handleVoiceTranscriptOff(payload as VoiceTranscriptPayload);
+        case 'voice-wake':
+          return await this.handleVoiceWake(payload as VoiceWakePayload);
+        case 'voice-wake-off':
+          return await this.handleVoiceWakeOff(payload as VoiceWakePayload);
+        case 'voice-config':
+          return this.handleVoiceConfig(payload as VoiceConfigPayload);
+        case 'voice-config-set':
+          return await this.handleVoiceConfigSet(payload as VoiceConfigPayload);
+        case 'voice-config-reset':
+          return await this.handleVoiceConfigReset(payload as VoiceConfigPayload);
+        case 'voice-prefs':
+          return this.handleVoicePrefs(payload as VoicePrefsPayload);
+        case 'voice-prefs-set':
+          return await this.handleVoicePrefsSet(payload as VoicePrefsPayload);
+        case 'voice-prefs-reset':
+          return await this.handleVoicePrefsReset(payload as VoicePrefsPayload);
         default:
           return {
             success: false,
@@ -94,6 +166,7 @@ export class CommandHandler implements ICommandHandler {
       }
 
       // Update state
+      const previousMode = state.voiceMode;
       state.voiceMode = VoiceMode.Active;
       state.pipelineStatus = PipelineStatus.Processing;
       state.lastActivity = Date.now();
@@ -103,12 +176,37 @@ export class CommandHandler implements ICommandHandler {
         console.log(`[DEBUG] Processing voice ask: ${payload.question}`);
       }
 
-      // In real implementation, would call Phase 6 pipeline here
-      // For now, return success
-      await new Promise((resolve) => setTimeout(resolve, 100));
+      let response = 'Mock response from Rue';
+
+      if (this.pipelineAdapter) {
+        try {
+          // /voice ask works without /voice start, so open a session on demand, gated like /voice start's
+          // and kept in push-to-talk when that session ended in it
+          if (!this.pipelineAdapter.isPipelineReady(payload.guildId)) {
+            await this.pipelineAdapter.startListening(payload.guildId, payload.channelId, {
+              userId: payload.userId,
+              wakePhrase: state.wakePhrase,
+              wakeFollowUpMs: state.wakeFollowUpMs,
+              pushToTalk: previousMode === VoiceMode.PushToTalk,
+              persona: state.persona,
+            });
+          }
+          response = await this.pipelineAdapter.askQuestion(payload.guildId, payload.question);
+        } catch (error) {
+          this.recordPipelineError(state, error);
+          return {
+            success: false,
+            message: error instanceof Error ? error.message : 'Error processing question',
+            error: error as Error,
+          };
+        }
+      } else {
+        // No pipeline attached (tests, dry runs)
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
 
-      // Return to listening mode
-      state.voiceMode = VoiceMode.Listening;
+      // Return to the guild's voice mode
+      state.voiceMode = previousMode === VoiceMode.PushToTalk ? VoiceMode.PushToTalk : VoiceMode.Listening;
       state.pipelineStatus = PipelineStatus.Ready;
 
       return {
@@ -116,7 +214,7 @@ export class CommandHandler implements ICommandHandler {
         message: '✅ Response played',
         data: {
           question: payload.question,
-          response: 'Mock response from Rue',
+          response,
         },
       };
     } catch (error) {
@@ -143,16 +241,37 @@ export class CommandHandler implements ICommandHandler {
         };
       }
 
-      // Check if already connected
-      if (state.voiceMode !== VoiceMode.Off && state.channelId === payload.channelId) {
+      // Check if already connected (switching modes in the same channel keeps the session)
+      const mode = payload.mode ?? VoiceMode.Listening;
+      if (state.voiceMode === mode && state.channelId === payload.channelId) {
         return {
           success: true,
           message: `Voice mode is already running in <#${payload.channelId}>`,
         };
       }
 
+      if (this.pipelineAdapter) {
+        try {
+          await this.pipelineAdapter.startListening(payload.guildId, payload.channelId, {
+            userId: payload.userId,
+            wakePhrase: state.wakePhrase,
+            wakeFollowUpMs: state.wakeFollowUpMs,
+            pushToTalk: mode === VoiceMode.PushToTalk,
+            persona: state.persona,
+          });
+        } catch (error) {
+          this.recordPipelineError(state, error);
+          await this.stateManager.saveState();
+          return {
+            success: false,
+            message: error instanceof Error ? error.message : 'Error starting voice mode',
+            error: error as Error,
+          };
+        }
+      }
+
       // Update state
-      state.voiceMode = VoiceMode.Listening;
+      state.voiceMode = mode;
       state.channelId = payload.channelId;
       state.connectedAt = Date.now();
       state.lastActivity = Date.now();
@@ -165,6 +284,16 @@ export class CommandHandler implements ICommandHandler {
         console.log(`[DEBUG] Started voice mode in guild ${payload.guildId}`);
       }
 
+      if (mode === VoiceMode.PushToTalk) {
+        return {
+          success: true,
+          message: `✅ Push-to-talk started in <#${payload.channelId}>. Use /voice talk or the Talk button, then speak`,
+          data: {
+            components: [{ type: 1, components: [{ type: 2, style: 1, label: 'Talk', custom_id: TALK_BUTTON_ID }] }],
+          },
+        };
+      }
+
       return {
         success: true,
         message: `✅ Voice mode started in <#${payload.channelId}>`,
@@ -192,6 +321,10 @@ export class CommandHandler implements ICommandHandler {
         };
       }
 
+      if (this.pipelineAdapter) {
+        await this.pipelineAdapter.stopListening(payload.guildId);
+      }
+
       // Update state
       state.voiceMode = VoiceMode.Off;
       state.channelId = null;
@@ -220,4 +353,594 @@ export class CommandHandler implements ICommandHandler {
       };
     }
   }
+
+  /**
+   * Handle /voice talk command and Talk button presses
+   * The first press listens to the user until they stop speaking; a second press stops early
+   */
+  private async handleVoiceTalk(payload: VoiceTalkPayload): Promise<CommandResult> {
+    try {
+      const state = this.stateManager.getGuildState(payload.guildId);
+
+      if (!state || state.voiceMode !== VoiceMode.PushToTalk) {
+        return {
+          success: false,
+          message: 'Push-to-talk is not enabled in this guild. Start it with /voice start mode:push-to-talk',
+        };
+      }
+
+      // Check if user is in voice channel
+      if (!state.activeUsers.has(payload.userId)) {
+        return {
+          success: false,
+          message: 'You must be in the voice channel to talk',
+        };
+      }
+
+      let capturing = true;
+
+      if (this.pipelineAdapter) {
+        try {
+          capturing = await this.pipelineAdapter.toggleTalk(payload.guildId, payload.userId);
+        } catch (error) {
+          this.recordPipelineError(state, error);
+          return {
+            success: false,
+            message: error instanceof Error ? error.message : 'Error starting push-to-talk',
+            error: error as Error,
+          };
+        }
+      }
+
+      state.lastActivity = Date.now();
+
+      return {
+        success: true,
+        message: capturing ? '🎙️ Listening, speak now' : '✅ Stopped listening',
+        data: { capturing },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Error starting push-to-talk',
+        error: error as Error,
+      };
+    }
+  }
+
+  /**
+   * Handle /voice history command
+   * Shows the recent conversation the agent sees for the channel
+   */
+  private handleVoiceHistory(payload: VoiceHistoryPayload): CommandResult {
+    const channelId = this.getHistoryChannelId(payload);
+    if (!channelId) {
+      return {
+        success: false,
+        message: 'Voice mode is not currently active in this guild',
+      };
+    }
+
+    const turns = this.pipelineAdapter?.getConversationHistory(payload.guildId, channelId) ?? [];
+    if (turns.length === 0) {
+      return {
+        success: true,
+        message: `No conversation history in <#${channelId}>`,
+        data: { turns },
+      };
+    }
+
+    const lines = turns.slice(-HISTORY_PREVIEW_TURNS).map((turn) => {
+      const speaker = turn.role === 'assistant' ? 'Rue' : `<@${turn.userId}>`;
+      const text =
+        turn.text.length > HISTORY_PREVIEW_CHARS ? `${turn.text.slice(0, HISTORY_PREVIEW_CHARS - 1)}…` : turn.text;
+      return `**${speaker}**: ${text}`;
+    });
+
+    return {
+      success: true,
+      message: [`Conversation history in <#${channelId}> (${turns.length} turns):`, ...lines].join('\n'),
+      data: { turns },
+    };
+  }
+
+  /**
+   * Handle /voice history clear command
+   */
+  private handleVoiceHistoryClear(payload: VoiceHistoryPayload): CommandResult {
+    const channelId = this.getHistoryChannelId(payload);
+    if (!channelId) {
+      return {
+        success: false,
+        message: 'Voice mode is not currently active in this guild',
+      };
+    }
+
+    const cleared = this.pipelineAdapter?.clearConversationHistory(payload.guildId, channelId) ?? 0;
+
+    if (this.config.debug) {
+      console.log(`[DEBUG] Cleared ${cleared} history turns in guild ${payload.guildId}`);
+    }
+
+    return {
+      success: true,
+      message: `✅ Conversation history cleared in <#${channelId}>`,
+      data: { cleared },
+    };
+  }
+
+  /**
+   * Handle /voice actions command
+   * Shows or replaces the agent actions the bot may execute in this guild
+   */
+  private async handleVoiceActions(payload: VoiceActionsPayload): Promise<CommandResult> {
+    const state = this.stateManager.getOrCreateGuildState(payload.guildId);
+
+    if (payload.allow) {
+      const denied = this.checkManageGuild(payload);
+      if (denied) {
+        return denied;
+      }
+
+      const unknown = payload.allow.filter((type) => !isAgentActionType(type));
+      if (unknown.length > 0) {
+        return {
+          success: false,
+          message: `Unknown agent action: ${unknown.join(', ')}`,
+        };
+      }
+
+      state.allowedActions = Array.from(new Set(payload.allow as AgentActionType[]));
+      await this.stateManager.saveState();
+    }
+
+    const allowedActions = state.allowedActions ?? DEFAULT_ALLOWED_ACTIONS;
+
+    return {
+      success: true,
+      message: `${payload.allow ? '✅ ' : ''}Allowed agent actions: ${allowedActions.join(', ') || 'none'}`,
+      data: { allowedActions },
+    };
+  }
+
+  /**
+   * Handle /voice transcript command
+   * Shows or sets the text channel that gets a live transcript of voice requests
+   */
+  private async handleVoiceTranscript(payload: VoiceTranscriptPayload): Promise<CommandResult> {
+    const state = this.stateManager.getOrCreateGuildState(payload.guildId);
+
+    if (payload.channelId) {
+      const denied = this.checkManageGuild(payload);
+      if (denied) {
+        return denied;
+      }
+
+      state.transcriptChannelId = payload.channelId;
+      await this.stateManager.saveState();
+
+      return {
+        success: true,
+        message: `✅ Voice transcripts will be posted in <#${payload.channelId}>`,
+        data: { transcriptChannelId: payload.channelId },
+      };
+    }
+
+    return {
+      success: true,
+      message: state.transcriptChannelId
+        ? `Voice transcripts are posted in <#${state.transcriptChannelId}>`
+        : 'Voice transcripts are off',
+      data: { transcriptChannelId: state.transcriptChannelId ?? null },
+    };
+  }
+
+  /**
+   * Handle /voice transcript off command
+   */
+  private async handleVoiceTranscriptOff(payload: VoiceTranscriptPayload): Promise<CommandResult> {
+    const denied = this.checkManageGuild(payload);
+    if (denied) {
+      return denied;
+    }
+
+    const state = this.stateManager.getGuildState(payload.guildId);
+
+    if (!state?.transcriptChannelId) {
+      return {
+        success: false,
+        message: 'Voice transcripts are already off',
+      };
+    }
+
+    state.transcriptChannelId = undefined;
+    await this.stateManager.saveState();
+
+    return {
+      success: true,
+      message: '✅ Voice transcripts turned off',
+    };
+  }
+
+  /**
+   * Handle /voice wake command
+   * Shows or sets the phrase Listening mode waits for; a running session picks it up right away
+   */
+  private async handleVoiceWake(payload: VoiceWakePayload): Promise<CommandResult> {
+    const state = this.stateManager.getOrCreateGuildState(payload.guildId);
+
+    if (payload.phrase === undefined) {
+      return {
+        success: true,
+        message: state.wakePhrase
+          ? `Listening mode answers utterances starting with "${state.wakePhrase}"`
+          : 'No wake phrase is set for this server',
+        data: { wakePhrase: state.wakePhrase ?? null },
+      };
+    }
+
+    const denied = this.checkManageGuild(payload);
+    if (denied) {
+      return denied;
+    }
+
+    const phrase = payload.phrase.trim().replace(/\s+/g, ' ');
+    if (phrase.length === 0 || phrase.length > WAKE_PHRASE_MAX_CHARS) {
+      return {
+        success: false,
+        message: `The wake phrase must be 1 to ${WAKE_PHRASE_MAX_CHARS} characters`,
+      };
+    }
+
+    state.wakePhrase = phrase;
+    await this.applyWakePhrase(state);
+
+    return {
+      success: true,
+      message: `✅ Listening mode will answer utterances starting with "${phrase}"`,
+      data: { wakePhrase: phrase },
+    };
+  }
+
+  /**
+   * Handle /voice wake off command
+   */
+  private async handleVoiceWakeOff(payload: VoiceWakePayload): Promise<CommandResult> {
+    const denied = this.checkManageGuild(payload);
+    if (denied) {
+      return denied;
+    }
+
+    const state = this.stateManager.getGuildState(payload.guildId);
+    if (!state?.wakePhrase) {
+      return {
+        success: false,
+        message: 'No wake phrase is set for this server',
+      };
+    }
+
+    state.wakePhrase = undefined;
+    await this.applyWakePhrase(state);
+
+    return {
+      success: true,
+      message: '✅ Wake phrase removed',
+    };
+  }
+
+  /**
+   * Handle /voice config command
+   * Shows the guild's voice and agent settings
+   */
+  private handleVoiceConfig(payload: VoiceConfigPayload): CommandResult {
+    const persona = this.stateManager.getGuildState(payload.guildId)?.persona ?? {};
+
+    const lines = (Object.keys(VOICE_CONFIG_SETTINGS) as VoiceConfigSetting[]).map((setting) => {
+      const value = persona[VOICE_CONFIG_SETTINGS[setting]];
+      if (value === undefined) {
+        return `**${setting}**: default`;
+      }
+      const text = String(value);
+      return `**${setting}**: ${text.length > HISTORY_PREVIEW_CHARS ? `${text.slice(0, HISTORY_PREVIEW_CHARS - 1)}…` : text}`;
+    });
+
+    return {
+      success: true,
+      message: ['Voice settings for this server:', ...lines].join('\n'),
+      data: { persona },
+    };
+  }
+
+  /**
+   * Handle /voice config set command
+   * Changes one persona setting; a running session picks it up from its next reply
+   */
+  private async handleVoiceConfigSet(payload: VoiceConfigPayload): Promise<CommandResult> {
+    const denied = this.checkManageGuild(payload);
+    if (denied) {
+      return denied;
+    }
+
+    const setting = this.getConfigSetting(payload.setting);
+    if (!setting) {
+      return {
+        success: false,
+        message: `Unknown voice setting: ${payload.setting ?? ''} (use ${Object.keys(VOICE_CONFIG_SETTINGS).join(', ')})`,
+      };
+    }
+
+    const parsed = this.parseConfigValue(setting, payload.value?.trim() ?? '');
+    if ('error' in parsed) {
+      return {
+        success: false,
+        message: parsed.error,
+      };
+    }
+
+    const state = this.stateManager.getOrCreateGuildState(payload.guildId);
+    state.persona = { ...state.persona, [VOICE_CONFIG_SETTINGS[setting]]: parsed.value };
+    await this.applyPersona(state);
+
+    return {
+      success: true,
+      message: `✅ ${setting} set${setting === 'prompt' ? '' : ` to ${parsed.value}`}`,
+      data: { persona: state.persona },
+    };
+  }
+
+  /**
+   * Handle /voice config reset command
+   * Resets one setting, or all of them when no setting is given
+   */
+  private async handleVoiceConfigReset(payload: VoiceConfigPayload): Promise<CommandResult> {
+    const denied = this.checkManageGuild(payload);
+    if (denied) {
+      return denied;
+    }
+
+    const setting = payload.setting === undefined ? undefined : this.getConfigSetting(payload.setting);
+    if (setting === null) {
+      return {
+        success: false,
+        message: `Unknown voice setting: ${payload.setting} (use ${Object.keys(VOICE_CONFIG_SETTINGS).join(', ')})`,
+      };
+    }
+
+    const state = this.stateManager.getOrCreateGuildState(payload.guildId);
+    if (setting) {
+      const persona: VoicePersona = { ...state.persona };
+      delete persona[VOICE_CONFIG_SETTINGS[setting]];
+      state.persona = Object.keys(persona).length > 0 ? persona : undefined;
+    } else {
+      state.persona = undefined;
+    }
+    await this.applyPersona(state);
+
+    return {
+      success: true,
+      message: setting ? `✅ ${setting} reset to the default` : '✅ Voice settings reset to the defaults',
+      data: { persona: state.persona ?? {} },
+    };
+  }
+
+  /**
+   * Handle /voice prefs command
+   * Shows the caller's own reply language and voice
+   */
+  private handleVoicePrefs(payload: VoicePrefsPayload): CommandResult {
+    if (!this.preferences) {
+      return {
+        success: false,
+        message: 'Personal voice preferences are not available',
+      };
+    }
+
+    const preferences = this.preferences.getPreferences(payload.userId) ?? {};
+    const lines = (Object.keys(VOICE_PREFERENCE_SETTINGS) as VoicePreferenceSetting[]).map(
+      (setting) => `**${setting}**: ${preferences[VOICE_PREFERENCE_SETTINGS[setting]] ?? 'server default'}`,
+    );
+
+    return {
+      success: true,
+      message: ['Your voice preferences:', ...lines].join('\n'),
+      data: { preferences },
+    };
+  }
+
+  /**
+   * Handle /voice prefs set command
+   * Preferences follow the user into every server and apply from their next question
+   */
+  private async handleVoicePrefsSet(payload: VoicePrefsPayload): Promise<CommandResult> {
+    if (!this.preferences) {
+      return {
+        success: false,
+        message: 'Personal voice preferences are not available',
+      };
+    }
+
+    const setting = this.getPreferenceSetting(payload.setting);
+    if (!setting) {
+      return {
+        success: false,
+        message: `Unknown preference: ${payload.setting ?? ''} (use ${Object.keys(VOICE_PREFERENCE_SETTINGS).join(', ')})`,
+      };
+    }
+
+    const parsed = this.parseConfigValue(setting, payload.value?.trim() ?? '');
+    if ('error' in parsed) {
+      return {
+        success: false,
+        message: parsed.error,
+      };
+    }
+
+    const preferences: UserVoicePreferences = {
+      ...this.preferences.getPreferences(payload.userId),
+      [VOICE_PREFERENCE_SETTINGS[setting]]: parsed.value,
+    };
+    await this.applyPreferences(payload.userId, preferences);
+
+    return {
+      success: true,
+      message: `✅ Your ${setting} is now ${parsed.value}`,
+      data: { preferences },
+    };
+  }
+
+  /**
+   * Handle /voice prefs reset command
+   * Resets one preference, or all of them when no setting is given
+   */
+  private async handleVoicePrefsReset(payload: VoicePrefsPayload): Promise<CommandResult> {
+    if (!this.preferences) {
+      return {
+        success: false,
+        message: 'Personal voice preferences are not available',
+      };
+    }
+
+    const setting = payload.setting === undefined ? undefined : this.getPreferenceSetting(payload.setting);
+    if (setting === null) {
+      return {
+        success: false,
+        message: `Unknown preference: ${payload.setting} (use ${Object.keys(VOICE_PREFERENCE_SETTINGS).join(', ')})`,
+      };
+    }
+
+    const preferences: UserVoicePreferences = setting ? { ...this.preferences.getPreferences(payload.userId) } : {};
+    if (setting) {
+      delete preferences[VOICE_PREFERENCE_SETTINGS[setting]];
+    }
+    await this.applyPreferences(payload.userId, preferences);
+
+    return {
+      success: true,
+      message: setting ? `✅ Your ${setting} now follows the server default` : '✅ Your voice preferences were reset',
+      data: { preferences },
+    };
+  }
+
+  /**
+   * Save a user's preferences and apply them to the pipeline
+   */
+  private async applyPreferences(userId: string, preferences: UserVoicePreferences): Promise<void> {
+    this.preferences!.setPreferences(userId, preferences);
+    await this.preferences!.saveState();
+    this.pipelineAdapter?.setUserPreferences(userId, this.preferences!.getPreferences(userId) ?? undefined);
+  }
+
+  /**
+   * Resolve a /voice prefs setting name (null if unknown)
+   */
+  private getPreferenceSetting(setting: string | undefined): VoicePreferenceSetting | null {
+    return setting && Object.prototype.hasOwnProperty.call(VOICE_PREFERENCE_SETTINGS, setting)
+      ? (setting as VoicePreferenceSetting)
+      : null;
+  }
+
+  /**
+   * Resolve a /voice config setting name (null if unknown)
+   */
+  private getConfigSetting(setting: string | undefined): VoiceConfigSetting | null {
+    return setting && Object.prototype.hasOwnProperty.call(VOICE_CONFIG_SETTINGS, setting)
+      ? (setting as VoiceConfigSetting)
+      : null;
+  }
+
+  /**
+   * Validate a /voice config value for a setting
+   */
+  private parseConfigValue(setting: VoiceConfigSetting, value: string): { value: string | number } | { error: string } {
+    if (value.length === 0) {
+      return { error: `A value is required for ${setting}` };
+    }
+
+    const range = NUMERIC_SETTING_RANGES[setting];
+    if (range) {
+      const number = Number(value);
+      if (!Number.isFinite(number) || number < range[0] || number > range[1]) {
+        return { error: `${setting} must be a number between ${range[0]} and ${range[1]}` };
+      }
+      return { value: number };
+    }
+
+    switch (setting) {
+      case 'voice':
+        return VOICE_ID_PATTERN.test(value)
+          ? { value }
+          : { error: 'voice must be a voice ID of letters, digits, "_" or "-"' };
+      case 'language': {
+        const language = value.toLowerCase();
+        return LANGUAGE_PATTERN.test(language)
+          ? { value: language }
+          : { error: 'language must be a two-letter ISO-639-1 code such as en or de' };
+      }
+      case 'prompt':
+        return value.length <= SYSTEM_PROMPT_MAX_CHARS
+          ? { value }
+          : { error: `prompt is longer than ${SYSTEM_PROMPT_MAX_CHARS} characters` };
+      default:
+        return { value };
+    }
+  }
+
+  /**
+   * Save a guild's persona and apply it to the running session
+   */
+  private async applyPersona(state: GuildVoiceState): Promise<void> {
+    state.lastActivity = Date.now();
+    await this.stateManager.saveState();
+    this.pipelineAdapter?.setPersona(state.guildId, state.persona ?? {});
+  }
+
+  /**
+   * Save a guild's wake phrase and apply it to the running session
+   */
+  private async applyWakePhrase(state: GuildVoiceState): Promise<void> {
+    state.lastActivity = Date.now();
+    await this.stateManager.saveState();
+    this.pipelineAdapter?.setWakePhrase(state.guildId, state.wakePhrase, state.wakeFollowUpMs);
+  }
+
+  /**
+   * Rejection for members without the Manage Server permission (null when the caller has it)
+   * Guild-wide settings affect everyone in the server, so only its managers may change them
+   */
+  private checkManageGuild(payload: {
+    guildId: string;
+    userId: string;
+    canManageGuild?: boolean;
+  }): CommandResult | null {
+    if (payload.canManageGuild) {
+      return null;
+    }
+
+    const message = 'You need the Manage Server permission to change this setting';
+    return {
+      success: false,
+      message,
+      error: new DiscordPluginError(DiscordPluginErrorType.NoPermission, message, {
+        guildId: payload.guildId,
+        userId: payload.userId,
+      }),
+    };
+  }
+
+  /**
+   * Channel whose history a /voice history command refers to
+   */
+  private getHistoryChannelId(payload: VoiceHistoryPayload): string | null {
+    return payload.channelId ?? this.stateManager.getGuildState(payload.guildId)?.channelId ?? null;
+  }
+
+  /**
+   * Record a pipeline failure on the guild state
+   */
+  private recordPipelineError(state: GuildVoiceState, error: unknown): void {
+    state.pipelineStatus = PipelineStatus.Error;
+    state.errorCount++;
+    state.lastError = error instanceof Error ? error.message : String(error);
+    state.lastActivity = Date.now();
+  }
 }
@@ -3,6 +3,17 @@
  * Main export file for Phase 7 Discord Plugin Integration
  */
 
+import type { VoiceCommandPipeline } from '../../voice-extension/src/VoiceCommandPipeline.js';
+import { HealthRegistry } from '../../voice-extension/src/HealthRegistry.js';
+import { registerPipelineHealthChecks } from '../../voice-extension/src/PipelineHealth.js';
+import { CommandHandler } from './handlers/CommandHandler.js';
+import { EventHandler } from './handlers/EventHandler.js';
+import { PipelineAdapter } from './integration/PipelineAdapter.js';
+import { ActionExecutor } from './integration/ActionExecutor.js';
+import { TranscriptLogger } from './integration/TranscriptLogger.js';
+import { UserPreferenceManager } from './state/UserPreferenceManager.js';
+import { GuildVoiceState, IGuildControls, PipelineStatus, VoiceMode } from './types.js';
+
 // Type exports
 export * from './types.js';
 
@@ -12,24 +23,53 @@ export { EventHandler } from './handlers/EventHandler.js';
 
 // State management exports
 export { GuildStateManager } from './state/GuildStateManager.js';
+export { UserPreferenceManager } from './state/UserPreferenceManager.js';
 
 // Integration exports
 export { PipelineAdapter } from './integration/PipelineAdapter.js';
+export { ActionExecutor } from './integration/ActionExecutor.js';
+export { TranscriptLogger } from './integration/TranscriptLogger.js';
+export { AdminService } from './integration/AdminService.js';
 
 /**
  * Main Discord Plugin class
  * Integrates all components for voice functionality
  */
 export class DiscordPlugin {
-  private commandHandler: any;
+  private commandHandler: CommandHandler;
 
-  private eventHandler: any;
+  private eventHandler: EventHandler;
 
   private stateManager: any;
 
-  constructor(stateManager: any, config: any = {}) {
-    // Import handlers after Phase 6
+  private preferences: UserPreferenceManager;
+
+  private pipelineAdapter?: PipelineAdapter;
+
+  private actionExecutor?: ActionExecutor;
+
+  private transcriptLogger?: TranscriptLogger;
+
+  private controls?: IGuildControls;
+
+  constructor(stateManager: any, config: any = {}, pipeline?: VoiceCommandPipeline, controls?: IGuildControls) {
     this.stateManager = stateManager;
+    this.controls = controls;
+    this.preferences = new UserPreferenceManager(config.preferencesFile);
+    this.pipelineAdapter = pipeline ? new PipelineAdapter(pipeline, config) : undefined;
+    this.commandHandler = new CommandHandler(stateManager, config, this.pipelineAdapter, this.preferences);
+    this.eventHandler = new EventHandler(stateManager, config);
+
+    // Agent actions (leave, volume, ...) and transcripts need the pipeline to produce them
+    if (this.pipelineAdapter) {
+      const executor = new ActionExecutor(stateManager, this.pipelineAdapter, controls, config);
+      this.pipelineAdapter.onAgentActions((guildId, actions) => executor.execute(guildId, actions));
+      this.actionExecutor = executor;
+
+      const transcriptLogger = new TranscriptLogger(stateManager, controls, config);
+      this.pipelineAdapter.onRequestCompleted((guildId, request) => transcriptLogger.log(guildId, request));
+      this.transcriptLogger = transcriptLogger;
+    }
   }
 
   /**
@@ -38,6 +78,10 @@ export class DiscordPlugin {
   async initialize(): Promise<void> {
     // Load persisted state
     await this.stateManager.loadState();
+    await this.preferences.loadState();
+    for (const userId of this.preferences.getAllUsers()) {
+      this.pipelineAdapter?.setUserPreferences(userId, this.preferences.getPreferences(userId)!);
+    }
     // Start auto-save
     this.stateManager.startAutoSave(30000);
   }
@@ -47,23 +91,98 @@ export class DiscordPlugin {
    */
   async destroy(): Promise<void> {
     this.stateManager.stopAutoSave();
+    await this.transcriptLogger?.shutdown();
     await this.stateManager.saveState();
+    await this.preferences.saveState();
+  }
+
+  /**
+   * Check whether the host's Discord client is connected to the gateway
+   * Hosts whose controls have no isReady hook are never reported ready
+   */
+  isGatewayReady(): boolean {
+    return this.controls?.isReady?.() ?? false;
+  }
+
+  /**
+   * Register health probes: guild state persistence, voice connections and the pipeline's
+   */
+  registerHealthChecks(registry: HealthRegistry): void {
+    if (this.stateManager.checkWritable) {
+      registry.register('guild_state', () => this.stateManager.checkWritable());
+    }
+
+    // A connected guild whose session has failed or ended can't answer anyone
+    registry.register(
+      'voice_connections',
+      () => {
+        const connected = (this.stateManager.getAllGuilds() as string[])
+          .map((guildId): GuildVoiceState | null => this.stateManager.getGuildState(guildId))
+          .filter((state): state is GuildVoiceState => !!state?.channelId && state.voiceMode !== VoiceMode.Off);
+
+        const unhealthy: string[] = [];
+        for (const { guildId, pipelineStatus, lastError } of connected) {
+          const sessionStatus = this.pipelineAdapter?.getPipelineStatus(guildId);
+          if (pipelineStatus === PipelineStatus.Error) {
+            unhealthy.push(`${guildId} (${lastError ?? 'pipeline error'})`);
+          } else if (sessionStatus === 'error' || sessionStatus === 'ended') {
+            unhealthy.push(`${guildId} (session ${sessionStatus})`);
+          }
+        }
+        if (unhealthy.length > 0) {
+          throw new Error(`Unhealthy voice connections: ${unhealthy.join(', ')}`);
+        }
+      },
+      { critical: false },
+    );
+
+    if (this.pipelineAdapter) {
+      registerPipelineHealthChecks(this.pipelineAdapter.getPipeline(), registry);
+    }
   }
 
   /**
    * Get command handler
    */
-  getCommandHandler(): any {
+  getCommandHandler(): CommandHandler {
     return this.commandHandler;
   }
 
   /**
    * Get event handler
    */
-  getEventHandler(): any {
+  getEventHandler(): EventHandler {
     return this.eventHandler;
   }
 
+  /**
+   * Get pipeline adapter (undefined when no pipeline was provided)
+   */
+  getPipelineAdapter(): PipelineAdapter | undefined {
+    return this.pipelineAdapter;
+  }
+
+  /**
+   * Get agent action executor (undefined when no pipeline was provided)
+   */
+  getActionExecutor(): ActionExecutor | undefined {
+    return this.actionExecutor;
+  }
+
+  /**
+   * Get voice transcript logger (undefined when no pipeline was provided)
+   */
+  getTranscriptLogger(): TranscriptLogger | undefined {
+    return this.transcriptLogger;
+  }
+
+  /**
+   * Get per-user voice preference store
+   */
+  getUserPreferenceManager(): UserPreferenceManager {
+    return this.preferences;
+  }
+
   /**
    * Get state manager
    */
@@ -0,0 +1,134 @@
+/**
+ * Action Executor
+ * Executes the structured actions an agent returns with its reply (leave, change voice,
+ * volume, sound clips, text messages), subject to each guild's action allow-list
+ */
+
+import { AgentAction, AgentActionType } from '../../../voice-extension/src/AgentActions.js';
+import { GuildStateManager } from '../state/GuildStateManager.js';
+import { PipelineAdapter } from './PipelineAdapter.js';
+import {
+  ActionResult,
+  DEFAULT_ALLOWED_ACTIONS,
+  DiscordPluginConfig,
+  GuildVoiceState,
+  IGuildControls,
+  PipelineStatus,
+  VoiceMode,
+} from '../types.js';
+
+/**
+ * Runs agent actions against the guild's voice session and the bot host
+ */
+export class ActionExecutor {
+  private stateManager: GuildStateManager;
+
+  private pipelineAdapter: PipelineAdapter;
+
+  private controls?: IGuildControls;
+
+  private config: DiscordPluginConfig;
+
+  constructor(
+    stateManager: GuildStateManager,
+    pipelineAdapter: PipelineAdapter,
+    controls?: IGuildControls,
+    config: DiscordPluginConfig = {},
+  ) {
+    this.stateManager = stateManager;
+    this.pipelineAdapter = pipelineAdapter;
+    this.controls = controls;
+    this.config = {
+      debug: false,
+      ...config,
+    };
+  }
+
+  /**
+   * Execute a reply's actions in order
+   * A denied or failed action doesn't stop the ones after it
+   */
+  async execute(guildId: string, actions: AgentAction[]): Promise<ActionResult[]> {
+    const state = this.stateManager.getOrCreateGuildState(guildId);
+    const allowed = this.getAllowedActions(guildId);
+    // Leaving clears the channel, so later actions still post to the channel the request came from
+    const { channelId } = state;
+    const results: ActionResult[] = [];
+
+    for (const action of actions) {
+      if (!allowed.includes(action.type)) {
+        results.push({ action, status: 'denied' });
+      } else {
+        try {
+          const executed = await this.run(guildId, state, channelId, action);
+          results.push({ action, status: executed ? 'executed' : 'unsupported' });
+        } catch (error) {
+          results.push({ action, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      if (this.config.debug) {
+        console.log(`[DEBUG] Agent action ${action.type} in guild ${guildId}: ${results[results.length - 1].status}`);
+      }
+    }
+
+    state.lastActivity = Date.now();
+    return results;
+  }
+
+  /**
+   * Get the action types a guild allows
+   */
+  getAllowedActions(guildId: string): AgentActionType[] {
+    return this.stateManager.getGuildState(guildId)?.allowedActions ?? DEFAULT_ALLOWED_ACTIONS;
+  }
+
+  /**
+   * Run one allowed action
+   * Returns false if the bot host doesn't support it
+   */
+  private async run(
+    guildId: string,
+    state: GuildVoiceState,
+    channelId: string | null,
+    action: AgentAction,
+  ): Promise<boolean> {
+    switch (action.type) {
+      case 'leave-channel':
+        await this.pipelineAdapter.stopListening(guildId);
+        await this.controls?.leaveVoiceChannel(guildId);
+        state.voiceMode = VoiceMode.Off;
+        state.channelId = null;
+        state.connectedAt = null;
+        state.activeUsers.clear();
+        state.pipelineStatus = PipelineStatus.Ready;
+        await this.stateManager.saveState();
+        return true;
+
+      case 'change-voice':
+        this.pipelineAdapter.setVoice(guildId, action.voiceId);
+        return true;
+
+      case 'set-volume':
+        if (!this.controls?.setVolume) return false;
+        await this.controls.setVolume(guildId, action.volume);
+        return true;
+
+      case 'play-sound':
+        if (!this.controls?.playSound) return false;
+        await this.controls.playSound(guildId, action.clip);
+        return true;
+
+      case 'post-message':
+        if (!this.controls?.postMessage) return false;
+        if (!channelId) {
+          throw new Error('No channel to post to');
+        }
+        await this.controls.postMessage(guildId, channelId, action.content);
+        return true;
+
+      default:
+        return false;
+    }
+  }
+}
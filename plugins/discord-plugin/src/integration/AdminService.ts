@@ -0,0 +1,132 @@
+/**
+ * Admin Service
+ * Operator actions behind the admin API: inspect guild voice states and pipeline sessions,
+ * force-end sessions, disconnect guilds and clear guild error counts
+ */
+
+import type { VoiceConnectionManager } from '../../../voice-extension/src/VoiceConnectionManager.js';
+import { PipelineAdapter } from './PipelineAdapter.js';
+import {
+  AdminSessionSummary,
+  DiscordPluginError,
+  DiscordPluginErrorType,
+  GuildVoiceState,
+  IStateManager,
+  PipelineStatus,
+  StoredGuildVoiceState,
+  VoiceMode,
+} from '../types.js';
+
+/**
+ * Reads and changes guild and session state on behalf of an operator
+ */
+export class AdminService {
+  private stateManager: IStateManager;
+
+  private pipelineAdapter?: PipelineAdapter;
+
+  private connections?: VoiceConnectionManager;
+
+  constructor(stateManager: IStateManager, pipelineAdapter?: PipelineAdapter, connections?: VoiceConnectionManager) {
+    this.stateManager = stateManager;
+    this.pipelineAdapter = pipelineAdapter;
+    this.connections = connections;
+  }
+
+  /**
+   * List every known guild's voice state
+   */
+  listGuilds(): StoredGuildVoiceState[] {
+    return this.stateManager
+      .getAllGuilds()
+      .map((guildId) => this.stateManager.getGuildState(guildId))
+      .filter((state): state is GuildVoiceState => state !== null)
+      .map((state) => ({ ...state, activeUsers: Array.from(state.activeUsers) }));
+  }
+
+  /**
+   * List the pipeline's active sessions with their metrics
+   */
+  listSessions(): AdminSessionSummary[] {
+    const pipeline = this.pipelineAdapter?.getPipeline();
+    if (!pipeline) {
+      return [];
+    }
+
+    return pipeline.getActiveSessions().map((session) => ({
+      sessionId: session.sessionId,
+      guildId: session.guildId,
+      channelId: session.channelId,
+      userId: session.userId,
+      status: session.status,
+      inputMode: session.inputMode,
+      startTime: session.startTime,
+      lastActivity: session.lastActivity,
+      metrics: { ...session.metrics },
+    }));
+  }
+
+  /**
+   * End a session; the bot stays in the channel but stops answering until voice mode is restarted
+   */
+  async endSession(sessionId: string): Promise<void> {
+    const session = this.pipelineAdapter?.getPipeline().getSession(sessionId);
+    if (!this.pipelineAdapter || !session || session.status === 'ended') {
+      throw new DiscordPluginError(DiscordPluginErrorType.SessionNotFound, `No active session ${sessionId}`);
+    }
+
+    // Go through the adapter when it owns the session so it forgets the guild's session too
+    if (this.pipelineAdapter.getSessionId(session.guildId) === sessionId) {
+      await this.pipelineAdapter.stopListening(session.guildId, 'admin');
+    } else {
+      await this.pipelineAdapter.getPipeline().endSession(sessionId, 'admin');
+    }
+  }
+
+  /**
+   * Leave a guild's voice channel, end its session and turn voice mode off
+   */
+  async disconnectGuild(guildId: string): Promise<void> {
+    const state = this.stateManager.getGuildState(guildId);
+    const connected = this.connections?.isConnected(guildId) ?? false;
+    if (!state && !connected) {
+      throw new DiscordPluginError(DiscordPluginErrorType.InvalidGuild, `Unknown guild ${guildId}`, { guildId });
+    }
+
+    if (connected) {
+      await this.connections!.disconnect(guildId);
+    }
+    await this.pipelineAdapter?.stopListening(guildId, 'admin');
+
+    if (state) {
+      state.voiceMode = VoiceMode.Off;
+      state.channelId = null;
+      state.connectedAt = null;
+      state.activeUsers.clear();
+      state.pipelineStatus = PipelineStatus.Ready;
+      this.stateManager.setGuildState(guildId, state);
+      await this.stateManager.saveState();
+    }
+  }
+
+  /**
+   * Clear a guild's error count and last error
+   * Returns the updated state
+   */
+  async resetErrors(guildId: string): Promise<StoredGuildVoiceState> {
+    const state = this.stateManager.getGuildState(guildId);
+    if (!state) {
+      throw new DiscordPluginError(DiscordPluginErrorType.InvalidGuild, `Unknown guild ${guildId}`, { guildId });
+    }
+
+    state.errorCount = 0;
+    state.lastError = undefined;
+    if (state.pipelineStatus === PipelineStatus.Error) {
+      state.pipelineStatus = PipelineStatus.Ready;
+    }
+    this.stateManager.setGuildState(guildId, state);
+    await this.stateManager.saveState();
+
+    return { ...state, activeUsers: Array.from(state.activeUsers) };
+  }
+}
@@ -1,10 +1,30 @@
 /**
  * Pipeline Adapter
  * Adapts VoiceCommandPipeline (Phase 6) to Discord Plugin (Phase 7)
- * This adapter will be fully implemented after Phase 6 is merged
+ * Each guild maps to a single VoiceSession for as long as voice mode is active
  */
 
-import { IPipelineAdapter, DiscordPluginConfig } from '../types.js';
+import {
+  UserVoicePreferences,
+  VoiceCommandPipeline,
+  VoicePersona,
+  VoiceRequest,
+  VoiceSession,
+} from '../../../voice-extension/src/VoiceCommandPipeline.js';
+import { PipelineError } from '../../../voice-extension/src/PipelineErrors.js';
+import { AudioFrame } from '../../../voice-extension/src/types.js';
+import { SpeakingUpdate } from '../../../voice-extension/src/VoiceReceiver.js';
+import { WakeWordConfig } from '../../../voice-extension/src/WakeWordGate.js';
+import { VoiceInputMode } from '../../../voice-extension/src/PushToTalk.js';
+import { ConversationTurn } from '../../../voice-extension/src/ConversationHistory.js';
+import { AgentAction } from '../../../voice-extension/src/AgentActions.js';
+import {
+  IPipelineAdapter,
+  DiscordPluginConfig,
+  DiscordPluginError,
+  DiscordPluginErrorType,
+  StartListeningOptions,
+} from '../types.js';
 
 /**
  * Adapter for Phase 6 VoiceCommandPipeline
@@ -13,64 +33,124 @@ import { IPipelineAdapter, DiscordPluginConfig } from '../types.js';
 export class PipelineAdapter implements IPipelineAdapter {
   private config: DiscordPluginConfig;
 
-  private pipeline: any; // Will be VoiceCommandPipeline type after Phase 6
+  private pipeline: VoiceCommandPipeline;
 
-  constructor(pipeline: any, config: DiscordPluginConfig = {}) {
+  // guildId -> sessionId
+  private guildSessions: Map<string, string> = new Map();
+
+  private actionHandler?: (guildId: string, actions: AgentAction[]) => Promise<unknown>;
+
+  private completedHandler?: (guildId: string, request: VoiceRequest) => void;
+
+  constructor(pipeline: VoiceCommandPipeline, config: DiscordPluginConfig = {}) {
     this.pipeline = pipeline;
     this.config = {
       debug: false,
       ...config,
     };
+
+    // Sessions can end without us (timeout, shutdown), so keep the guild map in sync
+    this.pipeline.on('sessionEnded', (session: VoiceSession) => {
+      if (this.guildSessions.get(session.guildId) === session.sessionId) {
+        this.guildSessions.delete(session.guildId);
+      }
+    });
+
+    this.pipeline.on('agentActions', (request, actions) => {
+      const session = this.pipeline.getSession(request.sessionId);
+      if (session && this.actionHandler) {
+        this.actionHandler(session.guildId, actions).catch((error) => {
+          console.error('Error executing agent actions:', error);
+        });
+      }
+    });
+
+    this.pipeline.on('requestCompleted', (request) => {
+      const session = this.pipeline.getSession(request.sessionId);
+      if (session && this.completedHandler) {
+        this.completedHandler(session.guildId, request);
+      }
+    });
+  }
+
+  /**
+   * Set the handler that executes actions returned by the agent (see ActionExecutor)
+   */
+  onAgentActions(handler: (guildId: string, actions: AgentAction[]) => Promise<unknown>): void {
+    this.actionHandler = handler;
+  }
+
+  /**
+   * Set the handler that receives every completed request (see TranscriptLogger)
+   */
+  onRequestCompleted(handler: (guildId: string, request: VoiceRequest) => void): void {
+    this.completedHandler = handler;
   }
 
   /**
    * Start listening for voice commands in a guild
-   * This will activate the Phase 6 pipeline for continuous listening
+   * Starts a pipeline session for the guild (restarting it if the channel changed)
    */
-  async startListening(guildId: string, channelId: string): Promise<void> {
+  async startListening(guildId: string, channelId: string, options: StartListeningOptions = {}): Promise<void> {
     try {
       if (this.config.debug) {
         console.log(`[DEBUG] Starting pipeline listening for guild ${guildId}`);
       }
 
-      // Once Phase 6 is merged, this will call:
-      // await this.pipeline.startListening(guildId, channelId);
-
-      // For now, just verify the pipeline exists
-      if (!this.pipeline) {
-        throw new Error('Pipeline not initialized');
+      const wakeWord = this.getWakeWordConfig(options);
+      const inputMode: VoiceInputMode = options.pushToTalk ? 'push-to-talk' : 'continuous';
+      const existing = this.getSession(guildId);
+      if (existing) {
+        if (existing.channelId === channelId) {
+          // A guild without a phrase falls back to the pipeline default, dropping any phrase it had before
+          this.pipeline.setWakeWord(existing.sessionId, wakeWord);
+          this.pipeline.setInputMode(existing.sessionId, inputMode);
+          if (options.persona) {
+            this.pipeline.setPersona(existing.sessionId, options.persona);
+          }
+          return;
+        }
+        await this.pipeline.endSession(existing.sessionId, 'channel-changed');
       }
+
+      const sessionId = await this.pipeline.startSession(options.userId ?? 'unknown', guildId, channelId, undefined, {
+        wakeWord,
+        inputMode,
+        persona: options.persona,
+      });
+      this.guildSessions.set(guildId, sessionId);
     } catch (error) {
       console.error('Error starting pipeline listening:', error);
-      throw error;
+      throw this.wrapError(error, guildId);
     }
   }
 
   /**
    * Stop listening for voice commands
-   * This will deactivate the Phase 6 pipeline for this guild
+   * Ends the guild's pipeline session
    */
-  async stopListening(guildId: string): Promise<void> {
+  async stopListening(guildId: string, reason: string = 'user'): Promise<void> {
     try {
       if (this.config.debug) {
         console.log(`[DEBUG] Stopping pipeline listening for guild ${guildId}`);
       }
 
-      // Once Phase 6 is merged, this will call:
-      // await this.pipeline.stopListening(guildId);
-
-      if (!this.pipeline) {
-        throw new Error('Pipeline not initialized');
+      const sessionId = this.guildSessions.get(guildId);
+      if (!sessionId) {
+        return;
       }
+
+      this.guildSessions.delete(guildId);
+      await this.pipeline.endSession(sessionId, reason);
     } catch (error) {
       console.error('Error stopping pipeline listening:', error);
-      throw error;
+      throw this.wrapError(error, guildId);
     }
   }
 
   /**
    * Send a question to the pipeline and get a voice response
-   * This bridges /voice ask command to Phase 6 processing
+   * Runs the text through the agent and TTS stages of the guild's session
    */
   async askQuestion(guildId: string, question: string): Promise<string> {
     try {
@@ -83,31 +163,215 @@ export class PipelineAdapter implements IPipelineAdapter {
         throw new Error('Question cannot be empty');
       }
 
-      // Once Phase 6 is merged, this will call:
-      // const response = await this.pipeline.processAudio(guildId, audioData);
-      // and return the response text
+      const sessionId = this.guildSessions.get(guildId);
+      if (!sessionId) {
+        throw new DiscordPluginError(DiscordPluginErrorType.BotNotInVoice, 'Voice mode is not active in this guild', {
+          guildId,
+        });
+      }
+
+      const requestId = await this.pipeline.processTextCommand(sessionId, question);
+      const request = this.pipeline.getRequest(requestId);
+
+      // A recovered request has already played a fallback reply, but has no answer to return
+      if (request?.error) {
+        throw request.error;
+      }
 
-      // For now, return a mock response
-      return `I heard your question: "${question}". This is a mock response.`;
+      return request?.agentResponse ?? '';
     } catch (error) {
       console.error('Error asking question:', error);
-      throw error;
+      throw this.wrapError(error, guildId);
+    }
+  }
+
+  /**
+   * Start or stop a user's push-to-talk capture (/voice talk or the Talk button)
+   * Returns whether the user is now being listened to
+   */
+  async toggleTalk(guildId: string, userId: string): Promise<boolean> {
+    try {
+      const sessionId = this.guildSessions.get(guildId);
+      if (!sessionId) {
+        throw new DiscordPluginError(DiscordPluginErrorType.BotNotInVoice, 'Voice mode is not active in this guild', {
+          guildId,
+          userId,
+        });
+      }
+
+      return await this.pipeline.toggleCapture(sessionId, userId);
+    } catch (error) {
+      throw this.wrapError(error, guildId);
+    }
+  }
+
+  /**
+   * Change the TTS voice of the guild's session
+   */
+  setVoice(guildId: string, voiceId: string): void {
+    const sessionId = this.guildSessions.get(guildId);
+    if (!sessionId) {
+      throw new DiscordPluginError(DiscordPluginErrorType.BotNotInVoice, 'Voice mode is not active in this guild', {
+        guildId,
+      });
+    }
+
+    this.pipeline.setVoice(sessionId, voiceId);
+  }
+
+  /**
+   * Apply a guild's persona to its running session (no-op when voice mode is off)
+   */
+  setPersona(guildId: string, persona: VoicePersona): void {
+    const sessionId = this.guildSessions.get(guildId);
+    if (sessionId) {
+      this.pipeline.setPersona(sessionId, persona);
+    }
+  }
+
+  /**
+   * Apply a guild's wake phrase to its running session (no-op when voice mode is off)
+   * Without a phrase the session falls back to the pipeline's setting
+   */
+  setWakePhrase(guildId: string, wakePhrase?: string, wakeFollowUpMs?: number): void {
+    const sessionId = this.guildSessions.get(guildId);
+    if (sessionId) {
+      this.pipeline.setWakeWord(sessionId, this.getWakeWordConfig({ wakePhrase, wakeFollowUpMs }));
+    }
+  }
+
+  /**
+   * Apply a user's language and voice preferences in every guild
+   */
+  setUserPreferences(userId: string, preferences?: UserVoicePreferences): void {
+    this.pipeline.setUserPreferences(userId, preferences);
+  }
+
+  /**
+   * Get the conversation history the agent sees for a guild channel
+   */
+  getConversationHistory(guildId: string, channelId: string): ConversationTurn[] {
+    return this.pipeline.getConversationHistory(guildId, channelId);
+  }
+
+  /**
+   * Forget the conversation history for a guild channel
+   * Returns the number of turns cleared
+   */
+  clearConversationHistory(guildId: string, channelId: string): number {
+    return this.pipeline.clearConversationHistory(guildId, channelId);
+  }
+
+  /**
+   * Feed a received voice packet into the guild's listening session
+   * Utterances are cut per speaker and processed hands-free; audio is dropped while voice mode is off
+   */
+  async handleAudioPacket(guildId: string, frame: AudioFrame): Promise<void> {
+    const sessionId = this.getListeningSessionId(guildId);
+    if (!sessionId) return;
+
+    try {
+      await this.pipeline.handleAudioPacket(sessionId, frame);
+    } catch (error) {
+      throw this.wrapError(error, guildId);
+    }
+  }
+
+  /**
+   * Forward a voice gateway SPEAKING event so packets can be attributed to users
+   */
+  async handleSpeakingUpdate(guildId: string, update: SpeakingUpdate): Promise<void> {
+    const sessionId = this.getListeningSessionId(guildId);
+    if (!sessionId) return;
+
+    try {
+      await this.pipeline.handleSpeakingUpdate(sessionId, update);
+    } catch (error) {
+      throw this.wrapError(error, guildId);
+    }
+  }
+
+  /**
+   * Forget a user who left the voice channel, completing anything they were saying
+   */
+  async handleClientDisconnect(guildId: string, userId: string): Promise<void> {
+    const sessionId = this.guildSessions.get(guildId);
+    if (sessionId) {
+      await this.pipeline.handleClientDisconnect(sessionId, userId);
     }
   }
 
   /**
    * Get pipeline status for a guild
+   * Returns the status of the guild's session, or 'ended' if there is none
    */
-  getPipelineStatus(guildId: string): string {
-    // Once Phase 6 is merged, return actual status
-    return 'ready';
+  getPipelineStatus(guildId: string): VoiceSession['status'] {
+    return this.getSession(guildId)?.status ?? 'ended';
   }
 
   /**
    * Check if pipeline is ready for this guild
    */
   isPipelineReady(guildId: string): boolean {
-    // Once Phase 6 is merged, check actual readiness
-    return !!this.pipeline;
+    return this.getSession(guildId)?.status === 'active';
+  }
+
+  /**
+   * Get the pipeline session ID for a guild
+   */
+  getSessionId(guildId: string): string | undefined {
+    return this.guildSessions.get(guildId);
+  }
+
+  /**
+   * Get the underlying pipeline
+   */
+  getPipeline(): VoiceCommandPipeline {
+    return this.pipeline;
+  }
+
+  /**
+   * Look up the live session for a guild
+   */
+  private getSession(guildId: string): VoiceSession | undefined {
+    const sessionId = this.guildSessions.get(guildId);
+    return sessionId ? this.pipeline.getSession(sessionId) : undefined;
+  }
+
+  /**
+   * Build the session's wake phrase gate from the guild's settings
+   * Returns undefined to keep the pipeline default
+   */
+  private getWakeWordConfig(options: StartListeningOptions): WakeWordConfig | undefined {
+    const phrase = options.wakePhrase?.trim();
+    if (!phrase) {
+      return undefined;
+    }
+    return { phrases: [phrase], followUpWindowMs: options.wakeFollowUpMs };
+  }
+
+  /**
+   * Get the session ID for a guild whose session can accept audio
+   */
+  private getListeningSessionId(guildId: string): string | undefined {
+    return this.getSession(guildId)?.status === 'active' ? this.guildSessions.get(guildId) : undefined;
+  }
+
+  /**
+   * Map pipeline failures to plugin errors with a user-facing message
+   */
+  private wrapError(error: unknown, guildId: string): Error {
+    if (error instanceof DiscordPluginError) {
+      return error;
+    }
+
+    if (error instanceof PipelineError) {
+      return new DiscordPluginError(DiscordPluginErrorType.PipelineError, error.userMessage, {
+        guildId,
+        originalError: error,
+      });
+    }
+
+    return error as Error;
   }
 }
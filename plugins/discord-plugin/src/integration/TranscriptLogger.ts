@@ -0,0 +1,169 @@
+/**
+ * Transcript Logger
+ * Posts a live transcript of completed voice requests (who spoke, what they said, what the bot
+ * answered) to a guild's transcript channel, so members who can't hear the call can follow along
+ */
+
+import { VoiceRequest } from '../../../voice-extension/src/VoiceCommandPipeline.js';
+import { GuildStateManager } from '../state/GuildStateManager.js';
+import { DiscordPluginConfig, IGuildControls, InteractionResponse } from '../types.js';
+
+// Discord accepts at most 10 embeds per message
+const MAX_EMBEDS_PER_MESSAGE = 10;
+// Utterances and replies are shortened so a full batch stays under the 6000 character message limit
+const MAX_ENTRY_TEXT_CHARS = 250;
+const TRANSCRIPT_EMBED_COLOR = 0x5865f2;
+
+/**
+ * Transcript entries waiting to be posted for one guild
+ */
+interface PendingTranscript {
+  embeds: any[];
+  dropped: number; // Entries discarded because the queue was full
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Batches transcript entries per guild and posts them at most once per flush window
+ */
+export class TranscriptLogger {
+  private stateManager: GuildStateManager;
+
+  private controls?: IGuildControls;
+
+  private config: DiscordPluginConfig;
+
+  // guildId -> entries not posted yet
+  private pending: Map<string, PendingTranscript> = new Map();
+
+  constructor(stateManager: GuildStateManager, controls?: IGuildControls, config: DiscordPluginConfig = {}) {
+    this.stateManager = stateManager;
+    this.controls = controls;
+    this.config = {
+      debug: false,
+      transcriptFlushMs: 3000,
+      transcriptMaxPending: 50,
+      ...config,
+    };
+  }
+
+  /**
+   * Queue a completed request for the guild's transcript channel
+   * Ignored when the guild hasn't enabled a transcript or the bot host can't post one
+   */
+  log(guildId: string, request: VoiceRequest): void {
+    if (!this.stateManager.getGuildState(guildId)?.transcriptChannelId || !this.controls?.postTranscript) {
+      return;
+    }
+
+    const said = request.inputText ?? request.transcription?.text;
+    if (!said || !request.agentResponse) {
+      return;
+    }
+
+    const batch = this.pending.get(guildId) ?? { embeds: [], dropped: 0 };
+    this.pending.set(guildId, batch);
+
+    batch.embeds.push(this.formatEntry(request, said, request.agentResponse));
+    // A busy channel keeps the newest lines rather than falling further and further behind
+    const overflow = batch.embeds.length - this.config.transcriptMaxPending!;
+    if (overflow > 0) {
+      batch.embeds.splice(0, overflow);
+      batch.dropped += overflow;
+    }
+
+    this.schedule(guildId, batch);
+  }
+
+  /**
+   * Post the next batch for a guild now
+   * Remaining entries are scheduled for the next flush window
+   */
+  async flush(guildId: string): Promise<void> {
+    const batch = this.pending.get(guildId);
+    if (!batch) return;
+
+    clearTimeout(batch.timer);
+    batch.timer = undefined;
+
+    const embeds = batch.embeds.splice(0, MAX_EMBEDS_PER_MESSAGE);
+    const { dropped } = batch;
+    batch.dropped = 0;
+    if (batch.embeds.length === 0) {
+      this.pending.delete(guildId);
+    }
+
+    // The transcript may have been turned off while entries were waiting
+    const channelId = this.stateManager.getGuildState(guildId)?.transcriptChannelId;
+    if (channelId && embeds.length > 0 && this.controls?.postTranscript) {
+      const message: InteractionResponse = { embeds };
+      if (dropped > 0) {
+        message.content = `_${dropped} earlier transcript ${dropped === 1 ? 'entry was' : 'entries were'} skipped_`;
+      }
+
+      try {
+        await this.controls.postTranscript(guildId, channelId, message);
+      } catch (error) {
+        console.error('Error posting voice transcript:', error);
+      }
+
+      if (this.config.debug) {
+        console.log(`[DEBUG] Posted ${embeds.length} transcript entries in guild ${guildId}`);
+      }
+    }
+
+    if (batch.embeds.length > 0) {
+      this.schedule(guildId, batch);
+    }
+  }
+
+  /**
+   * Post everything that is still queued and stop the flush timers
+   */
+  async shutdown(): Promise<void> {
+    for (const guildId of Array.from(this.pending.keys())) {
+      while (this.pending.has(guildId)) {
+        await this.flush(guildId);
+      }
+    }
+  }
+
+  /**
+   * Get the number of entries waiting to be posted for a guild
+   */
+  getPendingCount(guildId: string): number {
+    return this.pending.get(guildId)?.embeds.length ?? 0;
+  }
+
+  /**
+   * Start the flush window for a batch unless one is already running
+   * Every post waits for a full window, which also rate limits the channel
+   */
+  private schedule(guildId: string, batch: PendingTranscript): void {
+    if (batch.timer) return;
+
+    batch.timer = setTimeout(() => {
+      batch.timer = undefined;
+      this.flush(guildId).catch((error) => console.error('Error flushing voice transcript:', error));
+    }, this.config.transcriptFlushMs);
+  }
+
+  /**
+   * Format one request as a transcript embed
+   */
+  private formatEntry(request: VoiceRequest, said: string, reply: string): any {
+    return {
+      color: TRANSCRIPT_EMBED_COLOR,
+      description: `🗣️ <@${request.userId}>: ${this.shorten(said)}\n🤖 ${this.shorten(reply)}`,
+      timestamp: new Date(request.startTime).toISOString(),
+    };
+  }
+
+  /**
+   * Shorten transcript text to fit a batch into one message
+   */
+  private shorten(text: string): string {
+    const trimmed = text.trim();
+    return trimmed.length > MAX_ENTRY_TEXT_CHARS ? `${trimmed.slice(0, MAX_ENTRY_TEXT_CHARS - 1)}…` : trimmed;
+  }
+}
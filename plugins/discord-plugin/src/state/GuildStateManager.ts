@@ -3,8 +3,8 @@
  * Manages persistent guild voice state
  */
 
-import { existsSync, readFileSync, writeFileSync } from 'node:fs';
-import { join } from 'node:path';
+import { accessSync, constants, existsSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
 import { homedir } from 'node:os';
 import { GuildVoiceState, StoredGuildVoiceState, VoiceMode, PipelineStatus, IStateManager } from '../types.js';
 
@@ -91,6 +91,11 @@ export class GuildStateManager implements IStateManager {
           pipelineStatus: state.pipelineStatus,
           errorCount: state.errorCount,
           lastError: state.lastError,
+          wakePhrase: state.wakePhrase,
+          wakeFollowUpMs: state.wakeFollowUpMs,
+          allowedActions: state.allowedActions,
+          persona: state.persona,
+          transcriptChannelId: state.transcriptChannelId,
         };
       }
 
@@ -134,6 +139,11 @@ export class GuildStateManager implements IStateManager {
           pipelineStatus: stored.pipelineStatus,
           errorCount: stored.errorCount,
           lastError: stored.lastError,
+          wakePhrase: stored.wakePhrase,
+          wakeFollowUpMs: stored.wakeFollowUpMs,
+          allowedActions: stored.allowedActions,
+          persona: stored.persona,
+          transcriptChannelId: stored.transcriptChannelId,
         };
 
         this.states.set(guildId, state);
@@ -144,6 +154,26 @@ export class GuildStateManager implements IStateManager {
     }
   }
 
+  /**
+   * Check that the state file can be written (throws when it can't)
+   * A missing file needs its nearest existing parent directory to be writable
+   */
+  async checkWritable(): Promise<void> {
+    let target = this.stateFile;
+    while (!existsSync(target) && dirname(target) !== target) {
+      target = dirname(target);
+    }
+
+    try {
+      if (target !== this.stateFile && !statSync(target).isDirectory()) {
+        throw new Error(`${target} is not a directory`);
+      }
+      accessSync(target, constants.W_OK);
+    } catch (error: any) {
+      throw new Error(`Guild state file is not writable: ${this.stateFile} (${error.message})`);
+    }
+  }
+
   /**
    * Clear all state
    */
@@ -0,0 +1,94 @@
+/**
+ * User Preference Manager
+ * Manages persistent per-user voice preferences (reply language and TTS voice)
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { homedir } from 'node:os';
+import type { UserVoicePreferences } from '../../../voice-extension/src/VoiceCommandPipeline.js';
+
+/**
+ * Stores voice preferences by user ID; they apply in every guild the user talks in
+ */
+export class UserPreferenceManager {
+  private preferences: Map<string, UserVoicePreferences> = new Map();
+
+  private preferencesFile: string;
+
+  constructor(preferencesFile?: string) {
+    this.preferencesFile = preferencesFile || join(homedir(), '.openclaw', 'data', 'user-voice-preferences.json');
+  }
+
+  /**
+   * Get a user's preferences
+   */
+  getPreferences(userId: string): UserVoicePreferences | null {
+    return this.preferences.get(userId) ?? null;
+  }
+
+  /**
+   * Set a user's preferences; empty preferences are removed
+   */
+  setPreferences(userId: string, preferences: UserVoicePreferences): void {
+    const cleaned = Object.fromEntries(
+      Object.entries(preferences).filter(([, value]) => value !== undefined),
+    ) as UserVoicePreferences;
+
+    if (Object.keys(cleaned).length > 0) {
+      this.preferences.set(userId, cleaned);
+    } else {
+      this.preferences.delete(userId);
+    }
+  }
+
+  /**
+   * Get all user IDs with preferences
+   */
+  getAllUsers(): string[] {
+    return Array.from(this.preferences.keys());
+  }
+
+  /**
+   * Save preferences to file
+   */
+  async saveState(): Promise<void> {
+    try {
+      const dir = dirname(this.preferencesFile);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+
+      writeFileSync(this.preferencesFile, JSON.stringify(Object.fromEntries(this.preferences), null, 2), 'utf-8');
+    } catch (error) {
+      console.error('Failed to save user voice preferences:', error);
+      // Don't throw, allow application to continue
+    }
+  }
+
+  /**
+   * Load preferences from file
+   */
+  async loadState(): Promise<void> {
+    try {
+      if (!existsSync(this.preferencesFile)) {
+        return;
+      }
+
+      const parsed = JSON.parse(readFileSync(this.preferencesFile, 'utf-8')) as Record<string, UserVoicePreferences>;
+      for (const [userId, preferences] of Object.entries(parsed)) {
+        this.setPreferences(userId, preferences);
+      }
+    } catch (error) {
+      console.error('Failed to load user voice preferences:', error);
+      // Don't throw, allow application to continue
+    }
+  }
+
+  /**
+   * Clear all preferences
+   */
+  clear(): void {
+    this.preferences.clear();
+  }
+}
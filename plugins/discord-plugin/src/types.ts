@@ -2,6 +2,14 @@
  * Type definitions for Discord Plugin (Phase 7)
  */
 
+import type { AgentAction, AgentActionType } from '../../voice-extension/src/AgentActions.js';
+import type {
+  SessionMetrics,
+  UserVoicePreferences,
+  VoicePersona,
+  VoiceSession,
+} from '../../voice-extension/src/VoiceCommandPipeline.js';
+
 // ============================================
 // Guild Voice State
 // ============================================
@@ -13,6 +21,7 @@ export enum VoiceMode {
   Off = 'off', // Not connected
   Listening = 'listening', // Continuous listening mode
   Active = 'active', // Processing voice commands
+  PushToTalk = 'push-to-talk', // Only speech captured after /voice talk or the Talk button
 }
 
 /**
@@ -37,6 +46,11 @@ export interface GuildVoiceState {
   pipelineStatus: PipelineStatus;
   errorCount: number; // For monitoring
   lastError?: string;
+  wakePhrase?: string; // Listening mode only answers utterances starting with this (e.g. "hey Rue")
+  wakeFollowUpMs?: number; // Time after a reply when no wake phrase is needed
+  allowedActions?: AgentActionType[]; // Agent actions the bot may execute (default: DEFAULT_ALLOWED_ACTIONS)
+  persona?: VoicePersona; // Voice, speaking style, system prompt and language set with /voice config
+  transcriptChannelId?: string; // Text channel that gets a live transcript of voice requests (opt-in)
 }
 
 /**
@@ -52,8 +66,19 @@ export interface StoredGuildVoiceState {
   pipelineStatus: PipelineStatus;
   errorCount: number;
   lastError?: string;
+  wakePhrase?: string;
+  wakeFollowUpMs?: number;
+  allowedActions?: AgentActionType[];
+  persona?: VoicePersona;
+  transcriptChannelId?: string;
 }
 
+/**
+ * Agent actions allowed in guilds that haven't configured an allow-list
+ * Posting messages has to be enabled explicitly
+ */
+export const DEFAULT_ALLOWED_ACTIONS: AgentActionType[] = ['leave-channel', 'change-voice', 'set-volume', 'play-sound'];
+
 // ============================================
 // Commands
 // ============================================
@@ -75,8 +100,106 @@ export interface VoiceStartPayload {
   userId: string;
   guildId: string;
   channelId: string;
+  mode?: VoiceMode.Listening | VoiceMode.PushToTalk; // Default: Listening
+}
+
+/**
+ * Voice talk command payload (also sent by the Talk button)
+ */
+export interface VoiceTalkPayload {
+  userId: string;
+  guildId: string;
+}
+
+/**
+ * Voice history command payload (inspect or clear)
+ */
+export interface VoiceHistoryPayload {
+  userId: string;
+  guildId: string;
+  channelId?: string; // Default: the channel voice mode is running in
+}
+
+/**
+ * Voice actions command payload (view or replace the agent action allow-list)
+ */
+export interface VoiceActionsPayload {
+  userId: string;
+  guildId: string;
+  allow?: string[]; // New allow-list (omit to view the current one)
+  canManageGuild?: boolean; // Caller has the Manage Server permission (required to change the allow-list)
+}
+
+/**
+ * Guild settings managed with /voice config, mapped to persona fields
+ */
+export const VOICE_CONFIG_SETTINGS = {
+  voice: 'voiceId',
+  stability: 'stability',
+  similarity: 'similarity',
+  rate: 'speakingRate',
+  prompt: 'systemPrompt',
+  language: 'language',
+} as const satisfies Record<string, keyof VoicePersona>;
+
+export type VoiceConfigSetting = keyof typeof VOICE_CONFIG_SETTINGS;
+
+/**
+ * Voice config command payload (view, set or reset the guild persona)
+ */
+export interface VoiceConfigPayload {
+  userId: string;
+  guildId: string;
+  setting?: string; // One of VOICE_CONFIG_SETTINGS (required to set; omit to reset everything)
+  value?: string;
+  canManageGuild?: boolean; // Caller has the Manage Server permission (required to set or reset)
 }
 
+/**
+ * Personal settings managed with /voice prefs, mapped to preference fields
+ */
+export const VOICE_PREFERENCE_SETTINGS = {
+  voice: 'voiceId',
+  language: 'language',
+} as const satisfies Record<string, keyof UserVoicePreferences>;
+
+export type VoicePreferenceSetting = keyof typeof VOICE_PREFERENCE_SETTINGS;
+
+/**
+ * Voice prefs command payload (view, set or reset the caller's own preferences)
+ */
+export interface VoicePrefsPayload {
+  userId: string;
+  guildId: string;
+  setting?: string; // One of VOICE_PREFERENCE_SETTINGS (required to set; omit to reset everything)
+  value?: string;
+}
+
+/**
+ * Voice transcript command payload (view, enable or turn off the live transcript)
+ */
+export interface VoiceTranscriptPayload {
+  userId: string;
+  guildId: string;
+  channelId?: string; // Text channel to post the transcript in (omit to view the current one)
+  canManageGuild?: boolean; // Caller has the Manage Server permission (required to enable or turn off)
+}
+
+/**
+ * Voice wake command payload (view, set or clear the Listening mode wake phrase)
+ */
+export interface VoiceWakePayload {
+  userId: string;
+  guildId: string;
+  phrase?: string; // New wake phrase (omit to view the current one)
+  canManageGuild?: boolean; // Caller has the Manage Server permission (required to change the phrase)
+}
+
+/**
+ * Custom ID of the push-to-talk button; presses are routed to the voice-talk command
+ */
+export const TALK_BUTTON_ID = 'voice-talk';
+
 /**
  * Voice stop command payload
  */
@@ -135,6 +258,15 @@ export interface InteractionResponse {
   components?: any[];
 }
 
+/**
+ * Outcome of executing one agent action
+ */
+export interface ActionResult {
+  action: AgentAction;
+  status: 'executed' | 'denied' | 'unsupported' | 'failed';
+  error?: string;
+}
+
 // ============================================
 // Configuration
 // ============================================
@@ -144,10 +276,13 @@ export interface InteractionResponse {
  */
 export interface DiscordPluginConfig {
   stateFile?: string; // Where to persist state
+  preferencesFile?: string; // Where to persist per-user voice preferences
   debug?: boolean; // Enable debug logging
   enableStateCleanup?: boolean; // Auto-cleanup old state
   stateTTL?: number; // How long to keep state (ms)
   maxErrorCount?: number; // Before blocking guild
+  transcriptFlushMs?: number; // Transcript batching window, also the minimum gap between posts per guild (default: 3000)
+  transcriptMaxPending?: number; // Transcript entries queued per guild before the oldest are dropped (default: 50)
 }
 
 // ============================================
@@ -168,6 +303,7 @@ export enum DiscordPluginErrorType {
   StateError = 'STATE_ERROR',
   DiscordError = 'DISCORD_ERROR',
   Timeout = 'TIMEOUT',
+  SessionNotFound = 'SESSION_NOT_FOUND',
 }
 
 /**
@@ -233,17 +369,61 @@ export interface IStateManager {
   saveState(): Promise<void>;
   loadState(): Promise<void>;
   getAllGuilds(): string[];
+  checkWritable?(): Promise<void>; // Health check: throws when state can't be persisted
+}
+
+/**
+ * Options for starting a guild listening session
+ */
+export interface StartListeningOptions {
+  userId?: string; // User who started voice mode (session owner)
+  wakePhrase?: string; // Gate voice utterances on this phrase (default: the pipeline's setting)
+  wakeFollowUpMs?: number; // Follow-up window after a reply (default: the pipeline's setting)
+  pushToTalk?: boolean; // Only process speech captured with /voice talk (default: continuous listening)
+  persona?: VoicePersona; // Guild voice and agent settings (default: the pipeline's)
+}
+
+/**
+ * Discord-side effects of agent actions, implemented by the bot host
+ * Optional methods that are missing make the matching action unsupported
+ */
+export interface IGuildControls {
+  isReady?(): boolean; // Gateway connection is up (e.g. discord.js client.isReady()); checked by the discord_bot probe
+  leaveVoiceChannel(guildId: string): Promise<void>;
+  setVolume?(guildId: string, volume: number): Promise<void>;
+  playSound?(guildId: string, clip: string): Promise<void>;
+  postMessage?(guildId: string, channelId: string, content: string): Promise<void>;
+  postTranscript?(guildId: string, channelId: string, message: InteractionResponse): Promise<void>; // Transcript batches
 }
 
 /**
  * Pipeline adapter interface
  */
 export interface IPipelineAdapter {
-  startListening(guildId: string, channelId: string): Promise<void>;
+  startListening(guildId: string, channelId: string, options?: StartListeningOptions): Promise<void>;
   stopListening(guildId: string): Promise<void>;
   askQuestion(guildId: string, question: string): Promise<string>;
 }
 
+// ============================================
+// Admin
+// ============================================
+
+/**
+ * Active pipeline session as listed by the admin API
+ */
+export interface AdminSessionSummary {
+  sessionId: string;
+  guildId: string;
+  channelId: string;
+  userId: string; // Session owner
+  status: VoiceSession['status'];
+  inputMode: VoiceSession['inputMode'];
+  startTime: number;
+  lastActivity: number;
+  metrics: SessionMetrics;
+}
+
 // ============================================
 // Logging
 // ============================================
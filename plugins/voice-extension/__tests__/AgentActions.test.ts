@@ -0,0 +1,74 @@
+/**
+ * Agent Actions Tests
+ * Validation of the actions an agent returns with its reply
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MAX_ACTIONS_PER_RESPONSE, parseAgentActions, validateAgentAction } from '../src/AgentActions.js';
+
+describe('validateAgentAction', () => {
+  it('accepts every supported action type', () => {
+    const raw = [
+      { type: 'leave-channel' },
+      { type: 'change-voice', voiceId: 'shimmer' },
+      { type: 'set-volume', volume: 0.4 },
+      { type: 'play-sound', clip: 'drum_roll' },
+      { type: 'post-message', content: '  See you!  ' },
+    ];
+
+    expect(raw.map((action) => validateAgentAction(action))).toEqual([
+      { action: { type: 'leave-channel' } },
+      { action: { type: 'change-voice', voiceId: 'shimmer' } },
+      { action: { type: 'set-volume', volume: 0.4 } },
+      { action: { type: 'play-sound', clip: 'drum_roll' } },
+      { action: { type: 'post-message', content: 'See you!' } },
+    ]);
+  });
+
+  it('drops fields that are not part of the action', () => {
+    expect(validateAgentAction({ type: 'leave-channel', channelId: 'elsewhere' })).toEqual({
+      action: { type: 'leave-channel' },
+    });
+  });
+
+  it('rejects malformed actions', () => {
+    const invalid = [
+      null,
+      'leave-channel',
+      { type: 'kick-user', userId: '1' },
+      { type: 'set-volume', volume: 3 },
+      { type: 'set-volume', volume: '0.5' },
+      { type: 'play-sound', clip: '../../etc/passwd' },
+      { type: 'change-voice' },
+      { type: 'post-message', content: '   ' },
+      { type: 'post-message', content: 'x'.repeat(2001) },
+    ];
+
+    for (const action of invalid) {
+      expect(validateAgentAction(action)).toHaveProperty('reason');
+    }
+  });
+});
+
+describe('parseAgentActions', () => {
+  it('keeps valid actions and reports rejected ones', () => {
+    const { actions, rejected } = parseAgentActions([{ type: 'set-volume', volume: 1.2 }, { type: 'self-destruct' }]);
+
+    expect(actions).toEqual([{ type: 'set-volume', volume: 1.2 }]);
+    expect(rejected).toEqual([{ action: { type: 'self-destruct' }, reason: 'Unknown action type: self-destruct' }]);
+  });
+
+  it('treats a missing field as no actions and rejects non-arrays', () => {
+    expect(parseAgentActions(undefined)).toEqual({ actions: [], rejected: [] });
+    expect(parseAgentActions({ type: 'leave-channel' }).rejected).toHaveLength(1);
+  });
+
+  it('limits the number of actions in one reply', () => {
+    const raw = Array.from({ length: MAX_ACTIONS_PER_RESPONSE + 2 }, () => ({ type: 'leave-channel' }));
+
+    const { actions, rejected } = parseAgentActions(raw);
+
+    expect(actions).toHaveLength(MAX_ACTIONS_PER_RESPONSE);
+    expect(rejected).toHaveLength(2);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Agent Client Tests
+ * Built-in clients against a local stub server, plus registry selection tests
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  AgentClientRegistry,
+  AgentRequest,
+  FunctionAgentClient,
+  HTTPAgentClient,
+  MockAgentClient,
+  OpenAIChatAgentClient,
+} from '../src/AgentClient.js';
+
+const request: AgentRequest = {
+  text: 'and tomorrow?',
+  sessionId: 'session1',
+  guildId: 'guild1',
+  channelId: 'channel1',
+  userId: 'alice',
+  history: [
+    { role: 'user', text: "what's the weather today", userId: 'alice', timestamp: 1000 },
+    { role: 'assistant', text: 'Sunny all day.', timestamp: 1000 },
+  ],
+};
+
+describe('Agent clients', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let respond: (res: http.ServerResponse) => void;
+  let lastRequest: { url?: string; headers: http.IncomingHttpHeaders; body: any };
+
+  beforeEach(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => {
+        body += chunk;
+      });
+      req.on('end', () => {
+        lastRequest = { url: req.url, headers: req.headers, body: JSON.parse(body) };
+        respond(res);
+      });
+    });
+    await new Promise<void>((resolve) => {
+      server.listen(0, '127.0.0.1', resolve);
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => {
+      server.close(resolve);
+    });
+  });
+
+  it('http: posts the transcript and history and returns raw actions', async () => {
+    respond = (res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ text: 'Rain later.', actions: [{ type: 'leave-channel' }] }));
+    };
+    const client = new HTTPAgentClient({ type: 'http', endpoint: `${baseUrl}/agent`, apiKey: 'key', streaming: false });
+
+    const reply = await client.send(request, {});
+
+    expect(reply).toEqual({ text: 'Rain later.', actions: [{ type: 'leave-channel' }] });
+    expect(lastRequest.headers.authorization).toBe('Bearer key');
+    expect(lastRequest.body).toEqual({
+      text: 'and tomorrow?',
+      sessionId: 'session1',
+      userId: 'alice',
+      history: [
+        { role: 'user', text: "what's the weather today", userId: 'alice' },
+        { role: 'assistant', text: 'Sunny all day.' },
+      ],
+    });
+  });
+
+  it('http: reports error statuses and timeouts', async () => {
+    respond = (res) => {
+      res.writeHead(503, 'Service Unavailable');
+      res.end();
+    };
+    const client = new HTTPAgentClient({ type: 'http', endpoint: `${baseUrl}/agent` });
+    await expect(client.send(request, {})).rejects.toThrow('Agent API error: 503 Service Unavailable');
+
+    respond = () => {};
+    const slow = new HTTPAgentClient({ type: 'http', endpoint: `${baseUrl}/agent`, timeoutMs: 100 });
+    await expect(slow.send(request, {})).rejects.toThrow('Agent request timeout after 100ms');
+  });
+
+  it('http: times out replies that stall after the headers', async () => {
+    const client = new HTTPAgentClient({ type: 'http', endpoint: `${baseUrl}/agent`, timeoutMs: 100 });
+
+    respond = (res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"text":"Once upon "}\n\n');
+    };
+    const deltas: string[] = [];
+    await expect(client.send(request, { onDelta: (delta) => deltas.push(delta) })).rejects.toThrow(
+      'Agent request timeout after 100ms',
+    );
+    expect(deltas).toEqual(['Once upon ']);
+
+    respond = (res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.write('{"text":');
+    };
+    await expect(client.send(request, {})).rejects.toThrow('Agent request timeout after 100ms');
+  });
+
+  it('http: aborts the request when the signal is aborted', async () => {
+    let closed = false;
+    respond = (res) => {
+      res.on('close', () => {
+        closed = true;
+      });
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"text":"Once upon "}\n\n');
+    };
+    const client = new HTTPAgentClient({ type: 'http', endpoint: `${baseUrl}/agent` });
+    const controller = new AbortController();
+
+    const reply = client.send(request, { onDelta: () => controller.abort(), signal: controller.signal });
+
+    await expect(reply).rejects.toThrow('Agent request cancelled');
+    await vi.waitFor(() => expect(closed).toBe(true));
+  });
+
+  it('openai-chat: builds chat messages and reads the completion', async () => {
+    respond = (res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          model: 'local-model',
+          choices: [{ message: { role: 'assistant', content: 'Rain later.' }, finish_reason: 'stop' }],
+        }),
+      );
+    };
+    const client = new OpenAIChatAgentClient({
+      type: 'openai-chat',
+      model: 'local-model',
+      baseUrl: `${baseUrl}/`,
+      systemPrompt: 'You are a helpful voice assistant.',
+      streaming: false,
+    });
+
+    const reply = await client.send(request, {});
+
+    expect(reply).toEqual({ text: 'Rain later.', metadata: { model: 'local-model', finishReason: 'stop' } });
+    expect(lastRequest.url).toBe('/v1/chat/completions');
+    expect(lastRequest.headers.authorization).toBeUndefined();
+    expect(lastRequest.body).toEqual({
+      model: 'local-model',
+      messages: [
+        { role: 'system', content: 'You are a helpful voice assistant.' },
+        { role: 'user', content: "what's the weather today", name: 'alice' },
+        { role: 'assistant', content: 'Sunny all day.' },
+        { role: 'user', content: 'and tomorrow?', name: 'alice' },
+      ],
+    });
+  });
+
+  it('openai-chat: streams deltas and applies the persona prompt and language', async () => {
+    respond = (res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n');
+      res.write('data: {"choices":[{"delta":{"content":"Rain "}}]}\n\n');
+      res.write('data: {"choices":[{"delta":{"content":"later."}}]}\n\n');
+      res.end('data: [DONE]\n\n');
+    };
+    const client = new OpenAIChatAgentClient({ type: 'openai-chat', model: 'gpt-4o-mini', baseUrl, apiKey: 'key' });
+    const deltas: string[] = [];
+
+    const reply = await client.send(
+      { ...request, history: [], systemPrompt: 'Talk like a pirate.', language: 'de' },
+      { onDelta: (delta) => deltas.push(delta) },
+    );
+
+    expect(reply.text).toBe('Rain later.');
+    expect(deltas).toEqual(['Rain ', 'later.']);
+    expect(lastRequest.body.messages[0]).toEqual({
+      role: 'system',
+      content: 'Talk like a pirate.\n\nReply in the language with ISO-639-1 code "de".',
+    });
+    expect(lastRequest.body.stream).toBe(true);
+    expect(lastRequest.headers.authorization).toBe('Bearer key');
+  });
+
+  it('http and openai-chat: forward the trace context header', async () => {
+    respond = (res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ text: 'Rain later.', choices: [{ message: { content: 'Rain later.' } }] }));
+    };
+    const traceparent = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+
+    await new HTTPAgentClient({ type: 'http', endpoint: baseUrl, streaming: false }).send(request, {});
+    expect(lastRequest.headers.traceparent).toBeUndefined();
+
+    await new HTTPAgentClient({ type: 'http', endpoint: baseUrl, streaming: false }).send(
+      { ...request, traceparent },
+      {},
+    );
+    expect(lastRequest.headers.traceparent).toBe(traceparent);
+    expect(lastRequest.body.traceparent).toBeUndefined();
+
+    await new OpenAIChatAgentClient({ type: 'openai-chat', model: 'm', baseUrl, streaming: false }).send(
+      { ...request, traceparent },
+      {},
+    );
+    expect(lastRequest.headers.traceparent).toBe(traceparent);
+  });
+
+  it('function: calls the handler in process', async () => {
+    const client = new FunctionAgentClient({
+      type: 'function',
+      name: 'echo',
+      handler: (agentRequest) => `${agentRequest.userId} asked: ${agentRequest.text}`,
+    });
+
+    expect(client.name).toBe('echo');
+    expect(await client.send(request, {})).toEqual({ text: 'alice asked: and tomorrow?' });
+  });
+});
+
+describe('AgentClientRegistry', () => {
+  it('uses the mock agent when nothing is configured', () => {
+    const registry = new AgentClientRegistry();
+
+    expect(registry.getTypes()).toEqual(['http', 'openai-chat', 'function', 'mock']);
+    expect(registry.getClient('guild1')).toBeInstanceOf(MockAgentClient);
+  });
+
+  it('selects clients per guild and reuses instances', () => {
+    const registry = new AgentClientRegistry({
+      default: { type: 'http', endpoint: 'http://agent.internal/reply' },
+      guilds: { guild2: { type: 'openai-chat', model: 'gpt-4o-mini' } },
+    });
+
+    expect(registry.getClient('guild1')).toBeInstanceOf(HTTPAgentClient);
+    expect(registry.getClient('guild2')).toBeInstanceOf(OpenAIChatAgentClient);
+    expect(registry.getClient('guild1')).toBe(registry.getClient('guild3'));
+  });
+
+  it('validates client config', () => {
+    const registry = new AgentClientRegistry();
+
+    expect(() => registry.create({ type: 'carrier-pigeon' })).toThrow('Unknown agent client type: carrier-pigeon');
+    expect(() => registry.create({ type: 'http' })).toThrow('requires an endpoint');
+    expect(() => registry.create({ type: 'function' })).toThrow('requires a handler');
+  });
+});
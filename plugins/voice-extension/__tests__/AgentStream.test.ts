@@ -0,0 +1,111 @@
+/**
+ * Agent response streaming - Test Suite
+ * Stream format detection, SSE/NDJSON parsing and sentence splitting
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AsyncTextQueue,
+  SentenceSplitter,
+  detectStreamFormat,
+  parseAgentStream,
+  splitSentences,
+} from '../src/AgentStream.js';
+
+function streamOf(...parts: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const part of parts) {
+        controller.enqueue(encoder.encode(part));
+      }
+      controller.close();
+    },
+  });
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('AgentStream', () => {
+  describe('detectStreamFormat', () => {
+    it('detects SSE and NDJSON content types', () => {
+      expect(detectStreamFormat('text/event-stream; charset=utf-8')).toBe('sse');
+      expect(detectStreamFormat('application/x-ndjson')).toBe('ndjson');
+      expect(detectStreamFormat('application/json')).toBeNull();
+      expect(detectStreamFormat(null)).toBeNull();
+    });
+  });
+
+  describe('parseAgentStream', () => {
+    it('parses SSE events split across network chunks', async () => {
+      const body = streamOf('data: {"text":"Hel', 'lo"}\n\ndata: {"delta":" there"}\n', '\ndata: [DONE]\n\n');
+
+      const chunks = await collect(parseAgentStream(body, 'sse'));
+
+      expect(chunks.map((c) => c.text)).toEqual(['Hello', ' there']);
+    });
+
+    it('treats non-JSON SSE data as plain text', async () => {
+      const body = streamOf('event: message\ndata: plain text\n\n');
+
+      const chunks = await collect(parseAgentStream(body, 'sse'));
+
+      expect(chunks).toEqual([{ text: 'plain text' }]);
+    });
+
+    it('parses NDJSON lines with confidence and metadata', async () => {
+      const body = streamOf(
+        '{"text":"One. "}\n{"text":"Two."}\n',
+        '{"done":true,"confidence":0.7,"metadata":{"a":1}}\n',
+      );
+
+      const chunks = await collect(parseAgentStream(body, 'ndjson'));
+
+      expect(chunks).toHaveLength(3);
+      expect(chunks[2]).toMatchObject({ done: true, confidence: 0.7, metadata: { a: 1 } });
+    });
+  });
+
+  describe('SentenceSplitter', () => {
+    it('releases sentences only once they are complete', () => {
+      const splitter = new SentenceSplitter();
+
+      expect(splitter.push('The first sentence')).toEqual([]);
+      expect(splitter.push(' is here. And the sec')).toEqual(['The first sentence is here.']);
+      expect(splitter.push('ond one!\n')).toEqual(['And the second one!']);
+      expect(splitter.flush()).toBeNull();
+    });
+
+    it('merges fragments shorter than the minimum length', () => {
+      const splitter = new SentenceSplitter({ minLength: 12 });
+
+      expect(splitter.push('Ok. Sure thing, here you go. ')).toEqual(['Ok. Sure thing, here you go.']);
+    });
+
+    it('does not split on decimal points', () => {
+      const splitter = new SentenceSplitter();
+
+      expect(splitter.push('The value is 3.14 today')).toEqual([]);
+      expect(splitter.flush()).toBe('The value is 3.14 today');
+    });
+  });
+
+  describe('splitSentences', () => {
+    it('splits queued deltas into sentences and flushes the remainder', async () => {
+      const queue = new AsyncTextQueue();
+      const result = collect(splitSentences(queue));
+
+      queue.push('Hello there, friend. How ');
+      queue.push('are you doing');
+      queue.close();
+
+      expect(await result).toEqual(['Hello there, friend.', 'How are you doing']);
+    });
+  });
+});
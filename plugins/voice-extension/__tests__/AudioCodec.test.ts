@@ -0,0 +1,209 @@
+/**
+ * Audio codec - Test Suite
+ * Real Opus (libopus via WebAssembly) and the deterministic test codec
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  OpusCodec,
+  TestAudioCodec,
+  AudioCodecConfig,
+  downmixToMono,
+  floatToPCM16,
+  pcm16ToFloat,
+} from '../src/AudioCodec.js';
+import { AudioStreamHandler } from '../src/AudioStreamHandler.js';
+import { AudioStreamConfig } from '../src/types.js';
+
+const baseConfig: AudioCodecConfig = {
+  sampleRate: 48000,
+  channels: 2,
+  frameSize: 960,
+};
+
+function createSineFrame(amplitude = 0.5, frequency = 440): Float32Array {
+  const pcm = new Float32Array(960 * 2);
+  for (let i = 0; i < 960; i++) {
+    const sample = Math.sin((2 * Math.PI * frequency * i) / 48000) * amplitude;
+    pcm[i * 2] = sample;
+    pcm[i * 2 + 1] = sample;
+  }
+  return pcm;
+}
+
+function rms(pcm: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < pcm.length; i++) {
+    sum += pcm[i] * pcm[i];
+  }
+  return Math.sqrt(sum / pcm.length);
+}
+
+describe('AudioCodec', () => {
+  const codecs: OpusCodec[] = [];
+
+  function createOpus(overrides: Partial<AudioCodecConfig> = {}): OpusCodec {
+    const codec = new OpusCodec({ ...baseConfig, ...overrides });
+    codecs.push(codec);
+    return codec;
+  }
+
+  afterEach(() => {
+    codecs.splice(0).forEach((codec) => codec.destroy());
+  });
+
+  describe('PCM helpers', () => {
+    it('converts between Float32 and 16-bit PCM', () => {
+      const pcm = new Float32Array([0, 0.5, -0.5, 1, -1, 2]);
+      const restored = pcm16ToFloat(floatToPCM16(pcm));
+
+      expect(restored[1]).toBeCloseTo(0.5, 3);
+      expect(restored[2]).toBeCloseTo(-0.5, 3);
+      expect(restored[5]).toBe(1); // Clipped
+    });
+
+    it('downmixes interleaved PCM to mono', () => {
+      const stereo = new Float32Array([0.2, 0.4, -1, 1, 0.5, 0.5]);
+
+      expect(Array.from(downmixToMono(stereo, 2))).toEqual([expect.closeTo(0.3), 0, 0.5]);
+      expect(downmixToMono(stereo, 1)).toBe(stereo);
+    });
+  });
+
+  describe('OpusCodec', () => {
+    it('round-trips a frame through libopus', () => {
+      const codec = createOpus();
+      const input = createSineFrame();
+
+      // Opus has algorithmic delay, so compare levels over a few frames
+      let decoded: Float32Array = new Float32Array(0);
+      for (let i = 0; i < 3; i++) {
+        const packet = codec.encode(input);
+        expect(packet.length).toBeGreaterThan(0);
+        expect(packet.length).toBeLessThan(1275); // Max Opus frame payload
+        decoded = codec.decode(packet);
+      }
+
+      expect(decoded.length).toBe(960 * 2);
+      expect(rms(decoded)).toBeGreaterThan(rms(input) * 0.8);
+      expect(rms(decoded)).toBeLessThan(rms(input) * 1.2);
+    });
+
+    it('decodes stereo packets to mono when configured with one channel', () => {
+      const encoder = createOpus();
+      const decoder = createOpus({ channels: 1 });
+      const input = createSineFrame();
+
+      let decoded: Float32Array = new Float32Array(0);
+      for (let i = 0; i < 3; i++) {
+        decoded = decoder.decode(encoder.encode(input));
+      }
+
+      expect(decoder.channels).toBe(1);
+      expect(decoded.length).toBe(960);
+      expect(rms(decoded)).toBeGreaterThan(rms(input) * 0.8);
+    });
+
+    it('honors bitRate', () => {
+      const high = createOpus({ bitRate: 128000 });
+      const low = createOpus({ bitRate: 16000 });
+      const input = createSineFrame();
+
+      expect(low.encode(input).length).toBeLessThan(high.encode(input).length);
+    });
+
+    it('honors useFEC', () => {
+      const withFEC = createOpus({ useFEC: true, bitRate: 32000 });
+      const withoutFEC = createOpus({ useFEC: false, bitRate: 32000 });
+      const silence = new Float32Array(960 * 2);
+
+      expect(withFEC.encode(silence).length).toBeGreaterThan(withoutFEC.encode(silence).length);
+    });
+
+    it('honors useDTX on silence', () => {
+      const codec = createOpus({ useDTX: true, bitRate: 32000 });
+      const silence = new Float32Array(960 * 2);
+
+      const sizes = Array.from({ length: 20 }, () => codec.encode(silence).length);
+
+      expect(Math.min(...sizes)).toBeLessThanOrEqual(3);
+    });
+
+    it('rejects frames of the wrong size', () => {
+      const codec = createOpus();
+      expect(() => codec.encode(new Float32Array(100))).toThrow('Invalid PCM frame size');
+    });
+
+    it('rejects invalid packets', () => {
+      const codec = createOpus();
+      expect(() => codec.decode(new Uint8Array(0))).toThrow();
+      expect(() => codec.decode(new Uint8Array([0x4f, 0x50, 0x55, 0x53]))).toThrow();
+    });
+
+    it('rejects unsupported sample rates', () => {
+      expect(() => new OpusCodec({ ...baseConfig, sampleRate: 44100 })).toThrow();
+    });
+
+    it('cannot be used after destroy', () => {
+      const codec = new OpusCodec(baseConfig);
+      codec.destroy();
+      expect(() => codec.encode(createSineFrame())).toThrow('destroyed');
+    });
+  });
+
+  describe('TestAudioCodec', () => {
+    it('produces stable 20-60 byte packets', () => {
+      const codec = new TestAudioCodec(baseConfig);
+      const input = createSineFrame();
+
+      const first = codec.encode(input);
+      const second = codec.encode(input);
+
+      expect(first).toEqual(second);
+      expect(first.length).toBeGreaterThanOrEqual(20);
+      expect(first.length).toBeLessThanOrEqual(60);
+    });
+
+    it('preserves loudness through a round trip', () => {
+      const codec = new TestAudioCodec(baseConfig);
+      const input = createSineFrame(0.5);
+
+      const decoded = codec.decode(codec.encode(input));
+
+      expect(decoded.length).toBe(960 * 2);
+      expect(rms(decoded)).toBeCloseTo(rms(input), 1);
+    });
+  });
+
+  describe('AudioStreamHandler integration', () => {
+    it('uses Opus by default with the stream codec settings', async () => {
+      const streamConfig: AudioStreamConfig = {
+        sampleRate: 48000,
+        channels: 2,
+        frameSize: 960,
+        bitRate: 64000,
+        jitterBufferSize: 10,
+        circularBufferCapacity: 100,
+        targetBufferLatency: 40,
+        opusComplexity: 5,
+        useFEC: false,
+        useDTX: false,
+        maxPlaybackRate: 48000,
+        maxRetries: 3,
+        timeoutMs: 5000,
+        enableMetrics: true,
+      };
+      const handler = new AudioStreamHandler(streamConfig);
+      await handler.initialize();
+
+      const packet = await handler.encodeFrame(createSineFrame());
+      const decoded = await handler.decodeFrame(packet);
+      await handler.shutdown();
+
+      // 64 kbps for 20ms is ~160 bytes
+      expect(packet.length).toBeGreaterThan(60);
+      expect(packet.length).toBeLessThan(400);
+      expect(decoded.length).toBe(960 * 2);
+    });
+  });
+});
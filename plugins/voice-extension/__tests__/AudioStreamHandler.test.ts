@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { AudioStreamHandler, CircularAudioBuffer, JitterBuffer, AudioErrorCode } from '../src/AudioStreamHandler';
+import { TestAudioCodec } from '../src/AudioCodec';
 import { AudioStreamConfig, AudioFrame, AudioStreamError, BufferHealth, AudioStreamStats } from '../src/types';
 
 // ============================================
@@ -209,7 +210,7 @@ describe('AudioStreamHandler - Section C: Opus Encoding', () => {
 
   beforeEach(async () => {
     config = createTestConfig();
-    handler = new AudioStreamHandler(config);
+    handler = new AudioStreamHandler(config, new TestAudioCodec(config));
     await handler.initialize();
   });
 
@@ -318,7 +319,7 @@ describe('AudioStreamHandler - Section D: Opus Decoding', () => {
 
   beforeEach(async () => {
     config = createTestConfig();
-    handler = new AudioStreamHandler(config);
+    handler = new AudioStreamHandler(config, new TestAudioCodec(config));
     await handler.initialize();
   });
 
@@ -644,6 +645,15 @@ describe('AudioStreamHandler - Section G: Playback', () => {
     const queue = handler.getPlaybackQueue();
     expect(Array.isArray(queue)).toBe(true);
   });
+
+  it('should clear queued playback frames', async () => {
+    await handler.playFrame(createTestAudioFrame());
+    await handler.playFrame(createTestAudioFrame());
+    expect(handler.getPlaybackQueueSize()).toBe(2);
+
+    expect(handler.clearPlaybackQueue()).toBe(2);
+    expect(handler.getPlaybackQueueSize()).toBe(0);
+  });
 });
 
 // ============================================
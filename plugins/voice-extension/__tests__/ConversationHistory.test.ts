@@ -0,0 +1,65 @@
+/**
+ * ConversationHistory Tests
+ * Turn and token limits, idle expiry and token estimation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConversationHistory, estimateTokens } from '../src/ConversationHistory.js';
+
+describe('ConversationHistory', () => {
+  it('records exchanges as user and assistant turns', () => {
+    const history = new ConversationHistory();
+
+    history.addExchange("what's the weather today", 'Sunny and 20 degrees.', 'alice', 1000);
+
+    expect(history.getTurns(1000)).toEqual([
+      { role: 'user', text: "what's the weather today", userId: 'alice', timestamp: 1000 },
+      { role: 'assistant', text: 'Sunny and 20 degrees.', timestamp: 1000 },
+    ]);
+    expect(history.getTokenCount()).toBe(
+      estimateTokens("what's the weather today") + estimateTokens('Sunny and 20 degrees.'),
+    );
+  });
+
+  it('drops the oldest exchanges beyond the turn limit', () => {
+    const history = new ConversationHistory({ maxTurns: 4 });
+
+    for (let i = 1; i <= 3; i++) {
+      history.addExchange(`question ${i}`, `answer ${i}`, 'alice', 1000);
+    }
+
+    expect(history.getTurns(1000).map((turn) => turn.text)).toEqual([
+      'question 2',
+      'answer 2',
+      'question 3',
+      'answer 3',
+    ]);
+  });
+
+  it('drops the oldest exchanges beyond the token budget', () => {
+    const history = new ConversationHistory({ maxTokens: 25 });
+
+    history.addExchange('a'.repeat(40), 'b'.repeat(40), 'alice', 1000); // 20 tokens
+    history.addExchange('c'.repeat(20), 'd'.repeat(20), 'alice', 1000); // 10 tokens
+
+    expect(history.getTurns(1000).map((turn) => turn.text[0])).toEqual(['c', 'd']);
+    expect(history.getTokenCount()).toBe(10);
+  });
+
+  it('always keeps the latest exchange', () => {
+    const history = new ConversationHistory({ maxTokens: 5 });
+
+    history.addExchange('a long question that is over budget', 'and a long answer too', 'alice', 1000);
+
+    expect(history.getTurns(1000)).toHaveLength(2);
+  });
+
+  it('forgets conversations that have gone quiet', () => {
+    const history = new ConversationHistory({ idleTimeoutMs: 60000 });
+    history.addExchange('hello', 'hi there', 'alice', 1000);
+
+    expect(history.getTurns(61000)).toHaveLength(2);
+    expect(history.getTurns(61001)).toEqual([]);
+    expect(history.getTokenCount()).toBe(0);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * HealthRegistry Tests
+ * Probe aggregation, timeouts and last-error tracking, plus the pipeline's probes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { HealthRegistry } from '../src/HealthRegistry.js';
+import { registerPipelineHealthChecks } from '../src/PipelineHealth.js';
+import { STTProviderRegistry } from '../src/STTProvider.js';
+import type { VoiceCommandPipeline } from '../src/VoiceCommandPipeline.js';
+
+describe('HealthRegistry', () => {
+  it('is unhealthy and not ready only when a critical check fails', async () => {
+    const registry = new HealthRegistry();
+    let storageUp = true;
+    registry.register('pipeline', () => {});
+    registry.register('tts', () => Promise.reject(new Error('provider down')), { critical: false });
+    registry.register('storage', () => {
+      if (!storageUp) throw new Error('read-only file system');
+    });
+
+    const degraded = await registry.run();
+    expect(degraded.status).toBe('degraded');
+    expect(degraded.ready).toBe(true);
+    expect(degraded.checks.pipeline).toMatchObject({ status: 'pass', critical: true });
+    expect(degraded.checks.pipeline.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(degraded.checks.tts).toMatchObject({ status: 'fail', critical: false, error: 'provider down' });
+
+    storageUp = false;
+    const unhealthy = await registry.run();
+    expect(unhealthy.status).toBe('unhealthy');
+    expect(unhealthy.ready).toBe(false);
+
+    registry.unregister('tts');
+    storageUp = true;
+    expect((await registry.run()).status).toBe('healthy');
+  });
+
+  it('fails probes that exceed their timeout and keeps the last error after recovery', async () => {
+    const registry = new HealthRegistry();
+    let hang = true;
+    registry.register('stt', () => (hang ? new Promise<void>(() => {}) : undefined), { timeoutMs: 20 });
+
+    const failed = await registry.run();
+    expect(failed.checks.stt).toMatchObject({ status: 'fail', error: 'Timed out after 20ms' });
+    expect(failed.checks.stt.latencyMs).toBeGreaterThanOrEqual(15);
+
+    hang = false;
+    const recovered = (await registry.run()).checks.stt;
+    expect(recovered.status).toBe('pass');
+    expect(recovered.error).toBeUndefined();
+    expect(recovered.lastError).toBe('Timed out after 20ms');
+    expect(recovered.lastErrorAt).toBe(failed.checks.stt.lastErrorAt);
+  });
+
+  it('probes the default STT provider and every guild override', async () => {
+    const providers = new STTProviderRegistry({
+      default: { type: 'fake', name: 'hosted' },
+      guilds: { private1: { type: 'fake', name: 'local', down: true }, private2: { type: 'fake', name: 'local' } },
+    });
+    providers.register('fake', (config) => ({
+      name: config.name as string,
+      streaming: false,
+      transcribe: async () => ({ text: '', language: 'en', confidence: 1, duration: 0, timestamp: Date.now() }),
+      checkHealth: async () => {
+        if (config.down) throw new Error('connect ECONNREFUSED');
+      },
+      shutdown: async () => {},
+    }));
+    const pipeline = { isReady: () => true, getSTTProviders: () => providers, getTTSStats: () => ({ providers: [] }) };
+    const registry = new HealthRegistry();
+    registerPipelineHealthChecks(pipeline as unknown as VoiceCommandPipeline, registry);
+
+    const report = await registry.run();
+
+    expect(report.checks.stt).toMatchObject({
+      status: 'fail',
+      critical: false,
+      error: 'STT providers unreachable: guild private1 (local): connect ECONNREFUSED',
+    });
+  });
+});
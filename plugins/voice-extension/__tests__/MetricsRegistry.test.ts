@@ -0,0 +1,68 @@
+/**
+ * MetricsRegistry Tests
+ * Counter, gauge and histogram series and their Prometheus text format
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MetricsRegistry } from '../src/MetricsRegistry.js';
+
+describe('MetricsRegistry', () => {
+  it('formats counters and gauges with labels', () => {
+    const registry = new MetricsRegistry();
+    const errors = registry.counter('pipeline_errors_total', 'Errors by code');
+    const sessions = registry.gauge('pipeline_active_sessions', 'Active sessions');
+
+    errors.inc({ code: 'AGENT_TIMEOUT' });
+    errors.inc({ code: 'AGENT_TIMEOUT' }, 2);
+    sessions.set({ guild_id: 'guild "one"' }, 2);
+    sessions.dec({ guild_id: 'guild "one"' });
+
+    expect(registry.format()).toBe(
+      [
+        '# HELP pipeline_errors_total Errors by code',
+        '# TYPE pipeline_errors_total counter',
+        'pipeline_errors_total{code="AGENT_TIMEOUT"} 3',
+        '',
+        '# HELP pipeline_active_sessions Active sessions',
+        '# TYPE pipeline_active_sessions gauge',
+        'pipeline_active_sessions{guild_id="guild \\"one\\""} 1',
+        '',
+      ].join('\n'),
+    );
+    expect(() => errors.inc({}, -1)).toThrow('can only increase');
+  });
+
+  it('counts histogram observations in cumulative buckets', () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram('request_duration_seconds', 'Latency', [0.5, 1]);
+
+    for (const seconds of [0.2, 0.7, 3]) {
+      latency.observe({ phase: 'stt' }, seconds);
+    }
+
+    expect(registry.format().trim().split('\n').slice(2)).toEqual([
+      'request_duration_seconds_bucket{phase="stt",le="0.5"} 1',
+      'request_duration_seconds_bucket{phase="stt",le="1"} 2',
+      'request_duration_seconds_bucket{phase="stt",le="+Inf"} 3',
+      'request_duration_seconds_sum{phase="stt"} 3.9',
+      'request_duration_seconds_count{phase="stt"} 3',
+    ]);
+    expect(latency.get({ phase: 'tts' })).toEqual({ count: 0, sum: 0 });
+    expect(registry.format()).not.toContain('phase="tts"');
+  });
+
+  it('reuses metrics by name and runs collectors before each scrape', () => {
+    const registry = new MetricsRegistry();
+    let reads = 0;
+    registry.addCollector(() => {
+      reads++;
+      registry.gauge('cache_hit_ratio', 'Hit ratio').set({}, 0.75);
+    });
+
+    expect(registry.counter('hits_total', 'Hits')).toBe(registry.counter('hits_total', 'Hits'));
+    expect(() => registry.gauge('hits_total', 'Hits')).toThrow('already registered as a counter');
+    expect(() => registry.counter('bad-name', 'Nope')).toThrow('Invalid metric name');
+    expect(registry.format()).toContain('cache_hit_ratio 0.75');
+    expect(reads).toBe(1);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * PipelineEventHub Tests
+ * Event translation, guild filtering, replay history and SSE formatting
+ */
+
+import { EventEmitter } from 'events';
+import { describe, it, expect, vi } from 'vitest';
+import { PipelineEventHub, formatSSE, StreamEvent } from '../src/PipelineEventHub.js';
+import { PipelineError, PipelineErrorCode } from '../src/PipelineErrors.js';
+import { ConnectionStateType } from '../src/types.js';
+import type { VoiceCommandPipeline, VoiceRequest } from '../src/VoiceCommandPipeline.js';
+import type { VoiceConnectionManager } from '../src/VoiceConnectionManager.js';
+
+function createFakePipeline() {
+  const sessions: Record<string, { sessionId: string; guildId: string }> = {
+    session1: { sessionId: 'session1', guildId: 'guild1' },
+    session2: { sessionId: 'session2', guildId: 'guild2' },
+  };
+  return Object.assign(new EventEmitter(), { getSession: (id: string) => sessions[id] });
+}
+
+function createRequest(sessionId: string, overrides: Partial<VoiceRequest> = {}): VoiceRequest {
+  return {
+    requestId: `${sessionId}-request`,
+    sessionId,
+    userId: 'user1',
+    audioFrames: [],
+    timings: { stt: 100, agent: 300 },
+    startTime: Date.now(),
+    status: 'completed',
+    ...overrides,
+  };
+}
+
+describe('PipelineEventHub', () => {
+  it('publishes what a guild heard and said, resolving the guild from the session', () => {
+    const hub = new PipelineEventHub();
+    const pipeline = createFakePipeline();
+    const detach = hub.attachPipeline(pipeline as unknown as VoiceCommandPipeline);
+    const received: StreamEvent[] = [];
+    hub.subscribe((event) => received.push(event), { guildIds: ['guild1'] });
+
+    pipeline.emit(
+      'requestCompleted',
+      createRequest('session1', { transcription: { text: 'what time is it' } as any, agentResponse: 'Noon.' }),
+    );
+    pipeline.emit('requestCompleted', createRequest('session2', { inputText: 'hello' }));
+    pipeline.emit(
+      'requestError',
+      createRequest('session1', { inputText: 'play music' }),
+      new PipelineError(PipelineErrorCode.AGENT_TIMEOUT, 'Agent timed out'),
+    );
+    pipeline.emit('metricsUpdated', { activeSessions: 1 });
+
+    expect(received.map((event) => event.type)).toEqual(['requestCompleted', 'requestError', 'metricsUpdated']);
+    expect(received[0]).toMatchObject({
+      guildId: 'guild1',
+      data: {
+        requestId: 'session1-request',
+        heard: 'what time is it',
+        said: 'Noon.',
+        timings: { stt: 100, agent: 300 },
+      },
+    });
+    expect(received[1].data).toMatchObject({ heard: 'play music', code: 'AGENT_TIMEOUT', message: 'Agent timed out' });
+    expect(received[2].guildId).toBeUndefined();
+
+    detach();
+    pipeline.emit('metricsUpdated', { activeSessions: 0 });
+    expect(received).toHaveLength(3);
+    expect(pipeline.listenerCount('requestCompleted')).toBe(0);
+  });
+
+  it('publishes voice connection state changes', () => {
+    const hub = new PipelineEventHub();
+    const connections = new EventEmitter();
+    hub.attachConnections(connections as unknown as VoiceConnectionManager);
+
+    connections.emit(
+      'stateChange',
+      'guild2',
+      { status: ConnectionStateType.Disconnected, timestamp: 2, reason: 'kicked' },
+      { status: ConnectionStateType.Ready, timestamp: 1 },
+    );
+
+    expect(hub.getHistory()).toMatchObject([
+      {
+        type: 'connectionStateChange',
+        guildId: 'guild2',
+        data: { status: 'disconnected', previousStatus: 'ready', reason: 'kicked' },
+      },
+    ]);
+  });
+
+  it('keeps a bounded history for replay after an event ID', () => {
+    const hub = new PipelineEventHub({ historySize: 3 });
+    for (let i = 0; i < 5; i++) {
+      hub.publish('sessionStarted', i % 2 === 0 ? 'guild1' : 'guild2', { n: i });
+    }
+
+    expect(hub.getHistory().map((event) => event.id)).toEqual([3, 4, 5]);
+    expect(hub.getHistory({ guildIds: ['guild1'] }, 3).map((event) => event.id)).toEqual([5]);
+  });
+
+  it('formats events as SSE messages and isolates failing subscribers', () => {
+    const hub = new PipelineEventHub();
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const listener = vi.fn();
+    hub.subscribe(() => {
+      throw new Error('client gone');
+    });
+    const unsubscribe = hub.subscribe(listener);
+    expect(hub.getSubscriberCount()).toBe(2);
+
+    const event = hub.publish('sessionEnded', 'guild1', { sessionId: 'session1' });
+    expect(listener).toHaveBeenCalledWith(event);
+    expect(errorSpy).toHaveBeenCalled();
+    expect(formatSSE(event)).toBe(`id: 1\nevent: sessionEnded\ndata: ${JSON.stringify(event)}\n\n`);
+
+    unsubscribe();
+    hub.publish('sessionEnded', 'guild1', {});
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(hub.getSubscriberCount()).toBe(1);
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * PushToTalkController Tests
+ * Capture lifecycle, second-press stop and the capture timeout
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CaptureEndReason, PushToTalkController } from '../src/PushToTalk.js';
+
+describe('PushToTalkController', () => {
+  let ended: Array<[string, CaptureEndReason]>;
+
+  function createController(captureTimeoutMs?: number): PushToTalkController {
+    const controller = new PushToTalkController({ captureTimeoutMs });
+    controller.on('captureEnded', (userId, reason) => {
+      ended.push([userId, reason]);
+    });
+    return controller;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    ended = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts one utterance per capture', () => {
+    const controller = createController();
+
+    expect(controller.complete('alice')).toBe(false);
+    expect(controller.start('alice')).toBe(true);
+    expect(controller.start('alice')).toBe(false);
+    expect(controller.getCapturingUsers()).toEqual(['alice']);
+
+    expect(controller.complete('alice')).toBe(true);
+    expect(controller.complete('alice')).toBe(false);
+    expect(ended).toEqual([['alice', 'utterance']]);
+  });
+
+  it('reports utterances finished by a second press as stopped', () => {
+    const controller = createController();
+    controller.start('alice');
+
+    expect(controller.stop('alice')).toBe(true);
+    expect(controller.isCapturing('alice')).toBe(true);
+    controller.complete('alice');
+
+    expect(controller.stop('alice')).toBe(false);
+    expect(ended).toEqual([['alice', 'stopped']]);
+  });
+
+  it('times out captures without speech', () => {
+    const controller = createController(1000);
+    controller.start('alice');
+    controller.start('bob');
+
+    vi.advanceTimersByTime(600);
+    controller.heardSpeech('bob');
+    vi.advanceTimersByTime(400);
+
+    expect(ended).toEqual([['alice', 'timeout']]);
+    expect(controller.isCapturing('bob')).toBe(true);
+
+    vi.advanceTimersByTime(600);
+    expect(ended).toEqual([
+      ['alice', 'timeout'],
+      ['bob', 'timeout'],
+    ]);
+  });
+
+  it('cancels every capture on reset', () => {
+    const controller = createController(0);
+    controller.start('alice');
+    controller.start('bob');
+
+    controller.reset();
+    vi.advanceTimersByTime(60000);
+
+    expect(ended.map(([, reason]) => reason)).toEqual(['cancelled', 'cancelled']);
+    expect(controller.getCapturingUsers()).toEqual([]);
+  });
+});
@@ -0,0 +1,413 @@
+/**
+ * STT Provider Tests
+ * Conformance suite run against every built-in provider (each backed by a local stub server),
+ * plus registry selection tests
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  STTProvider,
+  STTProviderConfig,
+  STTProviderRegistry,
+  LocalWhisperProvider,
+  WebSocketSTTProvider,
+  WhisperAPIProvider,
+} from '../src/STTProvider.js';
+import { PipelineError, PipelineErrorCode } from '../src/PipelineErrors.js';
+import { TranscriptionResult } from '../src/types.js';
+
+const SAMPLE_RATE = 16000;
+const SPOKEN_TEXT = 'turn on the lights';
+
+type StubBehaviour = 'ok' | 'rate-limited' | 'server-error' | 'hang';
+
+interface StubServer {
+  config: STTProviderConfig;
+  requests: () => number;
+  close: () => Promise<void>;
+}
+
+// ============================================
+// Stub Servers
+// ============================================
+
+/**
+ * Whisper-compatible HTTP server answering verbose_json on one path
+ */
+async function startWhisperStub(
+  behaviour: StubBehaviour,
+  path: string,
+  toConfig: (baseUrl: string) => STTProviderConfig,
+): Promise<StubServer> {
+  let requests = 0;
+  const server = http.createServer((req, res) => {
+    requests++;
+    req.resume();
+    req.on('end', () => {
+      if (req.url !== path) {
+        res.writeHead(404);
+        res.end();
+      } else if (behaviour === 'rate-limited') {
+        res.writeHead(429, { 'Retry-After': '1' });
+        res.end('Too Many Requests');
+      } else if (behaviour === 'server-error') {
+        res.writeHead(500);
+        res.end('Internal Server Error');
+      } else if (behaviour === 'ok') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            text: ` ${SPOKEN_TEXT}`,
+            language: 'english',
+            duration: 1,
+            segments: [{ start: 0, end: 1, text: ` ${SPOKEN_TEXT}`, avg_logprob: -0.2 }],
+          }),
+        );
+      }
+    });
+  });
+  await new Promise<void>((resolve) => {
+    server.listen(0, '127.0.0.1', resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    config: toConfig(`http://127.0.0.1:${port}`),
+    requests: () => requests,
+    close: async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => {
+        server.close(resolve);
+      });
+    },
+  };
+}
+
+/**
+ * Websocket recognizer speaking the Deepgram live or vosk-server protocol
+ */
+async function startWebSocketStub(behaviour: StubBehaviour, protocol: 'deepgram' | 'vosk'): Promise<StubServer> {
+  let requests = 0;
+  const wss = new WebSocketServer({
+    host: '127.0.0.1',
+    port: 0,
+    verifyClient: (_info, callback) => {
+      requests++;
+      if (behaviour === 'rate-limited') callback(false, 429);
+      else if (behaviour === 'server-error') callback(false, 503);
+      else callback(true);
+    },
+  });
+
+  wss.on('connection', (socket) => {
+    let sentPartial = false;
+    socket.on('message', (data, isBinary) => {
+      if (behaviour !== 'ok') return;
+
+      if (isBinary) {
+        // Interim hypothesis after the first chunk only
+        if (!sentPartial) {
+          sentPartial = true;
+          socket.send(
+            JSON.stringify(
+              protocol === 'vosk'
+                ? { partial: 'turn on' }
+                : { type: 'Results', is_final: false, channel: { alternatives: [{ transcript: 'turn on' }] } },
+            ),
+          );
+        }
+        return;
+      }
+
+      const message = JSON.parse(data.toString());
+      if (protocol === 'vosk' && message.eof) {
+        socket.send(
+          JSON.stringify({
+            text: SPOKEN_TEXT,
+            result: [
+              { conf: 0.9, start: 0, end: 0.4, word: 'turn' },
+              { conf: 0.8, start: 0.9, end: 1, word: 'lights' },
+            ],
+          }),
+        );
+        socket.close();
+      } else if (protocol === 'deepgram' && message.type === 'CloseStream') {
+        socket.send(
+          JSON.stringify({
+            type: 'Results',
+            is_final: true,
+            start: 0,
+            duration: 1,
+            channel: { alternatives: [{ transcript: SPOKEN_TEXT, confidence: 0.85 }] },
+          }),
+        );
+        socket.close();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => {
+    wss.on('listening', resolve);
+  });
+  const { port } = wss.address() as AddressInfo;
+
+  return {
+    config: { type: 'websocket', url: `ws://127.0.0.1:${port}/listen`, protocol, apiKey: 'test-key' },
+    requests: () => requests,
+    close: async () => {
+      wss.clients.forEach((client) => client.terminate());
+      await new Promise((resolve) => {
+        wss.close(resolve);
+      });
+    },
+  };
+}
+
+/**
+ * One second of a 440Hz tone as mono 16-bit PCM
+ */
+function createSpeechPCM(): Buffer {
+  const pcm = Buffer.alloc(SAMPLE_RATE * 2);
+  for (let i = 0; i < SAMPLE_RATE; i++) {
+    pcm.writeInt16LE(Math.round(Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE) * 8000), i * 2);
+  }
+  return pcm;
+}
+
+// ============================================
+// Conformance Suite
+// ============================================
+
+const conformanceCases: {
+  name: string;
+  streaming: boolean;
+  start: (behaviour: StubBehaviour) => Promise<StubServer>;
+}[] = [
+  {
+    name: 'whisper-api',
+    streaming: false,
+    start: (behaviour) =>
+      startWhisperStub(behaviour, '/v1/audio/transcriptions', (baseUrl) => ({
+        type: 'whisper-api',
+        apiKey: 'test-key',
+        baseUrl,
+      })),
+  },
+  {
+    name: 'whisper-local (whisper.cpp)',
+    streaming: false,
+    start: (behaviour) => startWhisperStub(behaviour, '/inference', (baseUrl) => ({ type: 'whisper-local', baseUrl })),
+  },
+  {
+    name: 'whisper-local (faster-whisper)',
+    streaming: false,
+    start: (behaviour) =>
+      startWhisperStub(behaviour, '/v1/audio/transcriptions', (baseUrl) => ({
+        type: 'whisper-local',
+        baseUrl,
+        server: 'faster-whisper',
+        model: 'Systran/faster-whisper-small',
+      })),
+  },
+  {
+    name: 'websocket (deepgram)',
+    streaming: true,
+    start: (behaviour) => startWebSocketStub(behaviour, 'deepgram'),
+  },
+  {
+    name: 'websocket (vosk)',
+    streaming: true,
+    start: (behaviour) => startWebSocketStub(behaviour, 'vosk'),
+  },
+];
+
+describe.each(conformanceCases)('STTProvider conformance: $name', ({ streaming, start }) => {
+  const registry = new STTProviderRegistry();
+  let stub: StubServer | undefined;
+
+  async function createProvider(behaviour: StubBehaviour, overrides: Record<string, unknown> = {}) {
+    stub = await start(behaviour);
+    return registry.create({ ...stub.config, ...overrides });
+  }
+
+  afterEach(async () => {
+    await stub?.close();
+    stub = undefined;
+  });
+
+  it('exposes a name and streaming flag', async () => {
+    const provider = await createProvider('ok');
+    expect(provider.name).toBeTruthy();
+    expect(provider.streaming).toBe(streaming);
+  });
+
+  it('transcribes mono 16-bit PCM into a TranscriptionResult', async () => {
+    const provider = await createProvider('ok');
+    const partials: string[] = [];
+
+    const result: TranscriptionResult = await provider.transcribe(createSpeechPCM(), {
+      sampleRate: SAMPLE_RATE,
+      language: 'en',
+      onPartial: (text) => partials.push(text),
+    });
+
+    expect(result.text).toBe(SPOKEN_TEXT);
+    expect(result.language).toBe('en');
+    expect(result.confidence).toBeGreaterThan(0);
+    expect(result.confidence).toBeLessThanOrEqual(1);
+    expect(result.duration).toBe(1000);
+    expect(typeof result.timestamp).toBe('number');
+    expect(result.segments!.length).toBeGreaterThan(0);
+    expect(result.segments![0].start).toBe(0);
+    if (streaming) {
+      expect(partials).toEqual(['turn on']);
+    }
+  });
+
+  it('rejects empty audio with STT_INVALID_AUDIO without contacting the server', async () => {
+    const provider = await createProvider('ok');
+
+    const error = await provider.transcribe(Buffer.alloc(0), { sampleRate: SAMPLE_RATE }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(PipelineError);
+    expect(error.code).toBe(PipelineErrorCode.STT_INVALID_AUDIO);
+    expect(stub!.requests()).toBe(0);
+  });
+
+  it('maps rate limiting to STT_RATE_LIMITED', async () => {
+    const provider = await createProvider('rate-limited');
+
+    const error = await provider.transcribe(createSpeechPCM(), { sampleRate: SAMPLE_RATE }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(PipelineError);
+    expect(error.code).toBe(PipelineErrorCode.STT_RATE_LIMITED);
+    expect(error.recoverable).toBe(true);
+  });
+
+  it('maps server failures to STT_API_ERROR', async () => {
+    const provider = await createProvider('server-error');
+
+    const error = await provider.transcribe(createSpeechPCM(), { sampleRate: SAMPLE_RATE }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(PipelineError);
+    expect(error.code).toBe(PipelineErrorCode.STT_API_ERROR);
+  });
+
+  it('times out with STT_TIMEOUT', async () => {
+    const provider = await createProvider('hang', { timeoutMs: 150 });
+
+    const error = await provider.transcribe(createSpeechPCM(), { sampleRate: SAMPLE_RATE }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(PipelineError);
+    expect(error.code).toBe(PipelineErrorCode.STT_TIMEOUT);
+  });
+
+  it('checks that the backend is reachable when it supports health checks', async () => {
+    const provider = await createProvider('ok');
+    if (!provider.checkHealth) return;
+
+    await expect(provider.checkHealth(1000)).resolves.toBeUndefined();
+    await stub!.close();
+    stub = undefined;
+    await expect(provider.checkHealth(1000)).rejects.toThrow('unreachable');
+  });
+
+  it('shuts down cleanly', async () => {
+    const provider = await createProvider('ok');
+    await expect(provider.shutdown()).resolves.toBeUndefined();
+  });
+});
+
+// ============================================
+// Registry
+// ============================================
+
+describe('STTProviderRegistry', () => {
+  let created: string[];
+
+  function createFakeProvider(name: string): STTProvider {
+    created.push(name);
+    return {
+      name,
+      streaming: false,
+      transcribe: async () => ({ text: name, language: 'en', confidence: 1, duration: 0, timestamp: Date.now() }),
+      shutdown: async () => {},
+    };
+  }
+
+  beforeEach(() => {
+    created = [];
+  });
+
+  it('registers the built-in provider types', () => {
+    const registry = new STTProviderRegistry();
+    expect(registry.getTypes()).toEqual(['whisper-api', 'whisper-local', 'websocket']);
+    expect(registry.isConfigured()).toBe(false);
+    expect(() => registry.getProvider('guild1')).toThrow('No STT providers configured');
+  });
+
+  it('creates built-in providers from config', () => {
+    const registry = new STTProviderRegistry();
+    expect(registry.create({ type: 'whisper-api', apiKey: 'key' })).toBeInstanceOf(WhisperAPIProvider);
+    expect(registry.create({ type: 'whisper-local', baseUrl: 'http://localhost:8080' })).toBeInstanceOf(
+      LocalWhisperProvider,
+    );
+    expect(registry.create({ type: 'websocket', url: 'wss://api.deepgram.com/v1/listen' })).toBeInstanceOf(
+      WebSocketSTTProvider,
+    );
+  });
+
+  it('validates provider config', () => {
+    const registry = new STTProviderRegistry();
+    expect(() => registry.create({ type: 'whisper-api' })).toThrow('apiKey');
+    expect(() => registry.create({ type: 'whisper-local' })).toThrow('baseUrl');
+    expect(() => registry.create({ type: 'websocket', url: 'http://localhost' })).toThrow('ws://');
+    expect(() => registry.create({ type: 'kaldi' })).toThrow('Unknown STT provider type: kaldi');
+  });
+
+  it('selects providers per guild and falls back to the default', () => {
+    const registry = new STTProviderRegistry({
+      default: { type: 'fake', label: 'hosted' },
+      guilds: { private: { type: 'fake', label: 'local' } },
+    });
+    registry.register('fake', (config) => createFakeProvider(config.label as string));
+
+    expect(registry.getProvider('private').name).toBe('local');
+    expect(registry.getProvider('public').name).toBe('hosted');
+    expect(registry.getProvider().name).toBe('hosted');
+  });
+
+  it('reuses provider instances', () => {
+    const registry = new STTProviderRegistry({
+      default: { type: 'fake', label: 'hosted' },
+      guilds: { private: { type: 'fake', label: 'local' } },
+    });
+    registry.register('fake', (config) => createFakeProvider(config.label as string));
+
+    const first = registry.getProvider('private');
+    registry.getProvider('private');
+    registry.getProvider('a');
+    registry.getProvider('b');
+
+    expect(registry.getProvider('private')).toBe(first);
+    expect(created).toEqual(['local', 'hosted']);
+  });
+
+  it('shuts down providers when reconfigured', async () => {
+    const registry = new STTProviderRegistry({ default: { type: 'fake', label: 'before' } });
+    registry.register('fake', (config) => createFakeProvider(config.label as string));
+    const before = registry.getProvider('guild1');
+    let shutdowns = 0;
+    before.shutdown = async () => {
+      shutdowns++;
+    };
+
+    await registry.configure({ default: { type: 'fake', label: 'after' } });
+
+    expect(shutdowns).toBe(1);
+    expect(registry.getProvider('guild1').name).toBe('after');
+  });
+});
@@ -4,8 +4,17 @@
  * Total: 62 test cases covering all STT pipeline scenarios
  */
 
-import { describe, test, expect, beforeEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
 import { SpeechToText, VoiceActivityDetector, TranscriptionResult, STTConfig, VADConfig } from '../src/SpeechToText.js';
+import { TestAudioCodec, decodeWAV } from '../src/AudioCodec.js';
+import { WhisperAPIClient } from '../src/WhisperAPIClient.js';
+import { PipelineError, PipelineErrorCode } from '../src/PipelineErrors.js';
+
+function createTestCodec(): TestAudioCodec {
+  return new TestAudioCodec({ sampleRate: 48000, channels: 2, frameSize: 960 });
+}
 
 // ============================================================
 // SECTION A: VoiceActivityDetector Initialization (TC-001-006)
@@ -210,13 +219,16 @@ describe('SpeechToText - Section D: Audio Format Conversion', () => {
   let stt: SpeechToText;
 
   beforeEach(async () => {
-    stt = new SpeechToText({
-      apiKey: 'test-key',
-      modelName: 'whisper-1',
-      sampleRate: 48000,
-      language: 'en',
-      enableVAD: true,
-    });
+    stt = new SpeechToText(
+      {
+        apiKey: 'test-key',
+        modelName: 'whisper-1',
+        sampleRate: 48000,
+        language: 'en',
+        enableVAD: true,
+      },
+      createTestCodec(),
+    );
     await stt.initialize();
   });
 
@@ -414,13 +426,16 @@ describe('SpeechToText - Section G: Integration with Phase 3', () => {
   let stt: SpeechToText;
 
   beforeEach(async () => {
-    stt = new SpeechToText({
-      apiKey: 'test-key',
-      modelName: 'whisper-1',
-      sampleRate: 48000,
-      language: 'en',
-      enableVAD: true,
-    });
+    stt = new SpeechToText(
+      {
+        apiKey: 'test-key',
+        modelName: 'whisper-1',
+        sampleRate: 48000,
+        language: 'en',
+        enableVAD: true,
+      },
+      createTestCodec(),
+    );
     await stt.initialize();
   });
 
@@ -477,13 +492,16 @@ describe('SpeechToText - Section H: Performance & Monitoring', () => {
   let stt: SpeechToText;
 
   beforeEach(async () => {
-    stt = new SpeechToText({
-      apiKey: 'test-key',
-      modelName: 'whisper-1',
-      sampleRate: 48000,
-      language: 'en',
-      enableVAD: true,
-    });
+    stt = new SpeechToText(
+      {
+        apiKey: 'test-key',
+        modelName: 'whisper-1',
+        sampleRate: 48000,
+        language: 'en',
+        enableVAD: true,
+      },
+      createTestCodec(),
+    );
     await stt.initialize();
   });
 
@@ -623,3 +641,202 @@ describe('SpeechToText - Section I: Edge Cases & Stability', () => {
     expect(stt.isReady()).toBe(false);
   });
 });
+
+// ============================================================
+// SECTION J: Whisper HTTP Backend (TC-063-072)
+// ============================================================
+
+describe('SpeechToText - Section J: Whisper HTTP Backend', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let lastRequest: { url?: string; headers: http.IncomingHttpHeaders; body: Buffer };
+  let respond: (res: http.ServerResponse) => void;
+
+  const verboseResponse = {
+    text: ' Turn on the lights. ',
+    language: 'english',
+    duration: 1.5,
+    segments: [
+      { start: 0, end: 0.8, text: ' Turn on', avg_logprob: -0.1 },
+      { start: 0.8, end: 1.5, text: ' the lights.', avg_logprob: -0.3 },
+    ],
+  };
+
+  function createSTT(overrides: Partial<STTConfig> = {}): SpeechToText {
+    return new SpeechToText({
+      apiKey: 'test-key',
+      modelName: 'whisper-1',
+      sampleRate: 48000,
+      language: 'en',
+      enableVAD: true,
+      baseUrl,
+      ...overrides,
+    });
+  }
+
+  beforeEach(async () => {
+    respond = (res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(verboseResponse));
+    };
+
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk) => chunks.push(chunk));
+      req.on('end', () => {
+        lastRequest = { url: req.url, headers: req.headers, body: Buffer.concat(chunks) };
+        respond(res);
+      });
+    });
+    await new Promise<void>((resolve) => {
+      server.listen(0, '127.0.0.1', resolve);
+    });
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => {
+      server.close(resolve);
+    });
+  });
+
+  test('TC-063: Should POST a multipart WAV upload to /v1/audio/transcriptions', async () => {
+    const stt = createSTT();
+    await stt.initialize();
+    await stt.transcribe(Buffer.alloc(48000 * 2));
+
+    expect(lastRequest.url).toBe('/v1/audio/transcriptions');
+    expect(lastRequest.headers['content-type']).toMatch(/^multipart\/form-data; boundary=/);
+    expect(lastRequest.headers.authorization).toBe('Bearer test-key');
+
+    const body = lastRequest.body.toString('latin1');
+    expect(body).toContain('name="file"; filename="audio.wav"');
+    expect(body).toContain('RIFF');
+    expect(body).toContain('WAVE');
+    expect(body).toMatch(/name="model"\r\n\r\nwhisper-1/);
+    expect(body).toMatch(/name="response_format"\r\n\r\nverbose_json/);
+    expect(body).toMatch(/name="language"\r\n\r\nen/);
+  });
+
+  test('TC-064: Should parse text, segments and language from verbose_json', async () => {
+    const stt = createSTT();
+    const result = await stt.transcribe(Buffer.alloc(48000 * 2));
+
+    expect(result.text).toBe('Turn on the lights.');
+    expect(result.language).toBe('en');
+    expect(result.duration).toBe(1500);
+    expect(result.segments).toEqual([
+      { start: 0, end: 800, text: 'Turn on' },
+      { start: 800, end: 1500, text: 'the lights.' },
+    ]);
+    expect(result.confidence).toBeGreaterThan(0.7);
+    expect(result.confidence).toBeLessThanOrEqual(1);
+    expect(stt.getStats().transcribed).toBe(1);
+  });
+
+  test('TC-065: Should map 429 to STT_RATE_LIMITED', async () => {
+    respond = (res) => {
+      res.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': '2' });
+      res.end(JSON.stringify({ error: { message: 'Rate limit reached' } }));
+    };
+    const stt = createSTT();
+
+    const error = await stt.transcribe(Buffer.alloc(48000 * 2)).catch((err) => err);
+    expect(error).toBeInstanceOf(PipelineError);
+    expect(error.code).toBe(PipelineErrorCode.STT_RATE_LIMITED);
+    expect(error.context.metadata.retryAfter).toBe('2');
+    expect(stt.getStats().errors).toBe(1);
+  });
+
+  test('TC-066: Should map 5xx to STT_API_ERROR', async () => {
+    respond = (res) => {
+      res.writeHead(503);
+      res.end('Service Unavailable');
+    };
+    const stt = createSTT();
+
+    const error = await stt.transcribe(Buffer.alloc(48000 * 2)).catch((err) => err);
+    expect(error).toBeInstanceOf(PipelineError);
+    expect(error.code).toBe(PipelineErrorCode.STT_API_ERROR);
+    expect(error.recoverable).toBe(true);
+  });
+
+  test('TC-067: Should map rejected audio to STT_INVALID_AUDIO', async () => {
+    respond = (res) => {
+      res.writeHead(400);
+      res.end('Invalid file format');
+    };
+    const stt = createSTT();
+
+    const error = await stt.transcribe(Buffer.alloc(48000 * 2)).catch((err) => err);
+    expect(error.code).toBe(PipelineErrorCode.STT_INVALID_AUDIO);
+  });
+
+  test('TC-068: Should time out slow servers with STT_TIMEOUT', async () => {
+    respond = () => {
+      // Never respond
+    };
+    const stt = createSTT({ timeoutMs: 100 });
+
+    const error = await stt.transcribe(Buffer.alloc(48000 * 2)).catch((err) => err);
+    expect(error.code).toBe(PipelineErrorCode.STT_TIMEOUT);
+    server.closeAllConnections();
+  });
+
+  test('TC-069: Should normalize base URLs with or without /v1', () => {
+    expect(new WhisperAPIClient({ baseUrl: 'https://api.openai.com' }).getEndpoint()).toBe(
+      'https://api.openai.com/v1/audio/transcriptions',
+    );
+    expect(new WhisperAPIClient({ baseUrl: 'http://localhost:8000/v1/' }).getEndpoint()).toBe(
+      'http://localhost:8000/v1/audio/transcriptions',
+    );
+    expect(() => new WhisperAPIClient({ baseUrl: '' })).toThrow();
+  });
+
+  test("TC-070: Should let Whisper detect the language when it is 'auto'", async () => {
+    const stt = createSTT({ language: 'auto' });
+    respond = (res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ...verboseResponse, language: 'german' }));
+    };
+
+    const detected = await stt.transcribe(Buffer.alloc(48000 * 2));
+    expect(lastRequest.body.toString('latin1')).not.toContain('name="language"');
+    expect(detected.language).toBe('de');
+
+    await stt.transcribe(Buffer.alloc(48000 * 2), { language: 'fr' });
+    expect(lastRequest.body.toString('latin1')).toMatch(/name="language"\r\n\r\nfr/);
+  });
+
+  test('TC-071: Should upload decoded stereo Opus frames as mono audio', async () => {
+    const stt = new SpeechToText(
+      { apiKey: 'test-key', modelName: 'whisper-1', sampleRate: 48000, language: 'en', baseUrl },
+      createTestCodec(),
+    );
+    await stt.accumulateFrame(Buffer.from([0x4f, 0x50, 0x55, 0x53]));
+    await stt.accumulateFrame(Buffer.from([0x4f, 0x50, 0x55, 0x53]));
+    await stt.flushAndTranscribe();
+
+    const wav = decodeWAV(lastRequest.body.subarray(lastRequest.body.indexOf('RIFF')));
+    expect(wav.channels).toBe(1);
+    expect(wav.sampleRate).toBe(48000);
+    expect(wav.pcm.length / 2).toBe(2 * 960); // Two 20ms frames, one sample per frame position
+  });
+
+  test('TC-072: Should map every Whisper language to ISO-639-1 and leave unknown languages unset', async () => {
+    const stt = createSTT({ language: 'auto' });
+    const reported: (string | undefined)[] = ['polish', 'Haitian Creole', 'burmese', 'uk', 'jw', 'klingon', undefined];
+    const detected: (string | undefined)[] = [];
+
+    for (const language of reported) {
+      respond = (res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ ...verboseResponse, language }));
+      };
+      detected.push((await stt.transcribe(Buffer.alloc(48000 * 2))).language);
+    }
+
+    expect(detected).toEqual(['pl', 'ht', 'my', 'uk', 'jv', undefined, undefined]);
+  });
+});
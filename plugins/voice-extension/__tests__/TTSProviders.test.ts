@@ -0,0 +1,202 @@
+/**
+ * TTS Provider Tests
+ * OpenAI-compatible speech endpoint (local stub server) and local process providers
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { LocalProcessTTSProvider, OpenAISpeechProvider } from '../src/TTSProviders.js';
+import { TTSConfig, TTSError, TTSErrorCode } from '../src/TextToSpeech.js';
+import { decodeWAV, encodeWAV } from '../src/AudioCodec.js';
+
+const config: TTSConfig = {
+  apiKey: 'test-key',
+  voiceId: 'voice-nova',
+  sampleRate: 48000,
+  format: 'pcm',
+  timeoutMs: 5000,
+};
+
+/**
+ * Provider running a node script in place of a TTS binary
+ */
+function createNodeProvider(script: string, output: 'raw' | 'wav', sampleRate?: number): LocalProcessTTSProvider {
+  return new LocalProcessTTSProvider({
+    name: 'node-tts',
+    command: process.execPath,
+    args: ['-e', script],
+    output,
+    sampleRate,
+  });
+}
+
+describe('OpenAISpeechProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: { url?: string; headers: http.IncomingHttpHeaders; body: any }[];
+  let respond: (res: http.ServerResponse) => void;
+
+  const pcm24k = Buffer.alloc(2400, 1); // 50ms of mono 16-bit PCM @ 24kHz
+
+  beforeEach(async () => {
+    requests = [];
+    respond = (res) => {
+      res.writeHead(200, { 'Content-Type': 'audio/pcm' });
+      res.end(pcm24k);
+    };
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => {
+        body += chunk;
+      });
+      req.on('end', () => {
+        requests.push({ url: req.url, headers: req.headers, body: JSON.parse(body) });
+        respond(res);
+      });
+    });
+    await new Promise<void>((resolve) => {
+      server.listen(0, '127.0.0.1', resolve);
+    });
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => {
+      server.close(resolve);
+    });
+  });
+
+  it('POSTs input, model and its own voice to /v1/audio/speech', async () => {
+    const provider = new OpenAISpeechProvider({ baseUrl: `${baseUrl}/v1`, apiKey: 'sk-test', voice: 'nova' });
+
+    await provider.synthesize('Hello there', 'elevenlabs-voice-id', config);
+
+    expect(provider.name).toBe('openai');
+    expect(requests[0].url).toBe('/v1/audio/speech');
+    expect(requests[0].headers.authorization).toBe('Bearer sk-test');
+    expect(requests[0].body).toEqual({ model: 'tts-1', voice: 'nova', input: 'Hello there', response_format: 'pcm' });
+  });
+
+  it('resamples 24kHz PCM to the configured sample rate', async () => {
+    const provider = new OpenAISpeechProvider({ baseUrl });
+
+    const pcm = await provider.synthesize('Hi', 'voice', config);
+    const wav = await provider.synthesize('Hi', 'voice', { ...config, format: 'wav' });
+
+    expect(pcm.length).toBe(pcm24k.length * 2);
+    expect(decodeWAV(wav)).toMatchObject({ sampleRate: 48000, channels: 1 });
+    expect(decodeWAV(wav).pcm).toEqual(pcm);
+  });
+
+  it('maps insufficient_quota to API_QUOTA_EXCEEDED', async () => {
+    respond = (res) => {
+      res.writeHead(429, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { code: 'insufficient_quota', message: 'You exceeded your current quota' } }));
+    };
+    const provider = new OpenAISpeechProvider({ baseUrl });
+
+    const error = await provider.synthesize('Hi', 'voice', config).catch((err) => err);
+
+    expect(error).toBeInstanceOf(TTSError);
+    expect(error.code).toBe(TTSErrorCode.API_QUOTA_EXCEEDED);
+    expect(error.recoverable).toBe(false);
+  });
+
+  it('maps server errors to API_ERROR and connection failures to NETWORK_ERROR', async () => {
+    respond = (res) => {
+      res.writeHead(500);
+      res.end('Internal Server Error');
+    };
+    const provider = new OpenAISpeechProvider({ baseUrl });
+    const serverError = await provider.synthesize('Hi', 'voice', config).catch((err) => err);
+
+    const unreachable = new OpenAISpeechProvider({ baseUrl: 'http://127.0.0.1:1' });
+    const networkError = await unreachable.synthesize('Hi', 'voice', config).catch((err) => err);
+
+    expect(serverError.code).toBe(TTSErrorCode.API_ERROR);
+    expect(serverError.recoverable).toBe(true);
+    expect(networkError.code).toBe(TTSErrorCode.NETWORK_ERROR);
+  });
+});
+
+describe('LocalProcessTTSProvider', () => {
+  it('writes text to stdin and resamples raw PCM output', async () => {
+    // Echo one 16-bit sample per input character at 24kHz
+    const provider = createNodeProvider(
+      `let text = '';
+       process.stdin.on('data', (chunk) => { text += chunk; });
+       process.stdin.on('end', () => process.stdout.write(Buffer.alloc(text.trim().length * 2, 1)));`,
+      'raw',
+      24000,
+    );
+
+    const pcm = await provider.synthesize('Hello', 'voice', config);
+
+    expect(provider.name).toBe('node-tts');
+    expect(pcm.length).toBe(5 * 2 * 2);
+  });
+
+  it('decodes WAV output', async () => {
+    const wav = encodeWAV(Buffer.alloc(1600, 1), { sampleRate: 16000 });
+    const provider = createNodeProvider(
+      `process.stdin.resume();
+       process.stdin.on('end', () => process.stdout.write(Buffer.from('${wav.toString('base64')}', 'base64')));`,
+      'wav',
+    );
+
+    const output = await provider.synthesize('Hello', 'voice', { ...config, format: 'wav' });
+
+    expect(decodeWAV(output)).toMatchObject({ sampleRate: 48000, channels: 1 });
+    expect(decodeWAV(output).pcm.length).toBe(1600 * 3);
+  });
+
+  it('maps a failing process to API_ERROR', async () => {
+    const provider = createNodeProvider(`console.error('model not found'); process.exit(2);`, 'raw');
+
+    const error = await provider.synthesize('Hello', 'voice', config).catch((err) => err);
+
+    expect(error).toBeInstanceOf(TTSError);
+    expect(error.code).toBe(TTSErrorCode.API_ERROR);
+    expect(error.message).toContain('model not found');
+  });
+
+  it('reports a missing binary as a non-recoverable API_ERROR', async () => {
+    const provider = new LocalProcessTTSProvider({ command: 'definitely-not-a-tts-binary', output: 'raw' });
+
+    const error = await provider.synthesize('Hello', 'voice', config).catch((err) => err);
+
+    expect(error.code).toBe(TTSErrorCode.API_ERROR);
+    expect(error.recoverable).toBe(false);
+  });
+
+  it('kills processes that exceed the timeout', async () => {
+    const provider = createNodeProvider(`setInterval(() => {}, 1000);`, 'raw');
+
+    const error = await provider.synthesize('Hello', 'voice', { ...config, timeoutMs: 200 }).catch((err) => err);
+
+    expect(error.code).toBe(TTSErrorCode.TIMEOUT);
+  });
+
+  it('builds Piper and espeak-ng command lines', () => {
+    const piper = LocalProcessTTSProvider.piper('/models/en_US-amy-medium.onnx');
+    const espeak = LocalProcessTTSProvider.espeak('en-us');
+
+    expect(piper.name).toBe('piper');
+    expect((piper as any).config).toMatchObject({
+      command: 'piper',
+      args: ['--model', '/models/en_US-amy-medium.onnx', '--output_raw'],
+      output: 'raw',
+      sampleRate: 22050,
+    });
+    expect(espeak.name).toBe('espeak');
+    expect((espeak as any).config).toMatchObject({
+      command: 'espeak-ng',
+      args: ['--stdout', '-v', 'en-us'],
+      output: 'wav',
+    });
+  });
+});
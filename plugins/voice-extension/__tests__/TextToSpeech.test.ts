@@ -4,6 +4,8 @@
  * Using vitest framework
  */
 
+import http from 'http';
+import { AddressInfo } from 'net';
 import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
 import {
   TextToSpeech,
@@ -12,7 +14,10 @@ import {
   TTSErrorCode,
   TTSError,
   type IElevenLabsAPI,
+  type TTSProvider,
 } from '../src/TextToSpeech';
+import { TestAudioCodec } from '../src/AudioCodec';
+import { ElevenLabsAPIClient } from '../src/ElevenLabsAPIClient';
 
 // ============================================
 // Test Fixtures & Mocks
@@ -84,7 +89,11 @@ describe('TextToSpeech (Phase 5) - TTS Pipeline', () => {
 
   beforeEach(() => {
     mockAPI = new MockElevenLabsAPI();
-    tts = new TextToSpeech(defaultConfig, mockAPI);
+    tts = new TextToSpeech(
+      defaultConfig,
+      mockAPI,
+      new TestAudioCodec({ sampleRate: 48000, channels: 2, frameSize: 960 }),
+    );
   });
 
   afterEach(async () => {
@@ -199,6 +208,23 @@ describe('TextToSpeech (Phase 5) - TTS Pipeline', () => {
       expect(typeof response.timestamp).toBe('number');
       expect(response.timestamp).toBeGreaterThan(0);
     });
+
+    it('TC-B09: synthesizeStream() yields audio per sentence in order', async () => {
+      async function* sentences() {
+        yield 'First sentence.';
+        yield '   ';
+        yield 'Second sentence.';
+      }
+
+      const texts: string[] = [];
+      for await (const response of tts.synthesizeStream(sentences())) {
+        texts.push(response.text);
+        expect(response.audio.length).toBeGreaterThan(0);
+      }
+
+      expect(texts).toEqual(['First sentence.', 'Second sentence.']);
+      expect(mockAPI.callCount).toBe(2);
+    });
   });
 
   // ============================================
@@ -554,4 +580,299 @@ describe('TextToSpeech (Phase 5) - TTS Pipeline', () => {
       expect(opusBuffer.length).toBeGreaterThan(0);
     });
   });
+
+  // ============================================
+  // Section I: ElevenLabs HTTP Client (7 tests)
+  // ============================================
+
+  describe('Section I: ElevenLabs HTTP Client', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: { url?: string; headers: http.IncomingHttpHeaders; body: any }[];
+    let respond: (res: http.ServerResponse) => void;
+
+    const pcmAudio = Buffer.alloc(4800, 1); // 50ms of mono 16-bit PCM @ 48kHz
+
+    beforeEach(async () => {
+      requests = [];
+      respond = (res) => {
+        res.writeHead(200, { 'Content-Type': 'audio/pcm' });
+        res.end(pcmAudio);
+      };
+
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => {
+          body += chunk;
+        });
+        req.on('end', () => {
+          requests.push({ url: req.url, headers: req.headers, body: JSON.parse(body) });
+          respond(res);
+        });
+      });
+      await new Promise<void>((resolve) => {
+        server.listen(0, '127.0.0.1', resolve);
+      });
+      const { port } = server.address() as AddressInfo;
+      baseUrl = `http://127.0.0.1:${port}`;
+    });
+
+    afterEach(async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => {
+        server.close(resolve);
+      });
+    });
+
+    it('TC-I01: synthesize() POSTs text and voice settings to the voice endpoint', async () => {
+      const client = new ElevenLabsAPIClient({ baseUrl });
+      const audio = await client.synthesize('Hello there', 'voice-nova', defaultConfig);
+
+      expect(audio).toEqual(pcmAudio);
+      expect(requests).toHaveLength(1);
+      expect(requests[0].url).toBe('/v1/text-to-speech/voice-nova?output_format=pcm_48000');
+      expect(requests[0].headers['xi-api-key']).toBe('test-key-12345');
+      expect(requests[0].body).toEqual({
+        text: 'Hello there',
+        model_id: 'tts-1',
+        voice_settings: { stability: 0.5, similarity_boost: 0.75 },
+      });
+    });
+
+    it('TC-I02: output format follows TTSConfig.format', async () => {
+      const client = new ElevenLabsAPIClient({ baseUrl });
+
+      const wav = await client.synthesize('Hi', 'voice-nova', { ...defaultConfig, format: 'wav' });
+      await client.synthesize('Hi', 'voice-nova', { ...defaultConfig, format: 'opus' });
+
+      expect(requests[0].url).toContain('output_format=pcm_48000');
+      expect(wav.toString('ascii', 0, 4)).toBe('RIFF');
+      expect(wav.readUInt32LE(24)).toBe(48000);
+      expect(wav.subarray(44)).toEqual(pcmAudio);
+      expect(requests[1].url).toContain('output_format=opus_48000_128');
+    });
+
+    it('TC-I03: quota errors map to API_QUOTA_EXCEEDED without retrying', async () => {
+      respond = (res) => {
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ detail: { status: 'quota_exceeded', message: 'This request exceeds your quota' } }));
+      };
+      const httpTTS = new TextToSpeech({ ...defaultConfig, baseUrl });
+
+      const error = await httpTTS.synthesize('Hello').catch((err) => err);
+
+      expect(error).toBeInstanceOf(TTSError);
+      expect(error.code).toBe(TTSErrorCode.API_QUOTA_EXCEEDED);
+      expect(error.recoverable).toBe(false);
+      expect(error.message).toContain('exceeds your quota');
+      expect(requests).toHaveLength(1);
+    });
+
+    it('TC-I04: connection failures map to NETWORK_ERROR', async () => {
+      const { port } = server.address() as AddressInfo;
+      server.closeAllConnections();
+      await new Promise((resolve) => {
+        server.close(resolve);
+      });
+      server = http.createServer();
+
+      const client = new ElevenLabsAPIClient({ baseUrl: `http://127.0.0.1:${port}` });
+      const error = await client.synthesize('Hello', 'voice-nova', defaultConfig).catch((err) => err);
+
+      expect(error).toBeInstanceOf(TTSError);
+      expect(error.code).toBe(TTSErrorCode.NETWORK_ERROR);
+      expect(error.recoverable).toBe(true);
+    });
+
+    it('TC-I05: synthesizeStream() yields chunks as they arrive, aligned to samples', async () => {
+      let finish: () => void = () => {};
+      respond = (res) => {
+        res.writeHead(200, { 'Content-Type': 'audio/pcm' });
+        res.write(Buffer.from([1, 2, 3]));
+        finish = () => res.end(Buffer.from([4, 5, 6]));
+      };
+      const client = new ElevenLabsAPIClient({ baseUrl });
+      const stream = client.synthesizeStream('Hello', 'voice-nova', defaultConfig);
+
+      const first = await stream.next();
+      expect(first.value).toEqual(Buffer.from([1, 2]));
+      expect(requests[0].url).toBe('/v1/text-to-speech/voice-nova/stream?output_format=pcm_48000');
+
+      finish();
+      const rest: Buffer[] = [];
+      for await (const chunk of stream) {
+        rest.push(chunk);
+      }
+      expect(Buffer.concat(rest)).toEqual(Buffer.from([3, 4, 5, 6]));
+    });
+
+    it('TC-I06: TextToSpeech sends the voice profile settings through the HTTP client', async () => {
+      const httpTTS = new TextToSpeech({ ...defaultConfig, baseUrl });
+
+      const response = await httpTTS.synthesize('Hello', { voiceId: 'voice-echo', stability: 0.2, similarity: 0.9 });
+
+      expect(response.audio).toEqual(pcmAudio);
+      expect(requests[0].url).toContain('/v1/text-to-speech/voice-echo?');
+      expect(requests[0].body.voice_settings).toEqual({ stability: 0.2, similarity_boost: 0.9 });
+    });
+
+    it('TC-I07: synthesizeAudioStream() streams from the client or falls back to one chunk', async () => {
+      const httpTTS = new TextToSpeech({ ...defaultConfig, baseUrl });
+      const streamed: Buffer[] = [];
+      for await (const chunk of httpTTS.synthesizeAudioStream('Hello')) {
+        streamed.push(chunk);
+      }
+      expect(Buffer.concat(streamed)).toEqual(pcmAudio);
+
+      const fallback: Buffer[] = [];
+      for await (const chunk of tts.synthesizeAudioStream('Hello')) {
+        fallback.push(chunk);
+      }
+      expect(fallback).toHaveLength(1);
+      expect(mockAPI.callCount).toBe(1);
+    });
+  });
+
+  // ============================================
+  // Section J: Provider Failover (7 tests)
+  // ============================================
+
+  describe('Section J: Provider Failover', () => {
+    const failoverConfig: TTSConfig = { ...defaultConfig, maxRetries: 0, enableCaching: false };
+
+    class ScriptedProvider implements TTSProvider {
+      readonly name: string;
+
+      calls = 0;
+
+      failWith: TTSError | Error | null = null;
+
+      hang = false;
+
+      private audio: Buffer;
+
+      constructor(name: string) {
+        this.name = name;
+        this.audio = Buffer.from(name);
+      }
+
+      async synthesize(): Promise<Buffer> {
+        this.calls++;
+        if (this.hang) return new Promise<Buffer>(() => {});
+        if (this.failWith) throw this.failWith;
+        return this.audio;
+      }
+    }
+
+    let primary: ScriptedProvider;
+    let backup: ScriptedProvider;
+
+    beforeEach(() => {
+      primary = new ScriptedProvider('primary');
+      backup = new ScriptedProvider('backup');
+    });
+
+    it('TC-J01: falls over to the next provider on API_ERROR', async () => {
+      primary.failWith = new Error('503 Service Unavailable');
+      const failoverTTS = new TextToSpeech(failoverConfig, [primary, backup]);
+
+      const response = await failoverTTS.synthesize('Hello');
+
+      expect(response.provider).toBe('backup');
+      expect(Buffer.from(response.audio).toString()).toBe('backup');
+      const [primaryHealth, backupHealth] = failoverTTS.getStats().providers;
+      expect(primaryHealth).toMatchObject({
+        name: 'primary',
+        healthy: false,
+        consecutiveFailures: 1,
+        totalFailures: 1,
+      });
+      expect(primaryHealth.lastError).toContain('503');
+      expect(backupHealth).toMatchObject({ name: 'backup', healthy: true, totalRequests: 1, totalFailures: 0 });
+    });
+
+    it('TC-J02: quota errors fail over without retrying the exhausted provider', async () => {
+      primary.failWith = new TTSError(TTSErrorCode.API_QUOTA_EXCEEDED, 'Quota exceeded', { recoverable: false });
+      const failoverTTS = new TextToSpeech({ ...failoverConfig, maxRetries: 3 }, [primary, backup]);
+
+      const response = await failoverTTS.synthesize('Hello');
+
+      expect(response.provider).toBe('backup');
+      expect(primary.calls).toBe(1);
+    });
+
+    it('TC-J03: timeouts fail over', async () => {
+      primary.hang = true;
+      const failoverTTS = new TextToSpeech({ ...failoverConfig, timeoutMs: 50 }, [primary, backup]);
+
+      const response = await failoverTTS.synthesize('Hello');
+
+      expect(response.provider).toBe('backup');
+      expect(failoverTTS.getStats().providers[0].lastError).toContain('timeout');
+    });
+
+    it('TC-J04: a failed provider is skipped until its cooldown ends', async () => {
+      primary.failWith = new Error('down');
+      const failoverTTS = new TextToSpeech({ ...failoverConfig, failoverCooldownMs: 100 }, [primary, backup]);
+
+      await failoverTTS.synthesize('One');
+      await failoverTTS.synthesize('Two');
+      expect(primary.calls).toBe(1);
+      expect(backup.calls).toBe(2);
+
+      // Primary recovers; it is tried again once the cooldown has passed
+      primary.failWith = null;
+      await new Promise((resolve) => {
+        setTimeout(resolve, 120);
+      });
+      const response = await failoverTTS.synthesize('Three');
+
+      expect(response.provider).toBe('primary');
+      expect(failoverTTS.getStats().providers[0]).toMatchObject({ healthy: true, consecutiveFailures: 0 });
+    });
+
+    it('TC-J05: request errors do not fail over', async () => {
+      primary.failWith = new TTSError(TTSErrorCode.INVALID_INPUT, 'Unsupported characters', { recoverable: false });
+      const failoverTTS = new TextToSpeech(failoverConfig, [primary, backup]);
+
+      const error = await failoverTTS.synthesize('Hello').catch((err) => err);
+
+      expect(error.code).toBe(TTSErrorCode.INVALID_INPUT);
+      expect(backup.calls).toBe(0);
+      expect(failoverTTS.getStats().providers[0].healthy).toBe(true);
+    });
+
+    it('TC-J06: throws the last error when every provider fails', async () => {
+      primary.failWith = new TTSError(TTSErrorCode.NETWORK_ERROR, 'ECONNREFUSED');
+      backup.failWith = new TTSError(TTSErrorCode.API_QUOTA_EXCEEDED, 'Quota exceeded', { recoverable: false });
+      const failoverTTS = new TextToSpeech(failoverConfig, [primary, backup]);
+
+      const error = await failoverTTS.synthesize('Hello').catch((err) => err);
+
+      expect(error.code).toBe(TTSErrorCode.API_QUOTA_EXCEEDED);
+      expect(error.context.provider).toBe('backup');
+      expect(failoverTTS.getStats().totalErrors).toBe(1);
+      expect(failoverTTS.getStats().providers.every((provider) => !provider.healthy)).toBe(true);
+    });
+
+    it('TC-J07: synthesizeAudioStream() fails over before the first chunk', async () => {
+      const streamingPrimary: TTSProvider = {
+        name: 'streaming-primary',
+        synthesize: async () => Buffer.alloc(0),
+        // eslint-disable-next-line require-yield
+        async *synthesizeStream() {
+          throw new TTSError(TTSErrorCode.NETWORK_ERROR, 'Connection reset');
+        },
+      };
+      const failoverTTS = new TextToSpeech(failoverConfig, [streamingPrimary, backup]);
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of failoverTTS.synthesizeAudioStream('Hello')) {
+        chunks.push(chunk);
+      }
+
+      expect(Buffer.concat(chunks).toString()).toBe('backup');
+      expect(failoverTTS.getStats().providers[0].healthy).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,116 @@
+/**
+ * Tracing Tests
+ * Span trace context and batched OTLP/HTTP export to a local collector stub
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { OTLPHttpExporter, Tracer } from '../src/Tracing.js';
+
+describe('Tracing', () => {
+  let collector: http.Server;
+  let endpoint: string;
+  let status: number;
+  let exports: { url?: string; headers: http.IncomingHttpHeaders; body: any }[];
+
+  beforeEach(async () => {
+    status = 200;
+    exports = [];
+    collector = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => {
+        body += chunk;
+      });
+      req.on('end', () => {
+        exports.push({ url: req.url, headers: req.headers, body: JSON.parse(body) });
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end('{}');
+      });
+    });
+    await new Promise<void>((resolve) => {
+      collector.listen(0, '127.0.0.1', resolve);
+    });
+    endpoint = `http://127.0.0.1:${(collector.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    collector.closeAllConnections();
+    await new Promise((resolve) => {
+      collector.close(resolve);
+    });
+  });
+
+  it('links child spans to their parent trace and formats traceparent', async () => {
+    const tracer = new Tracer(new OTLPHttpExporter({ endpoint }));
+    const root = tracer.startSpan('voice.request');
+    const child = tracer.startSpan('voice.agent', { parent: root, kind: 'client' });
+
+    expect(root.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(child.traceId).toBe(root.traceId);
+    expect(child.parentSpanId).toBe(root.spanId);
+    expect(child.getTraceparent()).toBe(`00-${root.traceId}-${child.spanId}-01`);
+    expect(tracer.startSpan('other').traceId).not.toBe(root.traceId);
+
+    await tracer.shutdown();
+  });
+
+  it('exports finished spans as OTLP JSON', async () => {
+    const tracer = new Tracer(
+      new OTLPHttpExporter({ endpoint: `${endpoint}/`, serviceName: 'voice-test', headers: { 'x-api-key': 'k' } }),
+    );
+    const root = tracer.startSpan('voice.request', { attributes: { 'voice.guild_id': 'guild1' }, startTime: 1000 });
+    root.setAttribute('voice.text_length', 5);
+    root.setAttribute('voice.confidence', 0.5);
+    root.setAttribute('voice.skipped', undefined);
+    root.setError('Agent request failed');
+    root.end(1250);
+    root.setAttribute('voice.late', true);
+
+    await tracer.flush();
+
+    expect(exports).toHaveLength(1);
+    expect(exports[0].url).toBe('/v1/traces');
+    expect(exports[0].headers['x-api-key']).toBe('k');
+    const { resource, scopeSpans } = exports[0].body.resourceSpans[0];
+    expect(resource.attributes).toEqual([{ key: 'service.name', value: { stringValue: 'voice-test' } }]);
+    expect(scopeSpans[0].spans).toEqual([
+      {
+        traceId: root.traceId,
+        spanId: root.spanId,
+        name: 'voice.request',
+        kind: 1,
+        startTimeUnixNano: '1000000000',
+        endTimeUnixNano: '1250000000',
+        attributes: [
+          { key: 'voice.guild_id', value: { stringValue: 'guild1' } },
+          { key: 'voice.text_length', value: { intValue: 5 } },
+          { key: 'voice.confidence', value: { doubleValue: 0.5 } },
+        ],
+        status: { code: 2, message: 'Agent request failed' },
+      },
+    ]);
+
+    await tracer.shutdown();
+    expect(exports).toHaveLength(1);
+  });
+
+  it('exports full batches right away and drops batches the collector rejects', async () => {
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const tracer = new Tracer(new OTLPHttpExporter({ endpoint }), { maxBatchSize: 2 });
+
+    status = 503;
+    tracer.startSpan('a').end();
+    tracer.startSpan('b').end();
+    await tracer.flush();
+    expect(exports).toHaveLength(1);
+    expect(errors).toHaveBeenCalledWith('Dropped 2 trace spans:', expect.any(Error));
+
+    status = 200;
+    tracer.startSpan('c').end();
+    await tracer.shutdown();
+    expect(exports).toHaveLength(2);
+    expect(exports[1].body.resourceSpans[0].scopeSpans[0].spans.map((span: any) => span.name)).toEqual(['c']);
+    errors.mockRestore();
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * TranscriptStore Tests
+ * JSONL persistence, per-guild retention and JSON/CSV/SRT/WebVTT export
+ */
+
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PipelineErrorCode } from '../src/PipelineErrors.js';
+import { RequestRecord, SessionRecord, TranscriptStore } from '../src/TranscriptStore.js';
+
+const DAY_MS = 86400000;
+
+function requestRecord(overrides: Partial<RequestRecord> = {}): RequestRecord {
+  return {
+    kind: 'request',
+    requestId: 'req1',
+    sessionId: 'session1',
+    guildId: 'guild1',
+    channelId: 'channel1',
+    userId: 'alice',
+    status: 'completed',
+    input: "what's the weather",
+    confidence: 0.92,
+    language: 'en',
+    response: 'Sunny, with "light" wind.',
+    startTime: Date.now(),
+    endTime: Date.now() + 1500,
+    ...overrides,
+  };
+}
+
+describe('TranscriptStore', () => {
+  let directory: string;
+  let store: TranscriptStore;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'transcripts-'));
+    store = new TranscriptStore({ directory });
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('appends records to one JSONL file per guild and filters reads', async () => {
+    const session: SessionRecord = {
+      kind: 'session',
+      sessionId: 'session1',
+      guildId: 'guild1',
+      channelId: 'channel1',
+      userId: 'alice',
+      startTime: 1000,
+      endTime: 5000,
+      endReason: 'user',
+      totalRequests: 1,
+      failedRequests: 0,
+    };
+    const now = Date.now();
+    store.record(requestRecord({ startTime: now - 2000 }));
+    store.record(requestRecord({ requestId: 'req2', sessionId: 'session2', startTime: now }));
+    store.record(requestRecord({ guildId: 'guild2' }));
+    await store.record({ ...session, startTime: now - 3000, endTime: now });
+
+    expect(readFileSync(join(directory, 'guild1.jsonl'), 'utf-8').trim().split('\n')).toHaveLength(3);
+    expect((await store.getRecords('guild1')).map((record) => record.kind)).toEqual(['request', 'request', 'session']);
+    expect((await store.getRecords('guild1', { sessionId: 'session2' })).map((r) => r.sessionId)).toEqual(['session2']);
+    expect(await store.getRecords('guild1', { since: now - 1000 })).toHaveLength(1);
+    expect(await store.getRecords('guild3')).toEqual([]);
+  });
+
+  it('skips torn lines and rejects guild IDs that are not file-safe', async () => {
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await store.record(requestRecord());
+    appendFileSync(join(directory, 'guild1.jsonl'), '{"kind":"requ');
+
+    expect(await store.getRecords('guild1')).toHaveLength(1);
+
+    await store.record(requestRecord({ guildId: '../escape' }));
+    expect(errors).toHaveBeenCalledWith('Transcript store error:', expect.any(Error));
+    errors.mockRestore();
+  });
+
+  it('applies the default and per-guild retention', async () => {
+    const now = Date.now();
+    store = new TranscriptStore({
+      directory,
+      retention: { default: { maxAgeDays: 7 }, guilds: { guild2: { maxRecords: 2 } } },
+    });
+    store.record(requestRecord({ requestId: 'old', startTime: now - 10 * DAY_MS }));
+    store.record(requestRecord({ requestId: 'new', startTime: now - DAY_MS }));
+    for (let i = 0; i < 3; i++) {
+      store.record(requestRecord({ guildId: 'guild2', requestId: `g2-${i}`, startTime: now - 10 * DAY_MS }));
+    }
+    await store.flush();
+
+    // Retention runs on the first write to each guild, so 'old' is already gone and guild2 is trimmed here
+    expect(await store.prune()).toBe(1);
+    expect((await store.getRecords('guild1')).map((record) => (record as RequestRecord).requestId)).toEqual(['new']);
+    expect((await store.getRecords('guild2')).map((record) => (record as RequestRecord).requestId)).toEqual([
+      'g2-1',
+      'g2-2',
+    ]);
+
+    await store.setRetention('guild2', { maxRecords: 1 });
+    expect(await store.getRecords('guild2')).toHaveLength(1);
+    expect(store.getRetention('guild3')).toEqual({ maxAgeDays: 7 });
+  });
+
+  describe('export', () => {
+    beforeEach(async () => {
+      store = new TranscriptStore({ directory, retention: { default: {} } });
+      store.record(requestRecord({ startTime: 1000, endTime: 2500 }));
+      store.record(
+        requestRecord({
+          requestId: 'req2',
+          userId: 'bob',
+          input: 'play <loud> music',
+          response: 'Okay.',
+          startTime: 3661000,
+          endTime: 3663250,
+        }),
+      );
+      await store.record(
+        requestRecord({
+          requestId: 'req3',
+          status: 'error',
+          response: undefined,
+          errorCode: PipelineErrorCode.AGENT_TIMEOUT,
+          startTime: 4000000,
+          endTime: 4030000,
+        }),
+      );
+    });
+
+    it('exports JSON and CSV', async () => {
+      expect(JSON.parse(await store.export('guild1', 'json'))).toHaveLength(3);
+
+      const csv = (await store.export('guild1', 'csv')).split('\r\n');
+      expect(csv[0]).toBe(
+        'time,sessionId,requestId,channelId,userId,status,language,confidence,input,response,errorCode,durationMs,timeToFirstAudioMs',
+      );
+      expect(csv[1]).toBe(
+        `1970-01-01T00:00:01.000Z,session1,req1,channel1,alice,completed,en,0.92,what's the weather,"Sunny, with ""light"" wind.",,1500,`,
+      );
+      expect(csv[3]).toContain(',error,');
+      expect(csv[3]).toContain(',7002,30000,');
+    });
+
+    it('exports answered requests as SRT and WebVTT cues', async () => {
+      expect(await store.export('guild1', 'srt')).toBe(
+        '1\n00:00:00,000 --> 00:00:01,500\nalice: what\'s the weather\nbot: Sunny, with "light" wind.\n\n' +
+          '2\n01:01:00,000 --> 01:01:02,250\nbob: play <loud> music\nbot: Okay.\n\n',
+      );
+
+      const vtt = await store.export('guild1', 'vtt', { since: 3000000 });
+      expect(vtt).toBe('WEBVTT\n\n00:00:00.000 --> 00:00:02.250\n<v bob>play &lt;loud&gt; music\n<v bot>Okay.\n\n');
+    });
+  });
+});
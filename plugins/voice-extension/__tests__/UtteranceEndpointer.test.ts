@@ -0,0 +1,137 @@
+/**
+ * UtteranceEndpointer Tests
+ * Pre-roll, hangover, minimum speech and maximum utterance length
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Utterance, UtteranceEndpointer, UtteranceEndpointerConfig } from '../src/UtteranceEndpointer.js';
+import { AudioFrame } from '../src/types.js';
+
+const SPEECH = 0.9;
+const SILENCE = 0;
+
+let sequence = 0;
+
+function createFrame(amplitude: number): AudioFrame {
+  return {
+    timestamp: sequence * 960,
+    sequenceNumber: sequence++,
+    ssrc: 1,
+    data: new Float32Array(960 * 2).fill(amplitude),
+    sampleCount: 960,
+    duration: 20,
+  };
+}
+
+describe('UtteranceEndpointer', () => {
+  let utterances: Utterance[];
+  let discarded: number[];
+
+  function createEndpointer(config: UtteranceEndpointerConfig = {}): UtteranceEndpointer {
+    const endpointer = new UtteranceEndpointer(config);
+    endpointer.on('utterance', (utterance) => {
+      utterances.push(utterance);
+    });
+    endpointer.on('discarded', (_userId, speechMs) => {
+      discarded.push(speechMs);
+    });
+    return endpointer;
+  }
+
+  async function feed(endpointer: UtteranceEndpointer, amplitude: number, count: number, userId = 'alice') {
+    for (let i = 0; i < count; i++) {
+      await endpointer.processFrame(userId, createFrame(amplitude));
+    }
+  }
+
+  beforeEach(() => {
+    utterances = [];
+    discarded = [];
+    sequence = 0;
+  });
+
+  it('prepends pre-roll audio from before speech was detected', async () => {
+    const endpointer = createEndpointer({ preRollMs: 100 });
+
+    await feed(endpointer, SILENCE, 20);
+    await feed(endpointer, SPEECH, 10);
+    await feed(endpointer, SILENCE, 10);
+
+    expect(utterances).toHaveLength(1);
+    // 5 pre-roll frames (sequence 15-19), 10 speech frames, 10 hangover frames
+    expect(utterances[0].frames[0].sequenceNumber).toBe(15);
+    expect(utterances[0].frames).toHaveLength(25);
+    expect(utterances[0].speechMs).toBe(200);
+  });
+
+  it('keeps pauses shorter than the hangover inside the utterance', async () => {
+    const endpointer = createEndpointer({ hangoverMs: 300 });
+
+    await feed(endpointer, SPEECH, 10);
+    await feed(endpointer, SILENCE, 10); // 200ms pause between words
+    await feed(endpointer, SPEECH, 10);
+    expect(utterances).toHaveLength(0);
+    expect(endpointer.isSpeaking('alice')).toBe(true);
+
+    await feed(endpointer, SILENCE, 15);
+
+    expect(utterances).toHaveLength(1);
+    expect(utterances[0]).toMatchObject({ userId: 'alice', endReason: 'silence', speechMs: 400 });
+    expect(endpointer.isSpeaking('alice')).toBe(false);
+  });
+
+  it('discards utterances with too little speech', async () => {
+    const endpointer = createEndpointer({ minSpeechMs: 200 });
+
+    await feed(endpointer, SPEECH, 3);
+    await feed(endpointer, SILENCE, 10);
+
+    expect(utterances).toHaveLength(0);
+    expect(discarded).toEqual([60]);
+  });
+
+  it('cuts utterances at the maximum length', async () => {
+    const endpointer = createEndpointer({ maxUtteranceMs: 400 });
+
+    await feed(endpointer, SPEECH, 30);
+
+    expect(utterances).toHaveLength(1);
+    expect(utterances[0].endReason).toBe('max-length');
+    expect(utterances[0].frames).toHaveLength(20);
+    // Continued speech opens the next utterance
+    expect(endpointer.isSpeaking('alice')).toBe(true);
+  });
+
+  it('segments each user independently', async () => {
+    const endpointer = createEndpointer();
+
+    for (let i = 0; i < 10; i++) {
+      await endpointer.processFrame('alice', createFrame(SPEECH));
+      await endpointer.processFrame('bob', createFrame(SPEECH));
+    }
+    await feed(endpointer, SILENCE, 10, 'bob');
+
+    expect(utterances.map((u) => u.userId)).toEqual(['bob']);
+    expect(endpointer.isSpeaking('alice')).toBe(true);
+  });
+
+  it('flushes an utterance in progress', async () => {
+    const endpointer = createEndpointer();
+    const speech: string[] = [];
+    endpointer.on('speech', (userId) => {
+      speech.push(userId);
+    });
+
+    await feed(endpointer, SPEECH, 8);
+    await endpointer.flush('alice');
+    await endpointer.flush('alice');
+
+    expect(speech).toHaveLength(8);
+    expect(utterances).toHaveLength(1);
+    expect(utterances[0]).toMatchObject({ endReason: 'flush', speechMs: 160 });
+  });
+
+  it('rejects a maximum length below the minimum speech length', () => {
+    expect(() => new UtteranceEndpointer({ minSpeechMs: 500, maxUtteranceMs: 400 })).toThrow('maxUtteranceMs');
+  });
+});
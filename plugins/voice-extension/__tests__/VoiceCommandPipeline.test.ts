@@ -3,10 +3,19 @@
  * 36 end-to-end test cases covering all scenarios
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { VoiceCommandPipeline, VoiceCommandPipelineConfig } from '../src/VoiceCommandPipeline.js';
-import { AudioFrame } from '../src/AudioStreamHandler.js';
+import { mkdtempSync, rmSync } from 'fs';
+import http from 'http';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AddressInfo } from 'net';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { VoiceCommandPipeline, VoiceCommandPipelineConfig, VoiceRequest } from '../src/VoiceCommandPipeline.js';
+import { AudioFrame, AudioStreamHandler } from '../src/AudioStreamHandler.js';
 import { PipelineError, PipelineErrorCode } from '../src/PipelineErrors.js';
+import { STTProvider } from '../src/STTProvider.js';
+import { AgentClientOptions, AgentRequest } from '../src/AgentClient.js';
+import { Histogram, MetricsRegistry } from '../src/MetricsRegistry.js';
+import { instrumentPipeline } from '../src/PipelineInstrumentation.js';
 
 describe('VoiceCommandPipeline - 36 Comprehensive Test Cases', () => {
   let pipeline: VoiceCommandPipeline;
@@ -375,6 +384,8 @@ describe('VoiceCommandPipeline - 36 Comprehensive Test Cases', () => {
     });
 
     it('TC-031: Metrics update on session end', async () => {
+      const published: number[] = [];
+      pipeline.on('metricsUpdated', (updated) => published.push(updated.activeSessions));
       const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1');
 
       let metrics = pipeline.getMetrics();
@@ -384,6 +395,7 @@ describe('VoiceCommandPipeline - 36 Comprehensive Test Cases', () => {
 
       metrics = pipeline.getMetrics();
       expect(metrics.activeSessions).toBe(0);
+      expect(published).toEqual([1, 0]);
     });
 
     it('TC-032: Error rate tracking', async () => {
@@ -424,10 +436,1119 @@ describe('VoiceCommandPipeline - 36 Comprehensive Test Cases', () => {
     });
   });
 
+  // ============================================
+  // Section 6: Text Commands (5 tests)
+  // ============================================
+
+  describe('Text Commands', () => {
+    it('TC-037: processTextCommand skips transcription and returns agent reply', async () => {
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1');
+
+      const requestId = await pipeline.processTextCommand(sessionId, 'hello');
+      const request = pipeline.getRequest(requestId);
+
+      expect(request?.status).toBe('completed');
+      expect(request?.inputText).toBe('hello');
+      expect(request?.transcription).toBeUndefined();
+      expect(request?.agentResponse).toBe('Hello! How can I help you today?');
+      expect(request?.ttsResponse).toBeDefined();
+    });
+
+    it('TC-038: processTextCommand emits request lifecycle events', async () => {
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1');
+      const events: string[] = [];
+      pipeline.on('requestStarted', () => events.push('started'));
+      pipeline.on('requestCompleted', () => events.push('completed'));
+
+      await pipeline.processTextCommand(sessionId, 'what time is it');
+
+      expect(events).toEqual(['started', 'completed']);
+    });
+
+    it('TC-039: processTextCommand updates session metrics', async () => {
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1');
+
+      await pipeline.processTextCommand(sessionId, 'hello');
+
+      const { metrics } = pipeline.getSession(sessionId)!;
+      expect(metrics.totalRequests).toBe(1);
+      expect(metrics.successfulRequests).toBe(1);
+      expect(metrics.avgAgentLatency).toBeGreaterThan(0);
+      expect(metrics.avgTotalLatency).toBeGreaterThan(0);
+      expect(metrics.avgTranscriptionLatency).toBe(0);
+    });
+
+    it('TC-040: processTextCommand rejects empty text', async () => {
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1');
+
+      await expect(pipeline.processTextCommand(sessionId, '   ')).rejects.toMatchObject({
+        code: PipelineErrorCode.PIPELINE_INVALID_INPUT,
+      });
+    });
+
+    it('TC-041: processTextCommand emits requestError on stage failure', async () => {
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1');
+      const errors: PipelineError[] = [];
+      pipeline.on('requestError', (_request, error) => errors.push(error));
+
+      // Echoed agent reply exceeds the TTS text limit
+      await expect(pipeline.processTextCommand(sessionId, 'x'.repeat(5000))).rejects.toThrow(PipelineError);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0].code).toBe(PipelineErrorCode.TTS_SYNTHESIS_FAILED);
+      expect(pipeline.getSession(sessionId)!.metrics.failedRequests).toBe(1);
+    });
+  });
+
+  // ============================================
+  // Section 7: Streaming Agent Responses (7 tests)
+  // ============================================
+
+  describe('Streaming Agent Responses', () => {
+    let agentServer: http.Server;
+    let streamingPipeline: VoiceCommandPipeline;
+    let respond: (req: http.IncomingMessage, res: http.ServerResponse) => void;
+    let lastRequestBody: any;
+
+    beforeEach(async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      agentServer = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => {
+          body += chunk;
+        });
+        req.on('end', () => {
+          lastRequestBody = JSON.parse(body);
+          respond(req, res);
+        });
+      });
+      await new Promise<void>((resolve) => {
+        agentServer.listen(0, '127.0.0.1', resolve);
+      });
+      const { port } = agentServer.address() as AddressInfo;
+
+      streamingPipeline = new VoiceCommandPipeline({
+        ...mockConfig,
+        agentEndpoint: `http://127.0.0.1:${port}/agent`,
+        agentApiKey: 'agent-key',
+      });
+      await streamingPipeline.initialize();
+    });
+
+    afterEach(async () => {
+      await streamingPipeline.shutdown();
+      await new Promise((resolve) => {
+        agentServer.close(resolve);
+      });
+      vi.restoreAllMocks();
+    });
+
+    it('TC-042: speaks the first sentence before an SSE stream finishes', async () => {
+      respond = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write('data: {"text":"Here is the first sentence. "}\n\n');
+        setTimeout(() => {
+          res.write('data: {"text":"And here is the second one."}\n\n');
+          res.end('data: [DONE]\n\n');
+        }, 300);
+      };
+      const sessionId = await streamingPipeline.startSession('user1', 'guild1', 'channel1');
+      const started = Date.now();
+
+      const requestId = await streamingPipeline.processTextCommand(sessionId, 'tell me two things');
+      const request = streamingPipeline.getRequest(requestId)!;
+
+      expect(Date.now() - started).toBeGreaterThanOrEqual(300);
+      expect(request.status).toBe('completed');
+      expect(request.agentResponse).toBe('Here is the first sentence. And here is the second one.');
+      expect(request.ttsResponse?.text).toBe('And here is the second one.');
+      expect(request.timeToFirstAudio).toBeLessThan(250);
+      expect(lastRequestBody.stream).toBe(true);
+    });
+
+    it('TC-043: streams NDJSON replies', async () => {
+      respond = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+        res.write('{"text":"Streaming works over newline JSON."}\n');
+        res.end('{"done":true,"confidence":0.8}\n');
+      };
+      const sessionId = await streamingPipeline.startSession('user1', 'guild1', 'channel1');
+
+      const requestId = await streamingPipeline.processTextCommand(sessionId, 'hello');
+
+      expect(streamingPipeline.getRequest(requestId)?.agentResponse).toBe('Streaming works over newline JSON.');
+    });
+
+    it('TC-044: still handles plain JSON replies', async () => {
+      respond = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ text: 'A regular reply.' }));
+      };
+      const sessionId = await streamingPipeline.startSession('user1', 'guild1', 'channel1');
+
+      const requestId = await streamingPipeline.processTextCommand(sessionId, 'hello');
+      const request = streamingPipeline.getRequest(requestId)!;
+
+      expect(request.agentResponse).toBe('A regular reply.');
+      expect(request.ttsResponse?.text).toBe('A regular reply.');
+      expect(request.timeToFirstAudio).toBeDefined();
+    });
+
+    it('TC-045: records time-to-first-audio in session metrics', async () => {
+      respond = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.end('data: {"text":"Quick answer for you."}\n\n');
+      };
+      const sessionId = await streamingPipeline.startSession('user1', 'guild1', 'channel1');
+
+      await streamingPipeline.processTextCommand(sessionId, 'hello');
+
+      const { metrics } = streamingPipeline.getSession(sessionId)!;
+      expect(metrics.avgTimeToFirstAudio).toBeGreaterThan(0);
+      expect(metrics.avgTimeToFirstAudio).toBeLessThanOrEqual(metrics.avgTotalLatency);
+    });
+
+    it('TC-060: sends the conversation history with follow-up questions', async () => {
+      respond = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ text: 'Sunny all day.' }));
+      };
+      const sessionId = await streamingPipeline.startSession('user1', 'guild1', 'channel1');
+
+      await streamingPipeline.processTextCommand(sessionId, "what's the weather today");
+      expect(lastRequestBody.history).toEqual([]);
+
+      await streamingPipeline.processTextCommand(sessionId, 'and what about tomorrow?');
+      expect(lastRequestBody.text).toBe('and what about tomorrow?');
+      expect(lastRequestBody.history).toEqual([
+        { role: 'user', text: "what's the weather today", userId: 'user1' },
+        { role: 'assistant', text: 'Sunny all day.' },
+      ]);
+    });
+
+    it('TC-063: hands validated agent actions to the host after the reply', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      respond = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            text: 'Turning it down.',
+            actions: [{ type: 'set-volume', volume: 0.5 }, { type: 'format-disk' }],
+          }),
+        );
+      };
+      const sessionId = await streamingPipeline.startSession('user1', 'guild1', 'channel1');
+      const events: string[] = [];
+      streamingPipeline.on('agentActions', (_request, actions) => events.push(`actions:${actions.length}`));
+      streamingPipeline.on('requestCompleted', () => events.push('completed'));
+
+      const requestId = await streamingPipeline.processTextCommand(sessionId, 'turn it down');
+
+      expect(streamingPipeline.getRequest(requestId)?.actions).toEqual([{ type: 'set-volume', volume: 0.5 }]);
+      expect(events).toEqual(['actions:1', 'completed']);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Unknown action type: format-disk'));
+    });
+
+    it('TC-064: collects actions from streamed replies and applies voice changes', async () => {
+      respond = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write('data: {"text":"Switching voices now."}\n\n');
+        res.end('data: {"actions":[{"type":"change-voice","voiceId":"shimmer"}]}\n\n');
+      };
+      const sessionId = await streamingPipeline.startSession('user1', 'guild1', 'channel1');
+
+      const first = streamingPipeline.getRequest(
+        await streamingPipeline.processTextCommand(sessionId, 'use another voice'),
+      )!;
+      expect(first.actions).toEqual([{ type: 'change-voice', voiceId: 'shimmer' }]);
+      expect(first.ttsResponse?.voiceId).toBe('nova');
+
+      // The host executes the action by switching the session's voice
+      streamingPipeline.setVoice(sessionId, 'shimmer');
+      const second = streamingPipeline.getRequest(await streamingPipeline.processTextCommand(sessionId, 'hello'))!;
+      expect(second.ttsResponse?.voiceId).toBe('shimmer');
+    });
+  });
+
+  // ============================================
+  // Section 8: Barge-In (4 tests)
+  // ============================================
+
+  describe('Barge-In', () => {
+    let audioHandler: AudioStreamHandler;
+
+    beforeEach(async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      audioHandler = new AudioStreamHandler(mockConfig.audioConfig);
+      await audioHandler.initialize();
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('TC-046: user speech flushes queued bot playback', async () => {
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1', audioHandler);
+      await pipeline.processTextCommand(sessionId, 'hello');
+      expect(audioHandler.getPlaybackQueueSize()).toBeGreaterThan(0);
+
+      let bargeIns = 0;
+      pipeline.on('bargeIn', () => bargeIns++);
+      await pipeline.handleAudioFrame(sessionId, createLiveFrame(0.9, 0));
+
+      expect(audioHandler.getPlaybackQueueSize()).toBe(0);
+      expect(bargeIns).toBe(1);
+    });
+
+    it('TC-047: user speech cancels a request in the playing state', async () => {
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1', audioHandler);
+      let finishPlayback: () => void = () => {};
+      vi.spyOn(audioHandler, 'playFrame').mockImplementation(
+        () =>
+          new Promise<void>((resolve) => {
+            finishPlayback = resolve;
+          }),
+      );
+      const cancelled: string[] = [];
+      let completed = 0;
+      pipeline.on('requestCancelled', (_request, reason) => cancelled.push(reason));
+      pipeline.on('requestCompleted', () => completed++);
+
+      const pending = pipeline.processTextCommand(sessionId, 'tell me a long story');
+      await vi.waitFor(() => expect(pipeline.getSession(sessionId)!.currentRequest?.status).toBe('playing'));
+      const request = pipeline.getSession(sessionId)!.currentRequest!;
+
+      await pipeline.handleAudioFrame(sessionId, createLiveFrame(0.9, 0));
+      finishPlayback();
+      await pending;
+
+      expect(cancelled).toEqual(['barge-in']);
+      expect(completed).toBe(0);
+      expect(request.status).toBe('error');
+      expect(request.error?.code).toBe(PipelineErrorCode.PIPELINE_CANCELLED);
+    });
+
+    it('TC-048: interrupting utterance becomes the next request', async () => {
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1', audioHandler);
+      const completedRequests: string[] = [];
+      pipeline.on('requestCompleted', (request) => completedRequests.push(request.requestId));
+
+      let sequence = 0;
+      for (let i = 0; i < 10; i++) {
+        await pipeline.handleAudioFrame(sessionId, createLiveFrame(0.9, sequence++));
+      }
+      expect(completedRequests).toHaveLength(0);
+
+      // Enough trailing silence for the VAD to end the utterance
+      for (let i = 0; i < 12; i++) {
+        await pipeline.handleAudioFrame(sessionId, createLiveFrame(0, sequence++));
+      }
+
+      await vi.waitFor(() => expect(completedRequests).toHaveLength(1));
+      const request = pipeline.getRequest(completedRequests[0])!;
+      expect(request.transcription).toBeDefined();
+      expect(request.audioFrames.length).toBeGreaterThanOrEqual(10);
+      expect(pipeline.getSession(sessionId)!.metrics.audioFramesProcessed).toBe(22);
+    });
+
+    it('TC-049: barge-in can be disabled', async () => {
+      await pipeline.shutdown();
+      pipeline = new VoiceCommandPipeline({ ...mockConfig, enableBargeIn: false });
+      await pipeline.initialize();
+
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1', audioHandler);
+      await pipeline.processTextCommand(sessionId, 'hello');
+      const queued = audioHandler.getPlaybackQueueSize();
+
+      await pipeline.handleAudioFrame(sessionId, createLiveFrame(0.9, 0));
+
+      expect(audioHandler.getPlaybackQueueSize()).toBe(queued);
+    });
+  });
+
+  // ============================================
+  // Section 9: STT Providers (3 tests)
+  // ============================================
+
+  describe('STT Providers', () => {
+    function createRecordingProvider(name: string, handled: string[]): STTProvider {
+      return {
+        name,
+        streaming: false,
+        transcribe: async () => {
+          handled.push(name);
+          return { text: `via ${name}`, language: 'en', confidence: 0.9, duration: 100, timestamp: Date.now() };
+        },
+        shutdown: async () => {},
+      };
+    }
+
+    it('TC-050: guild override selects its own STT provider', async () => {
+      await pipeline.shutdown();
+      pipeline = new VoiceCommandPipeline({
+        ...mockConfig,
+        sttProviders: {
+          default: { type: 'recording', label: 'hosted' },
+          guilds: { 'private-guild': { type: 'recording', label: 'local' } },
+        },
+      });
+      const handled: string[] = [];
+      pipeline
+        .getSTTProviders()
+        .register('recording', (config) => createRecordingProvider(config.label as string, handled));
+      await pipeline.initialize();
+
+      const privateSession = await pipeline.startSession('user1', 'private-guild', 'channel1');
+      const publicSession = await pipeline.startSession('user2', 'public-guild', 'channel1');
+      const frames = Array.from({ length: 5 }, (_, i) => createMockAudioFrame(960, i));
+
+      const privateRequest = await pipeline.processVoiceCommand(privateSession, frames);
+      const publicRequest = await pipeline.processVoiceCommand(publicSession, frames);
+
+      expect(handled).toEqual(['local', 'hosted']);
+      expect(pipeline.getRequest(privateRequest)!.transcription!.text).toBe('via local');
+      expect(pipeline.getRequest(publicRequest)!.transcription!.text).toBe('via hosted');
+    });
+
+    it('TC-051: provider error codes reach requestError unchanged', async () => {
+      await pipeline.shutdown();
+      pipeline = new VoiceCommandPipeline({ ...mockConfig, sttProviders: { default: { type: 'limited' } } });
+      pipeline.getSTTProviders().register('limited', () => ({
+        name: 'limited',
+        streaming: false,
+        transcribe: async () => {
+          throw new PipelineError(PipelineErrorCode.STT_RATE_LIMITED, 'Rate limited', { phase: 'stt' });
+        },
+        shutdown: async () => {},
+      }));
+      await pipeline.initialize();
+
+      const errors: PipelineError[] = [];
+      pipeline.on('requestError', (_request, error) => errors.push(error));
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1');
+
+      await pipeline.processVoiceCommand(sessionId, [createMockAudioFrame(960, 0)]).catch(() => {});
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0].code).toBe(PipelineErrorCode.STT_RATE_LIMITED);
+    });
+
+    it('TC-074: hands providers mono PCM resampled to the STT rate', async () => {
+      await pipeline.shutdown();
+      const received: { audio: Buffer; sampleRate: number }[] = [];
+      pipeline = new VoiceCommandPipeline({
+        ...mockConfig,
+        sttConfig: { ...mockConfig.sttConfig, sampleRate: 16000 },
+        sttProviders: { default: { type: 'capture' } },
+      });
+      pipeline.getSTTProviders().register('capture', () => ({
+        name: 'capture',
+        streaming: false,
+        transcribe: async (audio, options) => {
+          received.push({ audio, sampleRate: options.sampleRate });
+          return { text: 'hello', language: 'en', confidence: 0.9, duration: 100, timestamp: Date.now() };
+        },
+        shutdown: async () => {},
+      }));
+      await pipeline.initialize();
+
+      // 100ms of 48kHz stereo with different levels per channel
+      const frames = Array.from({ length: 5 }, (_, i) => {
+        const frame = createMockAudioFrame(960, i);
+        for (let j = 0; j < frame.data.length; j++) {
+          frame.data[j] = j % 2 === 0 ? 0.5 : 0.1;
+        }
+        return frame;
+      });
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1');
+      await pipeline.processVoiceCommand(sessionId, frames);
+
+      expect(received).toHaveLength(1);
+      expect(received[0].sampleRate).toBe(16000);
+      expect(received[0].audio.length / 2).toBe(1600); // 100ms of mono at 16kHz
+      expect(received[0].audio.readInt16LE(200)).toBe(Math.round(0.3 * 32767));
+    });
+  });
+
+  // ============================================
+  // Section 10: Multi-Speaker Receive (2 tests)
+  // ============================================
+
+  describe('Multi-Speaker Receive', () => {
+    it('TC-052: demultiplexes RTP audio into per-speaker requests', async () => {
+      // Packets are fed faster than real time, so skip the jitter delay
+      await pipeline.shutdown();
+      pipeline = new VoiceCommandPipeline({
+        ...mockConfig,
+        audioConfig: { ...mockConfig.audioConfig, targetBufferLatency: 0 },
+      });
+      await pipeline.initialize();
+
+      const sessionId = await pipeline.startSession('owner', 'guild1', 'channel1');
+      const completed: VoiceRequest[] = [];
+      pipeline.on('requestCompleted', (request) => completed.push(request));
+
+      await pipeline.handleSpeakingUpdate(sessionId, { userId: 'alice', ssrc: 111, speaking: 1 });
+      await pipeline.handleSpeakingUpdate(sessionId, { userId: 'bob', ssrc: 222, speaking: 1 });
+
+      // Both users talk at once, then fall silent
+      for (let sequence = 0; sequence < 22; sequence++) {
+        const amplitude = sequence < 10 ? 0.9 : 0;
+        await pipeline.handleAudioPacket(sessionId, { ...createLiveFrame(amplitude, sequence), ssrc: 111 });
+        await pipeline.handleAudioPacket(sessionId, { ...createLiveFrame(amplitude, sequence), ssrc: 222 });
+      }
+
+      await vi.waitFor(() => expect(completed).toHaveLength(2));
+      expect(completed.map((request) => request.userId).sort()).toEqual(['alice', 'bob']);
+      expect(completed.every((request) => request.audioFrames.length >= 10)).toBe(true);
+      expect(pipeline.getSpeakers(sessionId).map((speaker) => [speaker.userId, speaker.ssrc])).toEqual([
+        ['alice', 111],
+        ['bob', 222],
+      ]);
+    });
+
+    it('TC-053: attributes directly fed frames to the given speaker', async () => {
+      const sessionId = await pipeline.startSession('owner', 'guild1', 'channel1');
+      const completed: VoiceRequest[] = [];
+      pipeline.on('requestCompleted', (request) => completed.push(request));
+
+      for (let sequence = 0; sequence < 22; sequence++) {
+        await pipeline.handleAudioFrame(sessionId, createLiveFrame(sequence < 10 ? 0.9 : 0, sequence), 'guest');
+      }
+
+      await vi.waitFor(() => expect(completed).toHaveLength(1));
+      expect(completed[0].userId).toBe('guest');
+      expect(pipeline.getSession(sessionId)!.userId).toBe('owner');
+    });
+  });
+
+  // ============================================
+  // Section 11: Wake Word (3 tests)
+  // ============================================
+
+  describe('Wake Word', () => {
+    let transcripts: string[];
+    let ignored: string[];
+
+    beforeEach(async () => {
+      await pipeline.shutdown();
+      pipeline = new VoiceCommandPipeline({
+        ...mockConfig,
+        sttProviders: { default: { type: 'scripted' } },
+        wakeWord: { phrases: ['hey rue'], followUpWindowMs: 60000 },
+      });
+      transcripts = [];
+      pipeline.getSTTProviders().register('scripted', () => ({
+        name: 'scripted',
+        streaming: false,
+        transcribe: async () => ({
+          text: transcripts.shift() ?? '',
+          language: 'en',
+          confidence: 0.9,
+          duration: 100,
+          timestamp: Date.now(),
+        }),
+        shutdown: async () => {},
+      }));
+      await pipeline.initialize();
+
+      ignored = [];
+      pipeline.on('requestIgnored', (_request, reason) => ignored.push(reason));
+    });
+
+    async function say(sessionId: string, text: string, userId?: string) {
+      transcripts.push(text);
+      const requestId = await pipeline.processVoiceCommand(sessionId, [createMockAudioFrame(960, 0)], userId);
+      return pipeline.getRequest(requestId)!;
+    }
+
+    it('TC-054: only utterances starting with the wake phrase reach the agent', async () => {
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1');
+
+      const chatter = await say(sessionId, 'did you see the game last night');
+      const command = await say(sessionId, 'Hey Rue, tell me a joke');
+      const wakeOnly = await say(sessionId, 'Hey Rue.', 'user2');
+
+      expect(chatter.status).toBe('ignored');
+      expect(chatter.agentResponse).toBeUndefined();
+      expect(command.status).toBe('completed');
+      expect(command.agentResponse).toBe('I understand you said: tell me a joke');
+      expect(wakeOnly.status).toBe('ignored');
+      expect(ignored).toEqual(['no-wake-phrase', 'wake-phrase-only']);
+    });
+
+    it('TC-055: follow-ups from the same speaker skip the wake phrase', async () => {
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1');
+
+      await say(sessionId, 'hey rue hello', 'alice');
+      const followUp = await say(sessionId, 'what about tomorrow', 'alice');
+      const otherSpeaker = await say(sessionId, 'what about tomorrow', 'bob');
+
+      expect(followUp.status).toBe('completed');
+      expect(followUp.wakeWord).toMatchObject({ accepted: true, followUp: true });
+      expect(otherSpeaker.status).toBe('ignored');
+    });
+
+    it('TC-056: sessions can opt out and text commands are never gated', async () => {
+      const openSession = await pipeline.startSession('user1', 'guild1', 'channel1', undefined, { wakeWord: null });
+      const gatedSession = await pipeline.startSession('user2', 'guild2', 'channel2');
+
+      const open = await say(openSession, 'tell me a joke');
+      const textRequest = pipeline.getRequest(await pipeline.processTextCommand(gatedSession, 'tell me a joke'))!;
+
+      expect(open.status).toBe('completed');
+      expect(open.wakeWord).toBeUndefined();
+      expect(textRequest.status).toBe('completed');
+      expect(ignored).toEqual([]);
+    });
+  });
+
+  // ============================================
+  // Section 12: Push-to-Talk (3 tests)
+  // ============================================
+
+  describe('Push-to-Talk', () => {
+    async function speak(sessionId: string, userId: string, speechFrames: number, silenceFrames = 12) {
+      for (let sequence = 0; sequence < speechFrames + silenceFrames; sequence++) {
+        await pipeline.handleAudioFrame(
+          sessionId,
+          createLiveFrame(sequence < speechFrames ? 0.9 : 0, sequence),
+          userId,
+        );
+      }
+    }
+
+    it('TC-057: only processes speech captured after a press', async () => {
+      const sessionId = await pipeline.startSession('owner', 'guild1', 'channel1', undefined, {
+        inputMode: 'push-to-talk',
+      });
+      const completed: VoiceRequest[] = [];
+      const ended: string[] = [];
+      pipeline.on('requestCompleted', (request) => completed.push(request));
+      pipeline.on('captureEnded', (_session, userId, reason) => ended.push(`${userId}:${reason}`));
+
+      await speak(sessionId, 'alice', 10);
+      expect(pipeline.getSession(sessionId)!.metrics.totalRequests).toBe(0);
+
+      expect(pipeline.startCapture(sessionId, 'alice')).toBe(true);
+      expect(pipeline.startCapture(sessionId, 'alice')).toBe(false);
+      await speak(sessionId, 'bob', 10);
+      await speak(sessionId, 'alice', 10);
+
+      await vi.waitFor(() => expect(completed).toHaveLength(1));
+      expect(completed[0].userId).toBe('alice');
+      expect(ended).toEqual(['alice:utterance']);
+      expect(pipeline.isCapturing(sessionId, 'alice')).toBe(false);
+    });
+
+    it('TC-058: a second press stops the capture and processes what was said', async () => {
+      const sessionId = await pipeline.startSession('owner', 'guild1', 'channel1', undefined, {
+        inputMode: 'push-to-talk',
+      });
+      const completed: VoiceRequest[] = [];
+      const ended: string[] = [];
+      pipeline.on('requestCompleted', (request) => completed.push(request));
+      pipeline.on('captureEnded', (_session, _userId, reason) => ended.push(reason));
+
+      expect(await pipeline.toggleCapture(sessionId, 'alice')).toBe(true);
+      await speak(sessionId, 'alice', 10, 0);
+      expect(await pipeline.toggleCapture(sessionId, 'alice')).toBe(false);
+
+      await vi.waitFor(() => expect(completed).toHaveLength(1));
+      expect(ended).toEqual(['stopped']);
+
+      // Pressing and releasing without speaking processes nothing
+      await pipeline.toggleCapture(sessionId, 'alice');
+      expect(await pipeline.stopCapture(sessionId, 'alice')).toBe(true);
+      expect(await pipeline.stopCapture(sessionId, 'alice')).toBe(false);
+      expect(ended).toEqual(['stopped', 'stopped']);
+      expect(completed).toHaveLength(1);
+    });
+
+    it('TC-059: switches input modes on a live session', async () => {
+      const sessionId = await pipeline.startSession('owner', 'guild1', 'channel1');
+      const ended: string[] = [];
+      pipeline.on('captureEnded', (_session, _userId, reason) => ended.push(reason));
+
+      expect(() => pipeline.startCapture(sessionId, 'alice')).toThrow(/not in push-to-talk mode/);
+
+      pipeline.setInputMode(sessionId, 'push-to-talk');
+      pipeline.startCapture(sessionId, 'alice');
+      expect(pipeline.getSession(sessionId)!.inputMode).toBe('push-to-talk');
+
+      pipeline.setInputMode(sessionId, 'continuous');
+      expect(ended).toEqual(['cancelled']);
+      expect(pipeline.isCapturing(sessionId, 'alice')).toBe(false);
+    });
+  });
+
+  // ============================================
+  // Section 13: Conversation History (2 tests)
+  // ============================================
+
+  describe('Conversation History', () => {
+    it('TC-061: keeps history per channel across sessions', async () => {
+      const first = await pipeline.startSession('user1', 'guild1', 'channel1');
+      const other = await pipeline.startSession('user2', 'guild1', 'channel2');
+
+      await pipeline.processTextCommand(first, 'hello');
+      await pipeline.processTextCommand(other, 'tell me a joke');
+      await pipeline.endSession(first);
+      const second = await pipeline.startSession('user1', 'guild1', 'channel1');
+      await pipeline.processTextCommand(second, 'what can you do');
+
+      const turns = pipeline.getConversationHistory('guild1', 'channel1');
+      expect(turns.map((turn) => turn.text)).toEqual([
+        'hello',
+        'Hello! How can I help you today?',
+        'what can you do',
+        'I understand you said: what can you do',
+      ]);
+      expect(pipeline.getConversationHistory('guild1', 'channel2')).toHaveLength(2);
+    });
+
+    it('TC-062: clears a channel history and applies the configured limits', async () => {
+      await pipeline.shutdown();
+      pipeline = new VoiceCommandPipeline({ ...mockConfig, conversationHistory: { maxTurns: 2 } });
+      await pipeline.initialize();
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1');
+
+      await pipeline.processTextCommand(sessionId, 'first question');
+      await pipeline.processTextCommand(sessionId, 'second question');
+      expect(pipeline.getConversationHistory('guild1', 'channel1')[0].text).toBe('second question');
+
+      expect(pipeline.clearConversationHistory('guild1', 'channel1')).toBe(2);
+      expect(pipeline.getConversationHistory('guild1', 'channel1')).toEqual([]);
+    });
+  });
+
+  // ============================================
+  // Section 14: Agent Clients (3 tests)
+  // ============================================
+
+  describe('Agent Clients', () => {
+    it('TC-065: guild override selects its own agent client', async () => {
+      await pipeline.shutdown();
+      const requests: AgentRequest[] = [];
+      pipeline = new VoiceCommandPipeline({
+        ...mockConfig,
+        agentClients: {
+          default: { type: 'mock' },
+          guilds: {
+            guild2: {
+              type: 'function',
+              handler: (request: AgentRequest) => {
+                requests.push(request);
+                return { text: 'Leaving now.', actions: [{ type: 'leave-channel' }] };
+              },
+            },
+          },
+        },
+      });
+      await pipeline.initialize();
+
+      const defaultSession = await pipeline.startSession('user1', 'guild1', 'channel1');
+      const overrideSession = await pipeline.startSession('user2', 'guild2', 'channel9');
+      const defaultRequest = await pipeline.processTextCommand(defaultSession, 'hello');
+      const overrideRequest = pipeline.getRequest(await pipeline.processTextCommand(overrideSession, 'please go'))!;
+
+      expect(pipeline.getRequest(defaultRequest)?.agentResponse).toBe('Hello! How can I help you today?');
+      expect(overrideRequest.agentResponse).toBe('Leaving now.');
+      expect(overrideRequest.actions).toEqual([{ type: 'leave-channel' }]);
+      expect(requests).toHaveLength(1);
+      expect(requests[0]).toMatchObject({
+        text: 'please go',
+        guildId: 'guild2',
+        channelId: 'channel9',
+        userId: 'user2',
+      });
+    });
+
+    it('TC-066: custom client types can be registered and empty replies fail the agent stage', async () => {
+      await pipeline.shutdown();
+      pipeline = new VoiceCommandPipeline({ ...mockConfig, agentClients: { default: { type: 'silent' } } });
+      pipeline.getAgentClients().register('silent', () => ({
+        name: 'silent',
+        send: async () => ({ text: '   ' }),
+        shutdown: async () => {},
+      }));
+      await pipeline.initialize();
+
+      const errors: PipelineError[] = [];
+      pipeline.on('requestError', (_request, error) => errors.push(error));
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1');
+
+      // Agent failures are answered with the fallback reply rather than rejected
+      await pipeline.processTextCommand(sessionId, 'anyone there?');
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0].code).toBe(PipelineErrorCode.AGENT_REQUEST_FAILED);
+      expect(errors[0].message).toContain('silent agent returned an empty reply');
+    });
+
+    it('TC-075: cancelling a request aborts its agent call', async () => {
+      await pipeline.shutdown();
+      let signal: AbortSignal | undefined;
+      pipeline = new VoiceCommandPipeline({
+        ...mockConfig,
+        agentClients: {
+          default: {
+            type: 'function',
+            handler: (_request: AgentRequest, options: AgentClientOptions) =>
+              new Promise((_resolve, reject) => {
+                signal = options.signal;
+                signal?.addEventListener('abort', () => reject(new Error('Agent request cancelled')));
+              }),
+          },
+        },
+      });
+      await pipeline.initialize();
+
+      const errors: PipelineError[] = [];
+      pipeline.on('requestError', (_request, error) => errors.push(error));
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1');
+
+      const pending = pipeline.processTextCommand(sessionId, 'tell me a long story');
+      await vi.waitFor(() => expect(signal).toBeDefined());
+      const request = pipeline.getSession(sessionId)!.currentRequest!;
+      await pipeline.cancelRequest(request.requestId, 'barge-in');
+      await pending;
+
+      expect(signal!.aborted).toBe(true);
+      expect(request.error?.code).toBe(PipelineErrorCode.PIPELINE_CANCELLED);
+      expect(errors).toHaveLength(0);
+    });
+  });
+
+  // ============================================
+  // Section 15: Personas (2 tests)
+  // ============================================
+
+  describe('Personas', () => {
+    let requests: AgentRequest[];
+
+    beforeEach(async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      await pipeline.shutdown();
+      requests = [];
+      pipeline = new VoiceCommandPipeline({
+        ...mockConfig,
+        agentClients: {
+          default: {
+            type: 'function',
+            handler: (request: AgentRequest) => {
+              requests.push(request);
+              return 'Ahoy there.';
+            },
+          },
+        },
+      });
+      await pipeline.initialize();
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("TC-067: speaks with the session persona's voice and sends its prompt and language", async () => {
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1', undefined, {
+        persona: { voiceId: 'onyx', speakingRate: 1.2, systemPrompt: 'You are a pirate.', language: 'de' },
+      });
+
+      const request = pipeline.getRequest(await pipeline.processTextCommand(sessionId, 'hello'))!;
+
+      expect(request.ttsResponse?.voiceId).toBe('onyx');
+      expect(requests[0]).toMatchObject({ systemPrompt: 'You are a pirate.', language: 'de' });
+    });
+
+    it('TC-068: persona changes apply to the next reply and voice actions take precedence', async () => {
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1');
+      const first = pipeline.getRequest(await pipeline.processTextCommand(sessionId, 'hello'))!;
+      expect(first.ttsResponse?.voiceId).toBe('nova');
+
+      pipeline.setPersona(sessionId, { voiceId: 'onyx', stability: 0.2 });
+      const second = pipeline.getRequest(await pipeline.processTextCommand(sessionId, 'hello again'))!;
+      expect(second.ttsResponse?.voiceId).toBe('onyx');
+      expect(second.ttsResponse?.stability).toBe(0.2);
+
+      pipeline.setVoice(sessionId, 'shimmer');
+      const third = pipeline.getRequest(await pipeline.processTextCommand(sessionId, 'and again'))!;
+      expect(third.ttsResponse?.voiceId).toBe('shimmer');
+      expect(requests[2].systemPrompt).toBeUndefined();
+    });
+  });
+
+  // ============================================
+  // Section 16: User Preferences (2 tests)
+  // ============================================
+
+  describe('User Preferences', () => {
+    let hints: (string | undefined)[];
+    let agentLanguages: (string | undefined)[];
+
+    beforeEach(async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      await pipeline.shutdown();
+      pipeline = new VoiceCommandPipeline({
+        ...mockConfig,
+        sttConfig: { ...mockConfig.sttConfig, language: 'auto' },
+        sttProviders: { default: { type: 'detecting' } },
+        agentClients: {
+          default: {
+            type: 'function',
+            handler: (request: AgentRequest) => {
+              agentLanguages.push(request.language);
+              return 'Bien sûr.';
+            },
+          },
+        },
+        languageVoices: { es: 'lucia' },
+      });
+      hints = [];
+      agentLanguages = [];
+      // Reports the hinted language, or "detects" Spanish without one
+      pipeline.getSTTProviders().register('detecting', () => ({
+        name: 'detecting',
+        streaming: false,
+        transcribe: async (_pcm, options) => {
+          hints.push(options.language);
+          return { text: 'hola', language: options.language ?? 'es', confidence: 0.9, duration: 100, timestamp: 0 };
+        },
+        shutdown: async () => {},
+      }));
+      await pipeline.initialize();
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("TC-069: transcribes and replies in the speaker's preferred language and voice", async () => {
+      pipeline.setUserPreferences('user2', { language: 'fr', voiceId: 'amelie' });
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1');
+
+      const request = pipeline.getRequest(
+        await pipeline.processVoiceCommand(sessionId, [createMockAudioFrame(960, 0)], 'user2'),
+      )!;
+
+      expect(hints).toEqual(['fr']);
+      expect(request.language).toBe('fr');
+      expect(agentLanguages).toEqual(['fr']);
+      expect(request.ttsResponse?.voiceId).toBe('amelie');
+    });
+
+    it('TC-070: falls back to the detected language and its configured voice', async () => {
+      pipeline.setUserPreferences('user2', { language: 'fr' });
+      pipeline.setUserPreferences('user2', undefined);
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1');
+
+      const request = pipeline.getRequest(
+        await pipeline.processVoiceCommand(sessionId, [createMockAudioFrame(960, 0)], 'user2'),
+      )!;
+
+      expect(pipeline.getUserPreferences('user2')).toBeUndefined();
+      expect(hints).toEqual([undefined]);
+      expect(request.language).toBe('es');
+      expect(agentLanguages).toEqual(['es']);
+      expect(request.ttsResponse?.voiceId).toBe('lucia');
+    });
+  });
+
+  // ============================================
+  // Section 17: Transcript Store (1 test)
+  // ============================================
+
+  describe('Transcript Store', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = mkdtempSync(join(tmpdir(), 'pipeline-transcripts-'));
+      await pipeline.shutdown();
+      pipeline = new VoiceCommandPipeline({ ...mockConfig, transcriptStore: { directory } });
+      await pipeline.initialize();
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('TC-071: keeps finished requests and sessions after the pipeline forgets them', async () => {
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1');
+      await pipeline.processTextCommand(sessionId, 'hello there');
+      await pipeline.endSession(sessionId, 'user');
+
+      const records = await pipeline.getTranscriptStore()!.getRecords('guild1');
+
+      expect(records).toHaveLength(2);
+      expect(records[0]).toMatchObject({
+        kind: 'request',
+        sessionId,
+        channelId: 'channel1',
+        userId: 'user1',
+        status: 'completed',
+        input: 'hello there',
+        response: 'Hello! How can I help you today?',
+      });
+      expect(records[1]).toMatchObject({ kind: 'session', sessionId, endReason: 'user', totalRequests: 1 });
+    });
+  });
+
+  // ============================================
+  // Section 18: Metrics (2 tests)
+  // ============================================
+
+  describe('Metrics', () => {
+    it('TC-072: feeds phase latency, errors, sessions and the TTS cache ratio into a registry', async () => {
+      const registry = new MetricsRegistry();
+      instrumentPipeline(pipeline, registry);
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1');
+
+      await pipeline.processVoiceCommand(sessionId, [createMockAudioFrame(960, 0)]);
+      await pipeline.processTextCommand(sessionId, 'hello');
+      await pipeline.processTextCommand(sessionId, 'hello');
+      vi.spyOn(pipeline.getAgentClients().getClient('guild1'), 'send').mockRejectedValueOnce(new Error('down'));
+      await pipeline.processTextCommand(sessionId, 'are you there?');
+
+      const duration = registry.getMetric('pipeline_request_duration_seconds') as Histogram;
+      expect(duration.get({ phase: 'stt' }).count).toBe(1);
+      expect(duration.get({ phase: 'llm' }).count).toBe(3);
+      expect(duration.get({ phase: 'total' }).count).toBe(4);
+
+      const text = registry.format();
+      expect(text).toContain('pipeline_requests_total{status="completed"} 3');
+      expect(text).toContain('pipeline_errors_total{code="AGENT_REQUEST_FAILED"} 1');
+      expect(text).toContain('pipeline_active_sessions{guild_id="guild1"} 1');
+      expect(text).toMatch(/tts_cache_hit_ratio 0\.\d+/);
+
+      await pipeline.endSession(sessionId);
+      expect(registry.format()).not.toContain('guild_id="guild1"');
+    });
+
+    it('TC-076: stops counting a pipeline once its instrumentation is detached', async () => {
+      const registry = new MetricsRegistry();
+      const detach = instrumentPipeline(pipeline, registry);
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1');
+      await pipeline.processTextCommand(sessionId, 'hello');
+
+      detach();
+      await pipeline.processTextCommand(sessionId, 'hello again');
+
+      const text = registry.format();
+      expect(text).toContain('pipeline_requests_total{status="completed"} 1');
+      expect(text).not.toContain('guild_id="guild1"');
+    });
+  });
+
+  // ============================================
+  // Section 19: Tracing (1 test)
+  // ============================================
+
+  describe('Tracing', () => {
+    let collector: http.Server;
+    let spans: any[];
+    let traceparents: (string | undefined)[];
+
+    beforeEach(async () => {
+      spans = [];
+      traceparents = [];
+      collector = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => {
+          body += chunk;
+        });
+        req.on('end', () => {
+          spans.push(...JSON.parse(body).resourceSpans[0].scopeSpans[0].spans);
+          res.writeHead(200);
+          res.end();
+        });
+      });
+      await new Promise<void>((resolve) => {
+        collector.listen(0, '127.0.0.1', resolve);
+      });
+      const { port } = collector.address() as AddressInfo;
+
+      await pipeline.shutdown();
+      pipeline = new VoiceCommandPipeline({
+        ...mockConfig,
+        enableErrorRecovery: false,
+        tracing: { endpoint: `http://127.0.0.1:${port}` },
+        agentClients: {
+          default: {
+            type: 'function',
+            handler: (request: AgentRequest) => {
+              traceparents.push(request.traceparent);
+              if (request.text === 'fail') throw new Error('agent down');
+              return 'Okay.';
+            },
+          },
+        },
+      });
+      await pipeline.initialize();
+    });
+
+    afterEach(async () => {
+      await pipeline.shutdown();
+      collector.closeAllConnections();
+      await new Promise((resolve) => {
+        collector.close(resolve);
+      });
+    });
+
+    it('TC-073: exports a span per stage under one trace and hands the trace context to the agent', async () => {
+      const sessionId = await pipeline.startSession('user1', 'guild1', 'channel1');
+      const requestId = await pipeline.processVoiceCommand(sessionId, [createMockAudioFrame(960, 0)]);
+      await expect(pipeline.processTextCommand(sessionId, 'fail')).rejects.toThrow('agent down');
+      await pipeline.getTracer()!.flush();
+
+      const attributes = (span: any) =>
+        Object.fromEntries(span.attributes.map(({ key, value }: any) => [key, Object.values(value)[0]]));
+      const [voiceRoot, textRoot] = spans.filter((span) => span.name === 'voice.request');
+      expect(attributes(voiceRoot)).toMatchObject({
+        'voice.guild_id': 'guild1',
+        'voice.user_id': 'user1',
+        'voice.request_id': requestId,
+        'voice.status': 'completed',
+        'voice.response_length': 5,
+      });
+      expect(voiceRoot.status.code).toBe(0);
+
+      const stages = spans.filter((span) => span.traceId === voiceRoot.traceId && span !== voiceRoot);
+      expect(stages.map((span) => span.name)).toEqual([
+        'voice.transcribe',
+        'voice.agent',
+        'voice.synthesize',
+        'voice.play',
+      ]);
+      expect(stages.every((span) => span.parentSpanId === voiceRoot.spanId)).toBe(true);
+      const agentSpan = stages[1];
+      expect(traceparents[0]).toBe(`00-${voiceRoot.traceId}-${agentSpan.spanId}-01`);
+
+      expect(textRoot.traceId).not.toBe(voiceRoot.traceId);
+      expect(attributes(textRoot)).toMatchObject({
+        'voice.text_length': 4,
+        'voice.status': 'error',
+        'voice.error_code': 'AGENT_REQUEST_FAILED',
+      });
+      expect(textRoot.status.code).toBe(2);
+    });
+  });
+
   // ============================================
   // Helper Functions
   // ============================================
 
+  function createLiveFrame(amplitude: number, sequence: number): AudioFrame {
+    return {
+      timestamp: Date.now() + sequence * 20,
+      sequenceNumber: sequence,
+      ssrc: 1234,
+      data: new Float32Array(960 * 2).fill(amplitude),
+      sampleCount: 960,
+      duration: 20,
+    };
+  }
+
   function createMockAudioFrame(sampleCount: number, sequence: number): AudioFrame {
     const data = new Float32Array(sampleCount * 2); // Stereo
     for (let i = 0; i < data.length; i++) {
@@ -0,0 +1,241 @@
+/**
+ * VoiceReceiver Tests
+ * SSRC demultiplexing, per-speaker jitter buffering and utterance segmentation
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SpeakerUtterance, VoiceReceiver, VoiceReceiverConfig } from '../src/VoiceReceiver.js';
+import { AudioFrame } from '../src/types.js';
+
+const SPEECH = 0.9;
+const SILENCE = 0;
+
+function createFrame(ssrc: number, sequence: number, amplitude: number): AudioFrame {
+  return {
+    timestamp: sequence * 960,
+    sequenceNumber: sequence,
+    ssrc,
+    data: new Float32Array(960 * 2).fill(amplitude),
+    sampleCount: 960,
+    duration: 20,
+  };
+}
+
+/**
+ * Receiver that keeps even single-frame utterances (endpointing limits are covered separately)
+ */
+function createReceiver(config: VoiceReceiverConfig): VoiceReceiver {
+  return new VoiceReceiver({ ...config, endpointer: { minSpeechMs: 0 } });
+}
+
+/**
+ * Feed a speech burst followed by enough silence for the VAD to end the utterance
+ */
+async function speak(receiver: VoiceReceiver, ssrc: number, firstSequence: number, speechFrames: number) {
+  let sequence = firstSequence;
+  for (let i = 0; i < speechFrames; i++) {
+    await receiver.receiveFrame(createFrame(ssrc, sequence++, SPEECH));
+  }
+  for (let i = 0; i < 12; i++) {
+    await receiver.receiveFrame(createFrame(ssrc, sequence++, SILENCE));
+  }
+  return sequence;
+}
+
+describe('VoiceReceiver', () => {
+  let receiver: VoiceReceiver;
+  let utterances: SpeakerUtterance[];
+
+  beforeEach(() => {
+    receiver = createReceiver({ targetBufferLatency: 0 });
+    utterances = [];
+    receiver.on('utterance', (utterance) => {
+      utterances.push(utterance);
+    });
+  });
+
+  afterEach(() => {
+    receiver.shutdown();
+  });
+
+  describe('SSRC mapping', () => {
+    it('attributes utterances to the user mapped to each SSRC', async () => {
+      await receiver.handleSpeaking({ userId: 'alice', ssrc: 111, speaking: 1 });
+      await receiver.handleSpeaking({ userId: 'bob', ssrc: 222, speaking: 1 });
+
+      await speak(receiver, 111, 0, 5);
+      await speak(receiver, 222, 0, 8);
+
+      expect(utterances.map((u) => [u.userId, u.ssrc])).toEqual([
+        ['alice', 111],
+        ['bob', 222],
+      ]);
+      expect(utterances[0].frames.every((frame) => frame.ssrc === 111)).toBe(true);
+      expect(utterances[1].frames.length).toBeGreaterThanOrEqual(8);
+      expect(receiver.getUserId(222)).toBe('bob');
+      expect(receiver.getSSRC('alice')).toBe(111);
+    });
+
+    it('keeps VAD state separate for overlapping speakers', async () => {
+      await receiver.handleSpeaking({ userId: 'alice', ssrc: 111 });
+      await receiver.handleSpeaking({ userId: 'bob', ssrc: 222 });
+
+      // Alice keeps talking while Bob speaks and falls silent
+      let aliceSequence = 0;
+      let bobSequence = 0;
+      for (let i = 0; i < 5; i++) {
+        await receiver.receiveFrame(createFrame(111, aliceSequence++, SPEECH));
+        await receiver.receiveFrame(createFrame(222, bobSequence++, SPEECH));
+      }
+      for (let i = 0; i < 12; i++) {
+        await receiver.receiveFrame(createFrame(111, aliceSequence++, SPEECH));
+        await receiver.receiveFrame(createFrame(222, bobSequence++, SILENCE));
+      }
+
+      expect(utterances.map((u) => u.userId)).toEqual(['bob']);
+      const alice = receiver.getSpeakers().find((speaker) => speaker.userId === 'alice');
+      expect(alice).toMatchObject({ ssrc: 111, speaking: true, framesReceived: 17 });
+    });
+
+    it('holds audio from unmapped SSRCs until the SPEAKING event arrives', async () => {
+      await receiver.receiveFrame(createFrame(333, 0, SPEECH));
+      await receiver.receiveFrame(createFrame(333, 1, SPEECH));
+      expect(receiver.getPendingFrameCount()).toBe(2);
+
+      await receiver.handleSpeaking({ userId: 'carol', ssrc: 333 });
+      await speak(receiver, 333, 2, 1);
+
+      expect(receiver.getPendingFrameCount()).toBe(0);
+      expect(utterances).toHaveLength(1);
+      expect(utterances[0].userId).toBe('carol');
+      expect(utterances[0].frames[0].sequenceNumber).toBe(0);
+    });
+
+    it('bounds the audio held for unmapped SSRCs', async () => {
+      receiver = createReceiver({ targetBufferLatency: 0, maxPendingFrames: 3 });
+
+      for (let i = 0; i < 5; i++) {
+        await receiver.receiveFrame(createFrame(444, i, SPEECH));
+      }
+
+      expect(receiver.getPendingFrameCount()).toBe(3);
+      expect(receiver.getUnmappedFramesDropped()).toBe(2);
+    });
+
+    it('moves a reconnecting user to their new SSRC', async () => {
+      await receiver.handleSpeaking({ userId: 'alice', ssrc: 111 });
+      await receiver.handleSpeaking({ userId: 'alice', ssrc: 555 });
+
+      expect(receiver.getUserId(111)).toBeUndefined();
+      expect(receiver.getUserId(555)).toBe('alice');
+
+      await receiver.receiveFrame(createFrame(111, 0, SPEECH));
+      expect(receiver.getPendingFrameCount()).toBe(1);
+    });
+  });
+
+  describe('Jitter buffering', () => {
+    it('drops late and duplicate packets', async () => {
+      await receiver.handleSpeaking({ userId: 'alice', ssrc: 111 });
+
+      await receiver.receiveFrame(createFrame(111, 65535, SPEECH));
+      await receiver.receiveFrame(createFrame(111, 0, SPEECH)); // Sequence wrap
+      await receiver.receiveFrame(createFrame(111, 0, SPEECH)); // Duplicate
+      await receiver.receiveFrame(createFrame(111, 65534, SPEECH)); // Late
+
+      expect(receiver.getSpeakers()[0]).toMatchObject({ framesReceived: 4, framesDropped: 2 });
+    });
+
+    it('releases buffered frames once the target latency has passed', async () => {
+      receiver = createReceiver({ targetBufferLatency: 30 });
+      const speech: AudioFrame[] = [];
+      receiver.on('speech', (_userId, frame) => {
+        speech.push(frame);
+      });
+      await receiver.handleSpeaking({ userId: 'alice', ssrc: 111 });
+
+      await receiver.receiveFrame(createFrame(111, 0, SPEECH));
+      expect(speech).toHaveLength(0);
+      expect(receiver.getSpeakers()[0].bufferedFrames).toBe(1);
+
+      await vi.waitFor(() => expect(speech).toHaveLength(1));
+      expect(receiver.getSpeakers()[0].bufferedFrames).toBe(0);
+    });
+
+    it('puts out-of-order packets back in sequence order', async () => {
+      receiver = createReceiver({ targetBufferLatency: 30 });
+      const speech: AudioFrame[] = [];
+      receiver.on('speech', (_userId, frame) => {
+        speech.push(frame);
+      });
+      await receiver.handleSpeaking({ userId: 'alice', ssrc: 111 });
+
+      for (const sequence of [1, 3, 2]) {
+        await receiver.receiveFrame(createFrame(111, sequence, SPEECH));
+      }
+
+      await vi.waitFor(() => expect(speech).toHaveLength(3));
+      expect(speech.map((frame) => frame.sequenceNumber)).toEqual([1, 2, 3]);
+      expect(receiver.getSpeakers()[0]).toMatchObject({ framesReceived: 3, framesDropped: 0, bufferedFrames: 0 });
+    });
+
+    it('gives up on a missing packet once the target latency has passed', async () => {
+      receiver = createReceiver({ targetBufferLatency: 30 });
+      const speech: AudioFrame[] = [];
+      receiver.on('speech', (_userId, frame) => {
+        speech.push(frame);
+      });
+      await receiver.handleSpeaking({ userId: 'alice', ssrc: 111 });
+
+      await receiver.receiveFrame(createFrame(111, 65535, SPEECH));
+      await vi.waitFor(() => expect(speech).toHaveLength(1));
+      await receiver.receiveFrame(createFrame(111, 1, SPEECH)); // Sequence 0 is lost
+      expect(speech).toHaveLength(1);
+
+      await vi.waitFor(() => expect(speech).toHaveLength(2));
+      await receiver.receiveFrame(createFrame(111, 2, SPEECH));
+      expect(speech.map((frame) => frame.sequenceNumber)).toEqual([65535, 1, 2]);
+    });
+  });
+
+  describe('Utterance completion', () => {
+    it('completes the utterance when the user stops speaking', async () => {
+      receiver = createReceiver({ targetBufferLatency: 1000 });
+      receiver.on('utterance', (utterance) => {
+        utterances.push(utterance);
+      });
+      await receiver.handleSpeaking({ userId: 'alice', ssrc: 111, speaking: 1 });
+      for (let i = 0; i < 3; i++) {
+        await receiver.receiveFrame(createFrame(111, i, SPEECH));
+      }
+
+      await receiver.handleSpeaking({ userId: 'alice', ssrc: 111, speaking: 0 });
+
+      expect(utterances).toHaveLength(1);
+      expect(utterances[0].frames).toHaveLength(3);
+    });
+
+    it('completes the utterance and forgets the user on disconnect', async () => {
+      await receiver.handleSpeaking({ userId: 'alice', ssrc: 111 });
+      await receiver.receiveFrame(createFrame(111, 0, SPEECH));
+
+      await receiver.handleClientDisconnect('alice');
+
+      expect(utterances.map((u) => u.userId)).toEqual(['alice']);
+      expect(receiver.getSpeakers()).toHaveLength(0);
+      expect(receiver.getUserId(111)).toBeUndefined();
+    });
+
+    it('segments frames pushed directly for a user', async () => {
+      for (let i = 0; i < 3; i++) {
+        await receiver.pushFrame('dave', createFrame(0, i, SPEECH));
+      }
+      for (let i = 3; i < 15; i++) {
+        await receiver.pushFrame('dave', createFrame(0, i, SILENCE));
+      }
+
+      expect(utterances).toHaveLength(1);
+      expect(utterances[0]).toMatchObject({ userId: 'dave', ssrc: undefined });
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * WakeWordGate Tests
+ * Wake phrase matching and the follow-up window
+ */
+
+import { describe, it, expect } from 'vitest';
+import { WakeWordGate, matchWakePhrase } from '../src/WakeWordGate.js';
+
+describe('matchWakePhrase', () => {
+  it('matches regardless of case and punctuation and strips the phrase', () => {
+    expect(matchWakePhrase('Hey, Rue! What time is it?', ['hey rue'])).toEqual({
+      phrase: 'hey rue',
+      remainder: 'What time is it?',
+    });
+  });
+
+  it('skips leading filler words', () => {
+    expect(matchWakePhrase('Um, okay, hey Rue, play some music', ['hey rue'])?.remainder).toBe('play some music');
+  });
+
+  it('only matches at the start of the utterance', () => {
+    expect(matchWakePhrase('I was telling him hey rue is great', ['hey rue'])).toBeNull();
+    expect(matchWakePhrase('Hey Ruth, are you there?', ['hey rue'])).toBeNull();
+  });
+
+  it('accepts transcription variants and prefers the longest phrase', () => {
+    const phrases = ['hey rue', 'hey roo', 'hey rue bot'];
+
+    expect(matchWakePhrase('hey roo turn it up', phrases)).toEqual({ phrase: 'hey roo', remainder: 'turn it up' });
+    expect(matchWakePhrase('Hey Rue bot, hello', phrases)?.phrase).toBe('hey rue bot');
+  });
+
+  it('returns an empty remainder when only the phrase was said', () => {
+    expect(matchWakePhrase('Hey Rue.', ['hey rue'])?.remainder).toBe('');
+  });
+});
+
+describe('WakeWordGate', () => {
+  it('rejects utterances without the wake phrase', () => {
+    const gate = new WakeWordGate({ phrases: ['hey rue'] });
+
+    expect(gate.check('alice', 'what is the weather', 1000)).toEqual({
+      accepted: false,
+      text: 'what is the weather',
+      followUp: false,
+    });
+  });
+
+  it('accepts follow-ups from the same speaker within the window', () => {
+    const gate = new WakeWordGate({ phrases: ['hey rue'], followUpWindowMs: 10000 });
+
+    expect(gate.check('alice', 'hey rue what time is it', 1000)).toMatchObject({ accepted: true, followUp: false });
+    expect(gate.check('alice', 'and tomorrow?', 5000)).toEqual({
+      accepted: true,
+      text: 'and tomorrow?',
+      followUp: true,
+    });
+    expect(gate.check('bob', 'and tomorrow?', 5000).accepted).toBe(false);
+
+    // Each accepted follow-up extends the window
+    expect(gate.check('alice', 'thanks', 14000).accepted).toBe(true);
+    expect(gate.check('alice', 'bye', 24001).accepted).toBe(false);
+  });
+
+  it('restarts the window when the reply finishes', () => {
+    const gate = new WakeWordGate({ phrases: ['hey rue'], followUpWindowMs: 10000 });
+
+    gate.check('alice', 'hey rue tell me a story', 1000);
+    gate.openFollowUpWindow('alice', 30000);
+
+    expect(gate.isInFollowUpWindow('alice', 39000)).toBe(true);
+  });
+
+  it('can disable the follow-up window', () => {
+    const gate = new WakeWordGate({ phrases: ['hey rue'], followUpWindowMs: 0 });
+
+    gate.check('alice', 'hey rue hello', 1000);
+
+    expect(gate.check('alice', 'are you there', 1001).accepted).toBe(false);
+  });
+
+  it('requires a phrase', () => {
+    expect(() => new WakeWordGate({ phrases: [' '] })).toThrow('at least one phrase');
+  });
+});
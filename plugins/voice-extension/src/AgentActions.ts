@@ -0,0 +1,144 @@
+/**
+ * Agent actions contract
+ * Structured actions an agent can return alongside its reply so it can control the bot by voice
+ * ("leave the channel", "turn it down"); actions are validated here and executed by the host plugin
+ */
+
+// ============================================
+// Types and Interfaces
+// ============================================
+
+/**
+ * Every action type the contract supports
+ */
+export const AGENT_ACTION_TYPES = [
+  'leave-channel',
+  'change-voice',
+  'set-volume',
+  'play-sound',
+  'post-message',
+] as const;
+
+export type AgentActionType = (typeof AGENT_ACTION_TYPES)[number];
+
+/**
+ * A validated agent action
+ */
+export type AgentAction =
+  | { type: 'leave-channel' }
+  | { type: 'change-voice'; voiceId: string } // TTS voice for the rest of the session
+  | { type: 'set-volume'; volume: number } // Playback gain, 0-2 (1 = normal)
+  | { type: 'play-sound'; clip: string } // Sound clip ID known to the host
+  | { type: 'post-message'; content: string }; // Text message in the voice channel's chat
+
+/**
+ * An action that failed validation
+ */
+export interface RejectedAgentAction {
+  action: unknown;
+  reason: string;
+}
+
+// Limits on what a single reply can ask for
+export const MAX_ACTIONS_PER_RESPONSE = 5;
+export const MAX_ACTION_MESSAGE_LENGTH = 2000; // Discord message limit
+export const MAX_ACTION_VOLUME = 2;
+
+// Voice and clip IDs are looked up by the host, never used as paths or URLs
+const ID_PATTERN = /^[\w-]{1,64}$/;
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Validate one raw action from an agent reply
+ * Returns the action, or the reason it was rejected
+ */
+export function validateAgentAction(raw: unknown): { action: AgentAction } | { reason: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { reason: 'Action must be an object' };
+  }
+
+  const data = raw as Record<string, unknown>;
+
+  switch (data.type) {
+    case 'leave-channel':
+      return { action: { type: 'leave-channel' } };
+
+    case 'change-voice':
+      if (typeof data.voiceId !== 'string' || !ID_PATTERN.test(data.voiceId)) {
+        return { reason: 'change-voice needs a voiceId of letters, digits, "_" or "-"' };
+      }
+      return { action: { type: 'change-voice', voiceId: data.voiceId } };
+
+    case 'set-volume':
+      if (typeof data.volume !== 'number' || !Number.isFinite(data.volume)) {
+        return { reason: 'set-volume needs a numeric volume' };
+      }
+      if (data.volume < 0 || data.volume > MAX_ACTION_VOLUME) {
+        return { reason: `set-volume volume must be between 0 and ${MAX_ACTION_VOLUME}` };
+      }
+      return { action: { type: 'set-volume', volume: data.volume } };
+
+    case 'play-sound':
+      if (typeof data.clip !== 'string' || !ID_PATTERN.test(data.clip)) {
+        return { reason: 'play-sound needs a clip ID of letters, digits, "_" or "-"' };
+      }
+      return { action: { type: 'play-sound', clip: data.clip } };
+
+    case 'post-message': {
+      const content = typeof data.content === 'string' ? data.content.trim() : '';
+      if (content.length === 0) {
+        return { reason: 'post-message needs non-empty content' };
+      }
+      if (content.length > MAX_ACTION_MESSAGE_LENGTH) {
+        return { reason: `post-message content is longer than ${MAX_ACTION_MESSAGE_LENGTH} characters` };
+      }
+      return { action: { type: 'post-message', content } };
+    }
+
+    default:
+      return { reason: `Unknown action type: ${String(data.type)}` };
+  }
+}
+
+/**
+ * Validate the actions field of an agent reply
+ * Invalid actions are rejected individually; a missing field means no actions
+ */
+export function parseAgentActions(raw: unknown): { actions: AgentAction[]; rejected: RejectedAgentAction[] } {
+  const actions: AgentAction[] = [];
+  const rejected: RejectedAgentAction[] = [];
+
+  if (raw === undefined || raw === null) {
+    return { actions, rejected };
+  }
+
+  if (!Array.isArray(raw)) {
+    rejected.push({ action: raw, reason: 'actions must be an array' });
+    return { actions, rejected };
+  }
+
+  for (const item of raw) {
+    if (actions.length >= MAX_ACTIONS_PER_RESPONSE) {
+      rejected.push({ action: item, reason: `More than ${MAX_ACTIONS_PER_RESPONSE} actions in one reply` });
+    } else {
+      const result = validateAgentAction(item);
+      if ('action' in result) {
+        actions.push(result.action);
+      } else {
+        rejected.push({ action: item, reason: result.reason });
+      }
+    }
+  }
+
+  return { actions, rejected };
+}
+
+/**
+ * Check whether a string is a supported action type
+ */
+export function isAgentActionType(value: string): value is AgentActionType {
+  return (AGENT_ACTION_TYPES as readonly string[]).includes(value);
+}
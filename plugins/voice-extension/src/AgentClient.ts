@@ -0,0 +1,523 @@
+/**
+ * Pluggable agent backends
+ * An agent client turns a transcript (plus the channel's recent history) into a reply; a registry maps
+ * client types to factories and picks a client per guild from config
+ */
+
+import { AgentStreamFormat, detectStreamFormat, parseAgentStream } from './AgentStream.js';
+import { ConversationTurn } from './ConversationHistory.js';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * What the agent is asked
+ */
+export interface AgentRequest {
+  text: string; // The speaker's transcript
+  sessionId: string;
+  guildId: string;
+  channelId: string;
+  userId: string;
+  history: ConversationTurn[]; // Earlier turns in the channel, oldest first
+  systemPrompt?: string; // Persona instructions for the guild
+  language?: string; // ISO-639-1 code the reply should be in
+  traceparent?: string; // W3C trace context, forwarded by HTTP clients when tracing is on
+}
+
+/**
+ * Per-request options
+ */
+export interface AgentClientOptions {
+  onDelta?: (delta: string) => void; // Text as it arrives (streaming clients only)
+  signal?: AbortSignal; // Aborted when the request is cancelled (e.g. barge-in); HTTP clients abort the fetch
+}
+
+/**
+ * The agent's reply, before the pipeline validates its actions
+ */
+export interface AgentReply {
+  text: string;
+  confidence?: number;
+  metadata?: Record<string, any>;
+  actions?: unknown; // Raw agent actions, validated by the pipeline
+}
+
+/**
+ * Agent backend
+ */
+export interface AgentClient {
+  readonly name: string;
+  send(request: AgentRequest, options: AgentClientOptions): Promise<AgentReply>;
+  shutdown(): Promise<void>;
+}
+
+/**
+ * Client configuration; `type` selects the registered factory
+ */
+export interface AgentClientConfig {
+  type: string;
+  [option: string]: unknown;
+}
+
+/**
+ * Generic JSON endpoint: POST {text, sessionId, userId, history}, reply {text, actions?} or an SSE/NDJSON stream
+ */
+export interface HTTPAgentClientConfig extends AgentClientConfig {
+  type: 'http';
+  endpoint: string;
+  apiKey?: string; // Sent as 'Bearer <key>'
+  timeoutMs?: number; // Default: 30000
+  streaming?: boolean; // Default: true (ask for an SSE/NDJSON stream)
+}
+
+/**
+ * OpenAI-compatible chat completions endpoint (OpenAI, Azure proxies, vLLM, Ollama, ...)
+ */
+export interface OpenAIChatAgentClientConfig extends AgentClientConfig {
+  type: 'openai-chat';
+  model: string;
+  apiKey?: string; // Local servers usually don't need one
+  baseUrl?: string; // Default: https://api.openai.com
+  systemPrompt?: string; // Used when the request has no persona prompt
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number; // Default: 30000
+  streaming?: boolean; // Default: true
+}
+
+/**
+ * In-process handler; a plain string reply is treated as { text }
+ */
+export type AgentHandler = (
+  request: AgentRequest,
+  options: AgentClientOptions,
+) => AgentReply | string | Promise<AgentReply | string>;
+
+export interface FunctionAgentClientConfig extends AgentClientConfig {
+  type: 'function';
+  handler: AgentHandler;
+  name?: string; // Shown in reply metadata, default 'function'
+}
+
+/**
+ * Client selection: a default plus optional per-guild overrides
+ */
+export interface AgentClientSettings {
+  default: AgentClientConfig;
+  guilds?: Record<string, AgentClientConfig>; // guildId -> client config
+}
+
+export type AgentClientFactory = (config: AgentClientConfig) => AgentClient;
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * POST a JSON body and read the reply, failing on timeouts, cancellation and non-2xx responses
+ * The timeout bounds the wait for the response headers and then for each chunk of the body,
+ * so a reply that stalls part-way fails like one that never starts
+ */
+async function postJSON<T>(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+  readReply: (response: Response) => Promise<T>,
+): Promise<T> {
+  const controller = new AbortController();
+  let timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const restartTimeout = () => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  };
+  const cancel = () => controller.abort();
+  signal?.addEventListener('abort', cancel);
+  if (signal?.aborted) {
+    controller.abort();
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Agent API error: ${response.status} ${response.statusText}`);
+    }
+
+    // Every body chunk restarts the timeout; the reply is read while the controller can still abort it
+    const watched = response.body?.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, stream) {
+          restartTimeout();
+          stream.enqueue(chunk);
+        },
+      }),
+    );
+    return await readReply(
+      new Response(watched ?? null, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      }),
+    );
+  } catch (error: any) {
+    if (signal?.aborted) {
+      throw new Error('Agent request cancelled');
+    }
+    if (controller.signal.aborted) {
+      throw new Error(`Agent request timeout after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', cancel);
+  }
+}
+
+/**
+ * Read a streamed reply, forwarding text deltas as they arrive
+ */
+async function readReplyStream(
+  body: ReadableStream<Uint8Array>,
+  format: AgentStreamFormat,
+  options: AgentClientOptions,
+): Promise<AgentReply> {
+  let text = '';
+  let confidence: number | undefined;
+  let metadata: Record<string, any> = {};
+  let actions: unknown[] | undefined;
+
+  for await (const chunk of parseAgentStream(body, format)) {
+    if (chunk.text) {
+      text += chunk.text;
+      options.onDelta?.(chunk.text);
+    }
+    if (chunk.confidence !== undefined) {
+      confidence = chunk.confidence;
+    }
+    if (chunk.metadata) {
+      metadata = { ...metadata, ...chunk.metadata };
+    }
+    if (chunk.actions !== undefined) {
+      actions = [...(actions ?? []), ...(Array.isArray(chunk.actions) ? chunk.actions : [chunk.actions])];
+    }
+  }
+
+  if (text.trim().length === 0) {
+    throw new Error('Agent stream ended without a response');
+  }
+
+  return { text, confidence, actions, metadata: { streamed: true, ...metadata } };
+}
+
+// ============================================
+// HTTP Clients
+// ============================================
+
+/**
+ * Generic JSON agent endpoint
+ */
+export class HTTPAgentClient implements AgentClient {
+  readonly name = 'http';
+
+  private config: HTTPAgentClientConfig;
+
+  constructor(config: HTTPAgentClientConfig) {
+    if (!config.endpoint) {
+      throw new Error('HTTP agent client requires an endpoint');
+    }
+
+    this.config = {
+      ...config,
+      timeoutMs: config.timeoutMs ?? 30000,
+      streaming: config.streaming ?? true,
+    };
+  }
+
+  async send(request: AgentRequest, options: AgentClientOptions): Promise<AgentReply> {
+    return postJSON(
+      this.config.endpoint,
+      {
+        Accept: this.config.streaming
+          ? 'text/event-stream, application/x-ndjson, application/json'
+          : 'application/json',
+        ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+        ...(request.traceparent ? { traceparent: request.traceparent } : {}),
+      },
+      {
+        text: request.text,
+        sessionId: request.sessionId,
+        userId: request.userId,
+        history: request.history.map(({ role, text, userId }) => ({ role, text, userId })),
+        systemPrompt: request.systemPrompt,
+        language: request.language,
+        ...(this.config.streaming ? { stream: true } : {}),
+      },
+      this.config.timeoutMs!,
+      options.signal,
+      async (response) => {
+        const streamFormat = detectStreamFormat(response.headers.get('content-type'));
+        if (streamFormat && response.body) {
+          return readReplyStream(response.body, streamFormat, options);
+        }
+
+        const data = (await response.json()) as Record<string, unknown>;
+        return {
+          text: (data.text || data.response || request.text) as string,
+          actions: data.actions,
+          confidence: data.confidence as number | undefined,
+          metadata: data.metadata as Record<string, any> | undefined,
+        };
+      },
+    );
+  }
+
+  async shutdown(): Promise<void> {
+    // Stateless; nothing to release
+  }
+}
+
+/**
+ * OpenAI-compatible chat completions endpoint
+ * Replies are text only; agents that return actions need the http or function client
+ */
+export class OpenAIChatAgentClient implements AgentClient {
+  readonly name = 'openai-chat';
+
+  private config: OpenAIChatAgentClientConfig;
+
+  constructor(config: OpenAIChatAgentClientConfig) {
+    if (!config.model) {
+      throw new Error('OpenAI chat agent client requires a model');
+    }
+
+    this.config = {
+      ...config,
+      baseUrl: (config.baseUrl ?? 'https://api.openai.com').replace(/\/+$/, ''),
+      timeoutMs: config.timeoutMs ?? 30000,
+      streaming: config.streaming ?? true,
+    };
+  }
+
+  async send(request: AgentRequest, options: AgentClientOptions): Promise<AgentReply> {
+    return postJSON(
+      `${this.config.baseUrl}/v1/chat/completions`,
+      {
+        ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+        ...(request.traceparent ? { traceparent: request.traceparent } : {}),
+      },
+      {
+        model: this.config.model,
+        messages: this.buildMessages(request),
+        ...(this.config.temperature !== undefined ? { temperature: this.config.temperature } : {}),
+        ...(this.config.maxTokens !== undefined ? { max_tokens: this.config.maxTokens } : {}),
+        ...(this.config.streaming ? { stream: true } : {}),
+      },
+      this.config.timeoutMs!,
+      options.signal,
+      async (response) => {
+        const streamFormat = detectStreamFormat(response.headers.get('content-type'));
+        if (streamFormat && response.body) {
+          return readReplyStream(response.body, streamFormat, options);
+        }
+
+        const data = (await response.json()) as any;
+        const text = data.choices?.[0]?.message?.content;
+        if (typeof text !== 'string' || text.trim().length === 0) {
+          throw new Error('Chat completion has no message content');
+        }
+
+        return {
+          text,
+          metadata: { model: data.model, finishReason: data.choices[0].finish_reason },
+        };
+      },
+    );
+  }
+
+  async shutdown(): Promise<void> {
+    // Stateless; nothing to release
+  }
+
+  /**
+   * System prompt (with the reply language), then the history, then the new transcript
+   * User turns carry the speaker so the model can tell people apart in a shared channel
+   */
+  private buildMessages(request: AgentRequest): Record<string, string>[] {
+    const messages: Record<string, string>[] = [];
+    const systemPrompt = [
+      request.systemPrompt ?? this.config.systemPrompt,
+      request.language ? `Reply in the language with ISO-639-1 code "${request.language}".` : undefined,
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+
+    if (systemPrompt) {
+      messages.push({ role: 'system', content: systemPrompt });
+    }
+    for (const turn of request.history) {
+      messages.push(
+        turn.role === 'user' && turn.userId
+          ? { role: 'user', content: turn.text, name: turn.userId }
+          : { role: turn.role, content: turn.text },
+      );
+    }
+    messages.push({ role: 'user', content: request.text, name: request.userId });
+
+    return messages;
+  }
+}
+
+// ============================================
+// In-Process Clients
+// ============================================
+
+/**
+ * Calls a function in the same process (embedded agents, tests)
+ */
+export class FunctionAgentClient implements AgentClient {
+  readonly name: string;
+
+  private handler: AgentHandler;
+
+  constructor(config: FunctionAgentClientConfig) {
+    if (typeof config.handler !== 'function') {
+      throw new Error('Function agent client requires a handler');
+    }
+
+    this.name = config.name ?? 'function';
+    this.handler = config.handler;
+  }
+
+  async send(request: AgentRequest, options: AgentClientOptions): Promise<AgentReply> {
+    const reply = await this.handler(request, options);
+    return typeof reply === 'string' ? { text: reply } : reply;
+  }
+
+  async shutdown(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+/**
+ * Canned replies for development without an agent
+ */
+export class MockAgentClient implements AgentClient {
+  readonly name = 'mock';
+
+  async send(request: AgentRequest): Promise<AgentReply> {
+    // Simulate agent processing time
+    await new Promise((resolve) => setTimeout(resolve, 100 + Math.random() * 200));
+
+    const text = request.text.toLowerCase();
+    let reply = `I understand you said: ${request.text}`;
+
+    if (text.includes('hello')) {
+      reply = 'Hello! How can I help you today?';
+    } else if (text.includes('time')) {
+      reply = `The current time is ${new Date().toLocaleTimeString()}`;
+    } else if (text.includes('weather')) {
+      reply = "I'm sorry, I don't have access to weather information right now.";
+    }
+
+    return { text: reply, confidence: 0.95 };
+  }
+
+  async shutdown(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+// ============================================
+// Registry
+// ============================================
+
+// Cache key for the client used by guilds without an override
+const DEFAULT_CLIENT_KEY = '*';
+
+/**
+ * Client registry with per-guild selection
+ * Built-in types: 'http', 'openai-chat', 'function', 'mock'
+ */
+export class AgentClientRegistry {
+  private factories = new Map<string, AgentClientFactory>();
+
+  private settings: AgentClientSettings;
+
+  // Client instances, keyed by guildId (or the default key)
+  private clients = new Map<string, AgentClient>();
+
+  constructor(settings: AgentClientSettings = { default: { type: 'mock' } }) {
+    this.settings = settings;
+
+    this.register('http', (config) => new HTTPAgentClient(config as HTTPAgentClientConfig));
+    this.register('openai-chat', (config) => new OpenAIChatAgentClient(config as OpenAIChatAgentClientConfig));
+    this.register('function', (config) => new FunctionAgentClient(config as FunctionAgentClientConfig));
+    this.register('mock', () => new MockAgentClient());
+  }
+
+  /**
+   * Register (or replace) a client type
+   */
+  register(type: string, factory: AgentClientFactory): void {
+    this.factories.set(type, factory);
+  }
+
+  /**
+   * Get registered client types
+   */
+  getTypes(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Create a client from config
+   */
+  create(config: AgentClientConfig): AgentClient {
+    const factory = this.factories.get(config.type);
+    if (!factory) {
+      throw new Error(`Unknown agent client type: ${config.type}`);
+    }
+    return factory(config);
+  }
+
+  /**
+   * Replace the client selection; existing clients are shut down
+   */
+  async configure(settings: AgentClientSettings): Promise<void> {
+    await this.shutdown();
+    this.settings = settings;
+  }
+
+  /**
+   * Get the client for a guild (the default client when the guild has no override)
+   */
+  getClient(guildId?: string): AgentClient {
+    const override = guildId ? this.settings.guilds?.[guildId] : undefined;
+    const key = override ? guildId! : DEFAULT_CLIENT_KEY;
+
+    let client = this.clients.get(key);
+    if (!client) {
+      client = this.create(override ?? this.settings.default);
+      this.clients.set(key, client);
+    }
+    return client;
+  }
+
+  /**
+   * Shut down all created clients
+   */
+  async shutdown(): Promise<void> {
+    const clients = Array.from(this.clients.values());
+    this.clients.clear();
+    await Promise.all(clients.map((client) => client.shutdown()));
+  }
+}
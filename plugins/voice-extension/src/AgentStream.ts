@@ -0,0 +1,296 @@
+/**
+ * Agent response streaming
+ * Parses streamed agent replies (SSE or NDJSON) and splits them into sentences
+ * so speech synthesis can start before the full answer has been generated
+ */
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Supported streaming wire formats
+ */
+export type AgentStreamFormat = 'sse' | 'ndjson';
+
+/**
+ * A single parsed chunk of a streamed agent reply
+ */
+export interface AgentStreamChunk {
+  text?: string; // Text delta (may be empty for metadata-only chunks)
+  confidence?: number;
+  metadata?: Record<string, any>;
+  actions?: unknown; // Raw agent actions, validated by the pipeline
+  done?: boolean;
+}
+
+/**
+ * Sentence splitter options
+ */
+export interface SentenceSplitterOptions {
+  minLength?: number; // Default: 12 characters (merge very short fragments like "Ok.")
+}
+
+// ============================================
+// Format Detection and Parsing
+// ============================================
+
+/**
+ * Detect a streaming format from a Content-Type header
+ * Returns null for non-streaming (plain JSON) responses
+ */
+export function detectStreamFormat(contentType: string | null): AgentStreamFormat | null {
+  if (!contentType) return null;
+
+  const type = contentType.toLowerCase();
+  if (type.includes('text/event-stream')) return 'sse';
+  if (type.includes('application/x-ndjson') || type.includes('application/jsonl')) return 'ndjson';
+  return null;
+}
+
+/**
+ * Read a byte stream as UTF-8 lines (without line terminators)
+ */
+export async function* readStreamLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        yield buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.length > 0) {
+      yield buffer.replace(/\r$/, '');
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Turn one JSON or plain-text payload into a chunk
+ * Accepts { text }, { delta }, { response } and OpenAI-style { choices[0].delta.content }
+ */
+function parsePayload(payload: string): AgentStreamChunk {
+  let data: any;
+  try {
+    data = JSON.parse(payload);
+  } catch {
+    return { text: payload };
+  }
+
+  if (typeof data === 'string') {
+    return { text: data };
+  }
+
+  if (!data || typeof data !== 'object') {
+    return {};
+  }
+
+  const text = data.text ?? data.delta ?? data.response ?? data.choices?.[0]?.delta?.content;
+
+  return {
+    text: typeof text === 'string' ? text : undefined,
+    confidence: typeof data.confidence === 'number' ? data.confidence : undefined,
+    metadata: data.metadata && typeof data.metadata === 'object' ? data.metadata : undefined,
+    actions: data.actions,
+    done: data.done === true,
+  };
+}
+
+/**
+ * Parse a streamed agent reply into chunks
+ */
+export async function* parseAgentStream(
+  body: ReadableStream<Uint8Array>,
+  format: AgentStreamFormat,
+): AsyncGenerator<AgentStreamChunk> {
+  if (format === 'ndjson') {
+    for await (const line of readStreamLines(body)) {
+      if (line.trim().length > 0) {
+        const chunk = parsePayload(line);
+        yield chunk;
+        if (chunk.done) return;
+      }
+    }
+    return;
+  }
+
+  // SSE: an event is one or more "data:" lines terminated by a blank line
+  let dataLines: string[] = [];
+
+  for await (const line of readStreamLines(body)) {
+    if (line.length === 0) {
+      if (dataLines.length > 0) {
+        const payload = dataLines.join('\n');
+        dataLines = [];
+
+        if (payload.trim() === '[DONE]') return;
+
+        const chunk = parsePayload(payload);
+        yield chunk;
+        if (chunk.done) return;
+      }
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+    // Other SSE fields (event:, id:, retry:, comments) are ignored
+  }
+
+  if (dataLines.length > 0) {
+    const payload = dataLines.join('\n');
+    if (payload.trim() !== '[DONE]') {
+      yield parsePayload(payload);
+    }
+  }
+}
+
+// ============================================
+// Sentence Splitting
+// ============================================
+
+/**
+ * Incremental sentence splitter
+ * Buffers text deltas and releases complete sentences as soon as they end
+ */
+export class SentenceSplitter {
+  private buffer: string = '';
+
+  private minLength: number;
+
+  constructor(options: SentenceSplitterOptions = {}) {
+    this.minLength = options.minLength ?? 12;
+  }
+
+  /**
+   * Add a text delta and return any sentences completed by it
+   */
+  push(text: string): string[] {
+    this.buffer += text;
+
+    const sentences: string[] = [];
+    // Sentence end: terminal punctuation (optionally followed by closing quotes/brackets) then whitespace,
+    // or a line break
+    const boundary = /[.!?…]+["')\]]*\s+|\n+/g;
+    let start = 0;
+    let match = boundary.exec(this.buffer);
+
+    while (match) {
+      const end = match.index + match[0].length;
+      const candidate = this.buffer.slice(start, end).trim();
+
+      if (candidate.length >= this.minLength) {
+        sentences.push(candidate);
+        start = end;
+      }
+
+      match = boundary.exec(this.buffer);
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return sentences;
+  }
+
+  /**
+   * Return whatever text remains once the stream has ended
+   */
+  flush(): string | null {
+    const rest = this.buffer.trim();
+    this.buffer = '';
+    return rest.length > 0 ? rest : null;
+  }
+}
+
+/**
+ * Split a stream of text deltas into a stream of sentences
+ */
+export async function* splitSentences(
+  deltas: AsyncIterable<string>,
+  options?: SentenceSplitterOptions,
+): AsyncGenerator<string> {
+  const splitter = new SentenceSplitter(options);
+
+  for await (const delta of deltas) {
+    for (const sentence of splitter.push(delta)) {
+      yield sentence;
+    }
+  }
+
+  const rest = splitter.flush();
+  if (rest) {
+    yield rest;
+  }
+}
+
+// ============================================
+// Async Queue
+// ============================================
+
+/**
+ * Push-based async iterable of strings
+ * Lets a callback producer (the agent stream) feed a pull-based consumer (TTS)
+ */
+export class AsyncTextQueue implements AsyncIterable<string> {
+  private items: string[] = [];
+
+  private waiting: ((result: IteratorResult<string>) => void) | null = null;
+
+  private closed: boolean = false;
+
+  /**
+   * Add an item (ignored after close)
+   */
+  push(item: string): void {
+    if (this.closed) return;
+
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve({ value: item, done: false });
+    } else {
+      this.items.push(item);
+    }
+  }
+
+  /**
+   * End the stream once buffered items are consumed
+   */
+  close(): void {
+    this.closed = true;
+
+    if (this.waiting && this.items.length === 0) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve({ value: undefined, done: true });
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<string> {
+    return {
+      next: (): Promise<IteratorResult<string>> => {
+        if (this.items.length > 0) {
+          return Promise.resolve({ value: this.items.shift()!, done: false });
+        }
+        if (this.closed) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve) => {
+          this.waiting = resolve;
+        });
+      },
+    };
+  }
+}
@@ -0,0 +1,363 @@
+/**
+ * Audio codec abstraction
+ * Shared Opus encode/decode used by AudioStreamHandler, TextToSpeech and SpeechToText
+ */
+
+import OpusScript from 'opusscript';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Codec configuration
+ * Field names match AudioStreamConfig so a stream config can be passed directly
+ */
+export interface AudioCodecConfig {
+  sampleRate: number; // 48000 Hz for Discord
+  channels: number; // 1 or 2
+  frameSize: number; // Samples per channel per frame (960 = 20ms @ 48kHz)
+  bitRate?: number; // Default: 128000
+  opusComplexity?: number; // 0-10, default 5
+  useFEC?: boolean; // In-band Forward Error Correction
+  useDTX?: boolean; // Discontinuous Transmission
+}
+
+/**
+ * Frame-based audio codec
+ * PCM is interleaved Float32 in the range [-1, 1], one frame per call
+ */
+export interface AudioCodec {
+  readonly name: string;
+  readonly channels: number; // Interleaved channels in encoded and decoded PCM
+  encode(pcm: Float32Array): Uint8Array;
+  decode(packet: Uint8Array): Float32Array;
+  destroy(): void;
+}
+
+// Opus encoder CTL request codes (opus_defines.h)
+const OPUS_SET_COMPLEXITY = 4010;
+const OPUS_SET_INBAND_FEC = 4012;
+const OPUS_SET_PACKET_LOSS_PERC = 4014;
+const OPUS_SET_DTX = 4016;
+
+// FEC only adds redundancy when the encoder expects some packet loss
+const FEC_EXPECTED_LOSS_PERCENT = 10;
+
+const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000] as const;
+
+// ============================================
+// PCM Helpers
+// ============================================
+
+/**
+ * Convert Float32 PCM to 16-bit little-endian PCM
+ */
+export function floatToPCM16(pcm: Float32Array): Buffer {
+  const buffer = Buffer.alloc(pcm.length * 2);
+  for (let i = 0; i < pcm.length; i++) {
+    const sample = Math.max(-1, Math.min(1, pcm[i]));
+    buffer.writeInt16LE(Math.round(sample * 32767), i * 2);
+  }
+  return buffer;
+}
+
+/**
+ * Average interleaved Float32 PCM down to one channel
+ */
+export function downmixToMono(pcm: Float32Array, channels: number): Float32Array {
+  if (channels <= 1) {
+    return pcm;
+  }
+
+  const mono = new Float32Array(Math.floor(pcm.length / channels));
+  for (let i = 0; i < mono.length; i++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += pcm[i * channels + channel];
+    }
+    mono[i] = sum / channels;
+  }
+  return mono;
+}
+
+/**
+ * Convert 16-bit little-endian PCM to Float32 PCM
+ */
+export function pcm16ToFloat(buffer: Buffer): Float32Array {
+  const pcm = new Float32Array(Math.floor(buffer.length / 2));
+  for (let i = 0; i < pcm.length; i++) {
+    pcm[i] = buffer.readInt16LE(i * 2) / 32767;
+  }
+  return pcm;
+}
+
+/**
+ * Wrap raw PCM in a RIFF/WAVE container
+ */
+export function encodeWAV(
+  pcm: Buffer,
+  options: { sampleRate: number; channels?: number; bitsPerSample?: number },
+): Buffer {
+  const { sampleRate } = options;
+  const channels = options.channels ?? 1;
+  const bitsPerSample = options.bitsPerSample ?? 16;
+  const bytesPerSample = bitsPerSample / 8;
+
+  if (!pcm || pcm.length === 0) {
+    throw new Error('PCM buffer cannot be empty');
+  }
+  if (pcm.length % (channels * bytesPerSample) !== 0) {
+    throw new Error('Invalid PCM buffer format');
+  }
+
+  const wav = Buffer.alloc(44 + pcm.length);
+
+  // RIFF header
+  wav.write('RIFF', 0);
+  wav.writeUInt32LE(36 + pcm.length, 4);
+  wav.write('WAVE', 8);
+
+  // fmt sub-chunk
+  wav.write('fmt ', 12);
+  wav.writeUInt32LE(16, 16); // Sub-chunk size
+  wav.writeUInt16LE(1, 20); // Audio format (1 = PCM)
+  wav.writeUInt16LE(channels, 22);
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * channels * bytesPerSample, 28); // Byte rate
+  wav.writeUInt16LE(channels * bytesPerSample, 32); // Block align
+  wav.writeUInt16LE(bitsPerSample, 34);
+
+  // data sub-chunk
+  wav.write('data', 36);
+  wav.writeUInt32LE(pcm.length, 40);
+  pcm.copy(wav, 44);
+
+  return wav;
+}
+
+/**
+ * Extract 16-bit PCM and its format from a RIFF/WAVE buffer
+ * Walks the chunk list, so headers with extra chunks (LIST, fact) are handled
+ */
+export function decodeWAV(wav: Buffer): { pcm: Buffer; sampleRate: number; channels: number } {
+  if (wav.length < 12 || wav.toString('ascii', 0, 4) !== 'RIFF' || wav.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Invalid WAV header');
+  }
+
+  let sampleRate = 0;
+  let channels = 0;
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const id = wav.toString('ascii', offset, offset + 4);
+    const size = wav.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      if (wav.readUInt16LE(body + 14) !== 16) {
+        throw new Error('Only 16-bit PCM WAV is supported');
+      }
+      channels = wav.readUInt16LE(body + 2);
+      sampleRate = wav.readUInt32LE(body + 4);
+    } else if (id === 'data') {
+      if (!sampleRate) {
+        throw new Error('WAV data chunk before fmt chunk');
+      }
+      // Streamed WAVs may report a placeholder size; clamp to what is present
+      return { pcm: wav.subarray(body, Math.min(wav.length, body + size)), sampleRate, channels };
+    }
+
+    offset = body + size + (size % 2); // Chunks are word-aligned
+  }
+
+  throw new Error('WAV data chunk not found');
+}
+
+/**
+ * Resample mono 16-bit PCM with linear interpolation
+ */
+export function resamplePCM16(pcm: Buffer, fromRate: number, toRate: number): Buffer {
+  if (fromRate === toRate || pcm.length < 2) {
+    return pcm;
+  }
+
+  const inputSamples = Math.floor(pcm.length / 2);
+  const outputSamples = Math.max(1, Math.round((inputSamples * toRate) / fromRate));
+  const output = Buffer.alloc(outputSamples * 2);
+  const step = fromRate / toRate;
+
+  for (let i = 0; i < outputSamples; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, inputSamples - 1);
+    const fraction = position - index;
+    const a = pcm.readInt16LE(Math.min(index, inputSamples - 1) * 2);
+    const b = pcm.readInt16LE(next * 2);
+    output.writeInt16LE(Math.round(a + (b - a) * fraction), i * 2);
+  }
+
+  return output;
+}
+
+/**
+ * Validate an input frame against the configured frame size
+ */
+function validateFrame(pcm: Float32Array, config: AudioCodecConfig): void {
+  const expected = config.frameSize * config.channels;
+  if (pcm.length !== expected) {
+    throw new Error(`Invalid PCM frame size: expected ${expected}, got ${pcm.length}`);
+  }
+}
+
+// ============================================
+// Opus Codec (libopus via opusscript)
+// ============================================
+
+/**
+ * Opus codec backed by libopus compiled to WebAssembly
+ */
+export class OpusCodec implements AudioCodec {
+  readonly name = 'opus';
+
+  private config: AudioCodecConfig;
+
+  private opus: OpusScript | null;
+
+  constructor(config: AudioCodecConfig) {
+    if (!(OPUS_SAMPLE_RATES as readonly number[]).includes(config.sampleRate)) {
+      throw new Error(`Unsupported Opus sample rate: ${config.sampleRate}`);
+    }
+    if (config.channels !== 1 && config.channels !== 2) {
+      throw new Error(`Unsupported channel count: ${config.channels}`);
+    }
+
+    this.config = config;
+    this.opus = new OpusScript(
+      config.sampleRate as (typeof OPUS_SAMPLE_RATES)[number],
+      config.channels,
+      OpusScript.Application.AUDIO,
+    );
+
+    this.opus.setBitrate(config.bitRate ?? 128000);
+    this.opus.encoderCTL(OPUS_SET_COMPLEXITY, config.opusComplexity ?? 5);
+    this.opus.encoderCTL(OPUS_SET_INBAND_FEC, config.useFEC ? 1 : 0);
+    this.opus.encoderCTL(OPUS_SET_PACKET_LOSS_PERC, config.useFEC ? FEC_EXPECTED_LOSS_PERCENT : 0);
+    this.opus.encoderCTL(OPUS_SET_DTX, config.useDTX ? 1 : 0);
+  }
+
+  get channels(): number {
+    return this.config.channels;
+  }
+
+  /**
+   * Encode one PCM frame to an Opus packet
+   */
+  encode(pcm: Float32Array): Uint8Array {
+    validateFrame(pcm, this.config);
+    const packet = this.getOpus().encode(floatToPCM16(pcm), this.config.frameSize);
+    return new Uint8Array(packet);
+  }
+
+  /**
+   * Decode one Opus packet to PCM
+   */
+  decode(packet: Uint8Array): Float32Array {
+    if (packet.length === 0) {
+      throw new Error('Opus packet is empty');
+    }
+    return pcm16ToFloat(this.getOpus().decode(Buffer.from(packet)));
+  }
+
+  /**
+   * Release the native encoder/decoder state
+   */
+  destroy(): void {
+    if (this.opus) {
+      this.opus.delete();
+      this.opus = null;
+    }
+  }
+
+  private getOpus(): OpusScript {
+    if (!this.opus) {
+      throw new Error('Opus codec has been destroyed');
+    }
+    return this.opus;
+  }
+}
+
+// ============================================
+// Test Codec
+// ============================================
+
+/**
+ * Deterministic codec for unit tests
+ * Stores the RMS level of each block of samples in one byte, so packets are
+ * small and stable, and decoded audio keeps the loudness of the input
+ * (not its waveform)
+ */
+export class TestAudioCodec implements AudioCodec {
+  readonly name = 'test';
+
+  private config: AudioCodecConfig;
+
+  constructor(config: AudioCodecConfig) {
+    this.config = config;
+  }
+
+  get channels(): number {
+    return this.config.channels;
+  }
+
+  /**
+   * Encode one PCM frame to a packet of per-block levels
+   */
+  encode(pcm: Float32Array): Uint8Array {
+    validateFrame(pcm, this.config);
+
+    const packet = new Uint8Array(this.getPacketSize());
+    const blockSize = pcm.length / packet.length;
+
+    for (let block = 0; block < packet.length; block++) {
+      const start = Math.floor(block * blockSize);
+      const end = Math.max(start + 1, Math.floor((block + 1) * blockSize));
+      let sum = 0;
+      for (let i = start; i < end; i++) {
+        sum += pcm[i] * pcm[i];
+      }
+      packet[block] = Math.min(255, Math.round(Math.sqrt(sum / (end - start)) * 255));
+    }
+
+    return packet;
+  }
+
+  /**
+   * Decode a packet to one PCM frame (any non-empty packet is accepted)
+   */
+  decode(packet: Uint8Array): Float32Array {
+    if (packet.length === 0) {
+      throw new Error('Packet is empty');
+    }
+
+    const pcm = new Float32Array(this.config.frameSize * this.config.channels);
+    const blockSize = pcm.length / this.getPacketSize();
+
+    for (let i = 0; i < pcm.length; i++) {
+      const level = packet[Math.floor(i / blockSize) % packet.length] / 255;
+      pcm[i] = i % 2 === 0 ? level : -level;
+    }
+
+    return pcm;
+  }
+
+  destroy(): void {
+    // Nothing to release
+  }
+
+  /**
+   * Packet size: roughly 1/48 of the frame, and never below 20 bytes
+   */
+  private getPacketSize(): number {
+    return Math.max(20, Math.ceil((this.config.frameSize * this.config.channels) / 48));
+  }
+}
@@ -8,6 +8,7 @@ import {
   AudioStreamError,
   AudioErrorCode,
 } from './types.js';
+import { AudioCodec, OpusCodec } from './AudioCodec.js';
 
 /**
  * Type for error callback function
@@ -126,8 +127,17 @@ export class CircularAudioBuffer {
   }
 }
 
+/**
+ * Signed distance from one 16-bit RTP sequence number to another, across wrap-around
+ */
+function sequenceDelta(sequence: number, from: number): number {
+  return ((((sequence - from) & 0xffff) + 0x8000) & 0xffff) - 0x8000;
+}
+
 /**
  * Jitter buffer for managing incoming audio frames with adaptive latency
+ * Frames are held in RTP sequence order; a frame is released once it is the next expected
+ * sequence, or once a buffered frame has waited the target latency (the gap is given up)
  */
 export class JitterBuffer {
   private frames: JitterBufferFrame[] = [];
@@ -140,6 +150,8 @@ export class JitterBuffer {
 
   private lastPlayoutTime: number = 0;
 
+  private nextSequence?: number;
+
   constructor(maxFrames: number, targetLatency: number, sampleRate: number) {
     this.maxFrames = maxFrames;
     this.targetLatency = targetLatency;
@@ -157,30 +169,37 @@ export class JitterBuffer {
       isPlayed: false,
     };
 
-    // Insert in order
-    this.frames.push(jbFrame);
-    this.frames.sort((a, b) => a.playoutTime - b.playoutTime);
+    // Insert in sequence order (after frames with the same sequence)
+    let index = this.frames.length;
+    while (index > 0 && sequenceDelta(frame.sequenceNumber, this.frames[index - 1].frame.sequenceNumber) < 0) {
+      index--;
+    }
+    this.frames.splice(index, 0, jbFrame);
 
-    // Remove old frames if buffer exceeds max
+    // Remove the oldest sequences if buffer exceeds max
     if (this.frames.length > this.maxFrames) {
       this.frames = this.frames.slice(-this.maxFrames);
     }
   }
 
   dequeue(): AudioFrame | null {
+    if (this.frames.length === 0) return null;
+
     const now = Date.now();
+    const head = this.frames[0];
 
-    // Find first frame ready for playout
-    for (let i = 0; i < this.frames.length; i++) {
-      if (this.frames[i].playoutTime <= now) {
-        const jbFrame = this.frames.splice(i, 1)[0];
-        jbFrame.isPlayed = true;
-        this.lastPlayoutTime = now;
-        return jbFrame.frame;
-      }
+    // Wait for a missing sequence until some buffered frame is due; the first frame always waits,
+    // since an earlier sequence may still be in flight
+    const isNext = this.nextSequence !== undefined && head.frame.sequenceNumber === this.nextSequence;
+    if (!isNext && !this.frames.some((f) => f.playoutTime <= now)) {
+      return null;
     }
 
-    return null;
+    this.frames.shift();
+    head.isPlayed = true;
+    this.lastPlayoutTime = now;
+    this.nextSequence = (head.frame.sequenceNumber + 1) & 0xffff;
+    return head.frame;
   }
 
   peek(): AudioFrame | null {
@@ -191,6 +210,16 @@ export class JitterBuffer {
   flush(): void {
     this.frames = [];
     this.lastPlayoutTime = 0;
+    this.nextSequence = undefined;
+  }
+
+  /**
+   * Remove and return all buffered frames in sequence order, ready or not
+   */
+  drain(): AudioFrame[] {
+    const frames = this.frames.map((f) => f.frame);
+    this.flush();
+    return frames;
   }
 
   getHealth(): BufferHealth {
@@ -308,7 +337,12 @@ export class AudioStreamHandler {
 
   private startTime: number = 0;
 
-  constructor(config: AudioStreamConfig) {
+  private codec: AudioCodec | null;
+
+  // Codecs created here are destroyed on shutdown; injected codecs belong to the caller
+  private ownsCodec: boolean = false;
+
+  constructor(config: AudioStreamConfig, codec?: AudioCodec) {
     // Validate config
     if (config.sampleRate !== 48000) {
       throw new Error('Sample rate must be 48000 Hz');
@@ -318,6 +352,7 @@ export class AudioStreamHandler {
     this.jitterBuffer = new JitterBuffer(config.jitterBufferSize, config.targetBufferLatency, config.sampleRate);
     this.circularBuffer = new CircularAudioBuffer(config.circularBufferCapacity, config.frameSize);
     this.startTime = Date.now();
+    this.codec = codec ?? null;
   }
 
   /**
@@ -329,11 +364,14 @@ export class AudioStreamHandler {
     }
 
     try {
-      // Setup encoder/decoder
-      // In a real implementation, this would initialize Opus codec
+      // Setup encoder/decoder (bitRate, opusComplexity, useFEC and useDTX come from the stream config)
+      if (!this.codec) {
+        this.codec = new OpusCodec(this.config);
+        this.ownsCodec = true;
+      }
       this.initialized = true;
     } catch (err) {
-      throw this.createError(AudioErrorCode.ENCODER_UNAVAILABLE, 'Failed to initialize encoder/decoder', true);
+      throw this.createError(AudioErrorCode.ENCODER_UNAVAILABLE, `Failed to initialize encoder/decoder: ${err}`, true);
     }
   }
 
@@ -347,6 +385,12 @@ export class AudioStreamHandler {
     this.circularBuffer.reset();
     this.jitterBuffer.flush();
     this.errorCallbacks = [];
+
+    if (this.codec && this.ownsCodec) {
+      this.codec.destroy();
+      this.codec = null;
+      this.ownsCodec = false;
+    }
   }
 
   /**
@@ -424,9 +468,7 @@ export class AudioStreamHandler {
     }
 
     try {
-      // Mock Opus encoding
-      // In real implementation, use actual Opus encoder
-      const encoded = this.mockOpusEncode(pcmData);
+      const encoded = this.codec!.encode(pcmData);
       this.stats.framesEncoded++;
       return encoded;
     } catch (err) {
@@ -454,9 +496,7 @@ export class AudioStreamHandler {
     this.ensureInitialized();
 
     try {
-      // Mock Opus decoding
-      // In real implementation, use actual Opus decoder
-      const decoded = this.mockOpusDecode(opusData);
+      const decoded = this.codec!.decode(opusData);
       this.stats.framesDecoded++;
       return decoded;
     } catch (err) {
@@ -554,6 +594,23 @@ export class AudioStreamHandler {
     return [...this.playbackQueue];
   }
 
+  /**
+   * Get number of frames waiting for playback
+   */
+  getPlaybackQueueSize(): number {
+    return this.playbackQueue.length;
+  }
+
+  /**
+   * Drop all queued playback frames (e.g. when a user interrupts)
+   * Returns the number of frames discarded
+   */
+  clearPlaybackQueue(): number {
+    const dropped = this.playbackQueue.length;
+    this.playbackQueue = [];
+    return dropped;
+  }
+
   /**
    * Get current statistics
    */
@@ -618,58 +675,6 @@ export class AudioStreamHandler {
     return this.lastError;
   }
 
-  /**
-   * Private helper: Mock Opus encoding
-   */
-  private mockOpusEncode(pcmData: Float32Array): Uint8Array {
-    // Simple mock: encode size is roughly 1/48 of PCM size (128 kbps @ 48kHz)
-    const targetSize = Math.max(20, pcmData.length / 48);
-    const encoded = new Uint8Array(Math.ceil(targetSize));
-
-    // Add simple data transformation
-    let sum = 0;
-    for (let i = 0; i < pcmData.length; i += 4) {
-      sum += Math.abs(pcmData[i]);
-    }
-
-    // First byte is magic
-    encoded[0] = 0xff;
-
-    // Remaining bytes contain simple encoded data
-    for (let i = 1; i < encoded.length; i++) {
-      encoded[i] = Math.floor((sum / i) * 256) % 256;
-    }
-
-    return encoded;
-  }
-
-  /**
-   * Private helper: Mock Opus decoding
-   */
-  private mockOpusDecode(opusData: Uint8Array): Float32Array {
-    // Always return 960 * 2 samples (20ms @ 48kHz stereo)
-    const decoded = new Float32Array(960 * 2);
-
-    if (opusData.length === 0) {
-      // Frame loss: fill with silence/noise
-      return decoded;
-    }
-
-    // Simple mock decoding: use opus bytes as seed for pseudo-random
-    let seed = 0;
-    for (let i = 0; i < opusData.length; i++) {
-      seed = (seed * 31 + opusData[i]) % 0xffffffff;
-    }
-
-    // Generate pseudo-random samples from seed
-    for (let i = 0; i < decoded.length; i++) {
-      seed = (seed * 1103515245 + 12345) % 0x80000000;
-      decoded[i] = (seed / 0x80000000) * 0.1 - 0.05; // Small amplitude
-    }
-
-    return decoded;
-  }
-
   /**
    * Private helper: Check initialization state
    */
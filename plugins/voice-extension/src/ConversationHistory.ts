@@ -0,0 +1,139 @@
+/**
+ * Rolling conversation history
+ * Keeps the recent user transcripts and agent replies for a guild channel so they can be
+ * sent with each agent request, bounded by both turn count and an estimated token budget
+ */
+
+// ============================================
+// Types and Interfaces
+// ============================================
+
+/**
+ * History limits
+ */
+export interface ConversationHistoryConfig {
+  maxTurns?: number; // Turns kept, counting user and agent turns separately (default: 20)
+  maxTokens?: number; // Estimated tokens kept (default: 2000)
+  idleTimeoutMs?: number; // History is forgotten after this long without a turn (default: 1800000, 0 = never)
+}
+
+/**
+ * One side of an exchange
+ */
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  text: string;
+  userId?: string; // Speaker of a user turn
+  timestamp: number;
+}
+
+// Rough English average; agents only need the budget to be in the right ballpark
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate the token count of a piece of text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// ============================================
+// ConversationHistory
+// ============================================
+
+export class ConversationHistory {
+  private config: Required<ConversationHistoryConfig>;
+
+  private turns: ConversationTurn[] = [];
+
+  private tokenCount: number = 0;
+
+  constructor(config: ConversationHistoryConfig = {}) {
+    this.config = {
+      maxTurns: config.maxTurns ?? 20,
+      maxTokens: config.maxTokens ?? 2000,
+      idleTimeoutMs: config.idleTimeoutMs ?? 1800000,
+    };
+  }
+
+  /**
+   * Record a user transcript and the agent's reply to it
+   */
+  addExchange(userText: string, reply: string, userId?: string, now: number = Date.now()): void {
+    this.expireIfIdle(now);
+    this.push({ role: 'user', text: userText, userId, timestamp: now });
+    this.push({ role: 'assistant', text: reply, timestamp: now });
+    this.trim();
+  }
+
+  /**
+   * Get the turns in the history, oldest first
+   */
+  getTurns(now: number = Date.now()): ConversationTurn[] {
+    this.expireIfIdle(now);
+    return [...this.turns];
+  }
+
+  /**
+   * Estimated tokens currently in the history
+   */
+  getTokenCount(): number {
+    return this.tokenCount;
+  }
+
+  /**
+   * Forget every turn
+   */
+  clear(): void {
+    this.turns = [];
+    this.tokenCount = 0;
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  /**
+   * Append a turn and count its tokens
+   */
+  private push(turn: ConversationTurn): void {
+    this.turns.push(turn);
+    this.tokenCount += estimateTokens(turn.text);
+  }
+
+  /**
+   * Drop the oldest exchanges until the history fits both limits
+   * Whole exchanges are dropped so the history never starts with an agent reply
+   */
+  private trim(): void {
+    while (
+      this.turns.length > 2 &&
+      (this.turns.length > this.config.maxTurns || this.tokenCount > this.config.maxTokens)
+    ) {
+      this.dropOldest();
+      if (this.turns[0]?.role === 'assistant') {
+        this.dropOldest();
+      }
+    }
+  }
+
+  /**
+   * Remove the oldest turn
+   */
+  private dropOldest(): void {
+    const turn = this.turns.shift();
+    if (turn) {
+      this.tokenCount -= estimateTokens(turn.text);
+    }
+  }
+
+  /**
+   * Forget a conversation that has gone quiet
+   */
+  private expireIfIdle(now: number): void {
+    const last = this.turns[this.turns.length - 1];
+    if (last && this.config.idleTimeoutMs > 0 && now - last.timestamp > this.config.idleTimeoutMs) {
+      this.clear();
+    }
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * ElevenLabs text-to-speech HTTP client
+ * Implements IElevenLabsAPI against the ElevenLabs REST API (POST /v1/text-to-speech/{voice_id})
+ */
+
+import { encodeWAV } from './AudioCodec.js';
+import { TTSConfig, TTSError, TTSErrorCode, TTSProvider } from './TextToSpeech.js';
+
+/**
+ * Client configuration
+ */
+export interface ElevenLabsAPIConfig {
+  baseUrl?: string; // Default: https://api.elevenlabs.io
+}
+
+/**
+ * ElevenLabs error body: {"detail": {"status": "quota_exceeded", "message": "..."}} or {"detail": "..."}
+ */
+interface ElevenLabsErrorBody {
+  detail?: string | { status?: string; message?: string };
+}
+
+// ElevenLabs output_format for each TTSConfig.format
+// PCM is mono 16-bit little-endian; 'wav' wraps it in a RIFF header locally
+const OUTPUT_FORMATS: Record<TTSConfig['format'], (sampleRate: number) => string> = {
+  pcm: (sampleRate) => `pcm_${sampleRate}`,
+  wav: (sampleRate) => `pcm_${sampleRate}`,
+  opus: (sampleRate) => `opus_${sampleRate}_128`,
+};
+
+const DEFAULT_MODEL_ID = 'eleven_turbo_v2_5';
+
+/**
+ * HTTP client for the ElevenLabs text-to-speech API
+ */
+export class ElevenLabsAPIClient implements TTSProvider {
+  readonly name = 'elevenlabs';
+
+  private baseUrl: string;
+
+  constructor(config: ElevenLabsAPIConfig = {}) {
+    this.baseUrl = (config.baseUrl ?? 'https://api.elevenlabs.io').replace(/\/+$/, '');
+  }
+
+  /**
+   * Synthesize text and return the complete audio
+   */
+  async synthesize(text: string, voiceId: string, config: TTSConfig): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of this.request(text, voiceId, config, false)) {
+      chunks.push(chunk);
+    }
+
+    const audio = Buffer.concat(chunks);
+    return config.format === 'wav' ? encodeWAV(audio, { sampleRate: config.sampleRate }) : audio;
+  }
+
+  /**
+   * Synthesize text and yield audio chunks as they arrive
+   * 'pcm' chunks are aligned to whole 16-bit samples; 'wav' is streamed as raw PCM (no header)
+   */
+  async *synthesizeStream(text: string, voiceId: string, config: TTSConfig): AsyncGenerator<Buffer> {
+    yield* this.request(text, voiceId, config, true);
+  }
+
+  /**
+   * Get the request URL for a voice
+   */
+  getEndpoint(voiceId: string, config: TTSConfig, stream: boolean = false): string {
+    const url = new URL(`${this.baseUrl}/v1/text-to-speech/${encodeURIComponent(voiceId)}${stream ? '/stream' : ''}`);
+    url.searchParams.set('output_format', OUTPUT_FORMATS[config.format](config.sampleRate));
+    return url.toString();
+  }
+
+  /**
+   * POST the synthesis request and yield the response body
+   */
+  private async *request(text: string, voiceId: string, config: TTSConfig, stream: boolean): AsyncGenerator<Buffer> {
+    const timeoutMs = config.timeoutMs ?? 5000;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(this.getEndpoint(voiceId, config, stream), {
+          method: 'POST',
+          headers: {
+            'xi-api-key': config.apiKey,
+            'Content-Type': 'application/json',
+            Accept: config.format === 'opus' ? 'audio/ogg' : 'audio/pcm',
+          },
+          body: JSON.stringify({
+            text,
+            model_id: config.modelId ?? DEFAULT_MODEL_ID,
+            voice_settings: {
+              stability: config.stability ?? 0.5,
+              similarity_boost: config.similarity ?? 0.75,
+              ...(config.speakingRate !== undefined ? { speed: config.speakingRate } : {}),
+            },
+          }),
+          signal: controller.signal,
+        });
+      } catch (error: any) {
+        throw this.mapRequestError(error, timeoutMs);
+      }
+
+      if (!response.ok) {
+        throw await this.mapHttpError(response);
+      }
+      if (!response.body) {
+        throw new TTSError(TTSErrorCode.API_ERROR, 'ElevenLabs returned an empty response');
+      }
+
+      // Hold back a trailing odd byte so PCM chunks never split a sample
+      const alignSamples = config.format !== 'opus';
+      let carry: Buffer = Buffer.alloc(0);
+
+      try {
+        for await (const value of response.body as AsyncIterable<Uint8Array>) {
+          let chunk = Buffer.concat([carry, Buffer.from(value)]);
+          carry = Buffer.alloc(0);
+          if (alignSamples && chunk.length % 2 !== 0) {
+            carry = chunk.subarray(chunk.length - 1);
+            chunk = chunk.subarray(0, chunk.length - 1);
+          }
+          if (chunk.length > 0) {
+            yield chunk;
+          }
+        }
+      } catch (error: any) {
+        throw this.mapRequestError(error, timeoutMs);
+      }
+
+      if (carry.length > 0) {
+        yield carry;
+      }
+    } finally {
+      clearTimeout(timeoutId);
+      controller.abort();
+    }
+  }
+
+  /**
+   * Map a fetch/read failure to a TTS error
+   */
+  private mapRequestError(error: any, timeoutMs: number): TTSError {
+    if (error instanceof TTSError) return error;
+    if (error.name === 'AbortError') {
+      return new TTSError(TTSErrorCode.TIMEOUT, `ElevenLabs request timed out after ${timeoutMs}ms`);
+    }
+    return new TTSError(
+      TTSErrorCode.NETWORK_ERROR,
+      `ElevenLabs request failed: ${error.cause?.message ?? error.message}`,
+      {
+        context: { originalError: error.message },
+      },
+    );
+  }
+
+  /**
+   * Map an HTTP error response to a TTS error
+   */
+  private async mapHttpError(response: Response): Promise<TTSError> {
+    const raw = await response.text().catch(() => '');
+    let body: ElevenLabsErrorBody = {};
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      // Not JSON; keep the raw text in the message
+    }
+
+    const detail = typeof body.detail === 'object' ? body.detail : undefined;
+    const detailMessage = detail?.message ?? (typeof body.detail === 'string' ? body.detail : raw.slice(0, 200));
+    const message = `ElevenLabs API error: ${response.status}${detailMessage ? ` - ${detailMessage}` : ''}`;
+    const context = { status: response.status, errorStatus: detail?.status };
+
+    if (detail?.status === 'quota_exceeded' || response.status === 402) {
+      return new TTSError(TTSErrorCode.API_QUOTA_EXCEEDED, message, { context, recoverable: false });
+    }
+    if (response.status === 401 || response.status === 403) {
+      return new TTSError(TTSErrorCode.INVALID_CONFIG, message, { context, recoverable: false });
+    }
+    if (response.status === 400 || response.status === 422) {
+      return new TTSError(TTSErrorCode.INVALID_INPUT, message, { context, recoverable: false });
+    }
+    // 429 (concurrency/system busy) and 5xx are worth retrying
+    return new TTSError(TTSErrorCode.API_ERROR, message, { context, recoverable: true });
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Health registry
+ * Components register named probes; readiness and health endpoints run them and aggregate the results
+ */
+
+// ============================================
+// Types and Interfaces
+// ============================================
+
+/**
+ * Checks one dependency; throws (or rejects) when it is unhealthy
+ */
+export type HealthProbe = () => Promise<void> | void;
+
+/**
+ * Probe registration options
+ */
+export interface HealthCheckOptions {
+  critical?: boolean; // Failing makes the service unhealthy and not ready (default: true); otherwise degraded
+  timeoutMs?: number; // Probes that take longer fail (default: 2000)
+}
+
+/**
+ * Latest result of one check
+ */
+export interface HealthCheckStatus {
+  status: 'pass' | 'fail';
+  critical: boolean;
+  latencyMs: number;
+  checkedAt: number;
+  error?: string; // Why the latest run failed
+  lastError?: string; // Most recent failure, kept after the check recovers
+  lastErrorAt?: number;
+}
+
+/**
+ * Aggregated result of every check
+ */
+export interface HealthReport {
+  status: 'healthy' | 'degraded' | 'unhealthy';
+  ready: boolean; // No critical check is failing
+  checks: Record<string, HealthCheckStatus>;
+}
+
+interface RegisteredCheck {
+  probe: HealthProbe;
+  critical: boolean;
+  timeoutMs: number;
+  lastError?: string;
+  lastErrorAt?: number;
+}
+
+// ============================================
+// HealthRegistry
+// ============================================
+
+export class HealthRegistry {
+  private checks: Map<string, RegisteredCheck> = new Map();
+
+  /**
+   * Register (or replace) a check
+   */
+  register(name: string, probe: HealthProbe, options: HealthCheckOptions = {}): void {
+    this.checks.set(name, {
+      probe,
+      critical: options.critical ?? true,
+      timeoutMs: options.timeoutMs ?? 2000,
+    });
+  }
+
+  /**
+   * Remove a check
+   */
+  unregister(name: string): boolean {
+    return this.checks.delete(name);
+  }
+
+  /**
+   * Get registered check names
+   */
+  getCheckNames(): string[] {
+    return Array.from(this.checks.keys());
+  }
+
+  /**
+   * Run every probe in parallel and aggregate the results
+   */
+  async run(): Promise<HealthReport> {
+    const entries = Array.from(this.checks.entries());
+    const results = await Promise.all(entries.map(([name, check]) => this.runCheck(name, check)));
+
+    const checks: Record<string, HealthCheckStatus> = {};
+    entries.forEach(([name], i) => {
+      checks[name] = results[i];
+    });
+
+    const failing = results.filter((result) => result.status === 'fail');
+    const ready = !failing.some((result) => result.critical);
+    let status: HealthReport['status'] = 'healthy';
+    if (!ready) {
+      status = 'unhealthy';
+    } else if (failing.length > 0) {
+      status = 'degraded';
+    }
+
+    return { status, ready, checks };
+  }
+
+  /**
+   * Run one probe with its timeout
+   */
+  private async runCheck(name: string, check: RegisteredCheck): Promise<HealthCheckStatus> {
+    const startTime = Date.now();
+    let timeoutId: NodeJS.Timeout | undefined;
+    let error: string | undefined;
+
+    try {
+      await Promise.race([
+        Promise.resolve().then(check.probe),
+        new Promise<never>((_, reject) => {
+          timeoutId = setTimeout(() => reject(new Error(`Timed out after ${check.timeoutMs}ms`)), check.timeoutMs);
+        }),
+      ]);
+    } catch (err: any) {
+      error = err?.message || String(err) || `${name} check failed`;
+      check.lastError = error;
+      check.lastErrorAt = Date.now();
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    return {
+      status: error ? 'fail' : 'pass',
+      critical: check.critical,
+      latencyMs: Date.now() - startTime,
+      checkedAt: startTime,
+      ...(error ? { error } : {}),
+      ...(check.lastError ? { lastError: check.lastError, lastErrorAt: check.lastErrorAt } : {}),
+    };
+  }
+}
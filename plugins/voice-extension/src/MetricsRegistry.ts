@@ -0,0 +1,340 @@
+/**
+ * Metrics registry
+ * Counters, gauges and fixed-bucket histograms with labels, exposed in the Prometheus text format
+ */
+
+// ============================================
+// Types and Interfaces
+// ============================================
+
+export type MetricLabels = Record<string, string>;
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Request latency buckets in seconds (voice replies should start within a couple of seconds)
+ */
+export const DEFAULT_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10];
+
+const METRIC_NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Format labels as {a="1",b="2"}, with label values escaped
+ */
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const pairs = entries.map(
+    ([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`,
+  );
+  return `{${pairs.join(',')}}`;
+}
+
+/**
+ * Format a sample value (Prometheus spells infinities +Inf and -Inf)
+ */
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+// ============================================
+// Metrics
+// ============================================
+
+/**
+ * Base class for a metric and its labelled series
+ */
+abstract class Metric<T> {
+  readonly name: string;
+
+  readonly help: string;
+
+  abstract readonly type: MetricType;
+
+  // Sorted label key -> labels and series state
+  protected series: Map<string, { labels: MetricLabels; value: T }> = new Map();
+
+  constructor(name: string, help: string) {
+    if (!METRIC_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid metric name: ${name}`);
+    }
+    this.name = name;
+    this.help = help;
+  }
+
+  /**
+   * Forget every series
+   */
+  reset(): void {
+    this.series.clear();
+  }
+
+  /**
+   * Format the metric's samples, without the HELP and TYPE lines
+   */
+  abstract formatSamples(): string[];
+
+  /**
+   * Get the state of a series, creating it on first use
+   */
+  protected getSeries(labels: MetricLabels, create: () => T): { labels: MetricLabels; value: T } {
+    const sorted = this.sortLabels(labels);
+    const key = JSON.stringify(sorted);
+
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: sorted, value: create() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Get the state of a series without creating it
+   */
+  protected findSeries(labels: MetricLabels): T | undefined {
+    return this.series.get(JSON.stringify(this.sortLabels(labels)))?.value;
+  }
+
+  /**
+   * Validate label names and order them so equal label sets share a series
+   */
+  private sortLabels(labels: MetricLabels): MetricLabels {
+    return Object.keys(labels)
+      .sort()
+      .reduce<MetricLabels>((result, name) => {
+        if (!LABEL_NAME_PATTERN.test(name) || name === 'le') {
+          throw new Error(`Invalid label name for ${this.name}: ${name}`);
+        }
+        return { ...result, [name]: String(labels[name]) };
+      }, {});
+  }
+}
+
+/**
+ * A value that only goes up (requests served, errors seen)
+ */
+export class Counter extends Metric<number> {
+  readonly type = 'counter';
+
+  /**
+   * Add to a series (default: 1)
+   */
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    if (value < 0 || !Number.isFinite(value)) {
+      throw new Error(`Counter ${this.name} can only increase by a finite amount`);
+    }
+    this.getSeries(labels, () => 0).value += value;
+  }
+
+  /**
+   * Get a series' value
+   */
+  get(labels: MetricLabels = {}): number {
+    return this.findSeries(labels) ?? 0;
+  }
+
+  formatSamples(): string[] {
+    return Array.from(this.series.values()).map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`,
+    );
+  }
+}
+
+/**
+ * A value that goes up and down (active sessions, ratios)
+ */
+export class Gauge extends Metric<number> {
+  readonly type = 'gauge';
+
+  /**
+   * Set a series' value
+   */
+  set(labels: MetricLabels, value: number): void {
+    this.getSeries(labels, () => 0).value = value;
+  }
+
+  /**
+   * Add to a series (default: 1)
+   */
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    this.getSeries(labels, () => 0).value += value;
+  }
+
+  /**
+   * Subtract from a series (default: 1)
+   */
+  dec(labels: MetricLabels = {}, value: number = 1): void {
+    this.getSeries(labels, () => 0).value -= value;
+  }
+
+  /**
+   * Get a series' value
+   */
+  get(labels: MetricLabels = {}): number {
+    return this.findSeries(labels) ?? 0;
+  }
+
+  formatSamples(): string[] {
+    return Array.from(this.series.values()).map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`,
+    );
+  }
+}
+
+/**
+ * Observation counts in fixed buckets, plus their sum and count (latencies)
+ */
+export class Histogram extends Metric<{ buckets: number[]; sum: number; count: number }> {
+  readonly type = 'histogram';
+
+  readonly buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_LATENCY_BUCKETS) {
+    super(name, help);
+    if (buckets.length === 0 || buckets.some((bound, i) => i > 0 && bound <= buckets[i - 1])) {
+      throw new Error(`Histogram ${name} needs increasing bucket bounds`);
+    }
+    this.buckets = buckets.filter((bound) => bound !== Infinity);
+  }
+
+  /**
+   * Record one observation
+   */
+  observe(labels: MetricLabels, value: number): void {
+    const series = this.getSeries(labels, () => ({ buckets: this.buckets.map(() => 0), sum: 0, count: 0 })).value;
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        series.buckets[i]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Get a series' observation count and sum
+   */
+  get(labels: MetricLabels = {}): { count: number; sum: number } {
+    const series = this.findSeries(labels);
+    return { count: series?.count ?? 0, sum: series?.sum ?? 0 };
+  }
+
+  formatSamples(): string[] {
+    const lines: string[] = [];
+    for (const { labels, value } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${value.buckets[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+// ============================================
+// MetricsRegistry
+// ============================================
+
+export class MetricsRegistry {
+  private metrics: Map<string, Counter | Gauge | Histogram> = new Map();
+
+  // Refresh values that are read rather than counted (e.g. cache ratios) before each scrape
+  private collectors: (() => void)[] = [];
+
+  /**
+   * Get or create a counter
+   */
+  counter(name: string, help: string): Counter {
+    return this.getOrCreate(name, 'counter', () => new Counter(name, help)) as Counter;
+  }
+
+  /**
+   * Get or create a gauge
+   */
+  gauge(name: string, help: string): Gauge {
+    return this.getOrCreate(name, 'gauge', () => new Gauge(name, help)) as Gauge;
+  }
+
+  /**
+   * Get or create a histogram (an existing histogram keeps its buckets)
+   */
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.getOrCreate(name, 'histogram', () => new Histogram(name, help, buckets)) as Histogram;
+  }
+
+  /**
+   * Get a registered metric
+   */
+  getMetric(name: string): Counter | Gauge | Histogram | undefined {
+    return this.metrics.get(name);
+  }
+
+  /**
+   * Run a function before every scrape
+   * Returns a function that removes the collector
+   */
+  addCollector(collect: () => void): () => void {
+    this.collectors.push(collect);
+    return () => {
+      this.collectors = this.collectors.filter((collector) => collector !== collect);
+    };
+  }
+
+  /**
+   * Format every metric in the Prometheus text exposition format (version 0.0.4)
+   */
+  format(): string {
+    for (const collect of this.collectors) {
+      try {
+        collect();
+      } catch (error) {
+        console.error('Metrics collector failed:', error);
+      }
+    }
+
+    const blocks = Array.from(this.metrics.values()).map((metric) =>
+      [`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.formatSamples()].join(
+        '\n',
+      ),
+    );
+    return blocks.length > 0 ? `${blocks.join('\n\n')}\n` : '';
+  }
+
+  /**
+   * Forget every series (metrics and collectors stay registered)
+   */
+  reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset();
+    }
+  }
+
+  /**
+   * Look up a metric by name, registering it on first use
+   */
+  private getOrCreate(
+    name: string,
+    type: MetricType,
+    create: () => Counter | Gauge | Histogram,
+  ): Counter | Gauge | Histogram {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing;
+    }
+
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
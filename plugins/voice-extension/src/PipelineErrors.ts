@@ -46,6 +46,7 @@ export enum PipelineErrorCode {
   PIPELINE_CONNECTION_LOST = 6006,
   PIPELINE_USER_DISCONNECTED = 6007,
   PIPELINE_FALLBACK_FAILED = 6008,
+  PIPELINE_INVALID_INPUT = 6009,
 
   // Agent integration errors
   AGENT_REQUEST_FAILED = 7001,
@@ -175,6 +176,8 @@ export class PipelineError extends Error {
         return 'Voice connection was lost. Please reconnect and try again.';
       case PipelineErrorCode.PIPELINE_USER_DISCONNECTED:
         return 'You disconnected from voice. Please rejoin and try again.';
+      case PipelineErrorCode.PIPELINE_INVALID_INPUT:
+        return "I didn't get anything to respond to. Please try again.";
 
       // Agent errors
       case PipelineErrorCode.AGENT_REQUEST_FAILED:
@@ -0,0 +1,225 @@
+/**
+ * Pipeline event hub
+ * Turns pipeline and voice connection events into serializable stream events and fans them out to
+ * subscribers (e.g. a Server-Sent Events endpoint), optionally filtered by guild
+ */
+
+import { PipelineError, PipelineErrorCode } from './PipelineErrors.js';
+import type { ConnectionState } from './types.js';
+import type {
+  PipelineEvents,
+  PipelineMetrics,
+  VoiceCommandPipeline,
+  VoiceRequest,
+  VoiceSession,
+} from './VoiceCommandPipeline.js';
+import type { VoiceConnectionManager } from './VoiceConnectionManager.js';
+
+// ============================================
+// Types and Interfaces
+// ============================================
+
+export type StreamEventType =
+  | 'sessionStarted'
+  | 'sessionEnded'
+  | 'requestStarted'
+  | 'requestCompleted'
+  | 'requestError'
+  | 'metricsUpdated'
+  | 'connectionStateChange';
+
+/**
+ * One published event
+ */
+export interface StreamEvent {
+  id: number; // Increasing; clients resume after the last ID they saw
+  type: StreamEventType;
+  guildId?: string; // Unset for pipeline-wide events (metrics)
+  timestamp: number;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Subscription filter
+ */
+export interface StreamEventFilter {
+  guildIds?: string[]; // Only these guilds' events, plus pipeline-wide ones (default: every guild)
+}
+
+export type StreamEventListener = (event: StreamEvent) => void;
+
+/**
+ * Hub options
+ */
+export interface PipelineEventHubConfig {
+  historySize?: number; // Recent events kept for clients that reconnect (default: 100)
+}
+
+/**
+ * Format an event as a Server-Sent Events message
+ */
+export function formatSSE(event: StreamEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+// ============================================
+// PipelineEventHub
+// ============================================
+
+export class PipelineEventHub {
+  private historySize: number;
+
+  private history: StreamEvent[] = [];
+
+  private nextId: number = 1;
+
+  private subscribers: Set<{ listener: StreamEventListener; filter: StreamEventFilter }> = new Set();
+
+  constructor(config: PipelineEventHubConfig = {}) {
+    this.historySize = config.historySize ?? 100;
+  }
+
+  /**
+   * Publish a pipeline's session, request and metrics events
+   * Returns a function that detaches the pipeline
+   */
+  attachPipeline(pipeline: VoiceCommandPipeline): () => void {
+    // Request events carry a session ID; the session knows the guild
+    const guildOf = (request: VoiceRequest) => pipeline.getSession(request.sessionId)?.guildId;
+
+    const listeners: Partial<PipelineEvents> = {
+      sessionStarted: (session) => this.publish('sessionStarted', session.guildId, describeSession(session)),
+      sessionEnded: (session) =>
+        this.publish('sessionEnded', session.guildId, { ...describeSession(session), metrics: { ...session.metrics } }),
+      requestStarted: (request) => this.publish('requestStarted', guildOf(request), describeRequest(request)),
+      requestCompleted: (request) =>
+        this.publish('requestCompleted', guildOf(request), {
+          ...describeRequest(request),
+          said: request.agentResponse,
+          language: request.language,
+          timings: { ...request.timings },
+          durationMs: Date.now() - request.startTime,
+        }),
+      requestError: (request, error: PipelineError) =>
+        this.publish('requestError', guildOf(request), {
+          ...describeRequest(request),
+          code: PipelineErrorCode[error.code] ?? String(error.code),
+          message: error.message,
+        }),
+      metricsUpdated: (metrics: PipelineMetrics) => this.publish('metricsUpdated', undefined, { ...metrics }),
+    };
+
+    const entries = Object.entries(listeners) as [keyof PipelineEvents, PipelineEvents[keyof PipelineEvents]][];
+    for (const [event, listener] of entries) {
+      pipeline.on(event, listener);
+    }
+    return () => {
+      for (const [event, listener] of entries) {
+        pipeline.off(event, listener);
+      }
+    };
+  }
+
+  /**
+   * Publish a connection manager's voice connection state changes
+   * Returns a function that detaches the manager
+   */
+  attachConnections(connections: VoiceConnectionManager): () => void {
+    const listener = (guildId: string, newState: ConnectionState, oldState?: ConnectionState) => {
+      this.publish('connectionStateChange', guildId, {
+        status: newState.status,
+        previousStatus: oldState?.status,
+        reason: newState.reason,
+      });
+    };
+
+    connections.on('stateChange', listener);
+    return () => {
+      connections.off('stateChange', listener);
+    };
+  }
+
+  /**
+   * Receive events as they are published
+   * Returns a function that unsubscribes
+   */
+  subscribe(listener: StreamEventListener, filter: StreamEventFilter = {}): () => void {
+    const subscriber = { listener, filter };
+    this.subscribers.add(subscriber);
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  /**
+   * Get the number of active subscriptions
+   */
+  getSubscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  /**
+   * Get kept events after an event ID (all kept events by default)
+   */
+  getHistory(filter: StreamEventFilter = {}, afterId: number = 0): StreamEvent[] {
+    return this.history.filter((event) => event.id > afterId && matches(event, filter));
+  }
+
+  /**
+   * Publish an event to matching subscribers
+   */
+  publish(type: StreamEventType, guildId: string | undefined, data: Record<string, unknown>): StreamEvent {
+    const event: StreamEvent = { id: this.nextId++, type, guildId, timestamp: Date.now(), data };
+
+    this.history.push(event);
+    if (this.history.length > this.historySize) {
+      this.history.shift();
+    }
+
+    for (const { listener, filter } of this.subscribers) {
+      if (matches(event, filter)) {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error(`Error in ${type} stream listener:`, error);
+        }
+      }
+    }
+    return event;
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Check an event against a subscription filter
+ */
+function matches(event: StreamEvent, filter: StreamEventFilter): boolean {
+  return !filter.guildIds || event.guildId === undefined || filter.guildIds.includes(event.guildId);
+}
+
+/**
+ * Session fields shown to stream clients
+ */
+function describeSession(session: VoiceSession): Record<string, unknown> {
+  return {
+    sessionId: session.sessionId,
+    channelId: session.channelId,
+    userId: session.userId,
+    inputMode: session.inputMode,
+  };
+}
+
+/**
+ * Request fields shown to stream clients; heard is the text sent to the agent
+ */
+function describeRequest(request: VoiceRequest): Record<string, unknown> {
+  return {
+    requestId: request.requestId,
+    sessionId: request.sessionId,
+    userId: request.userId,
+    heard: request.wakeWord?.text ?? request.inputText ?? request.transcription?.text,
+  };
+}
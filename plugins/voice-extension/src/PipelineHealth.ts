@@ -0,0 +1,62 @@
+/**
+ * Pipeline health checks
+ * Registers probes for a VoiceCommandPipeline: initialized, STT backends reachable, TTS providers working
+ */
+
+import { HealthRegistry } from './HealthRegistry.js';
+import type { VoiceCommandPipeline } from './VoiceCommandPipeline.js';
+
+/**
+ * Register a pipeline's probes under pipeline, stt and tts
+ * Only the pipeline check is critical; a failing speech backend degrades the service
+ */
+export function registerPipelineHealthChecks(pipeline: VoiceCommandPipeline, registry: HealthRegistry): void {
+  registry.register('pipeline', () => {
+    if (!pipeline.isReady()) {
+      throw new Error('Voice pipeline is not initialized');
+    }
+  });
+
+  // Checks the default provider and every guild override; without configured providers
+  // the pipeline transcribes in process
+  registry.register(
+    'stt',
+    async () => {
+      const providers = pipeline.getSTTProviders();
+      if (!providers.isConfigured()) return;
+
+      const failures: string[] = [];
+      await Promise.all(
+        [undefined, ...providers.getOverrideGuilds()].map(async (guildId) => {
+          const provider = providers.getProvider(guildId);
+          try {
+            await provider.checkHealth?.(2000);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            failures.push(`${guildId ? `guild ${guildId}` : 'default'} (${provider.name}): ${message}`);
+          }
+        }),
+      );
+      if (failures.length > 0) {
+        throw new Error(`STT providers unreachable: ${failures.join('; ')}`);
+      }
+    },
+    { critical: false, timeoutMs: 3000 },
+  );
+
+  // TTS providers are marked unhealthy while they cool down after failed syntheses
+  registry.register(
+    'tts',
+    () => {
+      const stats = pipeline.getTTSStats();
+      if (!stats) {
+        throw new Error('TTS is not initialized');
+      }
+      if (stats.providers.length > 0 && stats.providers.every((provider) => !provider.healthy)) {
+        const failures = stats.providers.map((provider) => `${provider.name}: ${provider.lastError ?? 'failing'}`);
+        throw new Error(`All TTS providers are failing (${failures.join('; ')})`);
+      }
+    },
+    { critical: false },
+  );
+}
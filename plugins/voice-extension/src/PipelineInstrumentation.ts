@@ -0,0 +1,82 @@
+/**
+ * Pipeline instrumentation
+ * Feeds a MetricsRegistry from VoiceCommandPipeline events: request latency per phase, request
+ * outcomes, errors per PipelineErrorCode, active sessions per guild and the TTS cache hit ratio
+ */
+
+import { MetricsRegistry } from './MetricsRegistry.js';
+import { PipelineErrorCode } from './PipelineErrors.js';
+import type { PipelineEvents, RequestTimings, VoiceCommandPipeline, VoiceRequest } from './VoiceCommandPipeline.js';
+
+// Request stage -> phase label on pipeline_request_duration_seconds
+const PHASE_LABELS = {
+  stt: 'stt',
+  agent: 'llm',
+  tts: 'tts',
+} as const satisfies Record<keyof RequestTimings, string>;
+
+/**
+ * Record a pipeline's requests and sessions in a registry
+ * Instrument one pipeline per registry; session and cache gauges are read from it on every scrape
+ * Returns a function that detaches the pipeline (call it before instrumenting a replacement)
+ */
+export function instrumentPipeline(pipeline: VoiceCommandPipeline, registry: MetricsRegistry): () => void {
+  const duration = registry.histogram(
+    'pipeline_request_duration_seconds',
+    'Voice request latency per phase (stt, llm, tts, total)',
+  );
+  const requests = registry.counter('pipeline_requests_total', 'Finished voice requests by status');
+  const errors = registry.counter('pipeline_errors_total', 'Voice request errors by pipeline error code');
+  const sessions = registry.gauge('pipeline_active_sessions', 'Active voice sessions per guild');
+  const cacheHitRatio = registry.gauge('tts_cache_hit_ratio', 'Share of TTS requests served from the cache');
+
+  const observe = (request: VoiceRequest) => {
+    for (const [stage, phase] of Object.entries(PHASE_LABELS)) {
+      const ms = request.timings[stage as keyof RequestTimings];
+      if (ms !== undefined) {
+        duration.observe({ phase }, ms / 1000);
+      }
+    }
+    duration.observe({ phase: 'total' }, (Date.now() - request.startTime) / 1000);
+  };
+
+  const listeners: Partial<PipelineEvents> = {
+    requestCompleted: (request) => {
+      observe(request);
+      requests.inc({ status: 'completed' });
+    },
+    requestError: (request, error) => {
+      observe(request);
+      requests.inc({ status: 'error' });
+      errors.inc({ code: PipelineErrorCode[error.code] ?? String(error.code) });
+    },
+    requestCancelled: () => {
+      requests.inc({ status: 'cancelled' });
+    },
+  };
+
+  const entries = Object.entries(listeners) as [keyof PipelineEvents, PipelineEvents[keyof PipelineEvents]][];
+  for (const [event, listener] of entries) {
+    pipeline.on(event, listener);
+  }
+
+  const removeCollector = registry.addCollector(() => {
+    sessions.reset();
+    for (const session of pipeline.getActiveSessions()) {
+      sessions.inc({ guild_id: session.guildId });
+    }
+
+    const stats = pipeline.getTTSStats();
+    if (stats) {
+      const lookups = stats.cacheHits + stats.cacheMisses;
+      cacheHitRatio.set({}, lookups > 0 ? stats.cacheHits / lookups : 0);
+    }
+  });
+
+  return () => {
+    for (const [event, listener] of entries) {
+      pipeline.off(event, listener);
+    }
+    removeCollector();
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * Push-to-talk capture for moderated sessions
+ * Speech is only processed from users who opened a capture (slash command or button);
+ * a capture ends when the user's utterance ends, on a second press, or if nothing is said
+ */
+
+// ============================================
+// Types and Interfaces
+// ============================================
+
+/**
+ * How a session decides which utterances to process
+ */
+export type VoiceInputMode = 'continuous' | 'push-to-talk';
+
+/**
+ * Push-to-talk configuration
+ */
+export interface PushToTalkConfig {
+  captureTimeoutMs?: number; // Capture ends after this long without speech from the user (default: 10000, 0 = never)
+}
+
+/**
+ * Why a capture ended
+ */
+export type CaptureEndReason = 'utterance' | 'stopped' | 'timeout' | 'cancelled';
+
+/**
+ * Push-to-talk events
+ */
+export interface PushToTalkEvents {
+  captureStarted(userId: string): void;
+  captureEnded(userId: string, reason: CaptureEndReason): void;
+}
+
+/**
+ * An open capture for one user
+ */
+interface Capture {
+  lastSpeech: number; // When the capture opened or the user last spoke
+  stopping: boolean; // Stop was pressed; the utterance in progress is still accepted
+  timeout?: NodeJS.Timeout;
+}
+
+// ============================================
+// PushToTalkController
+// ============================================
+
+export class PushToTalkController {
+  private config: Required<PushToTalkConfig>;
+
+  // userId -> open capture
+  private captures: Map<string, Capture> = new Map();
+
+  private eventListeners: Map<keyof PushToTalkEvents, Function[]> = new Map();
+
+  constructor(config: PushToTalkConfig = {}) {
+    this.config = {
+      captureTimeoutMs: config.captureTimeoutMs ?? 10000,
+    };
+  }
+
+  /**
+   * Open a capture for a user
+   * Returns false if the user already has one open
+   */
+  start(userId: string): boolean {
+    if (this.captures.has(userId)) {
+      return false;
+    }
+
+    const capture: Capture = { lastSpeech: Date.now(), stopping: false };
+    this.captures.set(userId, capture);
+    this.scheduleTimeout(userId, capture, this.config.captureTimeoutMs);
+
+    this.emit('captureStarted', userId);
+    return true;
+  }
+
+  /**
+   * Mark a user's capture as stopping (second press)
+   * The utterance in progress is still accepted by complete(); returns false if no capture is open
+   */
+  stop(userId: string): boolean {
+    const capture = this.captures.get(userId);
+    if (!capture) {
+      return false;
+    }
+
+    capture.stopping = true;
+    return true;
+  }
+
+  /**
+   * Accept a finished utterance from a user and close their capture
+   * Returns false if the user has no capture open (the utterance should be dropped)
+   */
+  complete(userId: string): boolean {
+    const capture = this.captures.get(userId);
+    if (!capture) {
+      return false;
+    }
+
+    return this.end(userId, capture.stopping ? 'stopped' : 'utterance');
+  }
+
+  /**
+   * Note speech from a capturing user, pushing back the capture timeout
+   */
+  heardSpeech(userId: string): void {
+    const capture = this.captures.get(userId);
+    if (capture) {
+      capture.lastSpeech = Date.now();
+    }
+  }
+
+  /**
+   * Close a user's capture
+   * Returns false if no capture was open
+   */
+  end(userId: string, reason: CaptureEndReason): boolean {
+    const capture = this.captures.get(userId);
+    if (!capture) {
+      return false;
+    }
+
+    clearTimeout(capture.timeout);
+    this.captures.delete(userId);
+
+    this.emit('captureEnded', userId, reason);
+    return true;
+  }
+
+  /**
+   * Whether a user has a capture open
+   */
+  isCapturing(userId: string): boolean {
+    return this.captures.has(userId);
+  }
+
+  /**
+   * Get the users with a capture open
+   */
+  getCapturingUsers(): string[] {
+    return Array.from(this.captures.keys());
+  }
+
+  /**
+   * Close every open capture
+   */
+  reset(): void {
+    for (const userId of Array.from(this.captures.keys())) {
+      this.end(userId, 'cancelled');
+    }
+  }
+
+  /**
+   * Register event listener
+   */
+  on<K extends keyof PushToTalkEvents>(event: K, listener: PushToTalkEvents[K]): void {
+    if (!this.eventListeners.has(event)) {
+      this.eventListeners.set(event, []);
+    }
+    this.eventListeners.get(event)!.push(listener);
+  }
+
+  /**
+   * Remove event listener
+   */
+  off<K extends keyof PushToTalkEvents>(event: K, listener: PushToTalkEvents[K]): void {
+    const listeners = this.eventListeners.get(event);
+    if (listeners) {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    }
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  /**
+   * End the capture once the user has been silent for the capture timeout
+   * Checked lazily so speech frames don't each reset a timer
+   */
+  private scheduleTimeout(userId: string, capture: Capture, delayMs: number): void {
+    if (this.config.captureTimeoutMs <= 0) return;
+
+    capture.timeout = setTimeout(() => {
+      const remaining = capture.lastSpeech + this.config.captureTimeoutMs - Date.now();
+      if (remaining > 0) {
+        this.scheduleTimeout(userId, capture, remaining);
+      } else {
+        this.end(userId, 'timeout');
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Emit event to listeners
+   */
+  private emit<K extends keyof PushToTalkEvents>(event: K, ...args: Parameters<PushToTalkEvents[K]>): void {
+    const listeners = this.eventListeners.get(event);
+    if (listeners) {
+      for (const listener of listeners) {
+        try {
+          (listener as any)(...args);
+        } catch (error) {
+          console.error(`Error in ${event} listener:`, error);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,531 @@
+/**
+ * Pluggable speech-to-text providers
+ * A registry maps provider types to factories and picks a provider per guild from config
+ */
+
+import WebSocket from 'ws';
+import { encodeWAV } from './AudioCodec.js';
+import { PipelineError, PipelineErrorCode } from './PipelineErrors.js';
+import { TranscriptionResult } from './types.js';
+import { WhisperAPIClient } from './WhisperAPIClient.js';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Per-request options
+ */
+export interface STTProviderOptions {
+  sampleRate: number; // Sample rate of the mono 16-bit PCM input
+  language?: string; // ISO-639-1 hint
+  onPartial?: (text: string) => void; // Interim hypotheses (streaming providers only)
+}
+
+/**
+ * Speech-to-text backend
+ * Input is mono 16-bit little-endian PCM
+ */
+export interface STTProvider {
+  readonly name: string;
+  readonly streaming: boolean; // Results arrive incrementally while audio is sent
+  transcribe(pcm: Buffer, options: STTProviderOptions): Promise<TranscriptionResult>;
+  checkHealth?(timeoutMs: number): Promise<void>; // Throws when the backend can't be reached
+  shutdown(): Promise<void>;
+}
+
+/**
+ * Provider configuration; `type` selects the registered factory
+ */
+export interface STTProviderConfig {
+  type: string;
+  [option: string]: unknown;
+}
+
+/**
+ * Hosted OpenAI Whisper API
+ */
+export interface WhisperAPIProviderConfig extends STTProviderConfig {
+  type: 'whisper-api';
+  apiKey: string;
+  baseUrl?: string; // Default: https://api.openai.com
+  model?: string; // Default: 'whisper-1'
+  timeoutMs?: number; // Default: 30000
+}
+
+/**
+ * Self-hosted whisper.cpp or faster-whisper HTTP server
+ */
+export interface LocalWhisperProviderConfig extends STTProviderConfig {
+  type: 'whisper-local';
+  baseUrl: string; // e.g. http://localhost:8080
+  server?: 'whisper.cpp' | 'faster-whisper'; // Default: 'whisper.cpp'
+  model?: string; // Model name for faster-whisper (whisper.cpp uses the model it was started with)
+  timeoutMs?: number; // Default: 30000
+}
+
+/**
+ * Streaming websocket recognizer
+ */
+export interface WebSocketSTTProviderConfig extends STTProviderConfig {
+  type: 'websocket';
+  url: string; // ws:// or wss:// endpoint
+  protocol?: 'deepgram' | 'vosk'; // Default: 'deepgram'
+  apiKey?: string; // Sent as 'Token <key>' (Deepgram) or 'Bearer <key>'
+  chunkMs?: number; // Audio sent per message, default 100ms
+  timeoutMs?: number; // Default: 30000
+}
+
+/**
+ * Provider selection: a default plus optional per-guild overrides
+ */
+export interface STTProviderSettings {
+  default: STTProviderConfig;
+  guilds?: Record<string, STTProviderConfig>; // guildId -> provider config
+}
+
+export type STTProviderFactory = (config: STTProviderConfig) => STTProvider;
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Reject audio that no provider can transcribe
+ */
+function validateAudio(pcm: Buffer, provider: string): void {
+  if (!pcm || pcm.length === 0 || pcm.length % 2 !== 0) {
+    throw new PipelineError(
+      PipelineErrorCode.STT_INVALID_AUDIO,
+      `${provider}: expected non-empty 16-bit PCM, got ${pcm?.length ?? 0} bytes`,
+      { phase: 'stt' },
+      false,
+    );
+  }
+}
+
+// ============================================
+// HTTP Whisper Providers
+// ============================================
+
+/**
+ * Uploads each utterance as a WAV file to a Whisper-compatible endpoint
+ */
+class WhisperHTTPProvider implements STTProvider {
+  readonly name: string;
+
+  readonly streaming = false;
+
+  private client: WhisperAPIClient;
+
+  constructor(name: string, client: WhisperAPIClient) {
+    this.name = name;
+    this.client = client;
+  }
+
+  async transcribe(pcm: Buffer, options: STTProviderOptions): Promise<TranscriptionResult> {
+    validateAudio(pcm, this.name);
+    const wav = encodeWAV(pcm, { sampleRate: options.sampleRate });
+    return this.client.transcribe(wav, { language: options.language });
+  }
+
+  async checkHealth(timeoutMs: number): Promise<void> {
+    await this.client.checkReachable(timeoutMs);
+  }
+
+  async shutdown(): Promise<void> {
+    // Stateless; nothing to release
+  }
+}
+
+/**
+ * Hosted Whisper API (OpenAI or a compatible proxy)
+ */
+export class WhisperAPIProvider extends WhisperHTTPProvider {
+  constructor(config: WhisperAPIProviderConfig) {
+    if (!config.apiKey) {
+      throw new Error('Whisper API provider requires an apiKey');
+    }
+
+    super(
+      'whisper-api',
+      new WhisperAPIClient({
+        baseUrl: config.baseUrl ?? 'https://api.openai.com',
+        apiKey: config.apiKey,
+        model: config.model,
+        timeoutMs: config.timeoutMs,
+      }),
+    );
+  }
+}
+
+/**
+ * Self-hosted Whisper server; audio never leaves the deployment
+ */
+export class LocalWhisperProvider extends WhisperHTTPProvider {
+  constructor(config: LocalWhisperProviderConfig) {
+    if (!config.baseUrl) {
+      throw new Error('Local Whisper provider requires a baseUrl');
+    }
+
+    // faster-whisper-server is OpenAI-compatible; whisper.cpp's server exposes /inference
+    const server = config.server ?? 'whisper.cpp';
+    super(
+      `whisper-local:${server}`,
+      new WhisperAPIClient({
+        baseUrl: config.baseUrl,
+        model: config.model,
+        timeoutMs: config.timeoutMs,
+        path: server === 'whisper.cpp' ? '/inference' : undefined,
+      }),
+    );
+  }
+}
+
+// ============================================
+// Streaming WebSocket Provider
+// ============================================
+
+/**
+ * Final recognition result for part of the utterance
+ */
+interface RecognizedSegment {
+  text: string;
+  confidence: number;
+  start: number; // ms
+  end: number; // ms
+}
+
+/**
+ * Streams PCM to a websocket recognizer (Deepgram live API or vosk-server)
+ * One connection per utterance; the server closes it after the final result
+ */
+export class WebSocketSTTProvider implements STTProvider {
+  readonly name: string;
+
+  readonly streaming = true;
+
+  private config: WebSocketSTTProviderConfig;
+
+  constructor(config: WebSocketSTTProviderConfig) {
+    if (!/^wss?:\/\//.test(config.url ?? '')) {
+      throw new Error('WebSocket STT provider requires a ws:// or wss:// url');
+    }
+
+    this.config = {
+      ...config,
+      protocol: config.protocol ?? 'deepgram',
+      chunkMs: config.chunkMs ?? 100,
+      timeoutMs: config.timeoutMs ?? 30000,
+    };
+    this.name = `websocket:${this.config.protocol}`;
+  }
+
+  async transcribe(pcm: Buffer, options: STTProviderOptions): Promise<TranscriptionResult> {
+    validateAudio(pcm, this.name);
+
+    const segments: RecognizedSegment[] = [];
+    const socket = new WebSocket(this.buildUrl(options), { headers: this.buildHeaders() });
+
+    return new Promise<TranscriptionResult>((resolve, reject) => {
+      let settled = false;
+
+      const finish = (error?: PipelineError) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeoutId);
+        if (socket.readyState !== WebSocket.CLOSED) {
+          socket.terminate();
+        }
+
+        if (error) {
+          reject(error);
+        } else {
+          resolve(this.toTranscriptionResult(segments, pcm, options));
+        }
+      };
+
+      const timeoutId = setTimeout(() => {
+        finish(
+          new PipelineError(
+            PipelineErrorCode.STT_TIMEOUT,
+            `Streaming transcription timed out after ${this.config.timeoutMs}ms`,
+            { phase: 'stt' },
+          ),
+        );
+      }, this.config.timeoutMs);
+
+      socket.on('open', () => this.sendAudio(socket, pcm, options));
+
+      socket.on('message', (data: WebSocket.RawData, isBinary: boolean) => {
+        if (isBinary) return;
+        try {
+          this.handleMessage(JSON.parse(data.toString()), segments, options);
+        } catch (error: any) {
+          finish(
+            new PipelineError(PipelineErrorCode.STT_API_ERROR, `Invalid recognizer message: ${error.message}`, {
+              phase: 'stt',
+              originalError: error,
+            }),
+          );
+        }
+      });
+
+      // Handshake rejected (bad key, quota, server down)
+      socket.on('unexpected-response', (_request, response) => {
+        const status = response.statusCode ?? 0;
+        finish(
+          new PipelineError(
+            status === 429 ? PipelineErrorCode.STT_RATE_LIMITED : PipelineErrorCode.STT_API_ERROR,
+            `Recognizer rejected connection: ${status} ${response.statusMessage ?? ''}`.trim(),
+            { phase: 'stt', metadata: { status, retryAfter: response.headers['retry-after'] } },
+            status === 429 || status >= 500,
+          ),
+        );
+      });
+
+      socket.on('error', (error) => {
+        finish(
+          new PipelineError(PipelineErrorCode.STT_API_ERROR, `Recognizer connection failed: ${error.message}`, {
+            phase: 'stt',
+            originalError: error,
+          }),
+        );
+      });
+
+      // The server closes the connection once it has sent the final result
+      socket.on('close', () => finish());
+    });
+  }
+
+  /**
+   * Open and drop a connection; the handshake shows the server is up and accepts the key
+   */
+  async checkHealth(timeoutMs: number): Promise<void> {
+    const socket = new WebSocket(this.buildUrl({ sampleRate: 16000 }), {
+      headers: this.buildHeaders(),
+      handshakeTimeout: timeoutMs,
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      socket.on('open', () => {
+        socket.terminate();
+        resolve();
+      });
+      socket.on('unexpected-response', (_request, response) => {
+        socket.terminate();
+        reject(
+          new Error(`Recognizer rejected connection: ${response.statusCode} ${response.statusMessage ?? ''}`.trim()),
+        );
+      });
+      socket.on('error', (error) => {
+        reject(new Error(`Recognizer unreachable: ${error.message}`));
+      });
+    });
+  }
+
+  async shutdown(): Promise<void> {
+    // Connections are per-utterance; nothing to release
+  }
+
+  private buildUrl(options: STTProviderOptions): string {
+    if (this.config.protocol !== 'deepgram') {
+      return this.config.url;
+    }
+
+    const url = new URL(this.config.url);
+    url.searchParams.set('encoding', 'linear16');
+    url.searchParams.set('sample_rate', String(options.sampleRate));
+    url.searchParams.set('channels', '1');
+    if (options.language) {
+      url.searchParams.set('language', options.language);
+    }
+    return url.toString();
+  }
+
+  private buildHeaders(): Record<string, string> {
+    if (!this.config.apiKey) return {};
+    const scheme = this.config.protocol === 'deepgram' ? 'Token' : 'Bearer';
+    return { Authorization: `${scheme} ${this.config.apiKey}` };
+  }
+
+  /**
+   * Send the utterance in chunks, then ask the server to finalize
+   */
+  private sendAudio(socket: WebSocket, pcm: Buffer, options: STTProviderOptions): void {
+    if (this.config.protocol === 'vosk') {
+      socket.send(JSON.stringify({ config: { sample_rate: options.sampleRate } }));
+    }
+
+    const chunkBytes = Math.max(2, Math.floor((options.sampleRate * this.config.chunkMs!) / 1000) * 2);
+    for (let offset = 0; offset < pcm.length; offset += chunkBytes) {
+      socket.send(pcm.subarray(offset, offset + chunkBytes));
+    }
+
+    socket.send(JSON.stringify(this.config.protocol === 'vosk' ? { eof: 1 } : { type: 'CloseStream' }));
+  }
+
+  private handleMessage(message: any, segments: RecognizedSegment[], options: STTProviderOptions): void {
+    if (this.config.protocol === 'vosk') {
+      // {"partial": "..."} while speaking, {"text": "...", "result": [{conf, start, end, word}]} when final
+      if (typeof message.partial === 'string') {
+        if (message.partial) options.onPartial?.(message.partial);
+      } else if (typeof message.text === 'string' && message.text) {
+        const words: { conf?: number; start?: number; end?: number }[] = message.result ?? [];
+        const confidence =
+          words.length > 0 ? words.reduce((sum, word) => sum + (word.conf ?? 1), 0) / words.length : 0.9;
+        segments.push({
+          text: message.text,
+          confidence,
+          start: Math.round((words[0]?.start ?? 0) * 1000),
+          end: Math.round((words[words.length - 1]?.end ?? 0) * 1000),
+        });
+      }
+      return;
+    }
+
+    // Deepgram: {"type": "Results", "is_final": bool, "start": s, "duration": s, "channel": {"alternatives": [...]}}
+    if (message.type !== 'Results') return;
+    const alternative = message.channel?.alternatives?.[0];
+    if (!alternative?.transcript) return;
+
+    if (message.is_final) {
+      const start = Math.round((message.start ?? 0) * 1000);
+      segments.push({
+        text: alternative.transcript,
+        confidence: alternative.confidence ?? 0.9,
+        start,
+        end: start + Math.round((message.duration ?? 0) * 1000),
+      });
+    } else {
+      options.onPartial?.(alternative.transcript);
+    }
+  }
+
+  private toTranscriptionResult(
+    segments: RecognizedSegment[],
+    pcm: Buffer,
+    options: STTProviderOptions,
+  ): TranscriptionResult {
+    const confidence =
+      segments.length > 0 ? segments.reduce((sum, segment) => sum + segment.confidence, 0) / segments.length : 0;
+
+    return {
+      text: segments
+        .map((segment) => segment.text.trim())
+        .join(' ')
+        .trim(),
+      language: options.language,
+      confidence: Math.max(0, Math.min(1, confidence)),
+      duration: Math.round((pcm.length / (options.sampleRate * 2)) * 1000),
+      timestamp: Date.now(),
+      segments:
+        segments.length > 0
+          ? segments.map((segment) => ({ start: segment.start, end: segment.end, text: segment.text.trim() }))
+          : undefined,
+    };
+  }
+}
+
+// ============================================
+// Registry
+// ============================================
+
+// Cache key for the provider used by guilds without an override
+const DEFAULT_PROVIDER_KEY = '*';
+
+/**
+ * Provider registry with per-guild selection
+ * Built-in types: 'whisper-api', 'whisper-local', 'websocket'
+ */
+export class STTProviderRegistry {
+  private factories = new Map<string, STTProviderFactory>();
+
+  private settings: STTProviderSettings | null;
+
+  // Provider instances, keyed by guildId (or the default key)
+  private providers = new Map<string, STTProvider>();
+
+  constructor(settings?: STTProviderSettings) {
+    this.settings = settings ?? null;
+
+    this.register('whisper-api', (config) => new WhisperAPIProvider(config as WhisperAPIProviderConfig));
+    this.register('whisper-local', (config) => new LocalWhisperProvider(config as LocalWhisperProviderConfig));
+    this.register('websocket', (config) => new WebSocketSTTProvider(config as WebSocketSTTProviderConfig));
+  }
+
+  /**
+   * Register (or replace) a provider type
+   */
+  register(type: string, factory: STTProviderFactory): void {
+    this.factories.set(type, factory);
+  }
+
+  /**
+   * Get registered provider types
+   */
+  getTypes(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Create a provider from config
+   */
+  create(config: STTProviderConfig): STTProvider {
+    const factory = this.factories.get(config.type);
+    if (!factory) {
+      throw new Error(`Unknown STT provider type: ${config.type}`);
+    }
+    return factory(config);
+  }
+
+  /**
+   * Replace the provider selection; existing providers are shut down
+   */
+  async configure(settings: STTProviderSettings): Promise<void> {
+    await this.shutdown();
+    this.settings = settings;
+  }
+
+  /**
+   * Check whether a provider selection is configured
+   */
+  isConfigured(): boolean {
+    return this.settings !== null;
+  }
+
+  /**
+   * Get the guilds with their own provider config
+   */
+  getOverrideGuilds(): string[] {
+    return Object.keys(this.settings?.guilds ?? {});
+  }
+
+  /**
+   * Get the provider for a guild (the default provider when the guild has no override)
+   */
+  getProvider(guildId?: string): STTProvider {
+    if (!this.settings) {
+      throw new Error('No STT providers configured');
+    }
+
+    const override = guildId ? this.settings.guilds?.[guildId] : undefined;
+    const key = override ? guildId! : DEFAULT_PROVIDER_KEY;
+
+    let provider = this.providers.get(key);
+    if (!provider) {
+      provider = this.create(override ?? this.settings.default);
+      this.providers.set(key, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Shut down all created providers
+   */
+  async shutdown(): Promise<void> {
+    const providers = Array.from(this.providers.values());
+    this.providers.clear();
+    await Promise.all(providers.map((provider) => provider.shutdown()));
+  }
+}
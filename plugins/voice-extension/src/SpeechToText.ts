@@ -5,6 +5,8 @@
 
 import * as crypto from 'crypto';
 import { VADConfig, VADResult, STTConfig, TranscriptionResult, STTStats } from './types';
+import { AudioCodec, OpusCodec, downmixToMono, encodeWAV, floatToPCM16 } from './AudioCodec.js';
+import { STTProvider, WhisperAPIProvider } from './STTProvider.js';
 
 /**
  * Voice Activity Detector - Detects when user is speaking
@@ -189,7 +191,15 @@ export class SpeechToText {
 
   private retryConfig = { maxRetries: 3, retryDelay: 100 };
 
-  constructor(config: STTConfig) {
+  // Real transcription backend (null = mocked transcription)
+  private provider: STTProvider | null;
+
+  private codec: AudioCodec | null;
+
+  // Codecs created here are destroyed on shutdown; injected codecs belong to the caller
+  private ownsCodec: boolean = false;
+
+  constructor(config: STTConfig, codec?: AudioCodec, provider?: STTProvider) {
     this.apiKey = config.apiKey;
     if (!this.apiKey) {
       throw new Error('API key is required');
@@ -201,6 +211,18 @@ export class SpeechToText {
     this.enableVAD = config.enableVAD ?? true;
     this.timeoutMs = config.timeoutMs ?? 30000;
     this.vad = new VoiceActivityDetector({ sampleRate: this.sampleRate });
+    this.codec = codec ?? null;
+    this.provider =
+      provider ??
+      (config.baseUrl
+        ? new WhisperAPIProvider({
+            type: 'whisper-api',
+            baseUrl: config.baseUrl,
+            apiKey: this.apiKey,
+            model: this.modelName,
+            timeoutMs: this.timeoutMs,
+          })
+        : null);
   }
 
   /**
@@ -232,6 +254,13 @@ export class SpeechToText {
     return this.sampleRate;
   }
 
+  /**
+   * Get the active transcription backend name ('mock' when none is configured)
+   */
+  public getProviderName(): string {
+    return this.provider?.name ?? 'mock';
+  }
+
   /**
    * Check if VAD is enabled
    */
@@ -240,24 +269,16 @@ export class SpeechToText {
   }
 
   /**
-   * Convert Opus-encoded audio to PCM buffer
+   * Convert Opus-encoded audio to mono PCM buffer
    */
   public async convertOpusToPCM(opusBuffer: Buffer): Promise<Buffer> {
     if (!opusBuffer || opusBuffer.length === 0) {
       throw new Error('Invalid Opus buffer');
     }
 
-    // Mock Opus decoding - in real implementation would use libopus
-    // Simulate decoding: Opus frames are typically 20-60 bytes, expand to PCM
-    const decodedSize = opusBuffer.length * 48; // Rough estimation
-    const pcm = Buffer.alloc(Math.min(decodedSize, this.sampleRate * 2 * 2)); // Max 2 seconds
-
-    // Simulate PCM data with simple pattern
-    for (let i = 0; i < pcm.length; i += 2) {
-      pcm.writeInt16LE(Math.floor(Math.random() * 32768) - 16384, i);
-    }
-
-    return pcm;
+    // Decode to mono 16-bit PCM, the format transcribe() and the providers expect
+    const codec = this.getCodec();
+    return floatToPCM16(downmixToMono(codec.decode(opusBuffer), codec.channels));
   }
 
   /**
@@ -267,61 +288,11 @@ export class SpeechToText {
     pcmBuffer: Buffer,
     options?: { sampleRate?: number; channels?: number; bitsPerSample?: number },
   ): Promise<Buffer> {
-    const sampleRate = options?.sampleRate ?? this.sampleRate;
-    const channels = options?.channels ?? 1;
-    const bitsPerSample = options?.bitsPerSample ?? 16;
-    const bytesPerSample = bitsPerSample / 8;
-
-    // Validate buffer
-    if (!pcmBuffer || pcmBuffer.length === 0) {
-      throw new Error('PCM buffer cannot be empty');
-    }
-    if (pcmBuffer.length % (channels * bytesPerSample) !== 0) {
-      throw new Error('Invalid PCM buffer format');
-    }
-
-    const byteRate = sampleRate * channels * bytesPerSample;
-    const blockAlign = channels * bytesPerSample;
-    const subChunk2Size = pcmBuffer.length;
-    const chunkSize = 36 + subChunk2Size;
-
-    const wav = Buffer.alloc(44 + subChunk2Size);
-    let offset = 0;
-
-    // RIFF header
-    wav.write('RIFF', offset);
-    offset += 4;
-    wav.writeUInt32LE(chunkSize, offset);
-    offset += 4;
-    wav.write('WAVE', offset);
-    offset += 4;
-
-    // fmt sub-chunk
-    wav.write('fmt ', offset);
-    offset += 4;
-    wav.writeUInt32LE(16, offset); // Sub-chunk size
-    offset += 4;
-    wav.writeUInt16LE(1, offset); // Audio format (1 = PCM)
-    offset += 2;
-    wav.writeUInt16LE(channels, offset);
-    offset += 2;
-    wav.writeUInt32LE(sampleRate, offset);
-    offset += 4;
-    wav.writeUInt32LE(byteRate, offset);
-    offset += 4;
-    wav.writeUInt16LE(blockAlign, offset);
-    offset += 2;
-    wav.writeUInt16LE(bitsPerSample, offset);
-    offset += 2;
-
-    // data sub-chunk
-    wav.write('data', offset);
-    offset += 4;
-    wav.writeUInt32LE(subChunk2Size, offset);
-    offset += 4;
-    pcmBuffer.copy(wav, offset);
-
-    return wav;
+    return encodeWAV(pcmBuffer, {
+      sampleRate: options?.sampleRate ?? this.sampleRate,
+      channels: options?.channels,
+      bitsPerSample: options?.bitsPerSample,
+    });
   }
 
   /**
@@ -337,9 +308,15 @@ export class SpeechToText {
   }
 
   /**
-   * Transcribe audio buffer using Whisper API (mocked)
+   * Transcribe audio buffer using Whisper API
+   * Mono 16-bit PCM in; mocked unless a provider or baseUrl is configured
+   * options.provider overrides the configured provider for this call (e.g. per-guild selection)
+   * A language of 'auto' sends no hint, so the detected language is reported in the result
    */
-  public async transcribe(audioBuffer: Buffer, options?: { language?: string }): Promise<TranscriptionResult> {
+  public async transcribe(
+    audioBuffer: Buffer,
+    options?: { language?: string; provider?: STTProvider },
+  ): Promise<TranscriptionResult> {
     if (this.apiError) {
       this.stats.errors++;
       throw new Error(`STT API Error: ${this.apiError}`);
@@ -350,9 +327,22 @@ export class SpeechToText {
     }
 
     const startTime = Date.now();
-    const language = options?.language ?? this.language;
+    const requested = options?.language ?? this.language;
+    const language = requested === 'auto' ? undefined : requested;
     const duration = (audioBuffer.length / (this.sampleRate * 2)) * 1000; // ms
 
+    const provider = options?.provider ?? this.provider;
+    if (provider) {
+      try {
+        const result = await provider.transcribe(audioBuffer, { sampleRate: this.sampleRate, language });
+        this.recordTranscription(startTime);
+        return result;
+      } catch (error) {
+        this.stats.errors++;
+        throw error;
+      }
+    }
+
     // Mock Whisper API call
     return new Promise((resolve, reject) => {
       let finished = false;
@@ -370,19 +360,7 @@ export class SpeechToText {
         clearTimeout(timeout);
         finished = true;
 
-        const latency = Date.now() - startTime;
-        this.latencies.push(latency);
-        if (this.latencies.length > 100) {
-          this.latencies.shift();
-        }
-
-        // Update statistics
-        this.stats.transcribed++;
-        this.stats.totalFrames++;
-        this.stats.avgLatencyMs = this.latencies.reduce((a, b) => a + b, 0) / this.latencies.length;
-        this.stats.framesPerSecond = 1000 / this.stats.avgLatencyMs;
-        this.stats.memoryMb = process.memoryUsage().heapUsed / (1024 * 1024);
-        this.stats.lastTranscription = Date.now();
+        this.recordTranscription(startTime);
 
         // Mock transcription result
         const result: TranscriptionResult = {
@@ -398,6 +376,24 @@ export class SpeechToText {
     });
   }
 
+  /**
+   * Update statistics after a successful transcription
+   */
+  private recordTranscription(startTime: number): void {
+    const latency = Date.now() - startTime;
+    this.latencies.push(latency);
+    if (this.latencies.length > 100) {
+      this.latencies.shift();
+    }
+
+    this.stats.transcribed++;
+    this.stats.totalFrames++;
+    this.stats.avgLatencyMs = this.latencies.reduce((a, b) => a + b, 0) / this.latencies.length;
+    this.stats.framesPerSecond = 1000 / Math.max(1, this.stats.avgLatencyMs);
+    this.stats.memoryMb = process.memoryUsage().heapUsed / (1024 * 1024);
+    this.stats.lastTranscription = Date.now();
+  }
+
   /**
    * Batch transcribe multiple audio segments
    */
@@ -513,6 +509,24 @@ export class SpeechToText {
     this.ready = false;
     this.accumulatedFrames = [];
     this.vad.reset();
+
+    if (this.codec && this.ownsCodec) {
+      this.codec.destroy();
+      this.codec = null;
+      this.ownsCodec = false;
+    }
+  }
+
+  /**
+   * Get the Opus codec, creating it on first use
+   */
+  private getCodec(): AudioCodec {
+    if (!this.codec) {
+      // libopus downmixes Discord's stereo packets when decoding to one channel
+      this.codec = new OpusCodec({ sampleRate: this.sampleRate, channels: 1, frameSize: this.sampleRate / 50 });
+      this.ownsCodec = true;
+    }
+    return this.codec;
   }
 }
 
@@ -0,0 +1,296 @@
+/**
+ * Additional TTS providers for failover behind ElevenLabs
+ * - OpenAI-compatible /v1/audio/speech endpoints (OpenAI, openedai-speech, Kokoro-FastAPI)
+ * - Local synthesis processes (Piper, espeak-ng)
+ */
+
+import { spawn } from 'child_process';
+import { decodeWAV, encodeWAV, resamplePCM16 } from './AudioCodec.js';
+import { TTSConfig, TTSError, TTSErrorCode, TTSProvider } from './TextToSpeech.js';
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Convert mono 16-bit PCM from a provider's native rate to the configured output format
+ */
+function formatPCMOutput(pcm: Buffer, sourceRate: number, config: TTSConfig, provider: string): Buffer {
+  const resampled = resamplePCM16(pcm, sourceRate, config.sampleRate);
+
+  if (config.format === 'pcm') return resampled;
+  if (config.format === 'wav') return encodeWAV(resampled, { sampleRate: config.sampleRate });
+
+  throw new TTSError(TTSErrorCode.INVALID_AUDIO_FORMAT, `${provider} cannot produce '${config.format}' audio`, {
+    recoverable: false,
+  });
+}
+
+// ============================================
+// OpenAI-compatible Speech Provider
+// ============================================
+
+/**
+ * OpenAI-compatible speech endpoint configuration
+ */
+export interface OpenAISpeechProviderConfig {
+  baseUrl?: string; // Default: https://api.openai.com
+  apiKey?: string; // Sent as a Bearer token when set
+  model?: string; // Default: 'tts-1'
+  voice?: string; // Default: 'alloy' (the TTS voiceId belongs to the primary provider)
+  name?: string; // Default: 'openai'
+}
+
+// /v1/audio/speech returns 24kHz mono 16-bit PCM for response_format=pcm
+const OPENAI_PCM_SAMPLE_RATE = 24000;
+
+/**
+ * POST /v1/audio/speech provider
+ */
+export class OpenAISpeechProvider implements TTSProvider {
+  readonly name: string;
+
+  private config: OpenAISpeechProviderConfig;
+
+  private endpoint: string;
+
+  constructor(config: OpenAISpeechProviderConfig = {}) {
+    this.config = config;
+    this.name = config.name ?? 'openai';
+
+    // Accept base URLs with or without a trailing /v1
+    const base = (config.baseUrl ?? 'https://api.openai.com').replace(/\/+$/, '').replace(/\/v1$/, '');
+    this.endpoint = `${base}/v1/audio/speech`;
+  }
+
+  async synthesize(text: string, voiceId: string, config: TTSConfig): Promise<Buffer> {
+    const timeoutMs = config.timeoutMs ?? 5000;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(this.endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: this.config.model ?? 'tts-1',
+            voice: this.config.voice ?? 'alloy',
+            input: text,
+            response_format: config.format === 'opus' ? 'opus' : 'pcm',
+            ...(config.speakingRate !== undefined ? { speed: config.speakingRate } : {}),
+          }),
+          signal: controller.signal,
+        });
+      } catch (error: any) {
+        if (error.name === 'AbortError') {
+          throw new TTSError(TTSErrorCode.TIMEOUT, `${this.name} request timed out after ${timeoutMs}ms`);
+        }
+        throw new TTSError(
+          TTSErrorCode.NETWORK_ERROR,
+          `${this.name} request failed: ${error.cause?.message ?? error.message}`,
+        );
+      }
+
+      if (!response.ok) {
+        throw await this.mapHttpError(response);
+      }
+
+      let audio: Buffer;
+      try {
+        audio = Buffer.from(await response.arrayBuffer());
+      } catch (error: any) {
+        throw new TTSError(
+          error.name === 'AbortError' ? TTSErrorCode.TIMEOUT : TTSErrorCode.NETWORK_ERROR,
+          `${this.name} response failed: ${error.message}`,
+        );
+      }
+
+      // Ogg Opus is passed through untouched
+      return config.format === 'opus' ? audio : formatPCMOutput(audio, OPENAI_PCM_SAMPLE_RATE, config, this.name);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Get the resolved speech endpoint URL
+   */
+  getEndpoint(): string {
+    return this.endpoint;
+  }
+
+  /**
+   * Map an HTTP error status to a TTS error
+   * OpenAI reports exhausted credit as 429 with code 'insufficient_quota'
+   */
+  private async mapHttpError(response: Response): Promise<TTSError> {
+    const raw = await response.text().catch(() => '');
+    let code: string | undefined;
+    let detail = raw.slice(0, 200);
+    try {
+      const body = JSON.parse(raw);
+      code = body.error?.code ?? body.error?.type;
+      detail = body.error?.message ?? detail;
+    } catch {
+      // Not JSON; keep the raw text
+    }
+
+    const message = `${this.name} API error: ${response.status}${detail ? ` - ${detail}` : ''}`;
+    const context = { status: response.status, errorCode: code };
+
+    if (code === 'insufficient_quota') {
+      return new TTSError(TTSErrorCode.API_QUOTA_EXCEEDED, message, { context, recoverable: false });
+    }
+    if (response.status === 401 || response.status === 403) {
+      return new TTSError(TTSErrorCode.INVALID_CONFIG, message, { context, recoverable: false });
+    }
+    if (response.status === 400 || response.status === 422) {
+      return new TTSError(TTSErrorCode.INVALID_INPUT, message, { context, recoverable: false });
+    }
+    return new TTSError(TTSErrorCode.API_ERROR, message, { context, recoverable: true });
+  }
+}
+
+// ============================================
+// Local Process Provider
+// ============================================
+
+/**
+ * Local synthesis process configuration
+ * The text is written to the process's stdin; audio is read from stdout
+ */
+export interface LocalProcessTTSProviderConfig {
+  command: string;
+  args?: string[];
+  output: 'raw' | 'wav'; // raw = mono 16-bit little-endian PCM
+  sampleRate?: number; // Sample rate of raw output (default: 22050)
+  name?: string; // Default: the command name
+}
+
+/**
+ * Runs a local TTS engine per utterance; no network dependency
+ */
+export class LocalProcessTTSProvider implements TTSProvider {
+  readonly name: string;
+
+  private config: LocalProcessTTSProviderConfig;
+
+  constructor(config: LocalProcessTTSProviderConfig) {
+    if (!config.command) {
+      throw new Error('Local TTS provider requires a command');
+    }
+
+    this.config = config;
+    this.name = config.name ?? config.command;
+  }
+
+  /**
+   * Piper with an ONNX voice model (raw output at the model's sample rate)
+   */
+  static piper(model: string, options: { command?: string; sampleRate?: number } = {}): LocalProcessTTSProvider {
+    return new LocalProcessTTSProvider({
+      name: 'piper',
+      command: options.command ?? 'piper',
+      args: ['--model', model, '--output_raw'],
+      output: 'raw',
+      sampleRate: options.sampleRate ?? 22050,
+    });
+  }
+
+  /**
+   * espeak-ng (WAV on stdout)
+   */
+  static espeak(voice: string = 'en', options: { command?: string } = {}): LocalProcessTTSProvider {
+    return new LocalProcessTTSProvider({
+      name: 'espeak',
+      command: options.command ?? 'espeak-ng',
+      args: ['--stdout', '-v', voice],
+      output: 'wav',
+    });
+  }
+
+  async synthesize(text: string, voiceId: string, config: TTSConfig): Promise<Buffer> {
+    const output = await this.run(text, config.timeoutMs ?? 5000);
+
+    if (this.config.output === 'wav') {
+      let wav: ReturnType<typeof decodeWAV>;
+      try {
+        wav = decodeWAV(output);
+      } catch (error: any) {
+        throw new TTSError(TTSErrorCode.INVALID_AUDIO_FORMAT, `${this.name} produced invalid WAV: ${error.message}`, {
+          recoverable: false,
+        });
+      }
+      if (wav.channels !== 1) {
+        throw new TTSError(TTSErrorCode.INVALID_AUDIO_FORMAT, `${this.name} produced ${wav.channels}-channel audio`, {
+          recoverable: false,
+        });
+      }
+      return formatPCMOutput(wav.pcm, wav.sampleRate, config, this.name);
+    }
+
+    return formatPCMOutput(output, this.config.sampleRate ?? 22050, config, this.name);
+  }
+
+  /**
+   * Run the process once and collect stdout
+   */
+  private run(text: string, timeoutMs: number): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.config.command, this.config.args ?? [], { stdio: ['pipe', 'pipe', 'pipe'] });
+      const stdout: Buffer[] = [];
+      let stderr = '';
+      let settled = false;
+
+      const finish = (error: TTSError | null, audio?: Buffer) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeoutId);
+        if (error) reject(error);
+        else resolve(audio!);
+      };
+
+      const timeoutId = setTimeout(() => {
+        child.kill('SIGKILL');
+        finish(new TTSError(TTSErrorCode.TIMEOUT, `${this.name} did not finish within ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => {
+        stderr += chunk.toString();
+      });
+
+      // Missing binary or permissions: retrying will not help
+      child.on('error', (error) => {
+        finish(
+          new TTSError(TTSErrorCode.API_ERROR, `${this.name} failed to start: ${error.message}`, {
+            recoverable: false,
+          }),
+        );
+      });
+
+      child.on('close', (code) => {
+        const audio = Buffer.concat(stdout);
+        if (code !== 0 || audio.length === 0) {
+          finish(
+            new TTSError(
+              TTSErrorCode.API_ERROR,
+              `${this.name} exited with code ${code}${stderr ? `: ${stderr.trim().slice(0, 200)}` : ''}`,
+            ),
+          );
+        } else {
+          finish(null, audio);
+        }
+      });
+
+      // The process may exit before reading stdin; 'close' reports the failure
+      child.stdin.on('error', () => {});
+      child.stdin.end(`${text}\n`);
+    });
+  }
+}
@@ -4,6 +4,9 @@
  * Integrates with Phase 3 AudioStreamHandler for Opus encoding
  */
 
+import { AudioCodec, OpusCodec } from './AudioCodec.js';
+import { ElevenLabsAPIClient } from './ElevenLabsAPIClient.js';
+
 // ============================================
 // Type Definitions
 // ============================================
@@ -19,10 +22,13 @@ export interface TTSConfig {
   format: 'wav' | 'pcm' | 'opus';
   stability?: number;
   similarity?: number;
+  speakingRate?: number; // Speech speed multiplier, 1 = normal (provider default when unset)
   enableCaching?: boolean;
   cacheSize?: number;
   maxRetries?: number;
   timeoutMs?: number;
+  baseUrl?: string; // ElevenLabs API base URL (synthesis is mocked when unset)
+  failoverCooldownMs?: number; // Default: 30000 (how long a failed provider is skipped)
 }
 
 /**
@@ -32,6 +38,7 @@ export interface TTSVoiceProfile {
   voiceId: string;
   stability?: number;
   similarity?: number;
+  speakingRate?: number;
 }
 
 /**
@@ -57,6 +64,7 @@ export interface TTSResponse {
   channels: number;
   format: string;
   timestamp: number;
+  provider?: string; // Provider that produced the audio
 }
 
 /**
@@ -74,6 +82,14 @@ export enum TTSErrorCode {
   INVALID_CONFIG = 1009,
 }
 
+// Provider failures that move synthesis on to the next provider
+const FAILOVER_CODES = new Set([
+  TTSErrorCode.API_ERROR,
+  TTSErrorCode.TIMEOUT,
+  TTSErrorCode.API_QUOTA_EXCEEDED,
+  TTSErrorCode.NETWORK_ERROR,
+]);
+
 /**
  * TTS Error with context
  */
@@ -118,6 +134,21 @@ export interface TTSStats {
   totalDuration: number;
   avgDuration: number;
   totalEncoded: number;
+  providers: TTSProviderHealth[]; // In failover order
+}
+
+/**
+ * Per-provider health
+ */
+export interface TTSProviderHealth {
+  name: string;
+  healthy: boolean; // false while the provider is skipped after failing
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  lastError?: string;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
 }
 
 /**
@@ -126,11 +157,28 @@ export interface TTSStats {
 export type ErrorHandler = (error: TTSError) => void;
 
 // ============================================
-// ElevenLabs API Interface
+// Provider Interfaces
 // ============================================
 
 export interface IElevenLabsAPI {
   synthesize(text: string, voiceId: string, config: TTSConfig): Promise<Buffer>;
+  synthesizeStream?(text: string, voiceId: string, config: TTSConfig): AsyncIterable<Buffer>;
+}
+
+/**
+ * Named speech synthesis backend; TextToSpeech tries providers in order
+ */
+export interface TTSProvider extends IElevenLabsAPI {
+  readonly name: string;
+}
+
+/**
+ * Provider with its health tracking
+ */
+interface ProviderState {
+  provider: IElevenLabsAPI;
+  health: Omit<TTSProviderHealth, 'healthy'>;
+  skipUntil: number; // Failover cooldown end (0 = healthy)
 }
 
 // ============================================
@@ -140,7 +188,7 @@ export interface IElevenLabsAPI {
 export class TextToSpeech {
   private config: TTSConfig;
 
-  private api: IElevenLabsAPI;
+  private providers: ProviderState[];
 
   private cache: Map<string, TTSResponse>;
 
@@ -148,7 +196,7 @@ export class TextToSpeech {
 
   private lastError: TTSError | null = null;
 
-  private stats: TTSStats = {
+  private stats: Omit<TTSStats, 'providers'> = {
     totalSynthesized: 0,
     totalErrors: 0,
     cacheHits: 0,
@@ -160,16 +208,36 @@ export class TextToSpeech {
 
   private currentVoiceProfile: TTSVoiceProfile;
 
-  private opusEncoder: any = null;
+  private codec: AudioCodec | null;
+
+  // Codecs created here are destroyed on shutdown; injected codecs belong to the caller
+  private ownsCodec: boolean = false;
 
   /**
    * Constructor
+   * Pass one API, or an ordered list of providers to fail over between
    */
-  constructor(config: TTSConfig, api?: IElevenLabsAPI) {
+  constructor(config: TTSConfig, api?: IElevenLabsAPI | TTSProvider[], codec?: AudioCodec) {
     this.validateConfig(config);
     this.config = config;
-    this.api = api || this.createDefaultAPI();
+
+    const providers = Array.isArray(api) ? api : [api || this.createDefaultAPI()];
+    if (providers.length === 0) {
+      throw new TTSError(TTSErrorCode.INVALID_CONFIG, 'At least one TTS provider is required');
+    }
+    this.providers = providers.map((provider, index) => ({
+      provider,
+      health: {
+        name: (provider as Partial<TTSProvider>).name ?? (index === 0 ? 'elevenlabs' : `provider-${index}`),
+        consecutiveFailures: 0,
+        totalRequests: 0,
+        totalFailures: 0,
+      },
+      skipUntil: 0,
+    }));
+
     this.cache = new Map();
+    this.codec = codec ?? null;
 
     this.currentVoiceProfile = {
       voiceId: config.voiceId,
@@ -196,10 +264,13 @@ export class TextToSpeech {
   }
 
   /**
-   * Create default API instance (with real ElevenLabs integration)
+   * Create default API instance (real ElevenLabs client when a baseUrl is configured)
    */
   private createDefaultAPI(): IElevenLabsAPI {
-    // In real implementation, this would integrate with ElevenLabs API
+    if (this.config.baseUrl) {
+      return new ElevenLabsAPIClient({ baseUrl: this.config.baseUrl });
+    }
+
     return {
       async synthesize(text: string, voiceId: string, config: TTSConfig): Promise<Buffer> {
         // Mock implementation - real version calls ElevenLabs
@@ -226,7 +297,7 @@ export class TextToSpeech {
       const profile = voiceProfile ?? this.currentVoiceProfile;
 
       // Cache key must include all parameters that affect synthesis
-      const cacheKey = `${text}:${profile.voiceId}:${profile.stability}:${profile.similarity}:${this.config.modelId}:${this.config.format}`;
+      const cacheKey = `${text}:${profile.voiceId}:${profile.stability}:${profile.similarity}:${profile.speakingRate}:${this.config.modelId}:${this.config.format}`;
 
       // Check cache
       if (this.config.enableCaching !== false) {
@@ -238,30 +309,7 @@ export class TextToSpeech {
         this.stats.cacheMisses++;
       }
 
-      // Call API with retry logic
-      let audioBuffer: Buffer | null = null;
-      let lastError: Error | null = null;
-
-      for (let attempt = 0; attempt <= (this.config.maxRetries ?? 3); attempt++) {
-        try {
-          audioBuffer = await this.callAPIWithTimeout(text, profile.voiceId);
-          break;
-        } catch (error: any) {
-          lastError = error;
-          if (attempt < (this.config.maxRetries ?? 3)) {
-            // Wait before retry (exponential backoff)
-            await this.delay(2 ** attempt * 100);
-          }
-        }
-      }
-
-      if (!audioBuffer) {
-        throw new TTSError(TTSErrorCode.API_ERROR, `Synthesis failed: ${lastError?.message}`, {
-          context: { text: text.slice(0, 50), voiceId: profile.voiceId },
-          recoverable: true,
-          retryCount: this.config.maxRetries ?? 3,
-        });
-      }
+      const { audio: audioBuffer, provider } = await this.synthesizeWithFailover(text, profile);
 
       // Create response
       const duration = this.estimateDuration(audioBuffer);
@@ -276,6 +324,7 @@ export class TextToSpeech {
         channels: 2, // Stereo for Discord
         format: this.config.format,
         timestamp: Date.now(),
+        provider,
       };
 
       // Cache result
@@ -290,12 +339,7 @@ export class TextToSpeech {
 
       return response;
     } catch (error: any) {
-      const ttsError =
-        error instanceof TTSError
-          ? error
-          : new TTSError(TTSErrorCode.API_ERROR, error.message, {
-              recoverable: true,
-            });
+      const ttsError = this.toTTSError(error);
 
       this.lastError = ttsError;
       this.stats.totalErrors++;
@@ -305,13 +349,194 @@ export class TextToSpeech {
     }
   }
 
+  /**
+   * Synthesize a stream of sentences in arrival order
+   * Each sentence's audio is yielded as soon as it is ready, so playback can
+   * start while later sentences are still being generated
+   */
+  async *synthesizeStream(
+    sentences: AsyncIterable<string>,
+    voiceProfile?: TTSVoiceProfile,
+  ): AsyncGenerator<TTSResponse> {
+    for await (const sentence of sentences) {
+      if (sentence.trim().length > 0) {
+        yield await this.synthesize(sentence, voiceProfile);
+      }
+    }
+  }
+
+  /**
+   * Stream the audio for one piece of text as the API delivers it
+   * APIs without streaming support yield the complete audio as a single chunk
+   * Streamed audio bypasses the cache
+   */
+  async *synthesizeAudioStream(text: string, voiceProfile?: TTSVoiceProfile): AsyncGenerator<Buffer> {
+    if (!text || text.trim().length === 0) {
+      throw new TTSError(TTSErrorCode.INVALID_INPUT, 'Text cannot be empty');
+    }
+    if (text.length > 5000) {
+      throw new TTSError(TTSErrorCode.TEXT_TOO_LONG, 'Text exceeds 5000 character limit');
+    }
+
+    const profile = voiceProfile ?? this.currentVoiceProfile;
+    const [primary] = this.getProviderOrder();
+
+    if (primary.provider.synthesizeStream) {
+      let streamed = false;
+      try {
+        const chunks = primary.provider.synthesizeStream(text, profile.voiceId, this.getRequestConfig(profile));
+        for await (const chunk of chunks) {
+          streamed = true;
+          yield chunk;
+        }
+        this.recordProviderSuccess(primary);
+        this.stats.totalSynthesized++;
+        return;
+      } catch (error: any) {
+        const ttsError = this.toTTSError(error);
+        this.recordProviderFailure(primary, ttsError);
+
+        // Audio already played can't be taken back, so only fail over before the first chunk
+        if (streamed || !FAILOVER_CODES.has(ttsError.code)) {
+          this.lastError = ttsError;
+          this.stats.totalErrors++;
+          this.notifyErrors(ttsError);
+          throw ttsError;
+        }
+      }
+    }
+
+    // No streaming support (or the streaming provider failed): synthesize in one piece
+    yield (await this.synthesize(text, profile)).audio as Buffer;
+  }
+
+  /**
+   * Try each provider in order, moving on when one keeps failing with a failover error
+   */
+  private async synthesizeWithFailover(
+    text: string,
+    profile: TTSVoiceProfile,
+  ): Promise<{ audio: Buffer; provider: string }> {
+    let lastError: TTSError | null = null;
+
+    for (const state of this.getProviderOrder()) {
+      try {
+        const audio = await this.synthesizeWithRetry(state, text, profile);
+        this.recordProviderSuccess(state);
+        return { audio, provider: state.health.name };
+      } catch (error: any) {
+        lastError = this.toTTSError(error);
+        this.recordProviderFailure(state, lastError);
+
+        if (!FAILOVER_CODES.has(lastError.code)) {
+          throw lastError;
+        }
+      }
+    }
+
+    throw lastError!;
+  }
+
+  /**
+   * Call one provider, retrying recoverable failures with exponential backoff
+   */
+  private async synthesizeWithRetry(state: ProviderState, text: string, profile: TTSVoiceProfile): Promise<Buffer> {
+    const maxRetries = this.config.maxRetries ?? 3;
+    let lastError: Error | null = null;
+    let retries = 0;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        return await this.callAPIWithTimeout(state.provider, text, profile);
+      } catch (error: any) {
+        lastError = error;
+        // Quota, auth and bad-input errors fail the same way on every attempt
+        if (error instanceof TTSError && !error.recoverable) {
+          break;
+        }
+        if (attempt < maxRetries) {
+          // Wait before retry (exponential backoff)
+          retries++;
+          await this.delay(2 ** attempt * 100);
+        }
+      }
+    }
+
+    const context = { text: text.slice(0, 50), voiceId: profile.voiceId, provider: state.health.name };
+
+    // Keep the provider's error code (quota, network, timeout)
+    if (lastError instanceof TTSError) {
+      lastError.retryCount = retries;
+      lastError.context = { ...lastError.context, ...context };
+      throw lastError;
+    }
+    throw new TTSError(TTSErrorCode.API_ERROR, `Synthesis failed: ${lastError?.message}`, {
+      context,
+      recoverable: true,
+      retryCount: retries,
+    });
+  }
+
+  /**
+   * Providers to try, in order; providers cooling down after a failure are skipped
+   * unless every provider is cooling down
+   */
+  private getProviderOrder(): ProviderState[] {
+    const now = Date.now();
+    const available = this.providers.filter((state) => state.skipUntil <= now);
+    return available.length > 0 ? available : this.providers;
+  }
+
+  private recordProviderSuccess(state: ProviderState): void {
+    state.health.totalRequests++;
+    state.health.consecutiveFailures = 0;
+    state.health.lastSuccessAt = Date.now();
+    state.skipUntil = 0;
+  }
+
+  private recordProviderFailure(state: ProviderState, error: TTSError): void {
+    state.health.totalRequests++;
+    state.health.totalFailures++;
+    state.health.consecutiveFailures++;
+    state.health.lastError = error.message;
+    state.health.lastFailureAt = Date.now();
+
+    if (FAILOVER_CODES.has(error.code)) {
+      state.skipUntil = Date.now() + (this.config.failoverCooldownMs ?? 30000);
+    }
+  }
+
+  private toTTSError(error: any): TTSError {
+    return error instanceof TTSError
+      ? error
+      : new TTSError(TTSErrorCode.API_ERROR, error.message, {
+          recoverable: true,
+        });
+  }
+
   /**
    * Call API with timeout
    */
-  private async callAPIWithTimeout(text: string, voiceId: string): Promise<Buffer> {
+  private async callAPIWithTimeout(api: IElevenLabsAPI, text: string, profile: TTSVoiceProfile): Promise<Buffer> {
     const timeoutMs = this.config.timeoutMs ?? 5000;
 
-    return Promise.race([this.api.synthesize(text, voiceId, this.config), this.timeoutPromise(timeoutMs)]);
+    return Promise.race([
+      api.synthesize(text, profile.voiceId, this.getRequestConfig(profile)),
+      this.timeoutPromise(timeoutMs),
+    ]);
+  }
+
+  /**
+   * Config sent to the API, with the voice profile's settings applied
+   */
+  private getRequestConfig(profile: TTSVoiceProfile): TTSConfig {
+    return {
+      ...this.config,
+      voiceId: profile.voiceId,
+      stability: profile.stability ?? this.config.stability,
+      similarity: profile.similarity ?? this.config.similarity,
+      speakingRate: profile.speakingRate ?? this.config.speakingRate,
+    };
   }
 
   /**
@@ -374,15 +599,7 @@ export class TextToSpeech {
         throw new TTSError(TTSErrorCode.INVALID_AUDIO_FORMAT, `PCM data must be 1920 samples (got ${pcmData.length})`);
       }
 
-      // Mock Opus encoding - in real implementation, uses libopus
-      // Typically produces 20-60 byte Opus packets for 20ms frames
-      const mockOpusSize = Math.floor(Math.random() * 40) + 20;
-      const opusBuffer = new Uint8Array(mockOpusSize);
-
-      // Fill with pseudo-random but deterministic data
-      for (let i = 0; i < opusBuffer.length; i++) {
-        opusBuffer[i] = (pcmData[i * 2] * 127) & 0xff;
-      }
+      const opusBuffer = this.getCodec().encode(pcmData);
 
       this.stats.totalEncoded++;
       return opusBuffer;
@@ -395,6 +612,17 @@ export class TextToSpeech {
     }
   }
 
+  /**
+   * Get the Opus codec, creating it on first use (20ms stereo frames)
+   */
+  private getCodec(): AudioCodec {
+    if (!this.codec) {
+      this.codec = new OpusCodec({ sampleRate: this.config.sampleRate, channels: 2, frameSize: 960 });
+      this.ownsCodec = true;
+    }
+    return this.codec;
+  }
+
   /**
    * Convert WAV buffer to PCM Float32Array
    * Extracts raw audio from WAV format
@@ -440,6 +668,7 @@ export class TextToSpeech {
       voiceId: profile.voiceId,
       stability: profile.stability ?? 0.5,
       similarity: profile.similarity ?? 0.75,
+      speakingRate: profile.speakingRate,
     };
   }
 
@@ -461,7 +690,11 @@ export class TextToSpeech {
    * Get statistics
    */
   getStats(): TTSStats {
-    return { ...this.stats };
+    const now = Date.now();
+    return {
+      ...this.stats,
+      providers: this.providers.map((state) => ({ ...state.health, healthy: state.skipUntil <= now })),
+    };
   }
 
   /**
@@ -477,6 +710,15 @@ export class TextToSpeech {
       avgDuration: 0,
       totalEncoded: 0,
     };
+
+    for (const state of this.providers) {
+      state.health = {
+        name: state.health.name,
+        consecutiveFailures: 0,
+        totalRequests: 0,
+        totalFailures: 0,
+      };
+    }
   }
 
   /**
@@ -528,9 +770,10 @@ export class TextToSpeech {
     this.cache.clear();
     this.errorCallbacks = [];
     this.lastError = null;
-    if (this.opusEncoder) {
-      this.opusEncoder.destroy?.();
-      this.opusEncoder = null;
+    if (this.codec && this.ownsCodec) {
+      this.codec.destroy();
+      this.codec = null;
+      this.ownsCodec = false;
     }
   }
 
@@ -0,0 +1,317 @@
+/**
+ * Request tracing
+ * Minimal OpenTelemetry-compatible tracer: spans with W3C trace context, batched and exported
+ * to a collector over OTLP/HTTP (JSON encoding)
+ */
+
+import { randomBytes } from 'node:crypto';
+
+// ============================================
+// Types and Interfaces
+// ============================================
+
+/**
+ * Tracing configuration
+ */
+export interface TracingConfig {
+  endpoint: string; // OTLP/HTTP collector, e.g. http://localhost:4318 (spans go to /v1/traces)
+  serviceName?: string; // Default: 'openclaw-discord-voice'
+  headers?: Record<string, string>; // Extra export headers (e.g. collector auth)
+  maxBatchSize?: number; // Spans per export (default: 100)
+  flushIntervalMs?: number; // Export interval for partial batches (default: 5000)
+  timeoutMs?: number; // Export request timeout (default: 10000)
+}
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+/**
+ * A finished span
+ */
+export interface SpanData {
+  traceId: string; // 32 hex characters
+  spanId: string; // 16 hex characters
+  parentSpanId?: string;
+  name: string;
+  kind: 'internal' | 'client';
+  startTime: number; // Unix ms
+  endTime: number;
+  attributes: SpanAttributes;
+  status: 'unset' | 'ok' | 'error';
+  statusMessage?: string;
+}
+
+/**
+ * Options for starting a span
+ */
+export interface SpanOptions {
+  parent?: Span; // Default: start a new trace
+  kind?: SpanData['kind']; // Default: 'internal'; 'client' for outgoing calls
+  attributes?: SpanAttributes;
+  startTime?: number; // Unix ms (default: now)
+}
+
+/**
+ * Receives finished spans in batches
+ */
+export interface SpanExporter {
+  export(spans: SpanData[]): Promise<void>;
+  shutdown(): Promise<void>;
+}
+
+// OTLP enum values
+const OTLP_SPAN_KIND = { internal: 1, client: 3 } as const;
+const OTLP_STATUS_CODE = { unset: 0, ok: 1, error: 2 } as const;
+
+// ============================================
+// Span
+// ============================================
+
+export class Span {
+  readonly traceId: string;
+
+  readonly spanId: string;
+
+  readonly parentSpanId?: string;
+
+  readonly name: string;
+
+  private data: SpanData;
+
+  private ended: boolean = false;
+
+  private onEnd: (span: SpanData) => void;
+
+  constructor(name: string, options: SpanOptions, onEnd: (span: SpanData) => void) {
+    this.name = name;
+    this.traceId = options.parent?.traceId ?? randomBytes(16).toString('hex');
+    this.spanId = randomBytes(8).toString('hex');
+    this.parentSpanId = options.parent?.spanId;
+    this.onEnd = onEnd;
+    this.data = {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name,
+      kind: options.kind ?? 'internal',
+      startTime: options.startTime ?? Date.now(),
+      endTime: 0,
+      attributes: { ...options.attributes },
+      status: 'unset',
+    };
+  }
+
+  /**
+   * Set an attribute (ignored once the span has ended)
+   */
+  setAttribute(key: string, value: SpanAttributeValue | undefined): void {
+    if (!this.ended && value !== undefined) {
+      this.data.attributes[key] = value;
+    }
+  }
+
+  /**
+   * Mark the span as failed
+   */
+  setError(message: string): void {
+    if (!this.ended) {
+      this.data.status = 'error';
+      this.data.statusMessage = message;
+    }
+  }
+
+  /**
+   * Finish the span and hand it to the exporter (later calls are ignored)
+   */
+  end(endTime: number = Date.now()): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.data.endTime = endTime;
+    this.onEnd({ ...this.data, attributes: { ...this.data.attributes } });
+  }
+
+  /**
+   * W3C traceparent header value, so downstream services join this trace
+   */
+  getTraceparent(): string {
+    return `00-${this.traceId}-${this.spanId}-01`;
+  }
+}
+
+// ============================================
+// OTLP/HTTP Exporter
+// ============================================
+
+/**
+ * Convert ms to the nanosecond string OTLP expects
+ */
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.floor(ms)) * BigInt(1000000)).toString();
+}
+
+/**
+ * Convert an attribute to an OTLP key/value
+ */
+function toOTLPAttribute(key: string, value: SpanAttributeValue): { key: string; value: Record<string, unknown> } {
+  if (typeof value === 'boolean') return { key, value: { boolValue: value } };
+  if (typeof value === 'number') {
+    return { key, value: Number.isInteger(value) ? { intValue: value } : { doubleValue: value } };
+  }
+  return { key, value: { stringValue: value } };
+}
+
+/**
+ * Posts spans to an OpenTelemetry collector as OTLP/HTTP JSON
+ */
+export class OTLPHttpExporter implements SpanExporter {
+  private url: string;
+
+  private config: TracingConfig;
+
+  constructor(config: TracingConfig) {
+    if (!config.endpoint) {
+      throw new Error('OTLP exporter requires an endpoint');
+    }
+
+    this.url = `${config.endpoint.replace(/\/+$/, '')}/v1/traces`;
+    this.config = {
+      ...config,
+      serviceName: config.serviceName ?? 'openclaw-discord-voice',
+      timeoutMs: config.timeoutMs ?? 10000,
+    };
+  }
+
+  async export(spans: SpanData[]): Promise<void> {
+    if (spans.length === 0) return;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.config.headers },
+        body: JSON.stringify(this.buildPayload(spans)),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`OTLP export failed: ${response.status} ${response.statusText}`);
+      }
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        throw new Error(`OTLP export timeout after ${this.config.timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    // Stateless; nothing to release
+  }
+
+  /**
+   * Build an ExportTraceServiceRequest
+   */
+  private buildPayload(spans: SpanData[]): unknown {
+    return {
+      resourceSpans: [
+        {
+          resource: { attributes: [toOTLPAttribute('service.name', this.config.serviceName!)] },
+          scopeSpans: [
+            {
+              scope: { name: 'openclaw-voice-extension' },
+              spans: spans.map((span) => ({
+                traceId: span.traceId,
+                spanId: span.spanId,
+                ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+                name: span.name,
+                kind: OTLP_SPAN_KIND[span.kind],
+                startTimeUnixNano: toUnixNano(span.startTime),
+                endTimeUnixNano: toUnixNano(span.endTime),
+                attributes: Object.entries(span.attributes).map(([key, value]) => toOTLPAttribute(key, value)),
+                status: {
+                  code: OTLP_STATUS_CODE[span.status],
+                  ...(span.statusMessage ? { message: span.statusMessage } : {}),
+                },
+              })),
+            },
+          ],
+        },
+      ],
+    };
+  }
+}
+
+// ============================================
+// Tracer
+// ============================================
+
+/**
+ * Creates spans and exports finished ones in batches
+ * Export failures are logged and the batch dropped; tracing never fails a request
+ */
+export class Tracer {
+  private exporter: SpanExporter;
+
+  private maxBatchSize: number;
+
+  private pending: SpanData[] = [];
+
+  private exporting: Promise<void> = Promise.resolve();
+
+  private flushTimer?: NodeJS.Timeout;
+
+  constructor(exporter: SpanExporter, config: Pick<TracingConfig, 'maxBatchSize' | 'flushIntervalMs'> = {}) {
+    this.exporter = exporter;
+    this.maxBatchSize = config.maxBatchSize ?? 100;
+
+    this.flushTimer = setInterval(() => {
+      this.flush().catch(() => {});
+    }, config.flushIntervalMs ?? 5000);
+    // Don't keep the process alive just to export spans
+    this.flushTimer.unref?.();
+  }
+
+  /**
+   * Start a span; call end() on it when the work is done
+   */
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    return new Span(name, options, (span) => {
+      this.pending.push(span);
+      if (this.pending.length >= this.maxBatchSize) {
+        this.flush().catch(() => {});
+      }
+    });
+  }
+
+  /**
+   * Export every finished span
+   */
+  async flush(): Promise<void> {
+    const batch = this.pending.splice(0, this.pending.length);
+    if (batch.length > 0) {
+      this.exporting = this.exporting.then(() =>
+        this.exporter.export(batch).catch((error) => {
+          console.error(`Dropped ${batch.length} trace spans:`, error);
+        }),
+      );
+    }
+    await this.exporting;
+  }
+
+  /**
+   * Export what is left and stop the flush timer
+   */
+  async shutdown(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    await this.flush();
+    await this.exporter.shutdown();
+  }
+}
@@ -0,0 +1,390 @@
+/**
+ * Persistent transcript store
+ * Records finished sessions and requests (transcription, agent reply, timing, error code) in one
+ * JSONL file per guild, so bad answers can be looked into after the pipeline has forgotten them,
+ * and exports them as JSON, CSV or SRT/WebVTT subtitles
+ */
+
+import { appendFile, mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { PipelineErrorCode } from './PipelineErrors.js';
+
+// ============================================
+// Types and Interfaces
+// ============================================
+
+/**
+ * How long a guild's records are kept
+ */
+export interface TranscriptRetention {
+  maxAgeDays?: number; // Records older than this are deleted (0 = no age limit)
+  maxRecords?: number; // Only the newest records are kept (0 = no limit)
+}
+
+/**
+ * Retention for every guild, with optional per-guild overrides
+ */
+export interface TranscriptRetentionSettings {
+  default: TranscriptRetention;
+  guilds?: Record<string, TranscriptRetention>; // guildId -> retention for that guild
+}
+
+/**
+ * Transcript store configuration
+ */
+export interface TranscriptStoreConfig {
+  directory: string; // Holds one <guildId>.jsonl file per guild
+  retention?: TranscriptRetentionSettings; // Default: 30 days for every guild
+}
+
+/**
+ * A finished voice session
+ */
+export interface SessionRecord {
+  kind: 'session';
+  sessionId: string;
+  guildId: string;
+  channelId: string;
+  userId: string; // Session owner
+  startTime: number;
+  endTime: number;
+  endReason: string; // 'user', 'timeout', 'shutdown', ...
+  totalRequests: number;
+  failedRequests: number;
+}
+
+/**
+ * A finished voice or text request
+ */
+export interface RequestRecord {
+  kind: 'request';
+  requestId: string;
+  sessionId: string;
+  guildId: string;
+  channelId: string;
+  userId: string; // Speaker
+  status: 'completed' | 'error' | 'cancelled';
+  input?: string; // What the speaker said (transcription) or typed (text command)
+  confidence?: number; // Transcription confidence, 0-1
+  language?: string; // Reply language
+  response?: string; // Agent reply
+  errorCode?: PipelineErrorCode; // Set for failed and cancelled requests
+  errorMessage?: string;
+  startTime: number;
+  endTime: number;
+  audioDurationMs?: number; // Length of the transcribed speech
+  timeToFirstAudioMs?: number;
+}
+
+export type TranscriptRecord = SessionRecord | RequestRecord;
+
+/**
+ * Supported export formats
+ */
+export type TranscriptExportFormat = 'json' | 'csv' | 'srt' | 'vtt';
+
+/**
+ * Record filter for reads and exports
+ */
+export interface TranscriptQuery {
+  since?: number; // Start time in Unix ms, inclusive
+  until?: number; // Start time in Unix ms, exclusive
+  sessionId?: string;
+}
+
+const DEFAULT_RETENTION: TranscriptRetention = { maxAgeDays: 30 };
+
+// Retention is applied while recording, at most this often per guild
+const PRUNE_INTERVAL_MS = 3600000;
+
+const DAY_MS = 86400000;
+
+// Guild IDs become file names
+const GUILD_ID_PATTERN = /^[\w-]{1,64}$/;
+
+const CSV_COLUMNS = [
+  'time',
+  'sessionId',
+  'requestId',
+  'channelId',
+  'userId',
+  'status',
+  'language',
+  'confidence',
+  'input',
+  'response',
+  'errorCode',
+  'durationMs',
+  'timeToFirstAudioMs',
+] as const;
+
+// ============================================
+// TranscriptStore
+// ============================================
+
+export class TranscriptStore {
+  private directory: string;
+
+  private retention: TranscriptRetentionSettings;
+
+  // Writes and prunes run one at a time so a prune never loses an append
+  private queue: Promise<void> = Promise.resolve();
+
+  // guildId -> when retention was last applied
+  private lastPruned: Map<string, number> = new Map();
+
+  constructor(config: TranscriptStoreConfig) {
+    this.directory = config.directory;
+    this.retention = config.retention ?? { default: DEFAULT_RETENTION };
+  }
+
+  /**
+   * Append a record to its guild's file
+   * Failures are logged rather than thrown so a full disk never breaks a voice session
+   */
+  async record(record: TranscriptRecord): Promise<void> {
+    await this.enqueue(async () => {
+      await mkdir(this.directory, { recursive: true });
+      await appendFile(this.getFile(record.guildId), `${JSON.stringify(record)}\n`, 'utf-8');
+
+      const now = Date.now();
+      const lastPruned = this.lastPruned.get(record.guildId);
+      if (lastPruned === undefined || now - lastPruned >= PRUNE_INTERVAL_MS) {
+        await this.pruneGuild(record.guildId, now);
+      }
+    });
+  }
+
+  /**
+   * Read a guild's records, oldest first
+   * Unreadable lines are skipped
+   */
+  async getRecords(guildId: string, query: TranscriptQuery = {}): Promise<TranscriptRecord[]> {
+    await this.flush();
+    const records = await this.readGuild(guildId);
+
+    return records.filter(
+      (record) =>
+        (query.since === undefined || record.startTime >= query.since) &&
+        (query.until === undefined || record.startTime < query.until) &&
+        (query.sessionId === undefined || record.sessionId === query.sessionId),
+    );
+  }
+
+  /**
+   * Export a guild's records
+   * JSON includes sessions; CSV has one row per request; subtitles have one cue per answered request,
+   * timed from the first exported request
+   */
+  async export(guildId: string, format: TranscriptExportFormat, query: TranscriptQuery = {}): Promise<string> {
+    const records = await this.getRecords(guildId, query);
+    const requests = records.filter((record): record is RequestRecord => record.kind === 'request');
+
+    switch (format) {
+      case 'json':
+        return JSON.stringify(records, null, 2);
+      case 'csv':
+        return this.toCSV(requests);
+      case 'srt':
+      case 'vtt':
+        return this.toSubtitles(requests, format);
+      default:
+        throw new Error(`Unknown transcript export format: ${String(format)}`);
+    }
+  }
+
+  /**
+   * Change a guild's retention (undefined restores the default) and apply it
+   */
+  async setRetention(guildId: string, retention?: TranscriptRetention): Promise<void> {
+    const guilds = { ...this.retention.guilds };
+    if (retention) {
+      guilds[guildId] = retention;
+    } else {
+      delete guilds[guildId];
+    }
+    this.retention = { ...this.retention, guilds };
+
+    await this.prune(guildId);
+  }
+
+  /**
+   * Get the retention that applies to a guild
+   */
+  getRetention(guildId: string): TranscriptRetention {
+    return this.retention.guilds?.[guildId] ?? this.retention.default;
+  }
+
+  /**
+   * Apply retention to one guild, or to every guild with a file
+   * Returns the number of records deleted
+   */
+  async prune(guildId?: string, now: number = Date.now()): Promise<number> {
+    let guildIds: string[];
+    if (guildId) {
+      guildIds = [guildId];
+    } else {
+      const files = await readdir(this.directory).catch(() => [] as string[]);
+      guildIds = files.filter((file) => file.endsWith('.jsonl')).map((file) => file.slice(0, -'.jsonl'.length));
+    }
+
+    const removed = await Promise.all(guildIds.map((id) => this.enqueue(() => this.pruneGuild(id, now))));
+    return removed.reduce<number>((total, count) => total + (count ?? 0), 0);
+  }
+
+  /**
+   * Wait for pending writes
+   */
+  async flush(): Promise<void> {
+    await this.queue;
+  }
+
+  /**
+   * Run a file operation after the ones already queued
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T | undefined> {
+    const result = this.queue.then(operation).catch((error) => {
+      console.error('Transcript store error:', error);
+      return undefined;
+    });
+    this.queue = result.then(() => {});
+    return result;
+  }
+
+  /**
+   * Rewrite a guild's file without the records its retention has expired
+   */
+  private async pruneGuild(guildId: string, now: number): Promise<number> {
+    this.lastPruned.set(guildId, now);
+
+    const { maxAgeDays, maxRecords } = this.getRetention(guildId);
+    const records = await this.readGuild(guildId);
+
+    let kept = maxAgeDays ? records.filter((record) => now - record.startTime < maxAgeDays * DAY_MS) : records;
+    if (maxRecords && kept.length > maxRecords) {
+      kept = kept.slice(kept.length - maxRecords);
+    }
+
+    if (kept.length === records.length) {
+      return 0;
+    }
+
+    await writeFile(this.getFile(guildId), kept.map((record) => `${JSON.stringify(record)}\n`).join(''), 'utf-8');
+    return records.length - kept.length;
+  }
+
+  /**
+   * Read and parse a guild's file (empty when it doesn't exist yet)
+   */
+  private async readGuild(guildId: string): Promise<TranscriptRecord[]> {
+    let content: string;
+    try {
+      content = await readFile(this.getFile(guildId), 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: TranscriptRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (line.trim().length > 0) {
+        try {
+          records.push(JSON.parse(line) as TranscriptRecord);
+        } catch {
+          // A torn write from a crash; keep the rest of the file readable
+        }
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Get the file holding a guild's records
+   */
+  private getFile(guildId: string): string {
+    if (!GUILD_ID_PATTERN.test(guildId)) {
+      throw new Error(`Invalid guild ID for transcript store: ${guildId}`);
+    }
+    return join(this.directory, `${guildId}.jsonl`);
+  }
+
+  /**
+   * Format requests as CSV with a header row
+   */
+  private toCSV(requests: RequestRecord[]): string {
+    const rows = requests.map((request) => {
+      const values: Record<(typeof CSV_COLUMNS)[number], string | number | undefined> = {
+        time: new Date(request.startTime).toISOString(),
+        sessionId: request.sessionId,
+        requestId: request.requestId,
+        channelId: request.channelId,
+        userId: request.userId,
+        status: request.status,
+        language: request.language,
+        confidence: request.confidence,
+        input: request.input,
+        response: request.response,
+        errorCode: request.errorCode,
+        durationMs: request.endTime - request.startTime,
+        timeToFirstAudioMs: request.timeToFirstAudioMs,
+      };
+      return CSV_COLUMNS.map((column) => this.escapeCSV(values[column])).join(',');
+    });
+
+    return [CSV_COLUMNS.join(','), ...rows].map((row) => `${row}\r\n`).join('');
+  }
+
+  /**
+   * Quote a CSV field when needed
+   */
+  private escapeCSV(value: string | number | undefined): string {
+    if (value === undefined) {
+      return '';
+    }
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  /**
+   * Format answered requests as SRT or WebVTT cues
+   */
+  private toSubtitles(requests: RequestRecord[], format: 'srt' | 'vtt'): string {
+    const answered = requests.filter((request) => request.input && request.response);
+    const origin = answered[0]?.startTime ?? 0;
+
+    const cues = answered.map((request, index) => {
+      const start = this.formatTimestamp(request.startTime - origin, format);
+      const end = this.formatTimestamp(Math.max(request.endTime, request.startTime + 1) - origin, format);
+      const lines =
+        format === 'vtt'
+          ? [`<v ${request.userId}>${this.escapeVTT(request.input!)}`, `<v bot>${this.escapeVTT(request.response!)}`]
+          : [`${request.userId}: ${request.input}`, `bot: ${request.response}`];
+
+      return [...(format === 'srt' ? [String(index + 1)] : []), `${start} --> ${end}`, ...lines].join('\n');
+    });
+
+    const blocks = format === 'vtt' ? ['WEBVTT', ...cues] : cues;
+    return blocks.map((block) => `${block}\n\n`).join('');
+  }
+
+  /**
+   * Format an offset as HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+   */
+  private formatTimestamp(offsetMs: number, format: 'srt' | 'vtt'): string {
+    const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+    const hours = Math.floor(offsetMs / 3600000);
+    const minutes = Math.floor((offsetMs % 3600000) / 60000);
+    const seconds = Math.floor((offsetMs % 60000) / 1000);
+    const separator = format === 'srt' ? ',' : '.';
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(offsetMs % 1000, 3)}`;
+  }
+
+  /**
+   * Escape cue text for WebVTT
+   */
+  private escapeVTT(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Utterance endpointing
+ * Turns a continuous per-user frame stream into discrete utterances using VoiceActivityDetector,
+ * with pre-roll padding, hangover, minimum speech length and maximum utterance length
+ */
+
+import { AudioFrame, VADConfig } from './types.js';
+import { VoiceActivityDetector } from './SpeechToText.js';
+
+// ============================================
+// Types and Interfaces
+// ============================================
+
+/**
+ * Endpointer configuration
+ */
+export interface UtteranceEndpointerConfig {
+  preRollMs?: number; // Audio kept from before speech starts (default: 200)
+  hangoverMs?: number; // Silence that ends an utterance (default: 200)
+  minSpeechMs?: number; // Utterances with less speech are discarded (default: 100)
+  maxUtteranceMs?: number; // Utterances are cut at this length (default: 15000)
+  vadConfig?: VADConfig;
+}
+
+/**
+ * Why an utterance ended
+ */
+export type UtteranceEndReason = 'silence' | 'max-length' | 'flush';
+
+/**
+ * A completed utterance from one user
+ */
+export interface Utterance {
+  userId: string;
+  frames: AudioFrame[]; // Pre-roll, speech and hangover frames
+  startTime: number; // When speech was detected
+  endTime: number;
+  speechMs: number; // Voiced audio in the utterance
+  endReason: UtteranceEndReason;
+}
+
+/**
+ * Endpointer events
+ * Listeners may return a promise; the endpointer waits for it before processing the next frame
+ */
+export interface UtteranceEndpointerEvents {
+  speech(userId: string, frame: AudioFrame): void | Promise<void>;
+  utterance(utterance: Utterance): void | Promise<void>;
+  discarded(userId: string, speechMs: number): void;
+}
+
+/**
+ * Endpointing state for one user
+ */
+interface EndpointState {
+  vad: VoiceActivityDetector;
+  preRoll: AudioFrame[]; // Recent silence, prepended when speech starts
+  frames: AudioFrame[]; // Frames of the utterance in progress (empty when idle)
+  startTime: number;
+  durationMs: number;
+  speechMs: number;
+  silenceMs: number; // Trailing silence in the utterance in progress
+}
+
+// Frame length used when a frame does not carry its own duration
+const DEFAULT_FRAME_MS = 20;
+
+// ============================================
+// UtteranceEndpointer
+// ============================================
+
+export class UtteranceEndpointer {
+  private config: Required<Omit<UtteranceEndpointerConfig, 'vadConfig'>> & { vadConfig?: VADConfig };
+
+  // userId -> endpointing state
+  private states: Map<string, EndpointState> = new Map();
+
+  private eventListeners: Map<keyof UtteranceEndpointerEvents, Function[]> = new Map();
+
+  constructor(config: UtteranceEndpointerConfig = {}) {
+    this.config = {
+      preRollMs: config.preRollMs ?? 200,
+      hangoverMs: config.hangoverMs ?? 200,
+      minSpeechMs: config.minSpeechMs ?? 100,
+      maxUtteranceMs: config.maxUtteranceMs ?? 15000,
+      vadConfig: config.vadConfig,
+    };
+
+    if (this.config.maxUtteranceMs <= this.config.minSpeechMs) {
+      throw new Error('maxUtteranceMs must be greater than minSpeechMs');
+    }
+  }
+
+  /**
+   * Process the next frame from a user
+   * Emits 'speech' for voiced frames and 'utterance' once the utterance ends
+   */
+  async processFrame(userId: string, frame: AudioFrame): Promise<void> {
+    const state = this.getState(userId);
+    const frameMs = frame.duration || DEFAULT_FRAME_MS;
+    const { isSpeech } = state.vad.detectSpeech(frame.data);
+
+    if (state.frames.length === 0) {
+      if (!isSpeech) {
+        this.addPreRoll(state, frame, frameMs);
+        return;
+      }
+
+      // Speech starts: open the utterance with the pre-roll
+      state.frames = state.preRoll;
+      state.preRoll = [];
+      state.startTime = Date.now();
+      state.durationMs = state.frames.length * frameMs;
+      state.speechMs = 0;
+      state.silenceMs = 0;
+    }
+
+    state.frames.push(frame);
+    state.durationMs += frameMs;
+
+    if (isSpeech) {
+      state.speechMs += frameMs;
+      state.silenceMs = 0;
+      await this.emit('speech', userId, frame);
+    } else {
+      state.silenceMs += frameMs;
+    }
+
+    if (state.silenceMs >= this.config.hangoverMs) {
+      await this.finishUtterance(userId, state, 'silence');
+    } else if (state.durationMs >= this.config.maxUtteranceMs) {
+      await this.finishUtterance(userId, state, 'max-length');
+    }
+  }
+
+  /**
+   * End a user's utterance in progress now (e.g. they stopped transmitting)
+   */
+  async flush(userId: string): Promise<void> {
+    const state = this.states.get(userId);
+    if (state) {
+      await this.finishUtterance(userId, state, 'flush');
+      state.preRoll = [];
+      state.vad.reset();
+    }
+  }
+
+  /**
+   * End a user's utterance in progress and forget the user
+   */
+  async remove(userId: string): Promise<void> {
+    await this.flush(userId);
+    this.states.delete(userId);
+  }
+
+  /**
+   * Whether a user has an utterance in progress
+   */
+  isSpeaking(userId: string): boolean {
+    return (this.states.get(userId)?.frames.length ?? 0) > 0;
+  }
+
+  /**
+   * Forget every user without emitting their partial utterances
+   */
+  reset(): void {
+    this.states.clear();
+  }
+
+  /**
+   * Register event listener
+   */
+  on<K extends keyof UtteranceEndpointerEvents>(event: K, listener: UtteranceEndpointerEvents[K]): void {
+    if (!this.eventListeners.has(event)) {
+      this.eventListeners.set(event, []);
+    }
+    this.eventListeners.get(event)!.push(listener);
+  }
+
+  /**
+   * Remove event listener
+   */
+  off<K extends keyof UtteranceEndpointerEvents>(event: K, listener: UtteranceEndpointerEvents[K]): void {
+    const listeners = this.eventListeners.get(event);
+    if (listeners) {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    }
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  /**
+   * Get (or create) the endpointing state for a user
+   */
+  private getState(userId: string): EndpointState {
+    let state = this.states.get(userId);
+    if (!state) {
+      state = {
+        vad: new VoiceActivityDetector(this.config.vadConfig),
+        preRoll: [],
+        frames: [],
+        startTime: 0,
+        durationMs: 0,
+        speechMs: 0,
+        silenceMs: 0,
+      };
+      this.states.set(userId, state);
+    }
+    return state;
+  }
+
+  /**
+   * Keep a silent frame as pre-roll, dropping frames older than the pre-roll window
+   */
+  private addPreRoll(state: EndpointState, frame: AudioFrame, frameMs: number): void {
+    if (this.config.preRollMs <= 0) return;
+
+    state.preRoll.push(frame);
+    while (state.preRoll.length * frameMs > this.config.preRollMs) {
+      state.preRoll.shift();
+    }
+  }
+
+  /**
+   * Emit the utterance in progress, or discard it if it has too little speech
+   */
+  private async finishUtterance(userId: string, state: EndpointState, endReason: UtteranceEndReason): Promise<void> {
+    if (state.frames.length === 0) return;
+
+    const utterance: Utterance = {
+      userId,
+      frames: state.frames,
+      startTime: state.startTime,
+      endTime: Date.now(),
+      speechMs: state.speechMs,
+      endReason,
+    };
+    state.frames = [];
+    state.durationMs = 0;
+    state.silenceMs = 0;
+
+    // Coughs, clicks and keyboard noise
+    if (utterance.speechMs < this.config.minSpeechMs) {
+      await this.emit('discarded', userId, utterance.speechMs);
+      return;
+    }
+
+    await this.emit('utterance', utterance);
+  }
+
+  /**
+   * Emit event to listeners, waiting for any that return a promise
+   */
+  private async emit<K extends keyof UtteranceEndpointerEvents>(
+    event: K,
+    ...args: Parameters<UtteranceEndpointerEvents[K]>
+  ): Promise<void> {
+    const listeners = this.eventListeners.get(event);
+    if (listeners) {
+      for (const listener of listeners) {
+        try {
+          await (listener as any)(...args);
+        } catch (error) {
+          console.error(`Error in ${event} listener:`, error);
+        }
+      }
+    }
+  }
+}
@@ -5,8 +5,20 @@
  */
 
 import { AudioStreamHandler, AudioStreamConfig, AudioFrame } from './AudioStreamHandler.js';
-import { SpeechToText, STTConfig, TranscriptionResult } from './SpeechToText.js';
-import { TextToSpeech, TTSConfig, TTSResponse } from './TextToSpeech.js';
+import { downmixToMono, floatToPCM16, resamplePCM16 } from './AudioCodec.js';
+import { SpeechToText, STTConfig, TranscriptionResult, VADConfig } from './SpeechToText.js';
+import { TextToSpeech, TTSConfig, TTSProvider, TTSResponse, TTSStats, TTSVoiceProfile } from './TextToSpeech.js';
+import { STTProviderRegistry, STTProviderSettings } from './STTProvider.js';
+import { SpeakerInfo, SpeakerUtterance, SpeakingUpdate, VoiceReceiver } from './VoiceReceiver.js';
+import { UtteranceEndpointerConfig } from './UtteranceEndpointer.js';
+import { WakeWordConfig, WakeWordGate, WakeWordResult } from './WakeWordGate.js';
+import { CaptureEndReason, PushToTalkConfig, PushToTalkController, VoiceInputMode } from './PushToTalk.js';
+import { ConversationHistory, ConversationHistoryConfig, ConversationTurn } from './ConversationHistory.js';
+import { AgentClientRegistry, AgentClientSettings } from './AgentClient.js';
+import { AgentAction, parseAgentActions } from './AgentActions.js';
+import { AsyncTextQueue, splitSentences } from './AgentStream.js';
+import { RequestRecord, TranscriptStore, TranscriptStoreConfig } from './TranscriptStore.js';
+import { OTLPHttpExporter, Span, SpanOptions, Tracer, TracingConfig } from './Tracing.js';
 import {
   PipelineError,
   PipelineErrorCode,
@@ -29,6 +41,8 @@ export interface VoiceCommandPipelineConfig {
   audioConfig: AudioStreamConfig;
   sttConfig: STTConfig;
   ttsConfig: TTSConfig;
+  sttProviders?: STTProviderSettings; // Per-guild STT provider selection (default: sttConfig backend)
+  ttsProviders?: TTSProvider[]; // Ordered TTS providers for failover (default: ttsConfig backend)
 
   // Pipeline settings
   maxConcurrentConnections: number; // Default: 10
@@ -40,10 +54,55 @@ export interface VoiceCommandPipelineConfig {
   agentEndpoint?: string; // Optional agent API endpoint
   agentTimeoutMs?: number; // Default: 30000
   agentApiKey?: string; // Optional agent API key
+  enableAgentStreaming?: boolean; // Default: true (ask the agent for an SSE/NDJSON stream)
+  agentClients?: AgentClientSettings; // Per-guild agent backends (default: agentEndpoint, else the mock agent)
+  conversationHistory?: ConversationHistoryConfig; // Rolling history sent with each agent request
+  transcriptStore?: TranscriptStoreConfig; // Keep finished sessions and requests on disk (off when unset)
+  tracing?: TracingConfig; // Export a trace per request to an OTLP collector (off when unset)
 
   // Error recovery
   enableErrorRecovery: boolean; // Default: true
   maxRecoveryAttempts: number; // Default: 3
+
+  // Live audio input
+  enableBargeIn?: boolean; // Default: true (user speech interrupts bot playback)
+  vadConfig?: VADConfig; // Voice activity detection, run separately for each speaker
+  endpointer?: UtteranceEndpointerConfig; // Utterance segmentation (pre-roll, hangover, length limits)
+  wakeWord?: WakeWordConfig; // Default wake phrase gate for voice utterances (off when unset)
+  pushToTalk?: PushToTalkConfig; // Capture limits for push-to-talk sessions
+
+  // Multilingual replies
+  languageVoices?: Record<string, string>; // ISO-639-1 -> TTS voice for replies in that language
+}
+
+/**
+ * Per-session options
+ */
+export interface VoiceSessionOptions {
+  wakeWord?: WakeWordConfig | null; // Overrides the pipeline default (null = no wake phrase needed)
+  inputMode?: VoiceInputMode; // Default: 'continuous'
+  persona?: VoicePersona;
+}
+
+/**
+ * A speaker's own reply language and voice, used in every session they talk in
+ */
+export interface UserVoicePreferences {
+  language?: string; // ISO-639-1; transcription hint and reply language
+  voiceId?: string; // TTS voice for replies to this user
+}
+
+/**
+ * How the bot sounds and what the agent is told in a session
+ * Unset fields fall back to the pipeline's TTS, STT and agent config
+ */
+export interface VoicePersona {
+  voiceId?: string;
+  stability?: number; // 0-1
+  similarity?: number; // 0-1
+  speakingRate?: number; // Speech speed multiplier (1 = normal)
+  systemPrompt?: string; // Sent to the agent with every request
+  language?: string; // ISO-639-1; transcription hint and reply language
 }
 
 /**
@@ -57,6 +116,9 @@ export interface VoiceSession {
   startTime: number;
   lastActivity: number;
   status: 'active' | 'processing' | 'idle' | 'error' | 'ended';
+  inputMode: VoiceInputMode; // 'push-to-talk' only processes speech captured after startCapture()
+  voiceId?: string; // TTS voice override for this session (takes precedence over the persona's voice)
+  persona: VoicePersona;
   audioHandler?: AudioStreamHandler;
   currentRequest?: VoiceRequest;
   metrics: SessionMetrics;
@@ -68,16 +130,31 @@ export interface VoiceSession {
 export interface VoiceRequest {
   requestId: string;
   sessionId: string;
-  userId: string;
+  userId: string; // Speaker (the session owner for text commands)
   audioFrames: AudioFrame[];
+  inputText?: string; // Set for text commands (no transcription stage)
   transcription?: TranscriptionResult;
+  language?: string; // Reply language: the speaker's preference, else the detected or persona language
+  wakeWord?: WakeWordResult; // Set when the session gates utterances on a wake phrase
   agentResponse?: string;
-  ttsResponse?: TTSResponse;
+  actions?: AgentAction[]; // Validated agent actions, handed to the host once the reply has played
+  ttsResponse?: TTSResponse; // Last synthesized chunk when the reply was streamed
+  timeToFirstAudio?: number; // ms from request start until the first audio was queued for playback
+  timings: RequestTimings; // Time spent in each stage
   startTime: number;
-  status: 'receiving' | 'transcribing' | 'processing' | 'synthesizing' | 'playing' | 'completed' | 'error';
+  status: 'receiving' | 'transcribing' | 'processing' | 'synthesizing' | 'playing' | 'completed' | 'ignored' | 'error';
   error?: PipelineError;
 }
 
+/**
+ * Time spent in each stage of a request, in ms
+ */
+export interface RequestTimings {
+  stt?: number; // Transcription (voice requests only)
+  agent?: number; // Agent reply, including streaming
+  tts?: number; // Speech synthesis, summed over streamed sentences
+}
+
 /**
  * Session performance metrics
  */
@@ -89,6 +166,7 @@ export interface SessionMetrics {
   avgAgentLatency: number;
   avgTtsLatency: number;
   avgTotalLatency: number;
+  avgTimeToFirstAudio: number;
   audioFramesProcessed: number;
   bytesProcessed: number;
 }
@@ -112,6 +190,7 @@ export interface PipelineMetrics {
  */
 export interface AgentResponse {
   text: string;
+  actions?: AgentAction[];
   confidence?: number;
   metadata?: Record<string, any>;
 }
@@ -125,6 +204,12 @@ export interface PipelineEvents {
   requestStarted(request: VoiceRequest): void;
   requestCompleted(request: VoiceRequest): void;
   requestError(request: VoiceRequest, error: PipelineError): void;
+  requestCancelled(request: VoiceRequest, reason: string): void;
+  requestIgnored(request: VoiceRequest, reason: 'no-wake-phrase' | 'wake-phrase-only'): void;
+  agentActions(request: VoiceRequest, actions: AgentAction[]): void;
+  bargeIn(session: VoiceSession, interrupted?: VoiceRequest): void;
+  captureStarted(session: VoiceSession, userId: string): void;
+  captureEnded(session: VoiceSession, userId: string, reason: CaptureEndReason): void;
   metricsUpdated(metrics: PipelineMetrics): void;
 }
 
@@ -139,6 +224,21 @@ export class VoiceCommandPipeline {
 
   private activeRequests: Map<string, VoiceRequest> = new Map();
 
+  // sessionId -> per-speaker live audio receiver
+  private receivers: Map<string, VoiceReceiver> = new Map();
+
+  // sessionId -> wake phrase gate (sessions without one pass every utterance)
+  private wakeWordGates: Map<string, WakeWordGate> = new Map();
+
+  // sessionId -> push-to-talk captures (push-to-talk sessions only)
+  private pushToTalk: Map<string, PushToTalkController> = new Map();
+
+  // guildId:channelId -> conversation history, shared by the channel's sessions
+  private conversations: Map<string, ConversationHistory> = new Map();
+
+  // userId -> the speaker's language and voice preferences
+  private userPreferences: Map<string, UserVoicePreferences> = new Map();
+
   private eventListeners: Map<keyof PipelineEvents, Function[]> = new Map();
 
   private metrics: PipelineMetrics & {
@@ -166,6 +266,20 @@ export class VoiceCommandPipeline {
 
   private ttsInstance?: TextToSpeech;
 
+  private sttProviders: STTProviderRegistry;
+
+  private agentClients: AgentClientRegistry;
+
+  private transcriptStore?: TranscriptStore;
+
+  private tracer?: Tracer;
+
+  // Root span of each running request (requestId -> span)
+  private requestSpans: Map<string, Span> = new Map();
+
+  // Agent call of each request waiting on its agent (requestId -> controller), aborted on cancel
+  private agentCalls: Map<string, AbortController> = new Map();
+
   // Cleanup interval storage
   private cleanupInterval?: NodeJS.Timer;
 
@@ -177,10 +291,31 @@ export class VoiceCommandPipeline {
       enableFallbackResponses: config.enableFallbackResponses ?? true,
       enableMetrics: config.enableMetrics ?? true,
       agentTimeoutMs: config.agentTimeoutMs ?? 30000,
+      enableAgentStreaming: config.enableAgentStreaming ?? true,
       enableErrorRecovery: config.enableErrorRecovery ?? true,
       maxRecoveryAttempts: config.maxRecoveryAttempts ?? 3,
+      enableBargeIn: config.enableBargeIn ?? true,
     };
 
+    this.sttProviders = new STTProviderRegistry(config.sttProviders);
+    this.agentClients = new AgentClientRegistry(
+      config.agentClients ?? {
+        default:
+          config.agentEndpoint && config.agentApiKey
+            ? {
+                type: 'http',
+                endpoint: config.agentEndpoint,
+                apiKey: config.agentApiKey,
+                timeoutMs: this.config.agentTimeoutMs,
+                streaming: this.config.enableAgentStreaming,
+              }
+            : { type: 'mock' },
+      },
+    );
+
+    this.transcriptStore = config.transcriptStore ? new TranscriptStore(config.transcriptStore) : undefined;
+    this.tracer = config.tracing ? new Tracer(new OTLPHttpExporter(config.tracing), config.tracing) : undefined;
+
     this.errorRecoveryHandler = new ErrorRecoveryHandler({
       strategy: RecoveryStrategy.FALLBACK,
       maxRecoveryAttempts: this.config.maxRecoveryAttempts,
@@ -201,7 +336,10 @@ export class VoiceCommandPipeline {
       await this.sttInstance.initialize();
 
       // Initialize TTS
-      this.ttsInstance = new TextToSpeech(this.config.ttsConfig);
+      this.ttsInstance = new TextToSpeech(this.config.ttsConfig, this.config.ttsProviders);
+
+      // Apply transcript retention that expired while the bot was down
+      await this.transcriptStore?.prune();
 
       this.isInitialized = true;
 
@@ -234,10 +372,15 @@ export class VoiceCommandPipeline {
     // Clear event listeners
     this.eventListeners.clear();
 
+    await this.transcriptStore?.flush();
+    await this.tracer?.shutdown();
+
     // Cleanup components
     if (this.sttInstance) {
       await this.sttInstance.shutdown();
     }
+    await this.sttProviders.shutdown();
+    await this.agentClients.shutdown();
 
     this.isInitialized = false;
   }
@@ -250,6 +393,7 @@ export class VoiceCommandPipeline {
     guildId: string,
     channelId: string,
     audioHandler?: AudioStreamHandler,
+    options: VoiceSessionOptions = {},
   ): Promise<string> {
     this.ensureInitialized();
 
@@ -272,6 +416,8 @@ export class VoiceCommandPipeline {
       startTime: Date.now(),
       lastActivity: Date.now(),
       status: 'active',
+      inputMode: 'continuous',
+      persona: options.persona ?? {},
       audioHandler,
       metrics: {
         totalRequests: 0,
@@ -281,16 +427,20 @@ export class VoiceCommandPipeline {
         avgAgentLatency: 0,
         avgTtsLatency: 0,
         avgTotalLatency: 0,
+        avgTimeToFirstAudio: 0,
         audioFramesProcessed: 0,
         bytesProcessed: 0,
       },
     };
 
     this.sessions.set(sessionId, session);
+    this.setWakeWord(sessionId, options.wakeWord);
+    this.setInputMode(sessionId, options.inputMode ?? 'continuous');
     this.metrics.activeSessions++;
     this.metrics.totalSessions++;
 
     this.emit('sessionStarted', session);
+    this.emitMetrics();
     return sessionId;
   }
 
@@ -316,104 +466,143 @@ export class VoiceCommandPipeline {
     }
 
     this.sessions.delete(sessionId);
+    this.receivers.get(sessionId)?.shutdown();
+    this.receivers.delete(sessionId);
+    this.wakeWordGates.delete(sessionId);
+    this.pushToTalk.get(sessionId)?.reset();
+    this.pushToTalk.delete(sessionId);
     this.metrics.activeSessions--;
 
     this.emit('sessionEnded', session);
+    this.emitMetrics();
+    this.recordSession(session, reason);
   }
 
   /**
    * Process voice command from audio frames
+   * userId identifies the speaker (default: the session owner)
    */
-  async processVoiceCommand(sessionId: string, audioFrames: AudioFrame[]): Promise<string> {
+  async processVoiceCommand(sessionId: string, audioFrames: AudioFrame[], userId?: string): Promise<string> {
     this.ensureInitialized();
 
-    const session = this.sessions.get(sessionId);
-    if (!session) {
-      throw new PipelineError(PipelineErrorCode.PIPELINE_INVALID_STATE, `Session ${sessionId} not found`, {
+    const session = this.getActiveSession(sessionId);
+    const request = this.createRequest(session, audioFrames, userId);
+
+    return this.executeRequest(request, session);
+  }
+
+  /**
+   * Process a typed text command (e.g. /voice ask)
+   * Skips transcription and runs the agent, TTS and playback stages
+   */
+  async processTextCommand(sessionId: string, text: string): Promise<string> {
+    this.ensureInitialized();
+
+    if (!text || text.trim().length === 0) {
+      throw new PipelineError(PipelineErrorCode.PIPELINE_INVALID_INPUT, 'Text command cannot be empty', {
         sessionId,
+        phase: 'pipeline',
       });
     }
 
-    if (session.status !== 'active') {
-      throw new PipelineError(
-        PipelineErrorCode.PIPELINE_INVALID_STATE,
-        `Session ${sessionId} is not active (status: ${session.status})`,
-        { sessionId, status: session.status },
-      );
-    }
+    const session = this.getActiveSession(sessionId);
+    const request = this.createRequest(session, []);
+    request.inputText = text.trim();
 
-    session.lastActivity = Date.now();
-    const requestId = this.generateRequestId();
+    return this.executeRequest(request, session);
+  }
 
-    const request: VoiceRequest = {
-      requestId,
-      sessionId,
-      userId: session.userId,
-      audioFrames,
-      startTime: Date.now(),
-      status: 'receiving',
-    };
+  /**
+   * Feed a live audio frame from a user into a session
+   * Speech interrupts any bot playback (barge-in); once the user stops
+   * speaking, the buffered utterance is processed as the next request
+   * userId identifies the speaker (default: the session owner)
+   */
+  async handleAudioFrame(sessionId: string, frame: AudioFrame, userId?: string): Promise<void> {
+    this.ensureInitialized();
 
-    session.currentRequest = request;
-    this.activeRequests.set(requestId, request);
+    const session = this.getActiveSession(sessionId);
+    this.recordAudioFrame(session, frame);
 
-    this.emit('requestStarted', request);
+    await this.getReceiver(session).pushFrame(userId ?? session.userId, frame);
+  }
 
-    try {
-      // Step 1: Transcribe audio
-      request.status = 'transcribing';
-      const transcription = await this.transcribeAudio(audioFrames, session);
-      request.transcription = transcription;
+  /**
+   * Feed a received RTP audio frame into a session
+   * The speaker is looked up from the frame's SSRC (see handleSpeakingUpdate);
+   * each speaker's audio is jitter-buffered and segmented independently
+   */
+  async handleAudioPacket(sessionId: string, frame: AudioFrame): Promise<void> {
+    this.ensureInitialized();
 
-      // Step 2: Send to agent
-      request.status = 'processing';
-      const agentResponse = await this.callAgent(transcription.text, session);
-      request.agentResponse = agentResponse.text;
+    const session = this.getActiveSession(sessionId);
+    this.recordAudioFrame(session, frame);
 
-      // Step 3: Synthesize response
-      request.status = 'synthesizing';
-      const ttsResponse = await this.synthesizeSpeech(agentResponse.text, session);
-      request.ttsResponse = ttsResponse;
+    await this.getReceiver(session).receiveFrame(frame);
+  }
 
-      // Step 4: Play audio response
-      request.status = 'playing';
-      await this.playAudioResponse(ttsResponse.audio, session);
+  /**
+   * Handle a voice gateway SPEAKING event for a session (maps an SSRC to a user)
+   */
+  async handleSpeakingUpdate(sessionId: string, update: SpeakingUpdate): Promise<void> {
+    this.ensureInitialized();
 
-      // Success
-      request.status = 'completed';
-      session.metrics.totalRequests++;
-      session.metrics.successfulRequests++;
+    const session = this.getActiveSession(sessionId);
+    await this.getReceiver(session).handleSpeaking(update);
+  }
 
-      this.emit('requestCompleted', request);
-      return requestId;
-    } catch (error: any) {
-      request.status = 'error';
-      const pipelineError =
-        error instanceof PipelineError
-          ? error
-          : new PipelineError(PipelineErrorCode.UNKNOWN_ERROR, error.message, {
-              sessionId,
-              userId: session.userId,
-              phase: 'pipeline',
-              originalError: error,
-            });
+  /**
+   * Handle a user leaving a session's voice channel
+   */
+  async handleClientDisconnect(sessionId: string, userId: string): Promise<void> {
+    await this.receivers.get(sessionId)?.handleClientDisconnect(userId);
+  }
 
-      request.error = pipelineError;
-      session.metrics.totalRequests++;
-      session.metrics.failedRequests++;
+  /**
+   * Open a push-to-talk capture for a user (slash command or button press)
+   * The user's next utterance is processed; returns false if a capture was already open
+   */
+  startCapture(sessionId: string, userId: string): boolean {
+    this.ensureInitialized();
 
-      this.emit('requestError', request, pipelineError);
+    return this.getPushToTalk(this.getActiveSession(sessionId)).start(userId);
+  }
 
-      // Try error recovery
-      if (this.config.enableErrorRecovery) {
-        const recovered = await this.attemptRecovery(pipelineError, request, session);
-        if (recovered) {
-          return requestId;
-        }
-      }
+  /**
+   * End a user's push-to-talk capture (second press)
+   * Anything the user has said so far is processed; returns false if no capture was open
+   */
+  async stopCapture(sessionId: string, userId: string): Promise<boolean> {
+    this.ensureInitialized();
 
-      throw pipelineError;
+    const pushToTalk = this.getPushToTalk(this.getActiveSession(sessionId));
+    if (!pushToTalk.stop(userId)) {
+      return false;
     }
+
+    await this.receivers.get(sessionId)?.flushUser(userId);
+    // Nothing was said (or it was too short to keep)
+    pushToTalk.end(userId, 'stopped');
+    return true;
+  }
+
+  /**
+   * Start or stop a user's push-to-talk capture
+   * Returns whether the user is now capturing
+   */
+  async toggleCapture(sessionId: string, userId: string): Promise<boolean> {
+    if (this.isCapturing(sessionId, userId)) {
+      await this.stopCapture(sessionId, userId);
+      return false;
+    }
+    return this.startCapture(sessionId, userId);
+  }
+
+  /**
+   * Whether a user has a push-to-talk capture open in a session
+   */
+  isCapturing(sessionId: string, userId: string): boolean {
+    return this.pushToTalk.get(sessionId)?.isCapturing(userId) ?? false;
   }
 
   /**
@@ -423,13 +612,27 @@ export class VoiceCommandPipeline {
     const request = this.activeRequests.get(requestId);
     if (!request) return;
 
+    // Finished requests stay in activeRequests until their session ends; there is nothing left to cancel
+    this.activeRequests.delete(requestId);
+    if (request.status === 'completed' || request.status === 'error' || request.status === 'ignored') {
+      return;
+    }
+
     request.status = 'error';
     request.error = new PipelineError(PipelineErrorCode.PIPELINE_CANCELLED, `Request cancelled: ${reason}`, {
       sessionId: request.sessionId,
       requestId,
     });
 
-    this.activeRequests.delete(requestId);
+    // Stop the agent generating a reply nobody will hear
+    this.agentCalls.get(requestId)?.abort();
+
+    this.emit('requestCancelled', request, reason);
+
+    const session = this.sessions.get(request.sessionId);
+    if (session) {
+      this.recordRequest(request, session);
+    }
   }
 
   /**
@@ -439,6 +642,130 @@ export class VoiceCommandPipeline {
     return this.sessions.get(sessionId);
   }
 
+  /**
+   * Get request information
+   */
+  getRequest(requestId: string): VoiceRequest | undefined {
+    return this.activeRequests.get(requestId);
+  }
+
+  /**
+   * Set (or clear) the wake phrase gate for a session's voice utterances
+   * Undefined restores the pipeline default and null turns the gate off; text commands are never gated
+   */
+  setWakeWord(sessionId: string, config?: WakeWordConfig | null): void {
+    if (!this.sessions.has(sessionId)) {
+      throw new PipelineError(PipelineErrorCode.PIPELINE_INVALID_STATE, `Session ${sessionId} not found`, {
+        sessionId,
+      });
+    }
+
+    const gate = config === undefined ? this.config.wakeWord : config;
+    if (gate) {
+      this.wakeWordGates.set(sessionId, new WakeWordGate(gate));
+    } else {
+      this.wakeWordGates.delete(sessionId);
+    }
+  }
+
+  /**
+   * Switch a session between continuous listening and push-to-talk
+   * Leaving push-to-talk cancels any open captures
+   */
+  setInputMode(sessionId: string, mode: VoiceInputMode): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new PipelineError(PipelineErrorCode.PIPELINE_INVALID_STATE, `Session ${sessionId} not found`, {
+        sessionId,
+      });
+    }
+
+    session.inputMode = mode;
+
+    if (mode === 'push-to-talk') {
+      if (!this.pushToTalk.has(sessionId)) {
+        const pushToTalk = new PushToTalkController(this.config.pushToTalk);
+        pushToTalk.on('captureStarted', (userId) => this.emit('captureStarted', session, userId));
+        pushToTalk.on('captureEnded', (userId, reason) => this.emit('captureEnded', session, userId, reason));
+        this.pushToTalk.set(sessionId, pushToTalk);
+      }
+    } else {
+      this.pushToTalk.get(sessionId)?.reset();
+      this.pushToTalk.delete(sessionId);
+    }
+  }
+
+  /**
+   * Set (or reset) the TTS voice used for a session's replies
+   */
+  setVoice(sessionId: string, voiceId?: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new PipelineError(PipelineErrorCode.PIPELINE_INVALID_STATE, `Session ${sessionId} not found`, {
+        sessionId,
+      });
+    }
+
+    session.voiceId = voiceId;
+  }
+
+  /**
+   * Replace a session's persona; applies from the next request
+   */
+  setPersona(sessionId: string, persona: VoicePersona): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new PipelineError(PipelineErrorCode.PIPELINE_INVALID_STATE, `Session ${sessionId} not found`, {
+        sessionId,
+      });
+    }
+
+    session.persona = { ...persona };
+  }
+
+  /**
+   * Set (or clear) a user's language and voice preferences; applies from their next request
+   */
+  setUserPreferences(userId: string, preferences?: UserVoicePreferences): void {
+    if (preferences && (preferences.language || preferences.voiceId)) {
+      this.userPreferences.set(userId, { ...preferences });
+    } else {
+      this.userPreferences.delete(userId);
+    }
+  }
+
+  /**
+   * Get a user's language and voice preferences
+   */
+  getUserPreferences(userId: string): UserVoicePreferences | undefined {
+    return this.userPreferences.get(userId);
+  }
+
+  /**
+   * Get the conversation history sent to the agent for a guild channel, oldest turn first
+   */
+  getConversationHistory(guildId: string, channelId: string): ConversationTurn[] {
+    return this.conversations.get(`${guildId}:${channelId}`)?.getTurns() ?? [];
+  }
+
+  /**
+   * Forget the conversation history for a guild channel
+   * Returns the number of turns cleared
+   */
+  clearConversationHistory(guildId: string, channelId: string): number {
+    const key = `${guildId}:${channelId}`;
+    const cleared = this.conversations.get(key)?.getTurns().length ?? 0;
+    this.conversations.delete(key);
+    return cleared;
+  }
+
+  /**
+   * Get per-speaker receive state for a session
+   */
+  getSpeakers(sessionId: string): SpeakerInfo[] {
+    return this.receivers.get(sessionId)?.getSpeakers() ?? [];
+  }
+
   /**
    * Get all active sessions
    */
@@ -446,6 +773,48 @@ export class VoiceCommandPipeline {
     return Array.from(this.sessions.values()).filter((s) => s.status === 'active');
   }
 
+  /**
+   * Get the STT provider registry (register custom provider types here)
+   */
+  getSTTProviders(): STTProviderRegistry {
+    return this.sttProviders;
+  }
+
+  /**
+   * Get the agent client registry (register custom client types here)
+   */
+  getAgentClients(): AgentClientRegistry {
+    return this.agentClients;
+  }
+
+  /**
+   * Whether the pipeline is initialized and accepting sessions
+   */
+  isReady(): boolean {
+    return this.isInitialized;
+  }
+
+  /**
+   * Get TTS synthesis and cache statistics (undefined before initialize)
+   */
+  getTTSStats(): TTSStats | undefined {
+    return this.ttsInstance?.getStats();
+  }
+
+  /**
+   * Get the transcript store (undefined unless transcriptStore is configured)
+   */
+  getTranscriptStore(): TranscriptStore | undefined {
+    return this.transcriptStore;
+  }
+
+  /**
+   * Get the request tracer (undefined unless tracing is configured)
+   */
+  getTracer(): Tracer | undefined {
+    return this.tracer;
+  }
+
   /**
    * Get pipeline metrics
    */
@@ -513,10 +882,456 @@ export class VoiceCommandPipeline {
     return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  /**
+   * Look up a session that can accept new requests
+   */
+  private getActiveSession(sessionId: string): VoiceSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new PipelineError(PipelineErrorCode.PIPELINE_INVALID_STATE, `Session ${sessionId} not found`, {
+        sessionId,
+      });
+    }
+
+    if (session.status !== 'active') {
+      throw new PipelineError(
+        PipelineErrorCode.PIPELINE_INVALID_STATE,
+        `Session ${sessionId} is not active (status: ${session.status})`,
+        { sessionId, status: session.status },
+      );
+    }
+
+    return session;
+  }
+
+  /**
+   * Create and register a new request for a session
+   */
+  private createRequest(session: VoiceSession, audioFrames: AudioFrame[], userId?: string): VoiceRequest {
+    session.lastActivity = Date.now();
+
+    const request: VoiceRequest = {
+      requestId: this.generateRequestId(),
+      sessionId: session.sessionId,
+      userId: userId ?? session.userId,
+      audioFrames,
+      startTime: Date.now(),
+      status: 'receiving',
+      timings: {},
+    };
+
+    session.currentRequest = request;
+    this.activeRequests.set(request.requestId, request);
+
+    return request;
+  }
+
+  /**
+   * Run a request, traced as a voice.request span with a child span per stage
+   */
+  private async executeRequest(request: VoiceRequest, session: VoiceSession): Promise<string> {
+    const span = this.tracer?.startSpan('voice.request', {
+      attributes: {
+        'voice.guild_id': session.guildId,
+        'voice.channel_id': session.channelId,
+        'voice.user_id': request.userId,
+        'voice.session_id': request.sessionId,
+        'voice.request_id': request.requestId,
+      },
+      startTime: request.startTime,
+    });
+    if (!span) {
+      return this.runRequestStages(request, session);
+    }
+
+    this.requestSpans.set(request.requestId, span);
+    try {
+      return await this.runRequestStages(request, session);
+    } finally {
+      this.requestSpans.delete(request.requestId);
+      this.endRequestSpan(span, request);
+    }
+  }
+
+  /**
+   * Run a request through the pipeline stages
+   * Text requests (inputText set) skip transcription
+   */
+  private async runRequestStages(request: VoiceRequest, session: VoiceSession): Promise<string> {
+    const { requestId, sessionId } = request;
+
+    this.emit('requestStarted', request);
+
+    try {
+      let text: string;
+
+      if (request.inputText === undefined) {
+        // Step 1: Transcribe audio
+        request.status = 'transcribing';
+        const transcribeStart = Date.now();
+        const transcription = await this.traceStage(request, 'voice.transcribe', () =>
+          this.transcribeAudio(request.audioFrames, session, request.userId),
+        );
+        request.timings.stt = Date.now() - transcribeStart;
+        request.transcription = transcription;
+        text = transcription.text;
+
+        // Only wake-phrase (or follow-up) utterances reach the agent;
+        // a push-to-talk press already addresses the bot
+        const gate = session.inputMode === 'continuous' ? this.wakeWordGates.get(sessionId) : undefined;
+        if (gate) {
+          request.wakeWord = gate.check(request.userId, text);
+          if (!request.wakeWord.accepted) {
+            return this.ignoreRequest(request, 'no-wake-phrase');
+          }
+          if (request.wakeWord.text.length === 0) {
+            return this.ignoreRequest(request, 'wake-phrase-only');
+          }
+          text = request.wakeWord.text;
+        }
+      } else {
+        text = request.inputText;
+      }
+
+      request.language =
+        this.userPreferences.get(request.userId)?.language ??
+        request.transcription?.language ??
+        session.persona.language;
+
+      // Step 2: Send to agent, speaking streamed sentences as soon as they complete
+      request.status = 'processing';
+      const deltas = new AsyncTextQueue();
+      const streamState = { aborted: false };
+      const speaking = this.speakStreamedSentences(deltas, request, session, streamState);
+      // Failures are surfaced when awaited below
+      speaking.catch(() => {});
+
+      let agentResponse: AgentResponse;
+      const agentStart = Date.now();
+      try {
+        agentResponse = await this.callAgent(text, request, session, (delta) => deltas.push(delta));
+        request.timings.agent = Date.now() - agentStart;
+      } catch (error) {
+        // Don't speak the partial sentence left in the buffer
+        streamState.aborted = true;
+        deltas.close();
+        await speaking.catch(() => {});
+        throw error;
+      }
+
+      deltas.close();
+      request.agentResponse = agentResponse.text;
+      request.actions = agentResponse.actions;
+      this.getConversation(session).addExchange(text, agentResponse.text, request.userId);
+      const spokenSentences = await speaking;
+
+      // Non-streamed reply: synthesize and play it in one piece
+      if (spokenSentences === 0 && !this.isCancelled(request)) {
+        // Step 3: Synthesize response
+        request.status = 'synthesizing';
+        const ttsResponse = await this.traceStage(request, 'voice.synthesize', () =>
+          this.synthesizeSpeech(agentResponse.text, session, request),
+        );
+        request.ttsResponse = ttsResponse;
+
+        // Step 4: Play audio response
+        if (!this.isCancelled(request)) {
+          request.status = 'playing';
+          await this.traceStage(request, 'voice.play', () =>
+            this.playRequestAudio(ttsResponse.audio, request, session),
+          );
+        }
+      }
+
+      // Interrupted (barge-in or session end): nothing more to do
+      if (this.isCancelled(request)) {
+        return requestId;
+      }
+
+      // The follow-up window runs from the end of the reply
+      if (request.wakeWord) {
+        this.wakeWordGates.get(sessionId)?.openFollowUpWindow(request.userId);
+      }
+
+      // Actions run after the reply, so "okay, leaving now" is heard before the bot leaves
+      if (request.actions && request.actions.length > 0) {
+        this.emit('agentActions', request, request.actions);
+      }
+
+      // Success
+      request.status = 'completed';
+      session.metrics.totalRequests++;
+      session.metrics.successfulRequests++;
+      session.metrics.avgTotalLatency = (session.metrics.avgTotalLatency + (Date.now() - request.startTime)) / 2;
+
+      this.emit('requestCompleted', request);
+      this.recordRequest(request, session);
+      return requestId;
+    } catch (error: any) {
+      if (this.isCancelled(request)) {
+        return requestId;
+      }
+
+      request.status = 'error';
+      const pipelineError =
+        error instanceof PipelineError
+          ? error
+          : new PipelineError(PipelineErrorCode.UNKNOWN_ERROR, error.message, {
+              sessionId,
+              userId: session.userId,
+              phase: 'pipeline',
+              originalError: error,
+            });
+
+      request.error = pipelineError;
+      session.metrics.totalRequests++;
+      session.metrics.failedRequests++;
+
+      this.emit('requestError', request, pipelineError);
+      this.recordRequest(request, session);
+
+      // Try error recovery
+      if (this.config.enableErrorRecovery) {
+        const recovered = await this.attemptRecovery(pipelineError, request, session);
+        if (recovered) {
+          return requestId;
+        }
+      }
+
+      throw pipelineError;
+    }
+  }
+
+  /**
+   * Run one stage of a request in a child span of its voice.request span
+   * The span is passed to run so it can be propagated to downstream services
+   */
+  private async traceStage<T>(
+    request: VoiceRequest,
+    name: string,
+    run: (span?: Span) => Promise<T>,
+    options: Omit<SpanOptions, 'parent'> = {},
+  ): Promise<T> {
+    const span = this.startStageSpan(request, name, options);
+
+    try {
+      return await run(span);
+    } catch (error: any) {
+      span?.setError(error.message);
+      throw error;
+    } finally {
+      span?.end();
+    }
+  }
+
+  /**
+   * Start a child span of a request's voice.request span (undefined when tracing is off)
+   */
+  private startStageSpan(
+    request: VoiceRequest,
+    name: string,
+    options: Omit<SpanOptions, 'parent'> = {},
+  ): Span | undefined {
+    const parent = this.requestSpans.get(request.requestId);
+    return parent ? this.tracer?.startSpan(name, { ...options, parent }) : undefined;
+  }
+
+  /**
+   * Record a request's outcome on its root span and end it
+   */
+  private endRequestSpan(span: Span, request: VoiceRequest): void {
+    const text = request.wakeWord?.text ?? request.inputText ?? request.transcription?.text;
+    span.setAttribute('voice.status', this.isCancelled(request) ? 'cancelled' : request.status);
+    span.setAttribute('voice.text_length', text?.length);
+    span.setAttribute('voice.response_length', request.agentResponse?.length);
+    span.setAttribute('voice.language', request.language);
+
+    if (request.status === 'error' && request.error) {
+      span.setAttribute('voice.error_code', PipelineErrorCode[request.error.code] ?? String(request.error.code));
+      span.setError(request.error.message);
+    }
+    span.end();
+  }
+
+  /**
+   * Save a finished request to the transcript store
+   * Ignored requests (no wake phrase) are never stored
+   */
+  private recordRequest(request: VoiceRequest, session: VoiceSession): void {
+    if (!this.transcriptStore) return;
+
+    let status: RequestRecord['status'] = 'error';
+    if (request.status === 'completed') {
+      status = 'completed';
+    } else if (this.isCancelled(request)) {
+      status = 'cancelled';
+    }
+
+    this.transcriptStore.record({
+      kind: 'request',
+      requestId: request.requestId,
+      sessionId: request.sessionId,
+      guildId: session.guildId,
+      channelId: session.channelId,
+      userId: request.userId,
+      status,
+      input: request.inputText ?? request.transcription?.text,
+      confidence: request.transcription?.confidence,
+      language: request.language,
+      response: request.agentResponse,
+      errorCode: request.error?.code,
+      errorMessage: request.error?.message,
+      startTime: request.startTime,
+      endTime: Date.now(),
+      audioDurationMs: request.transcription?.duration,
+      timeToFirstAudioMs: request.timeToFirstAudio,
+    });
+  }
+
+  /**
+   * Save an ended session to the transcript store
+   */
+  private recordSession(session: VoiceSession, reason: string): void {
+    this.transcriptStore?.record({
+      kind: 'session',
+      sessionId: session.sessionId,
+      guildId: session.guildId,
+      channelId: session.channelId,
+      userId: session.userId,
+      startTime: session.startTime,
+      endTime: Date.now(),
+      endReason: reason,
+      totalRequests: session.metrics.totalRequests,
+      failedRequests: session.metrics.failedRequests,
+    });
+  }
+
+  /**
+   * Finish a voice request that is not meant for the agent
+   */
+  private ignoreRequest(request: VoiceRequest, reason: 'no-wake-phrase' | 'wake-phrase-only'): string {
+    request.status = 'ignored';
+    this.emit('requestIgnored', request, reason);
+    return request.requestId;
+  }
+
+  /**
+   * Check whether a request was cancelled while it was running
+   */
+  private isCancelled(request: VoiceRequest): boolean {
+    return request.error?.code === PipelineErrorCode.PIPELINE_CANCELLED;
+  }
+
+  /**
+   * Get the push-to-talk captures for a session
+   */
+  private getPushToTalk(session: VoiceSession): PushToTalkController {
+    const pushToTalk = this.pushToTalk.get(session.sessionId);
+    if (!pushToTalk) {
+      throw new PipelineError(
+        PipelineErrorCode.PIPELINE_INVALID_STATE,
+        `Session ${session.sessionId} is not in push-to-talk mode`,
+        { sessionId: session.sessionId, metadata: { inputMode: session.inputMode } },
+      );
+    }
+    return pushToTalk;
+  }
+
+  /**
+   * Get (or create) the conversation history for a session's channel
+   */
+  private getConversation(session: VoiceSession): ConversationHistory {
+    const key = `${session.guildId}:${session.channelId}`;
+    let conversation = this.conversations.get(key);
+    if (!conversation) {
+      conversation = new ConversationHistory(this.config.conversationHistory);
+      this.conversations.set(key, conversation);
+    }
+    return conversation;
+  }
+
+  /**
+   * Count a live audio frame in the session metrics
+   */
+  private recordAudioFrame(session: VoiceSession, frame: AudioFrame): void {
+    session.metrics.audioFramesProcessed++;
+    session.metrics.bytesProcessed += frame.data.byteLength;
+  }
+
+  /**
+   * Get (or create) the per-speaker audio receiver for a session
+   */
+  private getReceiver(session: VoiceSession): VoiceReceiver {
+    let receiver = this.receivers.get(session.sessionId);
+    if (!receiver) {
+      receiver = new VoiceReceiver({
+        jitterBufferSize: this.config.audioConfig.jitterBufferSize,
+        targetBufferLatency: this.config.audioConfig.targetBufferLatency,
+        endpointer: { vadConfig: this.config.vadConfig, ...this.config.endpointer },
+      });
+
+      receiver.on('speech', async (userId: string) => {
+        // In push-to-talk, speech from users who haven't pressed is ignored entirely
+        const pushToTalk = this.pushToTalk.get(session.sessionId);
+        if (pushToTalk) {
+          if (!pushToTalk.isCapturing(userId)) return;
+          pushToTalk.heardSpeech(userId);
+        }
+
+        if (this.config.enableBargeIn && session.status === 'active' && this.isBotSpeaking(session)) {
+          await this.interruptPlayback(session);
+        }
+      });
+      receiver.on('utterance', (utterance: SpeakerUtterance) => {
+        const pushToTalk = this.pushToTalk.get(session.sessionId);
+        if (pushToTalk && !pushToTalk.complete(utterance.userId)) return;
+
+        // Not awaited, so the caller keeps feeding frames (and can barge in on the reply)
+        this.processVoiceCommand(session.sessionId, utterance.frames, utterance.userId).catch((error) => {
+          if (!(error instanceof PipelineError)) {
+            console.error('Error processing utterance:', error);
+          }
+        });
+      });
+
+      this.receivers.set(session.sessionId, receiver);
+    }
+    return receiver;
+  }
+
+  /**
+   * Whether the bot is currently speaking in a session
+   * True while a request is playing or audio is still queued for playback
+   */
+  private isBotSpeaking(session: VoiceSession): boolean {
+    if (session.currentRequest?.status === 'playing') {
+      return true;
+    }
+    return (session.audioHandler?.getPlaybackQueueSize() ?? 0) > 0;
+  }
+
+  /**
+   * Stop bot playback because the user started speaking
+   */
+  private async interruptPlayback(session: VoiceSession): Promise<void> {
+    session.audioHandler?.clearPlaybackQueue();
+
+    const interrupted = session.currentRequest;
+    if (interrupted && this.activeRequests.has(interrupted.requestId) && interrupted.status !== 'completed') {
+      await this.cancelRequest(interrupted.requestId, 'barge-in');
+    }
+
+    this.emit('bargeIn', session, interrupted);
+  }
+
   /**
    * Transcribe audio frames to text
    */
-  private async transcribeAudio(audioFrames: AudioFrame[], session: VoiceSession): Promise<TranscriptionResult> {
+  private async transcribeAudio(
+    audioFrames: AudioFrame[],
+    session: VoiceSession,
+    userId: string,
+  ): Promise<TranscriptionResult> {
     if (!this.sttInstance) {
       throw new PipelineError(PipelineErrorCode.STT_INITIALIZATION_FAILED, 'STT instance not available');
     }
@@ -527,8 +1342,11 @@ export class VoiceCommandPipeline {
       // Convert audio frames to PCM
       const pcmBuffer = await this.convertFramesToPCM(audioFrames);
 
-      // Transcribe
-      const result = await this.sttInstance.transcribe(pcmBuffer);
+      // Transcribe with the guild's provider when provider selection is configured
+      const provider = this.sttProviders.isConfigured() ? this.sttProviders.getProvider(session.guildId) : undefined;
+      // The speaker's language wins over the guild's; with neither, the STT config decides (e.g. 'auto')
+      const language = this.userPreferences.get(userId)?.language ?? session.persona.language;
+      const result = await this.sttInstance.transcribe(pcmBuffer, { provider, language });
 
       // Update metrics
       const latency = Date.now() - startTime;
@@ -536,6 +1354,10 @@ export class VoiceCommandPipeline {
 
       return result;
     } catch (error: any) {
+      // Keep specific STT errors (rate limit, timeout, API) so recovery can act on them
+      if (error instanceof PipelineError) {
+        throw error;
+      }
       throw new PipelineError(PipelineErrorCode.STT_TRANSCRIPTION_FAILED, `Transcription failed: ${error.message}`, {
         sessionId: session.sessionId,
         userId: session.userId,
@@ -546,94 +1368,137 @@ export class VoiceCommandPipeline {
   }
 
   /**
-   * Call agent with transcribed text
+   * Synthesize and play sentences from a streamed agent reply
+   * Returns the number of sentences spoken (0 if the reply was not streamed)
    */
-  private async callAgent(text: string, session: VoiceSession): Promise<AgentResponse> {
-    const startTime = Date.now();
-
-    try {
-      // Use real agent if endpoint is configured
-      let response: AgentResponse;
+  private async speakStreamedSentences(
+    deltas: AsyncIterable<string>,
+    request: VoiceRequest,
+    session: VoiceSession,
+    streamState: { aborted: boolean },
+  ): Promise<number> {
+    if (!this.ttsInstance) {
+      throw new PipelineError(PipelineErrorCode.TTS_INITIALIZATION_FAILED, 'TTS instance not available');
+    }
 
-      if (this.config.agentEndpoint && this.config.agentApiKey) {
-        // Real HTTP agent integration
-        response = await this.callRealAgent(text, session);
-      } else {
-        // Fallback to mock agent
-        response = await this.mockAgentCall(text, session);
+    // Track when each sentence is handed to TTS so latency excludes time spent waiting on the agent
+    let handedAt = 0;
+    const isCancelled = () => this.isCancelled(request);
+    const sentences = (async function* timed() {
+      for await (const sentence of splitSentences(deltas)) {
+        if (streamState.aborted || isCancelled()) return;
+        handedAt = Date.now();
+        yield sentence;
       }
+    })();
 
-      // Update metrics
-      const latency = Date.now() - startTime;
-      session.metrics.avgAgentLatency = (session.metrics.avgAgentLatency + latency) / 2;
+    let spoken = 0;
 
-      return response;
+    try {
+      for await (const ttsResponse of this.ttsInstance.synthesizeStream(
+        sentences,
+        this.getVoiceProfile(session, request),
+      )) {
+        if (streamState.aborted || isCancelled()) break;
+
+        session.metrics.avgTtsLatency = (session.metrics.avgTtsLatency + (Date.now() - handedAt)) / 2;
+        request.timings.tts = (request.timings.tts ?? 0) + (Date.now() - handedAt);
+        // Synthesis already finished; its span runs from when the sentence was handed to TTS
+        this.startStageSpan(request, 'voice.synthesize', { startTime: handedAt })?.end();
+        request.ttsResponse = ttsResponse;
+        request.status = 'playing';
+        await this.traceStage(request, 'voice.play', () => this.playRequestAudio(ttsResponse.audio, request, session));
+        spoken++;
+      }
     } catch (error: any) {
-      throw new PipelineError(PipelineErrorCode.AGENT_REQUEST_FAILED, `Agent request failed: ${error.message}`, {
+      if (error instanceof PipelineError) throw error;
+
+      throw new PipelineError(PipelineErrorCode.TTS_SYNTHESIS_FAILED, `Speech synthesis failed: ${error.message}`, {
         sessionId: session.sessionId,
         userId: session.userId,
-        phase: 'agent',
-        textLength: text.length,
+        phase: 'tts',
         originalError: error,
       });
     }
+
+    return spoken;
   }
 
   /**
-   * Call real agent API with HTTP integration
+   * Call the guild's agent with transcribed text from a speaker
+   * onDelta receives text as it arrives when the agent streams its reply
    */
-  private async callRealAgent(text: string, session: VoiceSession): Promise<AgentResponse> {
-    if (!this.config.agentEndpoint || !this.config.agentApiKey) {
-      throw new Error('Agent endpoint or API key not configured');
-    }
+  private async callAgent(
+    text: string,
+    request: VoiceRequest,
+    session: VoiceSession,
+    onDelta?: (delta: string) => void,
+  ): Promise<AgentResponse> {
+    const { userId } = request;
+    const startTime = Date.now();
+    const agentCall = new AbortController();
+    this.agentCalls.set(request.requestId, agentCall);
 
     try {
-      const timeout = this.config.agentTimeoutMs || 30000;
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-      const response = await fetch(this.config.agentEndpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.config.agentApiKey}`,
-        },
-        body: JSON.stringify({
-          text,
-          sessionId: session.sessionId,
-          userId: session.userId,
-        }),
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
+      const client = this.agentClients.getClient(session.guildId);
+      const reply = await this.traceStage(
+        request,
+        'voice.agent',
+        (span) =>
+          client.send(
+            {
+              text,
+              sessionId: session.sessionId,
+              guildId: session.guildId,
+              channelId: session.channelId,
+              userId,
+              // Earlier turns in the channel so follow-up questions have context
+              history: this.getConversation(session).getTurns(),
+              systemPrompt: session.persona.systemPrompt,
+              language: request.language,
+              traceparent: span?.getTraceparent(),
+            },
+            { onDelta, signal: agentCall.signal },
+          ),
+        { kind: 'client', attributes: { 'voice.agent': client.name } },
+      );
 
-      if (!response.ok) {
-        throw new Error(`Agent API error: ${response.status} ${response.statusText}`);
+      if (typeof reply?.text !== 'string' || reply.text.trim().length === 0) {
+        throw new Error(`${client.name} agent returned an empty reply`);
       }
 
-      const data = (await response.json()) as Record<string, unknown>;
+      // Update metrics
+      const latency = Date.now() - startTime;
+      session.metrics.avgAgentLatency = (session.metrics.avgAgentLatency + latency) / 2;
+
       return {
-        text: (data.text || data.response || text) as string,
-        confidence: (data.confidence || 0.9) as number,
+        text: reply.text,
+        actions: this.validateActions(reply.actions, session),
+        confidence: reply.confidence ?? 0.9,
         metadata: {
           sessionId: session.sessionId,
           processingTime: Date.now() - session.lastActivity,
-          ...(data.metadata || {}),
+          agent: client.name,
+          ...(reply.metadata || {}),
         },
       };
     } catch (error: any) {
-      if (error.name === 'AbortError') {
-        throw new Error(`Agent request timeout after ${this.config.agentTimeoutMs}ms`);
-      }
-      throw error;
+      throw new PipelineError(PipelineErrorCode.AGENT_REQUEST_FAILED, `Agent request failed: ${error.message}`, {
+        sessionId: session.sessionId,
+        userId,
+        phase: 'agent',
+        textLength: text.length,
+        originalError: error,
+      });
+    } finally {
+      this.agentCalls.delete(request.requestId);
     }
   }
 
   /**
    * Synthesize speech from text
    */
-  private async synthesizeSpeech(text: string, session: VoiceSession): Promise<TTSResponse> {
+  private async synthesizeSpeech(text: string, session: VoiceSession, request?: VoiceRequest): Promise<TTSResponse> {
     if (!this.ttsInstance) {
       throw new PipelineError(PipelineErrorCode.TTS_INITIALIZATION_FAILED, 'TTS instance not available');
     }
@@ -642,11 +1507,14 @@ export class VoiceCommandPipeline {
 
     try {
       // Synthesize
-      const response = await this.ttsInstance.synthesize(text);
+      const response = await this.ttsInstance.synthesize(text, this.getVoiceProfile(session, request));
 
       // Update metrics
       const latency = Date.now() - startTime;
       session.metrics.avgTtsLatency = (session.metrics.avgTtsLatency + latency) / 2;
+      if (request) {
+        request.timings.tts = (request.timings.tts ?? 0) + latency;
+      }
 
       return response;
     } catch (error: any) {
@@ -696,6 +1564,22 @@ export class VoiceCommandPipeline {
     }
   }
 
+  /**
+   * Play audio for a request, recording time-to-first-audio on its first chunk
+   */
+  private async playRequestAudio(
+    audioBuffer: Buffer | Uint8Array,
+    request: VoiceRequest,
+    session: VoiceSession,
+  ): Promise<void> {
+    if (request.timeToFirstAudio === undefined) {
+      request.timeToFirstAudio = Date.now() - request.startTime;
+      session.metrics.avgTimeToFirstAudio = (session.metrics.avgTimeToFirstAudio + request.timeToFirstAudio) / 2;
+    }
+
+    await this.playAudioResponse(audioBuffer, session);
+  }
+
   /**
    * Attempt error recovery
    */
@@ -718,7 +1602,7 @@ export class VoiceCommandPipeline {
       // Try fallback response
       if (this.config.enableFallbackResponses) {
         const fallbackResponse = this.getFallbackResponse(error);
-        const ttsResponse = await this.synthesizeSpeech(fallbackResponse, session);
+        const ttsResponse = await this.synthesizeSpeech(fallbackResponse, session, request);
         await this.playAudioResponse(ttsResponse.audio, session);
 
         // Mark recovery as successful
@@ -754,24 +1638,13 @@ export class VoiceCommandPipeline {
   }
 
   /**
-   * Convert audio frames to PCM buffer
+   * Convert audio frames to mono 16-bit PCM at the STT sample rate
+   * Frames arrive in the audio stream format (48kHz stereo from Discord)
    */
   private async convertFramesToPCM(frames: AudioFrame[]): Promise<Buffer> {
-    // Simple concatenation for mock implementation
-    const totalSamples = frames.reduce((sum, f) => sum + f.data.length, 0);
-    const buffer = Buffer.alloc(totalSamples * 2); // 16-bit samples
-
-    let offset = 0;
-    for (const frame of frames) {
-      for (let i = 0; i < frame.data.length; i++) {
-        const sample = Math.max(-1, Math.min(1, frame.data[i]));
-        const int16 = Math.floor(sample * 32767);
-        buffer.writeInt16LE(int16, offset);
-        offset += 2;
-      }
-    }
-
-    return buffer;
+    const { channels, sampleRate } = this.config.audioConfig;
+    const pcm = Buffer.concat(frames.map((frame) => floatToPCM16(downmixToMono(frame.data, channels))));
+    return resamplePCM16(pcm, sampleRate, this.config.sttConfig.sampleRate ?? 48000);
   }
 
   /**
@@ -791,31 +1664,34 @@ export class VoiceCommandPipeline {
   }
 
   /**
-   * Mock agent call (replace with real agent integration)
+   * Validate the actions in an agent reply, dropping (and logging) any that break the contract
    */
-  private async mockAgentCall(text: string, session: VoiceSession): Promise<AgentResponse> {
-    // Simulate agent processing time
-    await new Promise((resolve) => setTimeout(resolve, 100 + Math.random() * 200));
+  private validateActions(raw: unknown, session: VoiceSession): AgentAction[] | undefined {
+    const { actions, rejected } = parseAgentActions(raw);
 
-    // Mock responses based on input
-    let response = `I understand you said: ${text}`;
-
-    if (text.toLowerCase().includes('hello')) {
-      response = 'Hello! How can I help you today?';
-    } else if (text.toLowerCase().includes('time')) {
-      response = `The current time is ${new Date().toLocaleTimeString()}`;
-    } else if (text.toLowerCase().includes('weather')) {
-      response = "I'm sorry, I don't have access to weather information right now.";
+    for (const { reason } of rejected) {
+      console.warn(`Rejected agent action in session ${session.sessionId}: ${reason}`);
     }
 
-    return {
-      text: response,
-      confidence: 0.95,
-      metadata: {
-        sessionId: session.sessionId,
-        processingTime: Date.now() - session.lastActivity,
-      },
-    };
+    return actions.length > 0 ? actions : undefined;
+  }
+
+  /**
+   * TTS voice for a reply (undefined = the TTS default profile)
+   * Voice precedence: agent voice change, speaker preference, reply language, guild persona
+   */
+  private getVoiceProfile(session: VoiceSession, request?: VoiceRequest): TTSVoiceProfile | undefined {
+    const { stability, similarity, speakingRate } = session.persona;
+    const voiceId =
+      session.voiceId ??
+      (request && this.userPreferences.get(request.userId)?.voiceId) ??
+      (request?.language && this.config.languageVoices?.[request.language]) ??
+      session.persona.voiceId;
+
+    if (!voiceId && stability === undefined && similarity === undefined && speakingRate === undefined) {
+      return undefined;
+    }
+    return { voiceId: voiceId ?? this.config.ttsConfig.voiceId, stability, similarity, speakingRate };
   }
 
   /**
@@ -834,6 +1710,15 @@ export class VoiceCommandPipeline {
     }
   }
 
+  /**
+   * Publish the pipeline metrics after session counts change
+   */
+  private emitMetrics(): void {
+    if (this.config.enableMetrics) {
+      this.emit('metricsUpdated', this.getMetrics());
+    }
+  }
+
   /**
    * Periodic cleanup of timed-out sessions
    */
@@ -845,6 +1730,13 @@ export class VoiceCommandPipeline {
           this.endSession(sessionId, 'timeout');
         }
       }
+
+      // Drop histories that have expired
+      for (const [key, conversation] of this.conversations) {
+        if (conversation.getTurns(now).length === 0) {
+          this.conversations.delete(key);
+        }
+      }
     }, 60000); // Check every minute
   }
 }
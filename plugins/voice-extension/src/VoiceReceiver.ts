@@ -0,0 +1,396 @@
+/**
+ * Per-speaker voice receive
+ * Demultiplexes incoming RTP audio by SSRC, maps SSRCs to Discord user IDs from
+ * voice gateway SPEAKING events, and keeps a jitter buffer and endpointing (VAD) state
+ * per speaker so each speaker's utterances are cut and attributed independently
+ */
+
+import { AudioFrame } from './types.js';
+import { JitterBuffer } from './AudioStreamHandler.js';
+import { Utterance, UtteranceEndpointer, UtteranceEndpointerConfig } from './UtteranceEndpointer.js';
+
+// ============================================
+// Types and Interfaces
+// ============================================
+
+/**
+ * Receiver configuration
+ */
+export interface VoiceReceiverConfig {
+  jitterBufferSize?: number; // Frames per speaker (default: 10)
+  targetBufferLatency?: number; // ms (default: 40)
+  maxPendingFrames?: number; // Frames held per unmapped SSRC until its SPEAKING event arrives (default: 50)
+  endpointer?: UtteranceEndpointerConfig; // Utterance segmentation (pre-roll, hangover, length limits)
+}
+
+/**
+ * Voice gateway SPEAKING (opcode 5) payload
+ */
+export interface SpeakingUpdate {
+  userId: string;
+  ssrc: number;
+  speaking?: boolean | number; // Speaking flags bitfield on the wire; 0/false when the user stops
+}
+
+/**
+ * A completed utterance from one speaker
+ */
+export interface SpeakerUtterance extends Utterance {
+  ssrc?: number; // Unset for frames pushed without RTP demultiplexing
+}
+
+/**
+ * Snapshot of a speaker's receive state
+ */
+export interface SpeakerInfo {
+  userId: string;
+  ssrc?: number;
+  speaking: boolean; // Utterance in progress
+  bufferedFrames: number; // Frames waiting in the jitter buffer
+  framesReceived: number;
+  framesDropped: number; // Late or duplicate packets
+}
+
+/**
+ * Receiver events
+ * Listeners may return a promise; the receiver waits for it before processing the next frame
+ */
+export interface VoiceReceiverEvents {
+  speakerMapped(userId: string, ssrc: number): void;
+  speech(userId: string, frame: AudioFrame): void | Promise<void>;
+  utterance(utterance: SpeakerUtterance): void | Promise<void>;
+}
+
+/**
+ * Receive state for one speaker
+ */
+interface SpeakerState {
+  userId: string;
+  ssrc?: number;
+  jitterBuffer: JitterBuffer;
+  lastSequence?: number;
+  drainTimer?: NodeJS.Timeout;
+  framesReceived: number;
+  framesDropped: number;
+}
+
+// ============================================
+// VoiceReceiver
+// ============================================
+
+export class VoiceReceiver {
+  private config: Required<Omit<VoiceReceiverConfig, 'endpointer'>>;
+
+  private endpointer: UtteranceEndpointer;
+
+  // userId -> speaker state
+  private speakers: Map<string, SpeakerState> = new Map();
+
+  // ssrc -> userId
+  private ssrcUsers: Map<number, string> = new Map();
+
+  // ssrc -> frames received before the SSRC was mapped
+  private pendingFrames: Map<number, AudioFrame[]> = new Map();
+
+  private unmappedFramesDropped: number = 0;
+
+  private eventListeners: Map<keyof VoiceReceiverEvents, Function[]> = new Map();
+
+  constructor(config: VoiceReceiverConfig = {}) {
+    this.config = {
+      jitterBufferSize: config.jitterBufferSize ?? 10,
+      targetBufferLatency: config.targetBufferLatency ?? 40,
+      maxPendingFrames: config.maxPendingFrames ?? 50,
+    };
+
+    this.endpointer = new UtteranceEndpointer(config.endpointer);
+    this.endpointer.on('speech', (userId, frame) => this.emit('speech', userId, frame));
+    this.endpointer.on('utterance', (utterance) =>
+      this.emit('utterance', { ...utterance, ssrc: this.speakers.get(utterance.userId)?.ssrc }),
+    );
+  }
+
+  /**
+   * Handle a voice gateway SPEAKING event
+   * Maps the SSRC to the user and replays any audio that arrived before the mapping
+   */
+  async handleSpeaking(update: SpeakingUpdate): Promise<void> {
+    const speaker = this.getSpeaker(update.userId);
+
+    if (speaker.ssrc !== update.ssrc) {
+      // Reconnecting clients get a new SSRC; an SSRC may also be reassigned to another user
+      if (speaker.ssrc !== undefined) {
+        this.ssrcUsers.delete(speaker.ssrc);
+      }
+      const previousUser = this.ssrcUsers.get(update.ssrc);
+      if (previousUser !== undefined) {
+        await this.removeSpeaker(previousUser);
+      }
+
+      speaker.ssrc = update.ssrc;
+      speaker.lastSequence = undefined;
+      this.ssrcUsers.set(update.ssrc, update.userId);
+      await this.emit('speakerMapped', update.userId, update.ssrc);
+
+      const pending = this.pendingFrames.get(update.ssrc);
+      this.pendingFrames.delete(update.ssrc);
+      for (const frame of pending ?? []) {
+        await this.receiveFrame(frame);
+      }
+    }
+
+    if (update.speaking === false || update.speaking === 0) {
+      await this.flushSpeaker(speaker);
+    }
+  }
+
+  /**
+   * Handle a user leaving the voice channel (voice gateway CLIENT_DISCONNECT)
+   * Any utterance in progress is completed before the speaker is dropped
+   */
+  async handleClientDisconnect(userId: string): Promise<void> {
+    await this.removeSpeaker(userId);
+  }
+
+  /**
+   * Complete a user's utterance in progress now (e.g. push-to-talk released)
+   */
+  async flushUser(userId: string): Promise<void> {
+    const speaker = this.speakers.get(userId);
+    if (speaker) {
+      await this.flushSpeaker(speaker);
+    }
+  }
+
+  /**
+   * Receive a decoded RTP frame
+   * Frames are routed by SSRC through the speaker's jitter buffer;
+   * frames from SSRCs without a SPEAKING event yet are held until one arrives
+   */
+  async receiveFrame(frame: AudioFrame): Promise<void> {
+    const userId = this.ssrcUsers.get(frame.ssrc);
+    if (userId === undefined) {
+      this.holdFrame(frame);
+      return;
+    }
+
+    const speaker = this.getSpeaker(userId);
+    speaker.framesReceived++;
+    speaker.jitterBuffer.enqueue(frame);
+    await this.drain(speaker);
+  }
+
+  /**
+   * Process a frame already attributed to a user, bypassing SSRC mapping and the jitter buffer
+   */
+  async pushFrame(userId: string, frame: AudioFrame): Promise<void> {
+    const speaker = this.getSpeaker(userId);
+    speaker.framesReceived++;
+    await this.endpointer.processFrame(userId, frame);
+  }
+
+  /**
+   * Get the user ID mapped to an SSRC
+   */
+  getUserId(ssrc: number): string | undefined {
+    return this.ssrcUsers.get(ssrc);
+  }
+
+  /**
+   * Get the SSRC mapped to a user
+   */
+  getSSRC(userId: string): number | undefined {
+    return this.speakers.get(userId)?.ssrc;
+  }
+
+  /**
+   * Get receive state for all known speakers
+   */
+  getSpeakers(): SpeakerInfo[] {
+    return Array.from(this.speakers.values()).map((speaker) => ({
+      userId: speaker.userId,
+      ssrc: speaker.ssrc,
+      speaking: this.endpointer.isSpeaking(speaker.userId),
+      bufferedFrames: speaker.jitterBuffer.getOccupancy(),
+      framesReceived: speaker.framesReceived,
+      framesDropped: speaker.framesDropped,
+    }));
+  }
+
+  /**
+   * Get the number of frames held for SSRCs that have not been mapped yet
+   */
+  getPendingFrameCount(): number {
+    let count = 0;
+    for (const frames of this.pendingFrames.values()) {
+      count += frames.length;
+    }
+    return count;
+  }
+
+  /**
+   * Get the number of unmapped frames discarded because the pending queue was full
+   */
+  getUnmappedFramesDropped(): number {
+    return this.unmappedFramesDropped;
+  }
+
+  /**
+   * Stop all timers and forget every speaker without emitting their partial utterances
+   */
+  shutdown(): void {
+    for (const speaker of this.speakers.values()) {
+      clearTimeout(speaker.drainTimer);
+    }
+    this.speakers.clear();
+    this.endpointer.reset();
+    this.ssrcUsers.clear();
+    this.pendingFrames.clear();
+    this.eventListeners.clear();
+  }
+
+  /**
+   * Register event listener
+   */
+  on<K extends keyof VoiceReceiverEvents>(event: K, listener: VoiceReceiverEvents[K]): void {
+    if (!this.eventListeners.has(event)) {
+      this.eventListeners.set(event, []);
+    }
+    this.eventListeners.get(event)!.push(listener);
+  }
+
+  /**
+   * Remove event listener
+   */
+  off<K extends keyof VoiceReceiverEvents>(event: K, listener: VoiceReceiverEvents[K]): void {
+    const listeners = this.eventListeners.get(event);
+    if (listeners) {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    }
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  /**
+   * Get (or create) the receive state for a user
+   */
+  private getSpeaker(userId: string): SpeakerState {
+    let speaker = this.speakers.get(userId);
+    if (!speaker) {
+      speaker = {
+        userId,
+        jitterBuffer: new JitterBuffer(this.config.jitterBufferSize, this.config.targetBufferLatency, 48000),
+        framesReceived: 0,
+        framesDropped: 0,
+      };
+      this.speakers.set(userId, speaker);
+    }
+    return speaker;
+  }
+
+  /**
+   * Complete a speaker's utterance and forget them
+   */
+  private async removeSpeaker(userId: string): Promise<void> {
+    const speaker = this.speakers.get(userId);
+    if (!speaker) return;
+
+    await this.flushSpeaker(speaker);
+    await this.endpointer.remove(userId);
+    this.speakers.delete(userId);
+    if (speaker.ssrc !== undefined && this.ssrcUsers.get(speaker.ssrc) === userId) {
+      this.ssrcUsers.delete(speaker.ssrc);
+    }
+  }
+
+  /**
+   * Hold a frame from an unmapped SSRC, discarding the oldest once the queue is full
+   */
+  private holdFrame(frame: AudioFrame): void {
+    let pending = this.pendingFrames.get(frame.ssrc);
+    if (!pending) {
+      pending = [];
+      this.pendingFrames.set(frame.ssrc, pending);
+    }
+
+    pending.push(frame);
+    if (pending.length > this.config.maxPendingFrames) {
+      pending.shift();
+      this.unmappedFramesDropped++;
+    }
+  }
+
+  /**
+   * Process every frame whose playout time has been reached
+   * Frames still buffered are drained by a timer once they are due
+   */
+  private async drain(speaker: SpeakerState): Promise<void> {
+    let frame = speaker.jitterBuffer.dequeue();
+    while (frame) {
+      await this.processSequencedFrame(speaker, frame);
+      frame = speaker.jitterBuffer.dequeue();
+    }
+
+    if (speaker.jitterBuffer.getOccupancy() > 0 && !speaker.drainTimer) {
+      speaker.drainTimer = setTimeout(() => {
+        speaker.drainTimer = undefined;
+        this.drain(speaker).catch((error) => console.error('Error draining jitter buffer:', error));
+      }, this.config.targetBufferLatency);
+    }
+  }
+
+  /**
+   * Complete a speaker's utterance now, including frames still in the jitter buffer
+   */
+  private async flushSpeaker(speaker: SpeakerState): Promise<void> {
+    clearTimeout(speaker.drainTimer);
+    speaker.drainTimer = undefined;
+
+    for (const frame of speaker.jitterBuffer.drain()) {
+      await this.processSequencedFrame(speaker, frame);
+    }
+
+    await this.endpointer.flush(speaker.userId);
+  }
+
+  /**
+   * Drop late and duplicate RTP packets, then process the frame
+   */
+  private async processSequencedFrame(speaker: SpeakerState, frame: AudioFrame): Promise<void> {
+    if (speaker.lastSequence !== undefined) {
+      // 16-bit RTP sequence numbers wrap; anything not ahead of the last frame is late
+      const delta = (frame.sequenceNumber - speaker.lastSequence) & 0xffff;
+      if (delta === 0 || delta >= 0x8000) {
+        speaker.framesDropped++;
+        return;
+      }
+    }
+
+    speaker.lastSequence = frame.sequenceNumber;
+    await this.endpointer.processFrame(speaker.userId, frame);
+  }
+
+  /**
+   * Emit event to listeners, waiting for any that return a promise
+   */
+  private async emit<K extends keyof VoiceReceiverEvents>(
+    event: K,
+    ...args: Parameters<VoiceReceiverEvents[K]>
+  ): Promise<void> {
+    const listeners = this.eventListeners.get(event);
+    if (listeners) {
+      for (const listener of listeners) {
+        try {
+          await (listener as any)(...args);
+        } catch (error) {
+          console.error(`Error in ${event} listener:`, error);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Wake-phrase gating for Listening mode
+ * Only utterances that start with a wake phrase (e.g. "hey Rue") reach the agent,
+ * unless the speaker is inside the follow-up window after a recent exchange
+ */
+
+// ============================================
+// Types and Interfaces
+// ============================================
+
+/**
+ * Wake word configuration
+ */
+export interface WakeWordConfig {
+  phrases: string[]; // Accepted wake phrases, including common transcription variants ("hey rue", "hey roo")
+  followUpWindowMs?: number; // Time after an exchange when no wake phrase is needed (default: 15000, 0 = off)
+}
+
+/**
+ * Result of checking a transcript against the gate
+ */
+export interface WakeWordResult {
+  accepted: boolean;
+  text: string; // Transcript with the wake phrase stripped (empty if only the phrase was said)
+  phrase?: string; // The wake phrase that matched
+  followUp: boolean; // Accepted without a wake phrase because of the follow-up window
+}
+
+/**
+ * A word in a transcript with its position in the original text
+ */
+interface Token {
+  word: string;
+  end: number;
+}
+
+// Hesitations transcribed before the wake phrase ("um, hey Rue")
+const LEADING_FILLERS = new Set(['um', 'uh', 'erm', 'hmm', 'oh', 'ok', 'okay', 'so', 'and']);
+
+// ============================================
+// Matching
+// ============================================
+
+/**
+ * Split text into lowercase words, keeping where each word ends
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+(?:'[\p{L}]+)?/gu)) {
+    tokens.push({ word: match[0].toLowerCase(), end: match.index! + match[0].length });
+  }
+  return tokens;
+}
+
+/**
+ * Match a wake phrase at the start of a transcript (after optional filler words)
+ * Returns the matched phrase and the rest of the transcript, or null if no phrase matched
+ */
+export function matchWakePhrase(text: string, phrases: string[]): { phrase: string; remainder: string } | null {
+  const tokens = tokenize(text);
+
+  let start = 0;
+  while (start < tokens.length && LEADING_FILLERS.has(tokens[start].word)) {
+    start++;
+  }
+
+  // Longest phrase first so "hey rue bot" wins over "hey rue"
+  const candidates = phrases
+    .map((phrase) => ({ phrase, words: tokenize(phrase).map((token) => token.word) }))
+    .filter((candidate) => candidate.words.length > 0)
+    .sort((a, b) => b.words.length - a.words.length);
+
+  for (const { phrase, words } of candidates) {
+    const matches = words.every((word, i) => tokens[start + i]?.word === word);
+    if (matches) {
+      const { end } = tokens[start + words.length - 1];
+      const remainder = text
+        .slice(end)
+        .replace(/^[\s\p{P}]+/u, '')
+        .trim();
+      return { phrase, remainder };
+    }
+  }
+
+  return null;
+}
+
+// ============================================
+// WakeWordGate
+// ============================================
+
+export class WakeWordGate {
+  private config: Required<WakeWordConfig>;
+
+  // userId -> end of the follow-up window
+  private followUpUntil: Map<string, number> = new Map();
+
+  constructor(config: WakeWordConfig) {
+    if (config.phrases.every((phrase) => phrase.trim().length === 0)) {
+      throw new Error('Wake word gate requires at least one phrase');
+    }
+
+    this.config = {
+      phrases: config.phrases,
+      followUpWindowMs: config.followUpWindowMs ?? 15000,
+    };
+  }
+
+  /**
+   * Check a speaker's transcript
+   * A matched wake phrase (or an open follow-up window) accepts the utterance and opens the window
+   */
+  check(userId: string, text: string, now: number = Date.now()): WakeWordResult {
+    const match = matchWakePhrase(text, this.config.phrases);
+    if (match) {
+      this.openFollowUpWindow(userId, now);
+      return { accepted: true, text: match.remainder, phrase: match.phrase, followUp: false };
+    }
+
+    if (this.isInFollowUpWindow(userId, now)) {
+      this.openFollowUpWindow(userId, now);
+      return { accepted: true, text: text.trim(), followUp: true };
+    }
+
+    return { accepted: false, text: text.trim(), followUp: false };
+  }
+
+  /**
+   * Restart a speaker's follow-up window (e.g. once the bot has finished replying)
+   */
+  openFollowUpWindow(userId: string, now: number = Date.now()): void {
+    if (this.config.followUpWindowMs > 0) {
+      this.followUpUntil.set(userId, now + this.config.followUpWindowMs);
+    }
+  }
+
+  /**
+   * Whether a speaker can talk to the agent without the wake phrase
+   */
+  isInFollowUpWindow(userId: string, now: number = Date.now()): boolean {
+    return (this.followUpUntil.get(userId) ?? 0) > now;
+  }
+
+  /**
+   * Get the configured wake phrases
+   */
+  getPhrases(): string[] {
+    return [...this.config.phrases];
+  }
+}
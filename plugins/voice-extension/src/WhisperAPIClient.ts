@@ -0,0 +1,344 @@
+/**
+ * Whisper-compatible HTTP transcription client
+ * POSTs WAV audio as multipart form data to an OpenAI-compatible
+ * /v1/audio/transcriptions endpoint (OpenAI, faster-whisper-server, whisper.cpp server)
+ */
+
+import { PipelineError, PipelineErrorCode } from './PipelineErrors.js';
+import { TranscriptionResult } from './types.js';
+
+/**
+ * Client configuration
+ */
+export interface WhisperAPIConfig {
+  baseUrl: string; // e.g. https://api.openai.com or http://localhost:8000
+  apiKey?: string; // Sent as a Bearer token when set
+  model?: string; // Default: 'whisper-1'
+  timeoutMs?: number; // Default: 30000
+  path?: string; // Default: '/v1/audio/transcriptions' (whisper.cpp's server uses '/inference')
+}
+
+/**
+ * Per-request options
+ */
+export interface WhisperTranscribeOptions {
+  language?: string; // ISO-639-1 hint
+  prompt?: string; // Optional context to guide recognition
+}
+
+/**
+ * verbose_json response body
+ */
+interface WhisperVerboseResponse {
+  text?: string;
+  language?: string;
+  duration?: number; // seconds
+  segments?: {
+    start: number; // seconds
+    end: number; // seconds
+    text: string;
+    avg_logprob?: number;
+  }[];
+}
+
+// Whisper verbose_json reports language names; map Whisper's full language table (and its aliases)
+// to ISO-639-1. Hawaiian and Cantonese have no ISO-639-1 code and are left out
+const LANGUAGE_CODES: Record<string, string> = {
+  english: 'en',
+  chinese: 'zh',
+  german: 'de',
+  spanish: 'es',
+  russian: 'ru',
+  korean: 'ko',
+  french: 'fr',
+  japanese: 'ja',
+  portuguese: 'pt',
+  turkish: 'tr',
+  polish: 'pl',
+  catalan: 'ca',
+  dutch: 'nl',
+  arabic: 'ar',
+  swedish: 'sv',
+  italian: 'it',
+  indonesian: 'id',
+  hindi: 'hi',
+  finnish: 'fi',
+  vietnamese: 'vi',
+  hebrew: 'he',
+  ukrainian: 'uk',
+  greek: 'el',
+  malay: 'ms',
+  czech: 'cs',
+  romanian: 'ro',
+  danish: 'da',
+  hungarian: 'hu',
+  tamil: 'ta',
+  norwegian: 'no',
+  thai: 'th',
+  urdu: 'ur',
+  croatian: 'hr',
+  bulgarian: 'bg',
+  lithuanian: 'lt',
+  latin: 'la',
+  maori: 'mi',
+  malayalam: 'ml',
+  welsh: 'cy',
+  slovak: 'sk',
+  telugu: 'te',
+  persian: 'fa',
+  latvian: 'lv',
+  bengali: 'bn',
+  serbian: 'sr',
+  azerbaijani: 'az',
+  slovenian: 'sl',
+  kannada: 'kn',
+  estonian: 'et',
+  macedonian: 'mk',
+  breton: 'br',
+  basque: 'eu',
+  icelandic: 'is',
+  armenian: 'hy',
+  nepali: 'ne',
+  mongolian: 'mn',
+  bosnian: 'bs',
+  kazakh: 'kk',
+  albanian: 'sq',
+  swahili: 'sw',
+  galician: 'gl',
+  marathi: 'mr',
+  punjabi: 'pa',
+  sinhala: 'si',
+  khmer: 'km',
+  shona: 'sn',
+  yoruba: 'yo',
+  somali: 'so',
+  afrikaans: 'af',
+  occitan: 'oc',
+  georgian: 'ka',
+  belarusian: 'be',
+  tajik: 'tg',
+  sindhi: 'sd',
+  gujarati: 'gu',
+  amharic: 'am',
+  yiddish: 'yi',
+  lao: 'lo',
+  uzbek: 'uz',
+  faroese: 'fo',
+  'haitian creole': 'ht',
+  pashto: 'ps',
+  turkmen: 'tk',
+  nynorsk: 'nn',
+  maltese: 'mt',
+  sanskrit: 'sa',
+  luxembourgish: 'lb',
+  myanmar: 'my',
+  tibetan: 'bo',
+  tagalog: 'tl',
+  malagasy: 'mg',
+  assamese: 'as',
+  tatar: 'tt',
+  lingala: 'ln',
+  hausa: 'ha',
+  bashkir: 'ba',
+  javanese: 'jv',
+  sundanese: 'su',
+  // Aliases Whisper accepts
+  burmese: 'my',
+  valencian: 'ca',
+  flemish: 'nl',
+  haitian: 'ht',
+  letzeburgesch: 'lb',
+  pushto: 'ps',
+  panjabi: 'pa',
+  moldavian: 'ro',
+  moldovan: 'ro',
+  sinhalese: 'si',
+  castilian: 'es',
+  mandarin: 'zh',
+};
+
+// Servers that report codes (faster-whisper) use Whisper's own, where Javanese is 'jw'
+const ISO_CODES = new Set([...Object.values(LANGUAGE_CODES), 'jw']);
+
+/**
+ * Map a reported language (name or code) to ISO-639-1; unknown languages map to undefined
+ */
+function toLanguageCode(language: string): string | undefined {
+  const value = language.trim().toLowerCase();
+  const code = LANGUAGE_CODES[value] ?? (ISO_CODES.has(value) ? value : undefined);
+  return code === 'jw' ? 'jv' : code;
+}
+
+/**
+ * HTTP client for Whisper-compatible transcription APIs
+ */
+export class WhisperAPIClient {
+  private config: WhisperAPIConfig;
+
+  private endpoint: string;
+
+  constructor(config: WhisperAPIConfig) {
+    if (!config.baseUrl) {
+      throw new Error('Whisper base URL is required');
+    }
+
+    this.config = {
+      ...config,
+      model: config.model ?? 'whisper-1',
+      timeoutMs: config.timeoutMs ?? 30000,
+    };
+
+    const base = config.baseUrl.replace(/\/+$/, '');
+    if (config.path) {
+      this.endpoint = `${base}${config.path.startsWith('/') ? '' : '/'}${config.path}`;
+    } else {
+      // Accept base URLs with or without a trailing /v1
+      this.endpoint = `${base.replace(/\/v1$/, '')}/v1/audio/transcriptions`;
+    }
+  }
+
+  /**
+   * Transcribe a WAV file
+   */
+  async transcribe(wav: Buffer, options: WhisperTranscribeOptions = {}): Promise<TranscriptionResult> {
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(wav)], { type: 'audio/wav' }), 'audio.wav');
+    form.append('model', this.config.model!);
+    form.append('response_format', 'verbose_json');
+    if (options.language) {
+      form.append('language', options.language);
+    }
+    if (options.prompt) {
+      form.append('prompt', options.prompt);
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {},
+        body: form,
+        signal: controller.signal,
+      });
+    } catch (error: any) {
+      clearTimeout(timeoutId);
+
+      if (error.name === 'AbortError') {
+        throw new PipelineError(
+          PipelineErrorCode.STT_TIMEOUT,
+          `Transcription request timed out after ${this.config.timeoutMs}ms`,
+          { phase: 'stt', originalError: error },
+        );
+      }
+      throw new PipelineError(PipelineErrorCode.STT_API_ERROR, `Transcription request failed: ${error.message}`, {
+        phase: 'stt',
+        originalError: error,
+      });
+    }
+
+    try {
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw this.mapHttpError(response, detail);
+      }
+
+      const data = (await response.json()) as WhisperVerboseResponse;
+      return this.toTranscriptionResult(data, options);
+    } catch (error: any) {
+      if (error instanceof PipelineError) throw error;
+
+      throw new PipelineError(
+        error.name === 'AbortError' ? PipelineErrorCode.STT_TIMEOUT : PipelineErrorCode.STT_API_ERROR,
+        `Invalid transcription response: ${error.message}`,
+        { phase: 'stt', originalError: error },
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Check that the transcription server answers HTTP requests
+   * Any response counts (the endpoint only accepts uploads); network errors and timeouts throw
+   */
+  async checkReachable(timeoutMs: number = 5000): Promise<void> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(this.endpoint, { method: 'HEAD', signal: controller.signal });
+      await response.body?.cancel();
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        throw new Error(`Transcription server did not answer within ${timeoutMs}ms`);
+      }
+      throw new Error(`Transcription server unreachable: ${error.message}`);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Get the resolved transcription endpoint URL
+   */
+  getEndpoint(): string {
+    return this.endpoint;
+  }
+
+  /**
+   * Map an HTTP error status to a pipeline error
+   */
+  private mapHttpError(response: Response, detail: string): PipelineError {
+    const message = `Whisper API error: ${response.status} ${response.statusText}${detail ? ` - ${detail.slice(0, 200)}` : ''}`;
+    const context = {
+      phase: 'stt' as const,
+      metadata: {
+        status: response.status,
+        retryAfter: response.headers.get('retry-after') ?? undefined,
+      },
+    };
+
+    if (response.status === 429) {
+      return new PipelineError(PipelineErrorCode.STT_RATE_LIMITED, message, context);
+    }
+    if (response.status === 400 || response.status === 413 || response.status === 415) {
+      return new PipelineError(PipelineErrorCode.STT_INVALID_AUDIO, message, context, false);
+    }
+    // 5xx and anything else unexpected (auth failures included)
+    return new PipelineError(PipelineErrorCode.STT_API_ERROR, message, context, response.status >= 500);
+  }
+
+  /**
+   * Convert a verbose_json response into a TranscriptionResult
+   */
+  private toTranscriptionResult(data: WhisperVerboseResponse, options: WhisperTranscribeOptions): TranscriptionResult {
+    const segments = (data.segments ?? []).map((segment) => ({
+      start: Math.round(segment.start * 1000),
+      end: Math.round(segment.end * 1000),
+      text: segment.text.trim(),
+    }));
+
+    // Average per-segment token probability, when the server reports it
+    const logprobs = (data.segments ?? [])
+      .map((segment) => segment.avg_logprob)
+      .filter((value): value is number => typeof value === 'number');
+    const confidence =
+      logprobs.length > 0 ? logprobs.reduce((sum, value) => sum + Math.exp(value), 0) / logprobs.length : 0.9;
+
+    // Undetected or unmappable languages fall back to the hint, else stay unset (the persona language applies)
+    const language = (data.language ? toLanguageCode(data.language) : undefined) ?? options.language;
+    const lastSegmentEnd = segments.length > 0 ? segments[segments.length - 1].end : 0;
+
+    return {
+      text: (data.text ?? '').trim(),
+      language,
+      confidence: Math.max(0, Math.min(1, confidence)),
+      duration: data.duration !== undefined ? Math.round(data.duration * 1000) : lastSegmentEnd,
+      timestamp: Date.now(),
+      segments: segments.length > 0 ? segments : undefined,
+    };
+  }
+}
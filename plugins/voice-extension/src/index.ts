@@ -7,7 +7,28 @@ export * from './types.js';
 export { VoiceExtension } from './VoiceExtension.js';
 export { VoiceConnectionManager } from './VoiceConnectionManager.js';
 export { AudioStreamHandler, CircularAudioBuffer, JitterBuffer } from './AudioStreamHandler.js';
+export * from './AudioCodec.js';
 export { SpeechToText, VoiceActivityDetector } from './SpeechToText.js';
-export { TextToSpeech } from './TextToSpeech.js';
+export * from './WhisperAPIClient.js';
+export * from './STTProvider.js';
+export { TextToSpeech, TTSError, TTSErrorCode } from './TextToSpeech.js';
+export type { TTSConfig, TTSProvider, TTSProviderHealth, TTSStats, IElevenLabsAPI } from './TextToSpeech.js';
+export * from './ElevenLabsAPIClient.js';
+export * from './TTSProviders.js';
 export { VoiceCommandPipeline } from './VoiceCommandPipeline.js';
 export * from './PipelineErrors.js';
+export * from './AgentStream.js';
+export * from './AgentActions.js';
+export * from './AgentClient.js';
+export * from './UtteranceEndpointer.js';
+export * from './VoiceReceiver.js';
+export * from './WakeWordGate.js';
+export * from './PushToTalk.js';
+export * from './ConversationHistory.js';
+export * from './TranscriptStore.js';
+export * from './MetricsRegistry.js';
+export * from './PipelineInstrumentation.js';
+export * from './Tracing.js';
+export * from './HealthRegistry.js';
+export * from './PipelineHealth.js';
+export * from './PipelineEventHub.js';
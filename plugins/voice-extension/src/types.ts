@@ -376,9 +376,10 @@ export interface STTConfig {
   apiKey: string;
   modelName?: string; // Default: 'whisper-1'
   sampleRate?: number; // Default: 48000 Hz
-  language?: string; // Default: 'en' (auto-detect if not set)
+  language?: string; // Default: 'en' ('auto' lets the recognizer detect the language)
   enableVAD?: boolean; // Default: true
   timeoutMs?: number; // Default: 30000 ms
+  baseUrl?: string; // Whisper-compatible API base URL (transcription is mocked when unset)
 }
 
 /**
@@ -386,13 +387,13 @@ export interface STTConfig {
  */
 export interface TranscriptionResult {
   text: string;
-  language: string;
+  language?: string; // ISO-639-1; unset when the language wasn't detected
   confidence: number; // 0-1
   duration: number; // ms
   timestamp: number; // Unix timestamp when transcribed
   segments?: {
-    start: number;
-    end: number;
+    start: number; // ms
+    end: number; // ms
     text: string;
   }[];
 }
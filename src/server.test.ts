@@ -4,8 +4,47 @@
  * 16 new tests covering all endpoint requirements per Phase 8b spec
  */
 
+import { EventEmitter } from 'events';
+import http from 'http';
 // eslint-disable-next-line import/no-extraneous-dependencies
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { VoiceServer, VoiceServerOptions } from './server.js';
+import { DiscordPlugin } from '../plugins/discord-plugin/src/index.js';
+import { GuildStateManager } from '../plugins/discord-plugin/src/state/GuildStateManager.js';
+import { VoiceMode } from '../plugins/discord-plugin/src/types.js';
+import {
+  VoiceCommandPipeline,
+  VoiceCommandPipelineConfig,
+} from '../plugins/voice-extension/src/VoiceCommandPipeline.js';
+import { ConnectionStateType } from '../plugins/voice-extension/src/types.js';
+import type { VoiceConnectionManager } from '../plugins/voice-extension/src/VoiceConnectionManager.js';
+
+const pipelineConfig: VoiceCommandPipelineConfig = {
+  audioConfig: {
+    sampleRate: 48000,
+    channels: 2,
+    frameSize: 960,
+    bitRate: 128000,
+    jitterBufferSize: 10,
+    circularBufferCapacity: 100,
+    targetBufferLatency: 40,
+    opusComplexity: 5,
+    useFEC: false,
+    useDTX: false,
+    maxPlaybackRate: 48000,
+    maxRetries: 3,
+    timeoutMs: 5000,
+    enableMetrics: true,
+  },
+  sttConfig: { apiKey: 'test-key' },
+  ttsConfig: { apiKey: 'test-tts-key', voiceId: 'nova', sampleRate: 48000, format: 'wav' },
+  maxConcurrentConnections: 10,
+  sessionTimeoutMs: 300000,
+  enableFallbackResponses: true,
+  enableMetrics: true,
+  enableErrorRecovery: true,
+  maxRecoveryAttempts: 3,
+};
 
 describe('VoiceServer Endpoints - Phase 8b Endpoint Tests', () => {
   describe('GET /health - Health Check Endpoint (4 tests)', () => {
@@ -18,16 +57,24 @@ describe('VoiceServer Endpoints - Phase 8b Endpoint Tests', () => {
 
     it('HC-002: Health response should be valid JSON with required fields', () => {
       // Endpoint: GET /health
-      // Expected: JSON with status, timestamp, uptime_seconds, checks
-      const requiredFields = ['status', 'timestamp', 'uptime_seconds', 'checks'];
-      expect(requiredFields.length).toBe(4);
+      // Expected: JSON with status, timestamp, uptime_seconds, memory_usage_percent, cpu_usage_percent, checks
+      const requiredFields = [
+        'status',
+        'timestamp',
+        'uptime_seconds',
+        'memory_usage_percent',
+        'cpu_usage_percent',
+        'checks',
+      ];
+      expect(requiredFields.length).toBe(6);
     });
 
-    it('HC-003: Health checks should include database, discord_api, and discord_bot status', () => {
+    it('HC-003: Health checks should report each registered probe with latency and last error', () => {
       // Endpoint: GET /health
-      // Expected: checks object with database, discord_api, discord_bot, memory_usage_percent, cpu_usage_percent
-      const requiredChecks = ['database', 'discord_api', 'discord_bot', 'memory_usage_percent', 'cpu_usage_percent'];
-      expect(requiredChecks.length).toBe(5);
+      // Expected: checks keyed by probe (discord_bot, guild_state, voice_connections, pipeline, stt, tts),
+      // each with status, critical, latency_ms and, after a failure, last_error and last_error_at
+      const requiredCheckFields = ['status', 'critical', 'latency_ms'];
+      expect(requiredCheckFields.length).toBe(3);
     });
 
     it('HC-004: Health status field should be healthy, degraded, or unhealthy', () => {
@@ -68,20 +115,50 @@ describe('VoiceServer Endpoints - Phase 8b Endpoint Tests', () => {
     });
   });
 
-  describe('GET /ready - Readiness Probe (2 tests)', () => {
+  describe('GET /ready - Readiness Probe (3 tests)', () => {
     it('RD-001: Ready endpoint should return 200 when service is ready', () => {
       // Endpoint: GET /ready
-      // Expected: HTTP 200 when Discord bot is connected
+      // Expected: HTTP 200 when no critical probe (Discord bot, guild state, pipeline) is failing
       const readyStatus = 200;
       expect(readyStatus).toBe(200);
     });
 
     it('RD-002: Ready endpoint should return 503 when service is not ready', () => {
       // Endpoint: GET /ready
-      // Expected: HTTP 503 when Discord bot is not connected
+      // Expected: HTTP 503 with per-check results when a critical probe is failing
       const notReadyStatus = 503;
       expect(notReadyStatus).toBe(503);
     });
+
+    it("RD-003: Ready endpoint should report the Discord client's gateway connection", async () => {
+      let gatewayReady = false;
+      const plugin = new DiscordPlugin(new GuildStateManager(), {}, undefined, {
+        isReady: () => gatewayReady,
+        leaveVoiceChannel: async () => {},
+      });
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const server = new VoiceServer(0);
+      await server.start();
+      server.setDiscordPlugin(plugin);
+
+      try {
+        const url = `http://127.0.0.1:${server.getPort()}/ready`;
+        const down = await fetch(url);
+        expect(down.status).toBe(503);
+        expect((await down.json()).checks.discord_bot).toMatchObject({
+          status: 'fail',
+          critical: true,
+          error: 'Discord client is not connected to the gateway',
+        });
+
+        gatewayReady = true;
+        const up = await fetch(url);
+        expect((await up.json()).checks.discord_bot.status).toBe('pass');
+      } finally {
+        await server.stop();
+        logSpy.mockRestore();
+      }
+    });
   });
 
   describe('GET /live - Liveness Probe (2 tests)', () => {
@@ -101,6 +178,190 @@ describe('VoiceServer Endpoints - Phase 8b Endpoint Tests', () => {
     });
   });
 
+  describe('/admin - Admin API (7 tests)', () => {
+    const token = 'test-admin-token-0123456789abcdef';
+    let server: VoiceServer;
+    let pipeline: VoiceCommandPipeline;
+    let stateManager: GuildStateManager;
+    let plugin: DiscordPlugin;
+    let connections: EventEmitter & { isConnected: ReturnType<typeof vi.fn>; disconnect: ReturnType<typeof vi.fn> };
+
+    async function startServer(options: VoiceServerOptions = { adminToken: token }): Promise<VoiceServer> {
+      const started = new VoiceServer(0, options);
+      await started.start();
+      return started;
+    }
+
+    function request(target: VoiceServer, path: string, init: RequestInit = {}, auth: string | null = token) {
+      return fetch(`http://127.0.0.1:${target.getPort()}${path}`, {
+        ...init,
+        headers: auth === null ? {} : { Authorization: `Bearer ${auth}` },
+      });
+    }
+
+    beforeEach(async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      pipeline = new VoiceCommandPipeline(pipelineConfig);
+      await pipeline.initialize();
+      stateManager = new GuildStateManager();
+      vi.spyOn(stateManager, 'saveState').mockResolvedValue();
+      plugin = new DiscordPlugin(stateManager, {}, pipeline);
+      connections = Object.assign(new EventEmitter(), {
+        isConnected: vi.fn((guildId: string) => guildId === 'guild1'),
+        disconnect: vi.fn(async () => {}),
+      });
+
+      server = await startServer();
+      server.setDiscordPlugin(plugin);
+      server.setVoiceConnectionManager(connections as unknown as VoiceConnectionManager);
+
+      const state = stateManager.getOrCreateGuildState('guild1');
+      state.voiceMode = VoiceMode.Listening;
+      state.channelId = 'channel1';
+      state.errorCount = 2;
+      state.lastError = 'Agent request failed';
+    });
+
+    afterEach(async () => {
+      await server.stop();
+      await pipeline.shutdown();
+      stateManager.clear();
+      vi.unstubAllEnvs();
+      vi.restoreAllMocks();
+    });
+
+    it('AD-001: Admin routes should return HTTP 404 without a usable admin token', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.stubEnv('ADMIN_API_TOKEN', '');
+      const tokens = [undefined, '<prod-admin-token>', 'short-token'];
+
+      for (const adminToken of tokens) {
+        const disabled = await startServer({ adminToken });
+        disabled.setDiscordPlugin(plugin);
+        try {
+          const response = await request(disabled, '/admin/guilds', {}, adminToken ?? null);
+          expect(response.status).toBe(404);
+          expect(await response.json()).toEqual({ error: 'Admin API is disabled' });
+        } finally {
+          await disabled.stop();
+        }
+      }
+      expect(warnSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('AD-002: Admin routes should return HTTP 401 without the admin bearer token', async () => {
+      const missing = await request(server, '/admin/guilds', {}, null);
+      const wrong = await request(server, '/admin/sessions', {}, 'not-the-token');
+      const wrongLength = await request(server, '/admin/guilds/guild1/reset-errors', { method: 'POST' }, 'x');
+
+      expect([missing.status, wrong.status, wrongLength.status]).toEqual([401, 401, 401]);
+      expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+      expect(stateManager.getGuildState('guild1')?.errorCount).toBe(2);
+    });
+
+    it('AD-003: Admin routes should return HTTP 503 when no Discord plugin is attached', async () => {
+      server.setDiscordPlugin(null);
+
+      const response = await request(server, '/admin/guilds');
+      expect(response.status).toBe(503);
+      expect(await response.json()).toEqual({ error: 'Discord plugin is not connected' });
+    });
+
+    it('AD-004: Admin list routes should return guild states and active sessions', async () => {
+      await plugin.getPipelineAdapter()!.startListening('guild1', 'channel1', { userId: 'owner1' });
+
+      const guilds = await request(server, '/admin/guilds');
+      const sessions = await request(server, '/admin/sessions');
+
+      expect(guilds.status).toBe(200);
+      expect((await guilds.json()).guilds).toEqual([
+        expect.objectContaining({ guildId: 'guild1', channelId: 'channel1', errorCount: 2, activeUsers: [] }),
+      ]);
+      expect(sessions.status).toBe(200);
+      expect((await sessions.json()).sessions).toEqual([
+        expect.objectContaining({ guildId: 'guild1', userId: 'owner1', status: 'active' }),
+      ]);
+    });
+
+    it('AD-005: Admin actions should end sessions, disconnect guilds and reset errors', async () => {
+      const adapter = plugin.getPipelineAdapter()!;
+      await adapter.startListening('guild1', 'channel1', { userId: 'owner1' });
+      const sessionId = adapter.getSessionId('guild1')!;
+
+      const ended = await request(server, `/admin/sessions/${sessionId}/end`, { method: 'POST' });
+      expect(ended.status).toBe(200);
+      expect(await ended.json()).toEqual({ ended: sessionId });
+      expect(pipeline.getSession(sessionId)).toBeUndefined();
+
+      const reset = await request(server, '/admin/guilds/guild1/reset-errors', { method: 'POST' });
+      expect(reset.status).toBe(200);
+      expect((await reset.json()).guild).toMatchObject({ guildId: 'guild1', errorCount: 0 });
+
+      const disconnected = await request(server, '/admin/guilds/guild1/disconnect', { method: 'POST' });
+      expect(disconnected.status).toBe(200);
+      expect(await disconnected.json()).toEqual({ disconnected: 'guild1' });
+      expect(connections.disconnect).toHaveBeenCalledWith('guild1');
+      expect(stateManager.getGuildState('guild1')).toMatchObject({ voiceMode: VoiceMode.Off, channelId: null });
+    });
+
+    it('AD-006: Admin actions on unknown guilds or sessions should return HTTP 404', async () => {
+      const responses = await Promise.all([
+        request(server, '/admin/sessions/missing/end', { method: 'POST' }),
+        request(server, '/admin/guilds/unknown/disconnect', { method: 'POST' }),
+        request(server, '/admin/guilds/unknown/reset-errors', { method: 'POST' }),
+      ]);
+
+      expect(responses.map((response) => response.status)).toEqual([404, 404, 404]);
+      expect(await responses[0].json()).toEqual({ error: 'No active session missing' });
+      expect(await responses[2].json()).toEqual({ error: 'Unknown guild unknown' });
+    });
+
+    it('AD-007: Event stream should replay and send guild-filtered events as SSE until the client leaves', async () => {
+      const hub = server.getEventHub();
+      hub.publish('sessionStarted', 'guild1', { sessionId: 'before' });
+      hub.publish('sessionStarted', 'guild2', { sessionId: 'other' });
+      hub.publish('sessionEnded', 'guild1', { sessionId: 'missed' });
+
+      let body = '';
+      const stream = http.get(`http://127.0.0.1:${server.getPort()}/admin/events?guild=guild1`, {
+        headers: { Authorization: `Bearer ${token}`, 'Last-Event-ID': '1' },
+      });
+      const response = await new Promise<http.IncomingMessage>((resolve) => stream.on('response', resolve));
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => {
+        body += chunk;
+      });
+      stream.on('error', () => {});
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toBe('text/event-stream');
+      expect(response.headers['cache-control']).toBe('no-cache');
+      expect(response.headers['x-accel-buffering']).toBe('no');
+
+      await vi.waitFor(() => expect(hub.getSubscriberCount()).toBe(1));
+      connections.emit('stateChange', 'guild2', { status: ConnectionStateType.Ready, timestamp: 1 });
+      connections.emit('stateChange', 'guild1', { status: ConnectionStateType.Ready, timestamp: 2 });
+
+      await vi.waitFor(() => expect(body).toContain('id: 5\n'));
+      const messages = body.trim().split('\n\n');
+      expect(messages.map((message) => message.split('\n').slice(0, 2))).toEqual([
+        ['id: 3', 'event: sessionEnded'],
+        ['id: 5', 'event: connectionStateChange'],
+      ]);
+      expect(JSON.parse(messages[1].split('\n')[2].slice('data: '.length))).toMatchObject({
+        id: 5,
+        type: 'connectionStateChange',
+        guildId: 'guild1',
+        data: { status: 'ready' },
+      });
+
+      stream.destroy();
+      await vi.waitFor(() => expect(hub.getSubscriberCount()).toBe(0));
+    });
+  });
+
   describe('Error Handling and Performance (4 tests)', () => {
     it('EH-001: Invalid routes should return HTTP 404', () => {
       // Endpoint: GET /nonexistent
@@ -1,179 +1,121 @@
-import express, { Express, Request, Response } from 'express';
-import { createServer } from 'http';
+import express, { Express, NextFunction, Request, Response } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { Server, createServer } from 'http';
+import { AddressInfo } from 'net';
 import os from 'os';
-import { DiscordPlugin } from '../plugins/discord-plugin/src/index.js';
+import {
+  AdminService,
+  DiscordPlugin,
+  DiscordPluginError,
+  DiscordPluginErrorType,
+} from '../plugins/discord-plugin/src/index.js';
+import { Counter, MetricsRegistry } from '../plugins/voice-extension/src/MetricsRegistry.js';
+import { HealthRegistry, HealthReport } from '../plugins/voice-extension/src/HealthRegistry.js';
+import { instrumentPipeline } from '../plugins/voice-extension/src/PipelineInstrumentation.js';
+import { PipelineEventHub, formatSSE } from '../plugins/voice-extension/src/PipelineEventHub.js';
+import type { VoiceCommandPipeline } from '../plugins/voice-extension/src/VoiceCommandPipeline.js';
+import type { VoiceConnectionManager } from '../plugins/voice-extension/src/VoiceConnectionManager.js';
 
 // Fix 2e: Type definitions to replace `any`
+// One registered probe's latest result
+interface HealthCheckDetail {
+  status: 'pass' | 'fail';
+  critical: boolean;
+  latency_ms: number;
+  error?: string;
+  last_error?: string;
+  last_error_at?: string;
+}
+
 interface HealthCheckResult {
   status: 'healthy' | 'degraded' | 'unhealthy';
   timestamp: string;
   uptime_seconds: number;
-  checks: {
-    database: 'ok' | 'error';
-    discord_api: 'ok' | 'error';
-    discord_bot: 'connected' | 'disconnected';
-    memory_usage_percent: number;
-    cpu_usage_percent: number;
-  };
+  memory_usage_percent: number;
+  cpu_usage_percent: number;
+  checks: Record<string, HealthCheckDetail>;
 }
 
-interface MetricsEntry {
-  sum: number;
-  count: number;
-  timestamp: number;
+interface VoiceServerOptions {
+  // Bearer token for the /admin routes (default: ADMIN_API_TOKEN); the routes are disabled without one,
+  // and with a token shorter than ADMIN_TOKEN_MIN_LENGTH or left as a <placeholder>
+  adminToken?: string;
 }
 
-interface MetricsData {
-  discord_voice_connect_total: Map<string, MetricsEntry>;
-  pipeline_active_sessions: Map<string, MetricsEntry>;
-  pipeline_request_duration_seconds: Map<string, MetricsEntry>;
-  lastCleanup: number;
-}
+// Shortest admin token accepted (e.g. `openssl rand -hex 16`)
+const ADMIN_TOKEN_MIN_LENGTH = 32;
 
 /**
- * Fix 1c: Memory Leak Prevention
- * Time-windowed metrics cache with automatic cleanup
- * - 5-minute rolling window for metric data
- * - Aggregate by endpoint+method (not per-request)
- * - Maximum 1000 entries per metric type
- * - Cleanup every 60 seconds
+ * Check that an admin token was actually set, not copied from an env template
  */
-class MetricsCache {
-  private readonly WINDOW_SIZE_MS = 5 * 60 * 1000; // 5 minutes
-  private readonly CLEANUP_INTERVAL_MS = 60 * 1000; // 1 minute
-  private readonly MAX_ENTRIES = 1000;
-  private cache: Map<string, MetricsEntry>;
-  private cleanupTimer?: NodeJS.Timeout;
-
-  constructor() {
-    this.cache = new Map();
-    this.startCleanupInterval();
-  }
-
-  addMetric(key: string, value: number): void {
-    const now = Date.now();
-
-    if (this.cache.has(key)) {
-      const entry = this.cache.get(key)!;
-      // Aggregate: track sum and count for proper averaging
-      entry.sum += value;
-      entry.count++;
-      entry.timestamp = now;
-    } else {
-      this.cache.set(key, { sum: value, count: 1, timestamp: now });
-    }
-
-    // Enforce max entries
-    if (this.cache.size > this.MAX_ENTRIES) {
-      this.evictOldest();
-    }
-  }
-
-  getMetric(key: string): number | null {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
-
-    const age = Date.now() - entry.timestamp;
-    if (age > this.WINDOW_SIZE_MS) {
-      this.cache.delete(key);
-      return null;
-    }
-
-    return entry.sum / entry.count;
-  }
-
-  getAllMetrics(): Map<string, { value: number; count: number }> {
-    const result = new Map<string, { value: number; count: number }>();
-    const now = Date.now();
-
-    for (const [key, entry] of this.cache.entries()) {
-      const age = now - entry.timestamp;
-      if (age <= this.WINDOW_SIZE_MS) {
-        result.set(key, { value: entry.sum / entry.count, count: entry.count });
-      }
-    }
-
-    return result;
-  }
-
-  private cleanup(): void {
-    const now = Date.now();
-    let removed = 0;
-
-    for (const [key, entry] of this.cache.entries()) {
-      const age = now - entry.timestamp;
-      if (age > this.WINDOW_SIZE_MS) {
-        this.cache.delete(key);
-        removed++;
-      }
-    }
-
-    if (removed > 0) {
-      console.log(`[Metrics] Cleaned up ${removed} old entries (${this.cache.size} remaining)`);
-    }
-  }
-
-  private evictOldest(): void {
-    let oldest: { key: string; timestamp: number } | null = null;
-
-    for (const [key, entry] of this.cache.entries()) {
-      if (!oldest || entry.timestamp < oldest.timestamp) {
-        oldest = { key, timestamp: entry.timestamp };
-      }
-    }
-
-    if (oldest) {
-      this.cache.delete(oldest.key);
-    }
-  }
-
-  private startCleanupInterval(): void {
-    this.cleanupTimer = setInterval(() => {
-      this.cleanup();
-    }, this.CLEANUP_INTERVAL_MS);
-
-    if (this.cleanupTimer.unref) {
-      this.cleanupTimer.unref();
-    }
-  }
-
-  stop(): void {
-    if (this.cleanupTimer) {
-      clearInterval(this.cleanupTimer);
-    }
-  }
-
-  size(): number {
-    return this.cache.size;
-  }
-
-  clear(): void {
-    this.cache.clear();
-  }
+function isUsableAdminToken(token: string): boolean {
+  return token.length >= ADMIN_TOKEN_MIN_LENGTH && !/^<.*>$/.test(token.trim());
 }
 
 class VoiceServer {
   private app: Express;
+  private httpServer: Server | null;
   private port: number;
   private startTime: number;
-  private metricsData: {
-    discord_voice_connect_total: MetricsCache;
-    pipeline_active_sessions: MetricsCache;
-    pipeline_request_duration_seconds: MetricsCache;
-  };
+  private metrics: MetricsRegistry;
+  private voiceConnections: Counter;
+  // Probes run by /health and /ready
+  private health: HealthRegistry;
+  // Pipeline whose events feed the registry (detached when the plugin's pipeline is replaced)
+  private instrumentedPipeline: VoiceCommandPipeline | null;
+  private detachInstrumentation: (() => void) | null;
   // Fix 2e: Type discord plugin properly instead of using `any`
   private discordPlugin: DiscordPlugin | null;
-
-  constructor(port: number = 3000) {
+  // Plugin whose probes are registered
+  private healthPlugin: DiscordPlugin | null;
+  // Used by the admin API to leave voice channels
+  private connectionManager: VoiceConnectionManager | null;
+  private adminToken: string | undefined;
+  // Pipeline and voice connection events streamed on /admin/events
+  private events: PipelineEventHub;
+  private detachPipelineEvents: (() => void) | null;
+  private detachConnectionEvents: (() => void) | null;
+
+  constructor(port: number = 3000, options: VoiceServerOptions = {}) {
     this.app = express();
+    this.httpServer = null;
     this.port = port;
     this.startTime = Date.now();
     this.discordPlugin = null;
-    this.metricsData = {
-      discord_voice_connect_total: new MetricsCache(),
-      pipeline_active_sessions: new MetricsCache(),
-      pipeline_request_duration_seconds: new MetricsCache(),
-    };
+    this.connectionManager = null;
+    this.adminToken = options.adminToken ?? process.env.ADMIN_API_TOKEN;
+    if (this.adminToken && !isUsableAdminToken(this.adminToken)) {
+      console.warn(
+        `[${new Date().toISOString()}] Admin API disabled: the admin token is a placeholder or shorter than ${ADMIN_TOKEN_MIN_LENGTH} characters`,
+      );
+    }
+    this.instrumentedPipeline = null;
+    this.detachInstrumentation = null;
+    this.healthPlugin = null;
+    this.events = new PipelineEventHub();
+    this.detachPipelineEvents = null;
+    this.detachConnectionEvents = null;
+    this.metrics = new MetricsRegistry();
+    this.voiceConnections = this.metrics.counter('discord_voice_connect_total', 'Discord voice connections');
+
+    // Process metrics are read at scrape time
+    const residentMemory = this.metrics.gauge('process_resident_memory_bytes', 'Process resident memory in bytes');
+    const heapUsed = this.metrics.gauge('process_heap_alloc_bytes', 'Allocated heap memory in bytes');
+    this.metrics.addCollector(() => {
+      const memUsage = process.memoryUsage();
+      residentMemory.set({}, memUsage.rss);
+      heapUsed.set({}, memUsage.heapUsed);
+    });
+
+    this.health = new HealthRegistry();
+    this.health.register('discord_bot', () => {
+      if (!this.discordPlugin) {
+        throw new Error('Discord plugin is not connected');
+      }
+      if (!this.discordPlugin.isGatewayReady()) {
+        throw new Error('Discord client is not connected to the gateway');
+      }
+    });
   }
 
   /**
@@ -198,8 +140,8 @@ class VoiceServer {
    * Setup health check endpoint
    */
   private setupHealthCheck(): void {
-    this.app.get('/health', (req: Request, res: Response) => {
-      const healthCheck = this.getHealthStatus();
+    this.app.get('/health', async (req: Request, res: Response) => {
+      const healthCheck = await this.getHealthStatus();
       const statusCode = healthCheck.status === 'unhealthy' ? 503 : 200;
       res.status(statusCode).json(healthCheck);
     });
@@ -220,15 +162,15 @@ class VoiceServer {
    * Setup readiness probe
    */
   private setupReadiness(): void {
-    this.app.get('/ready', (req: Request, res: Response) => {
-      // Check if Discord bot is ready
+    this.app.get('/ready', async (req: Request, res: Response) => {
+      // Ready when no critical probe (Discord bot, pipeline, guild state) is failing
       try {
-        const isReady = !!this.discordPlugin;
-        if (isReady) {
-          res.status(200).json({ ready: true, timestamp: new Date().toISOString() });
-        } else {
-          res.status(503).json({ ready: false, timestamp: new Date().toISOString() });
-        }
+        const report = await this.health.run();
+        res.status(report.ready ? 200 : 503).json({
+          ready: report.ready,
+          timestamp: new Date().toISOString(),
+          checks: this.formatChecks(report),
+        });
       } catch (error) {
         res.status(503).json({ ready: false, error: String(error) });
       }
@@ -244,10 +186,136 @@ class VoiceServer {
     });
   }
 
+  /**
+   * Setup admin routes for operators: list guilds and sessions, end sessions, disconnect guilds, reset errors,
+   * stream live events
+   */
+  private setupAdminRoutes(): void {
+    const router = express.Router();
+    router.use((req: Request, res: Response, next: NextFunction) => this.requireAdmin(req, res, next));
+
+    router.get('/guilds', (req: Request, res: Response) => {
+      res.status(200).json({ guilds: this.getAdminService().listGuilds() });
+    });
+
+    router.get('/sessions', (req: Request, res: Response) => {
+      res.status(200).json({ sessions: this.getAdminService().listSessions() });
+    });
+
+    router.post('/sessions/:sessionId/end', async (req: Request, res: Response) => {
+      try {
+        await this.getAdminService().endSession(req.params.sessionId);
+        res.status(200).json({ ended: req.params.sessionId });
+      } catch (error) {
+        this.sendAdminError(res, error);
+      }
+    });
+
+    router.post('/guilds/:guildId/disconnect', async (req: Request, res: Response) => {
+      try {
+        await this.getAdminService().disconnectGuild(req.params.guildId);
+        res.status(200).json({ disconnected: req.params.guildId });
+      } catch (error) {
+        this.sendAdminError(res, error);
+      }
+    });
+
+    router.post('/guilds/:guildId/reset-errors', async (req: Request, res: Response) => {
+      try {
+        const guild = await this.getAdminService().resetErrors(req.params.guildId);
+        res.status(200).json({ guild });
+      } catch (error) {
+        this.sendAdminError(res, error);
+      }
+    });
+
+    // Server-Sent Events; ?guild=a,b limits the stream to those guilds (metrics are always sent)
+    router.get('/events', (req: Request, res: Response) => {
+      const guildIds = String(req.query.guild ?? '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter((id) => id.length > 0);
+      const filter = guildIds.length > 0 ? { guildIds } : {};
+
+      res.status(200);
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.setHeader('X-Accel-Buffering', 'no');
+      res.flushHeaders();
+
+      // Replay what a reconnecting client missed
+      const lastEventId = Number(req.headers['last-event-id']);
+      if (Number.isInteger(lastEventId) && lastEventId > 0) {
+        for (const event of this.events.getHistory(filter, lastEventId)) {
+          res.write(formatSSE(event));
+        }
+      }
+
+      const unsubscribe = this.events.subscribe((event) => res.write(formatSSE(event)), filter);
+      // Comments keep idle proxies from closing the stream
+      const keepAlive = setInterval(() => res.write(': keepalive\n\n'), 15000);
+      req.on('close', () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      });
+    });
+
+    this.app.use('/admin', router);
+  }
+
+  /**
+   * Reject admin requests without the admin bearer token
+   */
+  private requireAdmin(req: Request, res: Response, next: NextFunction): void {
+    if (!this.adminToken || !isUsableAdminToken(this.adminToken)) {
+      res.status(404).json({ error: 'Admin API is disabled' });
+      return;
+    }
+
+    const header = req.headers.authorization ?? '';
+    const presented = Buffer.from(header.startsWith('Bearer ') ? header.slice(7) : '');
+    const expected = Buffer.from(this.adminToken);
+    // Compare in constant time so the token can't be guessed byte by byte
+    if (presented.length !== expected.length || !timingSafeEqual(presented, expected)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!this.discordPlugin) {
+      res.status(503).json({ error: 'Discord plugin is not connected' });
+      return;
+    }
+    next();
+  }
+
+  /**
+   * Build the admin service over the current plugin and connection manager
+   */
+  private getAdminService(): AdminService {
+    return new AdminService(
+      this.discordPlugin!.getStateManager(),
+      this.discordPlugin!.getPipelineAdapter(),
+      this.connectionManager ?? undefined,
+    );
+  }
+
+  /**
+   * Map admin action failures to HTTP responses
+   */
+  private sendAdminError(res: Response, error: unknown): void {
+    const notFound =
+      error instanceof DiscordPluginError &&
+      (error.type === DiscordPluginErrorType.InvalidGuild || error.type === DiscordPluginErrorType.SessionNotFound);
+    res.status(notFound ? 404 : 500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+
   /**
    * Get current health status
    */
-  private getHealthStatus(): HealthCheckResult {
+  private async getHealthStatus(): Promise<HealthCheckResult> {
+    const report = await this.health.run();
     const uptime = Math.floor((Date.now() - this.startTime) / 1000);
     const memUsage = process.memoryUsage();
     const memPercent = (memUsage.heapUsed / memUsage.heapTotal) * 100;
@@ -255,30 +323,41 @@ class VoiceServer {
     // Simulate CPU usage (in production, use os.cpus() with sampling)
     const cpuPercent = this.estimateCpuUsage();
 
-    // Determine status based on checks
-    let status: 'healthy' | 'degraded' | 'unhealthy' = 'healthy';
+    // Determine status based on probes, then resource usage
+    let { status } = report;
 
-    if (memPercent > 80 || cpuPercent > 70) {
+    if (status === 'healthy' && (memPercent > 80 || cpuPercent > 70)) {
       status = 'degraded';
     }
 
-    // In production, add real database and Discord API checks
-    const isDiscordConnected = !!this.discordPlugin;
-
     return {
       status,
       timestamp: new Date().toISOString(),
       uptime_seconds: uptime,
-      checks: {
-        database: 'ok',
-        discord_api: 'ok',
-        discord_bot: isDiscordConnected ? 'connected' : 'disconnected',
-        memory_usage_percent: Math.round(memPercent * 100) / 100,
-        cpu_usage_percent: cpuPercent,
-      },
+      memory_usage_percent: Math.round(memPercent * 100) / 100,
+      cpu_usage_percent: cpuPercent,
+      checks: this.formatChecks(report),
     };
   }
 
+  /**
+   * Format probe results for the health and readiness responses
+   */
+  private formatChecks(report: HealthReport): Record<string, HealthCheckDetail> {
+    const checks: Record<string, HealthCheckDetail> = {};
+    for (const [name, check] of Object.entries(report.checks)) {
+      checks[name] = {
+        status: check.status,
+        critical: check.critical,
+        latency_ms: check.latencyMs,
+        error: check.error,
+        last_error: check.lastError,
+        last_error_at: check.lastErrorAt ? new Date(check.lastErrorAt).toISOString() : undefined,
+      };
+    }
+    return checks;
+  }
+
   /**
    * Estimate CPU usage (simplified)
    */
@@ -291,92 +370,59 @@ class VoiceServer {
 
   /**
    * Format metrics in Prometheus format
-   * Uses aggregated metrics from time-windowed cache
+   * Pipeline metrics come from the registry once a plugin with a pipeline is set
    */
   private formatMetrics(): string {
-    let output = '';
-
-    // Discord voice connections counter
-    output += '# HELP discord_voice_connect_total Discord voice connections\n';
-    output += '# TYPE discord_voice_connect_total counter\n';
-
-    const connectionMetrics = this.metricsData.discord_voice_connect_total.getAllMetrics();
-    if (connectionMetrics.size === 0) {
-      output += 'discord_voice_connect_total{guild_id="default",status="success"} 0\n';
-    } else {
-      connectionMetrics.forEach((entry, key) => {
-        output += `discord_voice_connect_total{guild_id="${key}",status="success"} ${Math.round(entry.value)}\n`;
-      });
-    }
-
-    output += '\n';
-
-    // Active pipeline sessions gauge
-    output += '# HELP pipeline_active_sessions Active voice sessions\n';
-    output += '# TYPE pipeline_active_sessions gauge\n';
-
-    const sessionMetrics = this.metricsData.pipeline_active_sessions.getAllMetrics();
-    if (sessionMetrics.size === 0) {
-      output += 'pipeline_active_sessions{guild_id="default"} 0\n';
-    } else {
-      sessionMetrics.forEach((entry, key) => {
-        output += `pipeline_active_sessions{guild_id="${key}"} ${Math.round(entry.value)}\n`;
-      });
-    }
-
-    output += '\n';
-
-    // Request duration histogram
-    output += '# HELP pipeline_request_duration_seconds Request latency\n';
-    output += '# TYPE pipeline_request_duration_seconds histogram\n';
-
-    const phases = ['stt', 'llm', 'tts'];
-    phases.forEach((phase) => {
-      output += `pipeline_request_duration_seconds_bucket{phase="${phase}",le="0.5"} 15\n`;
-      output += `pipeline_request_duration_seconds_bucket{phase="${phase}",le="1.0"} 28\n`;
-      output += `pipeline_request_duration_seconds_bucket{phase="${phase}",le="+Inf"} 30\n`;
-      output += `pipeline_request_duration_seconds_sum{phase="${phase}"} 22.5\n`;
-      output += `pipeline_request_duration_seconds_count{phase="${phase}"} 30\n`;
-    });
-
-    output += '\n';
-
-    // Process metrics
-    const memUsage = process.memoryUsage();
-    output += '# HELP process_resident_memory_bytes Process resident memory in bytes\n';
-    output += '# TYPE process_resident_memory_bytes gauge\n';
-    output += `process_resident_memory_bytes ${memUsage.rss}\n`;
-
-    output += '\n# HELP process_heap_alloc_bytes Allocated heap memory in bytes\n';
-    output += '# TYPE process_heap_alloc_bytes gauge\n';
-    output += `process_heap_alloc_bytes ${memUsage.heapUsed}\n`;
-
-    return output;
+    return this.metrics.format();
   }
 
   /**
    * Update metrics
-   * Aggregates metrics by endpoint+method to prevent memory leaks
+   * connection: voice connections to add; duration: request latency in seconds
+   * Active sessions per guild are read from the instrumented pipeline on every scrape
    */
-  updateMetrics(type: 'connection' | 'session' | 'duration', guildId: string, value: number | string): void {
+  updateMetrics(type: 'connection' | 'duration', guildId: string, value: number | string): void {
     // Fix 2e: Type value parameter - convert to number if needed
     const numValue = typeof value === 'string' ? parseFloat(value) : value;
-    
+    if (!Number.isFinite(numValue)) {
+      return;
+    }
+
     switch (type) {
       case 'connection':
-        this.metricsData.discord_voice_connect_total.addMetric(guildId, numValue);
-        break;
-      case 'session':
-        this.metricsData.pipeline_active_sessions.addMetric(guildId, numValue);
+        this.voiceConnections.inc({ guild_id: guildId, status: 'success' }, numValue);
         break;
       case 'duration':
-        this.metricsData.pipeline_request_duration_seconds.addMetric(guildId, numValue);
+        this.metrics
+          .histogram('pipeline_request_duration_seconds', 'Voice request latency per phase (stt, llm, tts, total)')
+          .observe({ phase: 'total' }, numValue);
         break;
       default:
         break;
     }
   }
 
+  /**
+   * Get the probes run by /health and /ready
+   */
+  getHealthRegistry(): HealthRegistry {
+    return this.health;
+  }
+
+  /**
+   * Get the metrics registry served on /metrics
+   */
+  getMetricsRegistry(): MetricsRegistry {
+    return this.metrics;
+  }
+
+  /**
+   * Get the hub streamed on /admin/events
+   */
+  getEventHub(): PipelineEventHub {
+    return this.events;
+  }
+
   /**
    * Start the server
    */
@@ -386,9 +432,14 @@ class VoiceServer {
     this.setupMetrics();
     this.setupReadiness();
     this.setupLiveness();
+    this.setupAdminRoutes();
 
     return new Promise((resolve) => {
-      createServer(this.app).listen(this.port, () => {
+      const server = createServer(this.app);
+      this.httpServer = server;
+      server.listen(this.port, () => {
+        // Port 0 binds a free port
+        this.port = (server.address() as AddressInfo).port;
         console.log(`[${new Date().toISOString()}] Voice server started on port ${this.port}`);
         resolve();
       });
@@ -400,11 +451,34 @@ class VoiceServer {
    */
   async stop(): Promise<void> {
     console.log(`[${new Date().toISOString()}] Voice server stopping...`);
-    
-    // Stop metrics cleanup timers
-    this.metricsData.discord_voice_connect_total.stop();
-    this.metricsData.pipeline_active_sessions.stop();
-    this.metricsData.pipeline_request_duration_seconds.stop();
+
+    const server = this.httpServer;
+    if (server) {
+      this.httpServer = null;
+      // Event streams stay open until their clients leave, so end every connection
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+      });
+    }
+  }
+
+  /**
+   * Get the port the server listens on (the bound port once started)
+   */
+  getPort(): number {
+    return this.port;
+  }
+
+  /**
+   * Set the voice connection manager the admin API disconnects guilds through and streams state changes from
+   */
+  setVoiceConnectionManager(manager: VoiceConnectionManager | null): void {
+    this.connectionManager = manager;
+
+    // Stream the new manager's connection state changes instead of the previous one's
+    this.detachConnectionEvents?.();
+    this.detachConnectionEvents = manager ? this.events.attachConnections(manager) : null;
   }
 
   /**
@@ -413,7 +487,29 @@ class VoiceServer {
    */
   setDiscordPlugin(plugin: DiscordPlugin | null): void {
     this.discordPlugin = plugin;
+
+    // Feed metrics (request latency, errors, sessions, TTS cache) and the event stream from the plugin's pipeline
+    const pipeline = plugin?.getPipelineAdapter()?.getPipeline();
+    if (pipeline && pipeline !== this.instrumentedPipeline) {
+      this.detachInstrumentation?.();
+      this.detachInstrumentation = instrumentPipeline(pipeline, this.metrics);
+      this.instrumentedPipeline = pipeline;
+
+      this.detachPipelineEvents?.();
+      this.detachPipelineEvents = this.events.attachPipeline(pipeline);
+    }
+
+    // Replace the previous plugin's probes (guild state, voice connections, pipeline)
+    if (plugin !== this.healthPlugin) {
+      for (const name of this.health.getCheckNames()) {
+        if (name !== 'discord_bot') {
+          this.health.unregister(name);
+        }
+      }
+      plugin?.registerHealthChecks(this.health);
+      this.healthPlugin = plugin;
+    }
   }
 }
 
-export { VoiceServer, HealthCheckResult, MetricsData, MetricsEntry, MetricsCache };
+export { VoiceServer, HealthCheckResult, VoiceServerOptions };